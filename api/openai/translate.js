@@ -1,9 +1,17 @@
 // Vercel API function for OpenAI translation
+import { Readable } from 'stream';
+import {
+  applyCors,
+  guard,
+  sendProxyError,
+  upstreamError,
+  validateChatRequest,
+  estimateChatCost
+} from '../../server/guard.js';
+
 export default async function handler(req, res) {
-  // Set CORS headers
-  res.setHeader('Access-Control-Allow-Origin', '*');
-  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  // CORS only for origins listed in PROXY_ALLOWED_ORIGINS
+  applyCors(req, res);
 
   // Handle CORS preflight
   if (req.method === 'OPTIONS') {
@@ -16,26 +24,56 @@ export default async function handler(req, res) {
 
   try {
     console.log('🔄 Translation request received');
+
+    guard.checkRate(req);
+    const body = validateChatRequest(req.body);
+    guard.chargeSpend(req, estimateChatCost(body));
     
+    // Stop the upstream request when the client goes away
+    const upstream = new AbortController();
+    res.on('close', () => {
+      if (!res.writableFinished) upstream.abort();
+    });
+
     const response = await fetch('https://api.openai.com/v1/chat/completions', {
       method: 'POST',
       headers: {
         'Authorization': `Bearer ${process.env.OPENAI_API_KEY}`,
         'Content-Type': 'application/json',
       },
-      body: JSON.stringify(req.body)
+      body: JSON.stringify(body),
+      signal: upstream.signal
     });
 
+    // Streamed completions: pass OpenAI's server-sent events straight through
+    if (body.stream && response.ok) {
+      console.log('📡 Streaming translation response');
+      res.setHeader('Content-Type', 'text/event-stream');
+      res.setHeader('Cache-Control', 'no-cache');
+      res.setHeader('Connection', 'keep-alive');
+
+      await new Promise((resolve, reject) => {
+        Readable.fromWeb(response.body)
+          .on('error', reject)
+          .pipe(res)
+          .on('finish', resolve);
+      });
+      return;
+    }
+
     const data = await response.json();
     
     if (!response.ok) {
-      throw new Error(`OpenAI API error: ${data.error?.message || 'Unknown error'}`);
+      throw upstreamError(response.status, data);
     }
 
     console.log('✅ Translation successful');
     res.json(data);
   } catch (error) {
     console.error('❌ Translation error:', error.message);
-    res.status(500).json({ error: error.message });
+    if (res.headersSent) {
+      return res.end();
+    }
+    sendProxyError(res, error);
   }
 }
\ No newline at end of file
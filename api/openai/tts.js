@@ -1,9 +1,16 @@
 // Vercel API function for OpenAI TTS
+import {
+  applyCors,
+  guard,
+  sendProxyError,
+  upstreamError,
+  validateSpeechRequest,
+  estimateSpeechCost
+} from '../../server/guard.js';
+
 export default async function handler(req, res) {
-  // Set CORS headers
-  res.setHeader('Access-Control-Allow-Origin', '*');
-  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  // CORS only for origins listed in PROXY_ALLOWED_ORIGINS
+  applyCors(req, res);
 
   // Handle CORS preflight
   if (req.method === 'OPTIONS') {
@@ -16,6 +23,10 @@ export default async function handler(req, res) {
 
   try {
     console.log('🔄 TTS request received');
+
+    guard.checkRate(req);
+    const body = validateSpeechRequest(req.body);
+    guard.chargeSpend(req, estimateSpeechCost(body));
     
     const response = await fetch('https://api.openai.com/v1/audio/speech', {
       method: 'POST',
@@ -23,12 +34,12 @@ export default async function handler(req, res) {
         'Authorization': `Bearer ${process.env.OPENAI_API_KEY}`,
         'Content-Type': 'application/json',
       },
-      body: JSON.stringify(req.body)
+      body: JSON.stringify(body)
     });
 
     if (!response.ok) {
       const errorData = await response.json();
-      throw new Error(`OpenAI API error: ${errorData.error?.message || 'Unknown error'}`);
+      throw upstreamError(response.status, errorData);
     }
 
     console.log('✅ TTS successful');
@@ -41,6 +52,6 @@ export default async function handler(req, res) {
     res.end(Buffer.from(audioBuffer));
   } catch (error) {
     console.error('❌ TTS error:', error.message);
-    res.status(500).json({ error: error.message });
+    sendProxyError(res, error);
   }
 }
\ No newline at end of file
@@ -1,10 +1,18 @@
 // Vercel API function for OpenAI Whisper transcription
+import {
+  LIMITS,
+  ProxyError,
+  applyCors,
+  guard,
+  sendProxyError,
+  upstreamError,
+  validateTranscriptionRequest,
+  estimateTranscriptionCost
+} from '../../server/guard.js';
 
 export default async function handler(req, res) {
-  // Set CORS headers
-  res.setHeader('Access-Control-Allow-Origin', '*');
-  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  // CORS only for origins listed in PROXY_ALLOWED_ORIGINS
+  applyCors(req, res);
 
   // Handle CORS preflight
   if (req.method === 'OPTIONS') {
@@ -17,6 +25,8 @@ export default async function handler(req, res) {
 
   try {
     console.log('🔄 Whisper transcription request received');
+
+    guard.checkRate(req);
     
     // Parse the multipart form data
     const contentType = req.headers['content-type'] || '';
@@ -31,8 +41,14 @@ export default async function handler(req, res) {
     }
 
     // Parse multipart data manually (Vercel doesn't support multer)
+    // Stop reading as soon as the upload is over the size limit
     const chunks = [];
+    let received = 0;
     for await (const chunk of req) {
+      received += chunk.length;
+      if (received > LIMITS.transcription.maxBytes) {
+        throw new ProxyError(413, 'API_INVALID_REQUEST', `Audio file exceeds ${LIMITS.transcription.maxBytes} bytes`);
+      }
       chunks.push(chunk);
     }
     const buffer = Buffer.concat(chunks);
@@ -57,6 +73,7 @@ export default async function handler(req, res) {
     // Find the file part
     let fileData = null;
     let fileName = 'audio.webm';
+    let fileType;
     
     for (const part of parts) {
       const headerEndIndex = part.indexOf('\r\n\r\n');
@@ -67,6 +84,7 @@ export default async function handler(req, res) {
         fileData = part.slice(headerEndIndex + 4, -2); // Remove \r\n at end
         const fileNameMatch = headers.match(/filename="([^"]+)"/);
         if (fileNameMatch) fileName = fileNameMatch[1];
+        fileType = headers.match(/Content-Type:\s*([^\r\n;]+)/i)?.[1];
         break;
       }
     }
@@ -75,6 +93,9 @@ export default async function handler(req, res) {
       return res.status(400).json({ error: 'No audio file found in request' });
     }
 
+    validateTranscriptionRequest({ size: fileData.length, mimetype: fileType });
+    guard.chargeSpend(req, estimateTranscriptionCost(fileData.length));
+
     // Create FormData for OpenAI
     const formData = new FormData();
     const blob = new Blob([fileData], { type: 'audio/webm' });
@@ -99,7 +120,7 @@ export default async function handler(req, res) {
 
     if (!response.ok) {
       const error = await response.json();
-      throw new Error(`OpenAI API error: ${error.error?.message || 'Unknown error'}`);
+      throw upstreamError(response.status, error);
     }
 
     const result = await response.json();
@@ -108,7 +129,7 @@ export default async function handler(req, res) {
     res.json(result);
   } catch (error) {
     console.error('❌ Whisper error:', error.message);
-    res.status(500).json({ error: error.message });
+    sendProxyError(res, error);
   }
 }
 
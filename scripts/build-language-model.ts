@@ -0,0 +1,62 @@
+/**
+ * Build the bundled text language-identification model
+ *
+ * Reads scripts/language-model/corpus/<code>.txt (one file per language code
+ * in the language registry) and writes src/lib/languages/language-model.json
+ * with the most frequent character n-grams and their log-probabilities.
+ *
+ * Run with: npm run build:language-model
+ */
+
+import { readFileSync, readdirSync, writeFileSync } from 'fs'
+import { join, dirname, basename } from 'path'
+import { fileURLToPath } from 'url'
+import { extractNgrams, MAX_NGRAM, type LanguageModel } from '../src/lib/languages/LanguageIdentifier'
+import { LanguageRegistry } from '../src/lib/languages/LanguageRegistry'
+
+const ROOT = join(dirname(fileURLToPath(import.meta.url)), '..')
+const CORPUS_DIR = join(ROOT, 'scripts/language-model/corpus')
+const OUTPUT = join(ROOT, 'src/lib/languages/language-model.json')
+
+// Keep the bundle small: only the most frequent n-grams per order
+const TOP_NGRAMS_PER_ORDER = [100, 300, 400]
+
+const round = (value: number) => Math.round(value * 100) / 100
+
+const model: LanguageModel = { version: 1, maxNgram: MAX_NGRAM, floor: [], languages: {} }
+const largestTotals = new Array(MAX_NGRAM).fill(0)
+
+for (const file of readdirSync(CORPUS_DIR).filter(name => name.endsWith('.txt')).sort()) {
+  const code = basename(file, '.txt')
+  if (!LanguageRegistry.isLanguageCode(code)) {
+    throw new Error(`Corpus file ${file} does not match a language registry code`)
+  }
+
+  const counts = Array.from({ length: MAX_NGRAM }, () => new Map<string, number>())
+  for (const gram of extractNgrams(readFileSync(join(CORPUS_DIR, file), 'utf8'))) {
+    const bucket = counts[gram.length - 1]
+    bucket.set(gram, (bucket.get(gram) ?? 0) + 1)
+  }
+
+  const ngrams: Record<string, number> = {}
+  counts.forEach((bucket, order) => {
+    const total = [...bucket.values()].reduce((sum, count) => sum + count, 0)
+    largestTotals[order] = Math.max(largestTotals[order], total)
+
+    const top = [...bucket.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, TOP_NGRAMS_PER_ORDER[order])
+    for (const [gram, count] of top) {
+      ngrams[gram] = round(Math.log(count / total))
+    }
+  })
+
+  model.languages[code] = { ngrams }
+  console.log(`✅ ${code}: ${Object.keys(ngrams).length} n-grams`)
+}
+
+// One floor for every language, below any n-gram actually seen in training
+model.floor = largestTotals.map(total => round(Math.log(0.5 / total)))
+
+writeFileSync(OUTPUT, JSON.stringify(model) + '\n')
+console.log(`📦 Wrote ${OUTPUT}`)
@@ -0,0 +1,396 @@
+// Request guard shared by the Express proxy (server/proxy.js) and the Vercel
+// functions (api/openai/*.js).
+//
+// Every request is checked in this order before it reaches OpenAI:
+//   1. per-client (IP) and per-session token buckets
+//   2. payload validation against an allow-list of models and parameters
+//   3. daily spend caps per client, per session and overall
+//
+// Rejections are structured JSON: { error, code, scope?, retryAfter? }. `code`
+// matches the client's ErrorCode values (src/lib/errors/ErrorCodes.ts).
+//
+// State lives in memory, so limits are per server instance. That is enough to
+// stop a single client burning the key; a shared store is needed to enforce
+// them exactly across serverless instances.
+
+const numberFromEnv = (name, fallback) => {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+export const LIMITS = {
+  chat: {
+    models: ['gpt-4o-mini'],
+    maxMessages: 20,
+    maxCharacters: 32000,   // All message contents together
+    maxTokens: 1000,
+    maxTemperature: 1,
+  },
+  speech: {
+    models: ['tts-1'],
+    voices: ['alloy', 'echo', 'fable', 'onyx', 'nova', 'shimmer'],
+    formats: ['mp3', 'opus', 'aac'],
+    maxCharacters: 4096,
+  },
+  transcription: {
+    maxBytes: numberFromEnv('PROXY_MAX_AUDIO_BYTES', 25 * 1024 * 1024), // OpenAI's own upload limit
+    maxPromptCharacters: 1000,
+  },
+  rate: {
+    client: { capacity: numberFromEnv('PROXY_CLIENT_BURST', 30), refillPerSecond: numberFromEnv('PROXY_CLIENT_PER_SECOND', 0.5) },
+    session: { capacity: numberFromEnv('PROXY_SESSION_BURST', 60), refillPerSecond: numberFromEnv('PROXY_SESSION_PER_SECOND', 1) },
+  },
+  dailySpendUsd: {
+    client: numberFromEnv('PROXY_CLIENT_DAILY_USD', 1),
+    session: numberFromEnv('PROXY_SESSION_DAILY_USD', 2),
+    global: numberFromEnv('PROXY_GLOBAL_DAILY_USD', 20),
+  },
+};
+
+// Same prices the client logs with (src/lib/openai.ts API_COSTS)
+const PRICES = {
+  chatInputPer1K: 0.00015,
+  chatOutputPer1K: 0.0006,
+  whisperPerMinute: 0.006,
+  ttsPer1KCharacters: 0.015,
+};
+
+const AUDIO_BYTES_PER_SECOND = 4000; // ~32 kbps Opus; over-estimates compressed speech
+
+export class ProxyError extends Error {
+  constructor(status, code, message, details = {}) {
+    super(message);
+    this.name = 'ProxyError';
+    this.status = status;
+    this.code = code;
+    this.details = details; // scope, retryAfter (seconds)
+  }
+}
+
+const invalid = (message) => new ProxyError(400, 'API_INVALID_REQUEST', message);
+
+/**
+ * Write a rejection in the structured format the client parses
+ */
+export function sendProxyError(res, error) {
+  if (!(error instanceof ProxyError)) {
+    return res.status(500).json({ error: error.message });
+  }
+
+  console.warn(`🛑 Proxy rejected request: ${error.code} - ${error.message}`);
+  if (error.details.retryAfter) {
+    res.setHeader('Retry-After', String(error.details.retryAfter));
+  }
+  return res.status(error.status).json({ error: error.message, code: error.code, ...error.details });
+}
+
+/**
+ * Map an OpenAI error response onto a proxy error
+ */
+export function upstreamError(status, data) {
+  const message = `OpenAI API error: ${data?.error?.message || 'Unknown error'}`;
+  return status === 429
+    ? new ProxyError(429, 'API_RATE_LIMIT', message, { scope: 'upstream' })
+    : new Error(message);
+}
+
+// --- CORS -------------------------------------------------------------------
+
+/**
+ * Allow cross-origin calls only from origins listed in PROXY_ALLOWED_ORIGINS
+ * (comma separated). The app itself calls the proxy same-origin.
+ */
+export function applyCors(req, res) {
+  const allowed = (process.env.PROXY_ALLOWED_ORIGINS || '').split(',').map(origin => origin.trim()).filter(Boolean);
+  const origin = req.headers.origin;
+
+  if (origin && allowed.includes(origin)) {
+    res.setHeader('Access-Control-Allow-Origin', origin);
+    res.setHeader('Vary', 'Origin');
+  }
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-Session-Id');
+}
+
+// --- Identity ---------------------------------------------------------------
+
+// X-Forwarded-For is whatever the client sent unless a proxy in front of us
+// sets it. Set PROXY_TRUST_FORWARDED=1 behind one; Vercel sets it itself
+const trustForwarded = () => process.env.PROXY_TRUST_FORWARDED === '1' || !!process.env.VERCEL;
+
+/**
+ * Address the per-client limits are keyed on. Behind a trusted proxy that is
+ * the right-most X-Forwarded-For hop, the one the proxy itself appended
+ */
+export function getClientKey(req) {
+  if (trustForwarded()) {
+    const forwarded = req.headers['x-forwarded-for'];
+    const hops = (Array.isArray(forwarded) ? forwarded.join(',') : forwarded || '').split(',');
+    const ip = hops[hops.length - 1].trim();
+    if (ip) return ip;
+  }
+  return req.socket?.remoteAddress || 'unknown';
+}
+
+/**
+ * Session the request belongs to (sent by the client as X-Session-Id), if any
+ */
+export function getSessionKey(req) {
+  const sessionId = req.headers['x-session-id'];
+  return typeof sessionId === 'string' && /^[A-Za-z0-9-]{1,64}$/.test(sessionId) ? sessionId : null;
+}
+
+// --- Rate limits ------------------------------------------------------------
+
+class TokenBucketLimiter {
+  constructor({ capacity, refillPerSecond }) {
+    this.capacity = capacity;
+    this.refillPerSecond = refillPerSecond;
+    this.buckets = new Map();
+  }
+
+  /**
+   * Take one token. Returns seconds until a token is available when empty
+   */
+  take(key, now = Date.now()) {
+    const bucket = this.buckets.get(key) || { tokens: this.capacity, updatedAt: now };
+    bucket.tokens = Math.min(this.capacity, bucket.tokens + ((now - bucket.updatedAt) / 1000) * this.refillPerSecond);
+    bucket.updatedAt = now;
+    this.buckets.set(key, bucket);
+
+    if (bucket.tokens >= 1) {
+      bucket.tokens -= 1;
+      return { allowed: true };
+    }
+    return { allowed: false, retryAfter: Math.ceil((1 - bucket.tokens) / this.refillPerSecond) };
+  }
+
+  // Full buckets carry no information; drop them so the map doesn't grow forever
+  prune(now = Date.now()) {
+    for (const [key, bucket] of this.buckets) {
+      if (bucket.tokens + ((now - bucket.updatedAt) / 1000) * this.refillPerSecond >= this.capacity) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+}
+
+class DailySpendLedger {
+  constructor() {
+    this.day = null;
+    this.spent = new Map();
+  }
+
+  rollover(now) {
+    const day = new Date(now).toISOString().slice(0, 10);
+    if (day !== this.day) {
+      this.day = day;
+      this.spent.clear();
+    }
+  }
+
+  get(key) {
+    return this.spent.get(key) || 0;
+  }
+
+  add(key, amount) {
+    this.spent.set(key, this.get(key) + amount);
+  }
+}
+
+const secondsUntilUtcMidnight = (now) => {
+  const midnight = new Date(now);
+  midnight.setUTCHours(24, 0, 0, 0);
+  return Math.ceil((midnight.getTime() - now) / 1000);
+};
+
+/**
+ * Rate limit and spend state for one server instance
+ */
+export function createGuard(limits = LIMITS) {
+  const clientBuckets = new TokenBucketLimiter(limits.rate.client);
+  const sessionBuckets = new TokenBucketLimiter(limits.rate.session);
+  const ledger = new DailySpendLedger();
+  let requestCount = 0;
+
+  return {
+    /**
+     * Throttle before doing any work for the request
+     */
+    checkRate(req, now = Date.now()) {
+      if (++requestCount % 500 === 0) {
+        clientBuckets.prune(now);
+        sessionBuckets.prune(now);
+      }
+
+      const clientResult = clientBuckets.take(getClientKey(req), now);
+      if (!clientResult.allowed) {
+        throw new ProxyError(429, 'RATE_LIMITED_USER', 'Too many requests from this client', {
+          scope: 'client', retryAfter: clientResult.retryAfter,
+        });
+      }
+
+      const sessionKey = getSessionKey(req);
+      const sessionResult = sessionKey ? sessionBuckets.take(sessionKey, now) : { allowed: true };
+      if (!sessionResult.allowed) {
+        throw new ProxyError(429, 'RATE_LIMITED_USER', 'Too many requests in this session', {
+          scope: 'session', retryAfter: sessionResult.retryAfter,
+        });
+      }
+    },
+
+    /**
+     * Reserve the request's estimated cost against the daily caps.
+     * The estimate is charged up front because streamed and binary
+     * responses don't report their actual usage to the proxy
+     */
+    chargeSpend(req, estimatedUsd, now = Date.now()) {
+      ledger.rollover(now);
+
+      const sessionKey = getSessionKey(req);
+      const scopes = [
+        ['client', `client:${getClientKey(req)}`, limits.dailySpendUsd.client],
+        ...(sessionKey ? [['session', `session:${sessionKey}`, limits.dailySpendUsd.session]] : []),
+        ['global', 'global', limits.dailySpendUsd.global],
+      ];
+
+      for (const [scope, key, cap] of scopes) {
+        if (ledger.get(key) + estimatedUsd > cap) {
+          throw new ProxyError(429, 'API_RATE_LIMIT', `Daily ${scope} usage limit reached`, {
+            scope, retryAfter: secondsUntilUtcMidnight(now),
+          });
+        }
+      }
+      for (const [, key] of scopes) {
+        ledger.add(key, estimatedUsd);
+      }
+    },
+  };
+}
+
+// --- Validation -------------------------------------------------------------
+
+const CHAT_KEYS = ['model', 'messages', 'temperature', 'max_tokens', 'stream', 'stream_options'];
+const SPEECH_KEYS = ['model', 'input', 'voice', 'response_format', 'speed'];
+const ROLES = ['system', 'user', 'assistant'];
+
+const rejectUnknownKeys = (body, allowed) => {
+  const unknown = Object.keys(body).filter(key => !allowed.includes(key));
+  if (unknown.length > 0) {
+    throw invalid(`Unsupported parameters: ${unknown.join(', ')}`);
+  }
+};
+
+const isPlainObject = (value) => !!value && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Validate a chat completion body. Returns the body to forward, with
+ * max_tokens always set so the cost estimate holds
+ */
+export function validateChatRequest(body, limits = LIMITS.chat) {
+  if (!isPlainObject(body)) throw invalid('Request body must be a JSON object');
+  rejectUnknownKeys(body, CHAT_KEYS);
+
+  if (!limits.models.includes(body.model)) {
+    throw invalid(`Model not allowed: ${body.model}`);
+  }
+
+  const { messages } = body;
+  if (!Array.isArray(messages) || messages.length === 0 || messages.length > limits.maxMessages) {
+    throw invalid(`messages must contain 1-${limits.maxMessages} entries`);
+  }
+  let characters = 0;
+  for (const message of messages) {
+    if (!isPlainObject(message) || !ROLES.includes(message.role) || typeof message.content !== 'string') {
+      throw invalid('Each message needs a role (system, user, assistant) and string content');
+    }
+    rejectUnknownKeys(message, ['role', 'content']);
+    characters += message.content.length;
+  }
+  if (characters > limits.maxCharacters) {
+    throw new ProxyError(413, 'API_INVALID_REQUEST', `Messages exceed ${limits.maxCharacters} characters`);
+  }
+
+  if (body.temperature !== undefined &&
+      (typeof body.temperature !== 'number' || body.temperature < 0 || body.temperature > limits.maxTemperature)) {
+    throw invalid(`temperature must be between 0 and ${limits.maxTemperature}`);
+  }
+  if (body.max_tokens !== undefined &&
+      (!Number.isInteger(body.max_tokens) || body.max_tokens < 1 || body.max_tokens > limits.maxTokens)) {
+    throw invalid(`max_tokens must be between 1 and ${limits.maxTokens}`);
+  }
+  if (body.stream !== undefined && typeof body.stream !== 'boolean') {
+    throw invalid('stream must be a boolean');
+  }
+  if (body.stream_options !== undefined) {
+    if (!isPlainObject(body.stream_options) || typeof body.stream_options.include_usage !== 'boolean') {
+      throw invalid('stream_options only supports include_usage');
+    }
+    rejectUnknownKeys(body.stream_options, ['include_usage']);
+  }
+
+  return { ...body, max_tokens: body.max_tokens ?? limits.maxTokens };
+}
+
+export function validateSpeechRequest(body, limits = LIMITS.speech) {
+  if (!isPlainObject(body)) throw invalid('Request body must be a JSON object');
+  rejectUnknownKeys(body, SPEECH_KEYS);
+
+  if (!limits.models.includes(body.model)) {
+    throw invalid(`Model not allowed: ${body.model}`);
+  }
+  if (typeof body.input !== 'string' || body.input.trim().length === 0) {
+    throw invalid('input must be a non-empty string');
+  }
+  if (body.input.length > limits.maxCharacters) {
+    throw new ProxyError(413, 'API_INVALID_REQUEST', `input exceeds ${limits.maxCharacters} characters`);
+  }
+  if (!limits.voices.includes(body.voice)) {
+    throw invalid(`Voice not allowed: ${body.voice}`);
+  }
+  if (body.response_format !== undefined && !limits.formats.includes(body.response_format)) {
+    throw invalid(`response_format not allowed: ${body.response_format}`);
+  }
+  if (body.speed !== undefined && (typeof body.speed !== 'number' || body.speed < 0.25 || body.speed > 4)) {
+    throw invalid('speed must be between 0.25 and 4');
+  }
+
+  return body;
+}
+
+/**
+ * Validate an uploaded audio file and the optional Whisper fields
+ */
+export function validateTranscriptionRequest({ size, mimetype, language, prompt }, limits = LIMITS.transcription) {
+  if (!size) throw invalid('No audio file provided');
+  if (size > limits.maxBytes) {
+    throw new ProxyError(413, 'API_INVALID_REQUEST', `Audio file exceeds ${limits.maxBytes} bytes`);
+  }
+  if (mimetype && !/^(audio\/|video\/(webm|mp4)|application\/octet-stream)/.test(mimetype)) {
+    throw invalid(`Unsupported audio type: ${mimetype}`);
+  }
+  if (language !== undefined && !/^[a-z]{2}$/.test(language)) {
+    throw invalid('language must be an ISO-639-1 code');
+  }
+  if (prompt !== undefined && (typeof prompt !== 'string' || prompt.length > limits.maxPromptCharacters)) {
+    throw invalid(`prompt must be at most ${limits.maxPromptCharacters} characters`);
+  }
+}
+
+// --- Cost estimates (USD) ---------------------------------------------------
+
+export function estimateChatCost(body) {
+  const inputTokens = Math.ceil(body.messages.reduce((sum, message) => sum + message.content.length, 0) / 4);
+  return (inputTokens / 1000) * PRICES.chatInputPer1K + (body.max_tokens / 1000) * PRICES.chatOutputPer1K;
+}
+
+export function estimateSpeechCost(body) {
+  return (body.input.length / 1000) * PRICES.ttsPer1KCharacters;
+}
+
+export function estimateTranscriptionCost(bytes) {
+  return Math.ceil(bytes / AUDIO_BYTES_PER_SECOND / 60) * PRICES.whisperPerMinute;
+}
+
+// One guard per server instance, shared by every endpoint
+export const guard = createGuard();
@@ -3,21 +3,46 @@ import cors from 'cors';
 import multer from 'multer';
 import fs from 'fs';
 import path from 'path';
+import { Readable } from 'stream';
 import dotenv from 'dotenv';
+import {
+  LIMITS,
+  ProxyError,
+  guard,
+  sendProxyError,
+  upstreamError,
+  validateChatRequest,
+  validateSpeechRequest,
+  validateTranscriptionRequest,
+  estimateChatCost,
+  estimateSpeechCost,
+  estimateTranscriptionCost
+} from './guard.js';
 
 // Load environment variables
 dotenv.config();
 
 const app = express();
-const upload = multer({ dest: 'uploads/' });
+const upload = multer({ dest: 'uploads/', limits: { fileSize: LIMITS.transcription.maxBytes, files: 1 } });
 
 // CORS setup for development
 app.use(cors({
   origin: ['http://127.0.0.1:5173', 'http://127.0.0.1:5176', 'http://localhost:5173', 'http://localhost:5176'],
-  credentials: true
+  credentials: true,
+  allowedHeaders: ['Content-Type', 'X-Session-Id']
 }));
 
-app.use(express.json());
+app.use(express.json({ limit: '256kb' }));
+
+// Every OpenAI call is throttled before any parsing or forwarding
+app.use('/api/openai', (req, res, next) => {
+  try {
+    guard.checkRate(req);
+    next();
+  } catch (error) {
+    sendProxyError(res, error);
+  }
+});
 
 // Get OpenAI API key from environment (server-side only)
 const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
@@ -33,38 +58,84 @@ console.log('✅ OpenAI API key loaded from environment');
 app.post('/api/openai/translate', async (req, res) => {
   try {
     console.log('🔄 Translation request received');
+
+    const body = validateChatRequest(req.body);
+    guard.chargeSpend(req, estimateChatCost(body));
     
+    // Stop the upstream request when the client goes away
+    const upstream = new AbortController();
+    res.on('close', () => {
+      if (!res.writableFinished) upstream.abort();
+    });
+
     const response = await fetch('https://api.openai.com/v1/chat/completions', {
       method: 'POST',
       headers: {
         'Authorization': `Bearer ${OPENAI_API_KEY}`,
         'Content-Type': 'application/json',
       },
-      body: JSON.stringify(req.body)
+      body: JSON.stringify(body),
+      signal: upstream.signal
     });
 
+    // Streamed completions: pass OpenAI's server-sent events straight through
+    if (body.stream && response.ok) {
+      console.log('📡 Streaming translation response');
+      res.setHeader('Content-Type', 'text/event-stream');
+      res.setHeader('Cache-Control', 'no-cache');
+      res.setHeader('Connection', 'keep-alive');
+      res.flushHeaders();
+
+      await new Promise((resolve, reject) => {
+        Readable.fromWeb(response.body)
+          .on('error', reject)
+          .pipe(res)
+          .on('finish', resolve);
+      });
+      return;
+    }
+
     const data = await response.json();
     
     if (!response.ok) {
-      throw new Error(`OpenAI API error: ${data.error?.message || 'Unknown error'}`);
+      throw upstreamError(response.status, data);
     }
 
     console.log('✅ Translation successful');
     res.json(data);
   } catch (error) {
     console.error('❌ Translation error:', error.message);
-    res.status(500).json({ error: error.message });
+    if (res.headersSent) {
+      return res.end();
+    }
+    sendProxyError(res, error);
   }
 });
 
 // Whisper transcription endpoint (file upload)
-app.post('/api/openai/whisper', upload.single('file'), async (req, res) => {
+const receiveAudio = (req, res, next) => {
+  upload.single('file')(req, res, (error) => {
+    if (error?.code === 'LIMIT_FILE_SIZE') {
+      return sendProxyError(res, new ProxyError(413, 'API_INVALID_REQUEST', `Audio file exceeds ${LIMITS.transcription.maxBytes} bytes`));
+    }
+    if (error) {
+      return sendProxyError(res, new ProxyError(400, 'API_INVALID_REQUEST', error.message));
+    }
+    next();
+  });
+};
+
+app.post('/api/openai/whisper', receiveAudio, async (req, res) => {
   try {
     console.log('🔄 Whisper transcription request received');
     
-    if (!req.file) {
-      return res.status(400).json({ error: 'No audio file provided' });
-    }
+    validateTranscriptionRequest({
+      size: req.file?.size,
+      mimetype: req.file?.mimetype,
+      language: req.body.language,
+      prompt: req.body.prompt
+    });
+    guard.chargeSpend(req, estimateTranscriptionCost(req.file.size));
 
     const formData = new FormData();
     const fileBuffer = fs.readFileSync(req.file.path);
@@ -97,7 +168,7 @@ app.post('/api/openai/whisper', upload.single('file'), async (req, res) => {
     fs.unlinkSync(req.file.path);
     
     if (!response.ok) {
-      throw new Error(`OpenAI API error: ${data.error?.message || 'Unknown error'}`);
+      throw upstreamError(response.status, data);
     }
 
     console.log('✅ Whisper transcription successful');
@@ -110,7 +181,7 @@ app.post('/api/openai/whisper', upload.single('file'), async (req, res) => {
       fs.unlinkSync(req.file.path);
     }
     
-    res.status(500).json({ error: error.message });
+    sendProxyError(res, error);
   }
 });
 
@@ -118,6 +189,9 @@ app.post('/api/openai/whisper', upload.single('file'), async (req, res) => {
 app.post('/api/openai/tts', async (req, res) => {
   try {
     console.log('🔄 TTS request received');
+
+    const body = validateSpeechRequest(req.body);
+    guard.chargeSpend(req, estimateSpeechCost(body));
     
     const response = await fetch('https://api.openai.com/v1/audio/speech', {
       method: 'POST',
@@ -125,12 +199,12 @@ app.post('/api/openai/tts', async (req, res) => {
         'Authorization': `Bearer ${OPENAI_API_KEY}`,
         'Content-Type': 'application/json',
       },
-      body: JSON.stringify(req.body)
+      body: JSON.stringify(body)
     });
 
     if (!response.ok) {
       const errorData = await response.json();
-      throw new Error(`OpenAI API error: ${errorData.error?.message || 'Unknown error'}`);
+      throw upstreamError(response.status, errorData);
     }
 
     console.log('✅ TTS successful');
@@ -150,8 +224,19 @@ app.post('/api/openai/tts', async (req, res) => {
     }
   } catch (error) {
     console.error('❌ TTS error:', error.message);
-    res.status(500).json({ error: error.message });
+    sendProxyError(res, error);
+  }
+});
+
+// Oversized or malformed JSON bodies from express.json()
+app.use((error, req, res, next) => {
+  if (error.type === 'entity.too.large') {
+    return sendProxyError(res, new ProxyError(413, 'API_INVALID_REQUEST', 'Request body too large'));
+  }
+  if (error.type === 'entity.parse.failed') {
+    return sendProxyError(res, new ProxyError(400, 'API_INVALID_REQUEST', 'Malformed JSON body'));
   }
+  next(error);
 });
 
 // Health check endpoint
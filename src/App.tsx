@@ -41,6 +41,7 @@ import { pwaManager } from '@/lib/pwa/PWAManager'
 import { UserManager } from '@/lib/user/UserManager'
 import { MessageQueueService } from '@/services/queues/MessageQueueService'
 import SoloTranslator from '@/features/translator/solo/SoloTranslator'
+import { useBudgetAlerts } from '@/hooks/useBudgetAlerts'
 
 // Solo translator with injected MessageQueueService
 function SoloTranslatorWrapper() {
@@ -48,6 +49,12 @@ function SoloTranslatorWrapper() {
   return <SoloTranslator messageQueueService={messageQueueService} />
 }
 
+// Watches API spending against the user's budgets (needs ToastProvider)
+function BudgetAlerts() {
+  useBudgetAlerts()
+  return null
+}
+
 // Loading fallback component for lazy loaded routes
 function LoadingFallback() {
   return (
@@ -120,6 +127,7 @@ function App() {
       <ThemeProvider>
         <TranslationProvider>
           <ToastProvider>
+            <BudgetAlerts />
             <ViewportToggle>
               <BrowserRouter>
               <Suspense fallback={<LoadingFallback />}>
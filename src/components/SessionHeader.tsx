@@ -1,14 +1,18 @@
-import { Users, Wifi, WifiOff, RotateCcw } from 'lucide-react'
+import { Wifi, WifiOff, RotateCcw } from 'lucide-react'
 import { useTranslation } from '@/lib/i18n/useTranslation'
+import { ParticipantRoster } from '@/features/translator/shared/components/ParticipantRoster'
+import type { SessionParticipant } from '@/services/session/types'
 import type { ConnectionStatus } from '@/types/database'
 
 interface SessionHeaderProps {
   code: string
   status: ConnectionStatus
   partnerOnline: boolean
+  participants?: SessionParticipant[]
+  currentUserId?: string
 }
 
-export function SessionHeader({ code, status, partnerOnline }: SessionHeaderProps) {
+export function SessionHeader({ code, status, partnerOnline, participants = [], currentUserId = '' }: SessionHeaderProps) {
   const { t } = useTranslation()
   
   const getStatusIcon = () => {
@@ -62,16 +66,12 @@ export function SessionHeader({ code, status, partnerOnline }: SessionHeaderProp
           </div>
         </div>
         
-        {/* Partner Status */}
-        <div className="flex items-center gap-1.5">
-          <Users className="h-3 w-3 text-gray-500" />
-          <span className={`text-xs ${partnerOnline ? 'text-green-600' : 'text-gray-500'}`}>
-            {partnerOnline 
-              ? t('session.partnerOnline', 'Partner Online')
-              : t('session.partnerOffline', 'Waiting for partner...')
-            }
-          </span>
-        </div>
+        {/* Participants */}
+        <ParticipantRoster
+          participants={participants}
+          currentUserId={currentUserId}
+          partnerOnline={partnerOnline}
+        />
       </div>
     </div>
   )
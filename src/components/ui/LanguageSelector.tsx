@@ -1,7 +1,8 @@
 import { Check } from 'lucide-react'
 import { useState } from 'react'
 import { useTranslation } from '@/lib/i18n/useTranslation'
-import type { Language } from '@/lib/i18n/translations'
+import { translations, type Language } from '@/lib/i18n/translations'
+import { LanguageRegistry } from '@/lib/languages/LanguageRegistry'
 import { Button } from './Button'
 import { Card } from './Card'
 
@@ -9,13 +10,13 @@ export function LanguageSelector() {
   const { t, language, setLanguage } = useTranslation()
   const [isOpen, setIsOpen] = useState(false)
 
-  const languages: { code: Language; name: string; native: string; flag: string }[] = [
-    { code: 'en', name: 'English', native: 'English', flag: '🇬🇧' },
-    { code: 'es', name: 'Spanish', native: 'Español', flag: '🇪🇸' },
-    { code: 'pt', name: 'Portuguese', native: 'Português', flag: '🇵🇹' },
-    { code: 'fr', name: 'French', native: 'Français', flag: '🇫🇷' },
-    { code: 'de', name: 'German', native: 'Deutsch', flag: '🇩🇪' },
-  ]
+  // UI can only switch to languages that have a translation bundle
+  const languages = (Object.keys(translations) as Language[]).flatMap(code => {
+    const definition = LanguageRegistry.getLanguage(code)
+    return definition
+      ? [{ code, name: definition.name, native: definition.nativeName, flag: definition.flag }]
+      : []
+  })
 
   const currentLanguage = languages.find(lang => lang.code === language)
 
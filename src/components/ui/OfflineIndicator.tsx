@@ -2,12 +2,15 @@
  * OfflineIndicator - Network status monitoring component for Phase 8
  * Displays connection status and provides recovery guidance when offline
  * Integrates with network quality detection from Phase 5
+ * Also shows how many session changes are still waiting to sync (SyncQueueStore)
  */
 
 import React, { useState, useEffect } from 'react'
-import { Wifi, WifiOff, Signal, SignalLow, SignalMedium, SignalHigh, RefreshCw } from 'lucide-react'
+import { Wifi, WifiOff, Signal, SignalLow, SignalMedium, SignalHigh, RefreshCw, CloudUpload } from 'lucide-react'
 import { Button } from './Button'
 import { Card } from './Card'
+import { useTranslation } from '@/lib/i18n/useTranslation'
+import { usePendingChanges } from '@/hooks/usePendingChanges'
 
 export type NetworkQuality = 'fast' | 'slow' | 'very-slow' | 'offline'
 export type ConnectionType = 'wifi' | 'cellular' | 'ethernet' | 'unknown'
@@ -163,7 +166,9 @@ export function OfflineIndicator({
   className = '',
   onRetry
 }: OfflineIndicatorProps) {
+  const { t } = useTranslation()
   const networkStatus = useNetworkStatus()
+  const pendingChanges = usePendingChanges()
   const [isVisible, setIsVisible] = useState(true)
   const [isRetrying, setIsRetrying] = useState(false)
 
@@ -182,7 +187,8 @@ export function OfflineIndicator({
 
   // Show indicator when offline or poor connection
   const shouldShow = !networkStatus.isOnline || 
-                    (showQuality && networkStatus.quality === 'very-slow')
+                    (showQuality && networkStatus.quality === 'very-slow') ||
+                    pendingChanges > 0
 
   if (!shouldShow || !isVisible) return null
 
@@ -282,6 +288,18 @@ export function OfflineIndicator({
     )
   }
 
+  // Render pending changes count
+  const renderPendingChanges = () => {
+    if (pendingChanges === 0) return null
+
+    return (
+      <span className="inline-flex items-center gap-1 text-xs opacity-80" data-testid="pending-changes">
+        <CloudUpload className="w-3 h-3" />
+        {t('session.pendingChanges', { count: String(pendingChanges) })}
+      </span>
+    )
+  }
+
   // Render recovery actions
   const renderRecovery = () => {
     if (!showRecovery || networkStatus.isOnline) return null
@@ -332,6 +350,7 @@ export function OfflineIndicator({
         `}>
           {getNetworkIcon()}
           {showQuality && getStatusMessage()}
+          {renderPendingChanges()}
         </div>
       )
 
@@ -347,6 +366,7 @@ export function OfflineIndicator({
           <div className="flex items-center gap-2">
             {getNetworkIcon()}
             <span>{getStatusMessage()}</span>
+            {renderPendingChanges()}
           </div>
           {renderRecovery()}
         </div>
@@ -388,6 +408,7 @@ export function OfflineIndicator({
                 Some features may not work properly
               </p>
             )}
+            {renderPendingChanges()}
             {renderDetails()}
             {renderRecovery()}
           </div>
@@ -431,6 +452,7 @@ export function OfflineIndicator({
                     Translation and recording features require an internet connection
                   </p>
                 )}
+                {renderPendingChanges()}
                 {renderDetails()}
               </div>
             </div>
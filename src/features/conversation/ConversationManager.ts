@@ -5,6 +5,7 @@
 
 import { supabase } from '@/services/supabase'
 import { UserManager } from '@/lib/user/UserManager'
+import { RecordingStore } from '@/lib/recordings/RecordingStore'
 
 export interface ConversationBookmark {
   id: string
@@ -50,9 +51,26 @@ export interface ConversationExport {
     targetLang: string
     timestamp: string
     speaker: 'user' | 'partner'
+    audio?: {
+      mimeType: string
+      dataUrl: string // Original recording, base64
+    }
   }>
 }
 
+export interface ConversationExportOptions {
+  includeAudio?: boolean // Embed original recordings (JSON only)
+}
+
+function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as string)
+    reader.onerror = () => reject(reader.error)
+    reader.readAsDataURL(blob)
+  })
+}
+
 export class ConversationManager {
   private static instance: ConversationManager
   private bookmarks: ConversationBookmark[] = []
@@ -317,7 +335,11 @@ export class ConversationManager {
   /**
    * Export conversation as JSON
    */
-  async exportConversation(sessionCode: string, format: 'json' | 'txt' | 'csv' = 'json'): Promise<string> {
+  async exportConversation(
+    sessionCode: string,
+    format: 'json' | 'txt' | 'csv' = 'json',
+    options: ConversationExportOptions = {}
+  ): Promise<string> {
     try {
       // Get session details
       const { data: session, error: sessionError } = await supabase
@@ -362,6 +384,10 @@ export class ConversationManager {
         }))
       }
 
+      if (options.includeAudio && format === 'json') {
+        await this.attachRecordings(exportData, session.id)
+      }
+
       let content: string
 
       switch (format) {
@@ -387,6 +413,31 @@ export class ConversationManager {
   /**
    * Format conversation as plain text
    */
+  /**
+   * Embed each message's original recording: the local copy, or the one the
+   * partner shared. Messages without a recording are left as they are
+   */
+  private async attachRecordings(exportData: ConversationExport, sessionId: string): Promise<void> {
+    let attached = 0
+
+    for (const message of exportData.messages) {
+      try {
+        const blob = await RecordingStore.getForExport(sessionId, message.id)
+        if (!blob) continue
+
+        message.audio = {
+          mimeType: blob.type || 'audio/wav',
+          dataUrl: await blobToDataUrl(blob)
+        }
+        attached++
+      } catch (error) {
+        console.warn(`⚠️ [ConversationManager] Could not attach recording for ${message.id}:`, error)
+      }
+    }
+
+    console.log(`🎙️ [ConversationManager] Attached ${attached} recording(s) to export`)
+  }
+
   private formatAsText(data: ConversationExport): string {
     const lines = [
       `Conversation Export: ${data.title}`,
@@ -35,6 +35,7 @@ export function ConversationScreen() {
   const [bookmarks, setBookmarks] = useState<ConversationBookmark[]>([])
   const [stats, setStats] = useState<any>(null)
   const [selectedSessions, setSelectedSessions] = useState<string[]>([])
+  const [includeAudio, setIncludeAudio] = useState(false)
 
   useEffect(() => {
     loadBookmarks()
@@ -105,7 +106,7 @@ export function ConversationScreen() {
   const handleExportConversation = async (sessionCode: string, format: 'json' | 'txt' | 'csv' = 'json') => {
     try {
       announceAction(`Exporting conversation as ${format.toUpperCase()}`)
-      const content = await conversationManager.exportConversation(sessionCode, format)
+      const content = await conversationManager.exportConversation(sessionCode, format, { includeAudio })
       
       // Create and download file
       const blob = new Blob([content], { 
@@ -195,6 +196,19 @@ export function ConversationScreen() {
         </div>
       </Card>
 
+      {/* Export Options */}
+      {activeTab !== 'stats' && (
+        <label className="flex items-center gap-2 px-1 text-sm text-gray-600 dark:text-gray-300">
+          <input
+            type="checkbox"
+            checked={includeAudio}
+            onChange={(e) => setIncludeAudio(e.target.checked)}
+            data-testid="export-include-audio"
+          />
+          Include original recordings in exports (JSON)
+        </label>
+      )}
+
       {/* Search Tab */}
       {activeTab === 'search' && (
         <div id="search-panel" role="tabpanel" className="space-y-4">
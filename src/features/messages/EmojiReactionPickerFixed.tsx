@@ -14,6 +14,8 @@ export interface EmojiReactionPickerProps {
   onEmojiSelect: (emoji: string) => void
   /** Callback when user closes the picker */
   onClose: () => void
+  /** Other long-press menu actions, shown under the emoji bar */
+  actions?: React.ReactNode
 }
 
 /**
@@ -40,7 +42,7 @@ const EXTENDED_EMOJIS = [
  * This version rebuilds the picker with width constraints built into the component
  * logic rather than relying on CSS overrides.
  */
-export function EmojiReactionPickerFixed({ isVisible, position, onEmojiSelect, onClose }: EmojiReactionPickerProps) {
+export function EmojiReactionPickerFixed({ isVisible, position, onEmojiSelect, onClose, actions }: EmojiReactionPickerProps) {
   const [showExtended, setShowExtended] = useState(false)
 
   const handleEmojiClick = (emoji: string) => {
@@ -296,6 +298,21 @@ export function EmojiReactionPickerFixed({ isVisible, position, onEmojiSelect, o
           </div>
         )}
       </div>
+
+      {actions && !showExtended && (
+        <div
+          style={{
+            position: 'fixed',
+            zIndex: 50,
+            left: leftPosition,
+            top: topPosition + 46,
+            width: FIXED_WIDTH
+          }}
+          className="flex justify-center"
+        >
+          {actions}
+        </div>
+      )}
     </>
   )
 }
\ No newline at end of file
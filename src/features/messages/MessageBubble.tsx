@@ -1,12 +1,13 @@
 import { useState, useRef } from 'react'
 import { clsx } from 'clsx'
-import { Check, Clock, AlertCircle, Play, Pause, Loader2, Volume2, Edit3, CheckCheck, ChevronDown, ChevronUp } from 'lucide-react'
+import { Check, Clock, AlertCircle, Pause, Loader2, Volume2, Edit3, CheckCheck, ChevronDown, ChevronUp } from 'lucide-react'
 import type { QueuedMessage } from './MessageQueue'
 import { messageQueue } from './MessageQueue'
-import { SecureTTSService as TTSService } from '../../services/openai/tts-secure'
 import { EmojiReactionPickerFixed as EmojiReactionPicker } from './EmojiReactionPickerFixed'
 import { MessageReactions } from './MessageReactions'
 import { useLongPress } from '../../hooks/useLongPress'
+import { useTTSPlayback } from '../../hooks/useTTSPlayback'
+import { OriginalRecordingPlayer } from './OriginalRecordingPlayer'
 
 export interface MessageBubbleProps {
   message: QueuedMessage
@@ -14,27 +15,23 @@ export interface MessageBubbleProps {
   theme?: 'blue' | 'emerald' | 'purple' | 'rose' | 'amber'
   currentUserId?: string // For session mode
   isSessionMode?: boolean
+  alignBySpeaker?: boolean // Own messages right, everyone else's left, as in session mode
   fontSize?: 'small' | 'medium' | 'large' | 'xl'
 }
 
-type TTSStatus = 'idle' | 'loading' | 'ready' | 'playing' | 'error'
-
 export function MessageBubble({ 
   message, 
   theme = 'blue', 
   currentUserId, 
   isSessionMode = false,
+  alignBySpeaker = false,
   fontSize = 'medium'
 }: MessageBubbleProps) {
   // In solo mode, use a consistent userId for all messages
   const userId = currentUserId || 'single-user'
-  const [ttsStatus, setTtsStatus] = useState<TTSStatus>('idle')
-  const [audioUrl, setAudioUrl] = useState<string | null>(null)
-  const [error, setError] = useState<string | null>(null)
   const [showEmojiPicker, setShowEmojiPicker] = useState(false)
   const [emojiPickerPosition, setEmojiPickerPosition] = useState({ x: 0, y: 0 })
   const [showOriginal, setShowOriginal] = useState(false)
-  const audioRef = useRef<HTMLAudioElement | null>(null)
   const messageRef = useRef<HTMLDivElement | null>(null)
   
   // Determine message alignment and styling based on mode
@@ -43,7 +40,7 @@ export function MessageBubble({
   let isLeftAligned: boolean
   let useOwnMessageStyling: boolean
   
-  if (isSessionMode) {
+  if (isSessionMode || alignBySpeaker) {
     // Session mode: Use chat interface pattern
     // Own messages on right, partner messages on left
     isLeftAligned = !isOwnMessage
@@ -70,89 +67,13 @@ export function MessageBubble({
   const secondaryText = message.translation ? message.original : null
   // const languageLabel = message.translation ? message.target_lang.toUpperCase() : message.original_lang.toUpperCase()
 
-  // TTS Functions
-  const generateTTS = async () => {
-    if (ttsStatus === 'loading') return
-    
-    setTtsStatus('loading')
-    setError(null)
-    
-    try {
-      console.log('🔊 Generating TTS for:', primaryText)
-      
-      const result = await TTSService.synthesize(
-        primaryText,
-        'nova', // Good for multiple languages
-        1.0
-      )
-      
-      if (result.audioBuffer) {
-        const blob = TTSService.createAudioBlob(result.audioBuffer)
-        const url = URL.createObjectURL(blob)
-        setAudioUrl(url)
-        setTtsStatus('ready')
-        console.log('✅ TTS generated successfully')
-        
-        // Auto-play immediately when ready
-        setTimeout(() => {
-          if (url) {
-            playAudioWithUrl(url)
-          }
-        }, 100)
-      } else {
-        throw new Error('No audio data received')
-      }
-    } catch (err) {
-      console.error('TTS generation failed:', err)
-      setError((err as Error).message)
-      setTtsStatus('error')
-    }
-  }
-
-  const playAudioWithUrl = (url: string) => {
-    if (audioRef.current) {
-      audioRef.current.pause()
-      audioRef.current.currentTime = 0
-    }
-    
-    const audio = new Audio(url)
-    audioRef.current = audio
-    
-    audio.onplay = () => setTtsStatus('playing')
-    audio.onended = () => setTtsStatus('ready')
-    audio.onerror = () => {
-      setError('Audio playback failed')
-      setTtsStatus('error')
-    }
-    
-    audio.play().catch(err => {
-      console.error('Audio playback failed:', err)
-      setError('Audio playback failed')
-      setTtsStatus('error')
-    })
-  }
-
-  const playAudio = () => {
-    if (!audioUrl || ttsStatus !== 'ready') return
-    playAudioWithUrl(audioUrl)
-  }
-
-  const pauseAudio = () => {
-    if (audioRef.current) {
-      audioRef.current.pause()
-      setTtsStatus('ready')
-    }
-  }
-
-  const handleTTSClick = () => {
-    if (ttsStatus === 'idle' || ttsStatus === 'error') {
-      generateTTS()
-    } else if (ttsStatus === 'ready') {
-      playAudio()
-    } else if (ttsStatus === 'playing') {
-      pauseAudio()
-    }
-  }
+  // Speech goes through the app-wide playback queue
+  const { status: ttsStatus, speakerName, toggle: handleTTSClick } = useTTSPlayback({
+    messageId: message.id,
+    text: primaryText,
+    language: (message.translation && message.target_lang) || message.original_lang,
+    speakerId: message.user_id
+  })
 
   // Get TTS button content based on status
   const getTTSButton = () => {
@@ -161,8 +82,8 @@ export function MessageBubble({
         return <Loader2 className="h-3 w-3 animate-spin" />
       case 'playing':
         return <Pause className="h-3 w-3" />
-      case 'ready':
-        return <Play className="h-3 w-3" />
+      case 'queued':
+        return <Clock className="h-3 w-3" />
       case 'error':
         return <Volume2 className="h-3 w-3 text-red-400" />
       default:
@@ -341,13 +262,6 @@ export function MessageBubble({
           )}
         </div>
         
-        {/* Error message */}
-        {error && (
-          <div className="mb-2 text-xs text-red-400">
-            {error}
-          </div>
-        )}
-        
         {/* Bottom control area */}
         <div className={clsx(
           'flex items-center justify-between',
@@ -380,6 +294,19 @@ export function MessageBubble({
           
           {/* Right side - Clickable Controls */}
           <div className="flex items-center gap-1">
+            {/* Original recording (voice messages only) */}
+            <OriginalRecordingPlayer
+              messageId={message.id}
+              sessionId={isSessionMode ? message.session_id : undefined}
+            />
+            
+            {/* Who is speaking, from their voice profile */}
+            {speakerName && ttsStatus === 'playing' && (
+              <span className="text-[10px] opacity-75 truncate max-w-[6rem]" data-testid="tts-speaker">
+                {speakerName}
+              </span>
+            )}
+
             {/* TTS Button (always visible) */}
             <button
               onClick={handleTTSClick}
@@ -388,7 +315,7 @@ export function MessageBubble({
                 'p-1 rounded-full transition-all duration-200 hover:bg-black/10 mr-2',
                 {
                   'opacity-50 cursor-not-allowed': ttsStatus === 'loading',
-                  'text-green-400': ttsStatus === 'ready' || ttsStatus === 'playing',
+                  'text-green-400': ttsStatus === 'queued' || ttsStatus === 'playing',
                   'text-red-400': ttsStatus === 'error',
                   'hover:scale-110': ttsStatus !== 'loading'
                 },
@@ -397,8 +324,8 @@ export function MessageBubble({
               title={
                 ttsStatus === 'idle' ? 'Play audio' :
                 ttsStatus === 'loading' ? 'Generating...' :
-                ttsStatus === 'ready' ? 'Play audio' :
-                ttsStatus === 'playing' ? 'Pause audio' :
+                ttsStatus === 'queued' ? 'Queued' :
+                ttsStatus === 'playing' ? 'Stop audio' :
                 'Error - click to retry'
               }
             >
@@ -1,9 +1,16 @@
 import { Message, MessageStatus, MessageWithReactions } from '@/types/database'
+import type { TranslationVerification } from '@/services/pipeline/types'
 
 export interface QueuedMessage extends MessageWithReactions {
   localId: string
   retryCount: number
   displayOrder: number
+  session_id?: string // Set in session mode
+  user_id?: string // Sender, set in session mode
+  sequence_number?: number // Session order of partner messages, set in session mode
+  edited_at?: string | null // Session mode: last edit; earlier versions are in message_revisions
+  verification?: TranslationVerification // Local only: result of the optional verification stage
+  offlineCapture?: boolean // Local only: made offline, waiting in CaptureQueue
 }
 
 export class MessageQueue {
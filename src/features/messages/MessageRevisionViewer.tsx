@@ -0,0 +1,153 @@
+import { useEffect, useState } from 'react'
+import { History, Loader2, X } from 'lucide-react'
+import { useTranslation } from '@/lib/i18n/useTranslation'
+import type { DatabaseMessageRevision } from '@/types/database'
+import type { QueuedMessage } from './MessageQueue'
+import { diffWords } from './revisionDiff'
+
+export interface MessageRevisionViewerProps {
+  message: Pick<QueuedMessage, 'id' | 'original' | 'translation' | 'target_lang' | 'created_at'>
+  currentUserId: string
+  loadRevisions: (messageId: string) => Promise<DatabaseMessageRevision[]>
+  onClose: () => void
+}
+
+interface MessageVersion {
+  original: string
+  translation: string | null
+  writtenAt: string
+  writtenBy?: string // Who edited it in; unset for the first version
+}
+
+/**
+ * Every version of an edited message, newest first. Each edit is shown as a
+ * word diff against the version before it, for the original and the
+ * translation
+ */
+export function MessageRevisionViewer({ message, currentUserId, loadRevisions, onClose }: MessageRevisionViewerProps) {
+  const { t } = useTranslation()
+  const [revisions, setRevisions] = useState<DatabaseMessageRevision[] | null>(null)
+  const [failed, setFailed] = useState(false)
+
+  useEffect(() => {
+    let cancelled = false
+    loadRevisions(message.id)
+      .then(loaded => {
+        if (!cancelled) setRevisions(loaded)
+      })
+      .catch(() => {
+        if (!cancelled) setFailed(true)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [message.id, loadRevisions])
+
+  // Revisions hold replaced versions; the message itself is the latest one
+  const versions: MessageVersion[] = revisions === null ? [] : [
+    ...revisions.map((revision, index) => ({
+      original: revision.original_text,
+      translation: (message.target_lang && revision.translations?.[message.target_lang]) || revision.translated_text,
+      writtenAt: index === 0 ? message.created_at : revisions[index - 1].edited_at,
+      writtenBy: index === 0 ? undefined : revisions[index - 1].edited_by
+    })),
+    {
+      original: message.original,
+      translation: message.translation,
+      writtenAt: revisions.length === 0 ? message.created_at : revisions[revisions.length - 1].edited_at,
+      writtenBy: revisions.length === 0 ? undefined : revisions[revisions.length - 1].edited_by
+    }
+  ]
+
+  const formatTime = (timestamp: string) => new Date(timestamp).toLocaleString([], {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  })
+
+  return (
+    <>
+      {/* Backdrop */}
+      <div className="fixed inset-0 z-40 bg-black/40" onClick={onClose} aria-label={t('session.closeEditHistory')} />
+
+      <div
+        role="dialog"
+        aria-label={t('session.editHistory')}
+        data-testid="message-revision-viewer"
+        className="fixed z-50 inset-x-0 bottom-0 sm:inset-auto sm:top-1/2 sm:left-1/2 sm:-translate-x-1/2 sm:-translate-y-1/2 w-full sm:max-w-md max-h-[80vh] overflow-y-auto rounded-t-2xl sm:rounded-2xl bg-white dark:bg-gray-800 shadow-xl p-4"
+      >
+        <div className="flex items-center justify-between mb-3">
+          <h2 className="flex items-center gap-2 text-sm font-semibold text-gray-900 dark:text-gray-100">
+            <History className="h-4 w-4" />
+            {t('session.editHistory')}
+          </h2>
+          <button onClick={onClose} className="p-1 rounded-full hover:bg-black/10 text-gray-500" title={t('common.close')}>
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+
+        {failed ? (
+          <p className="text-sm text-red-500">{t('session.editHistoryFailed')}</p>
+        ) : revisions === null ? (
+          <div className="flex justify-center py-4 text-gray-400">
+            <Loader2 className="h-5 w-5 animate-spin" />
+          </div>
+        ) : (
+          <ol className="space-y-4">
+            {versions.map((version, index) => {
+              const previous = versions[index - 1]
+              return (
+                <li key={index} data-testid="message-version" className="border-b last:border-b-0 border-gray-100 dark:border-gray-700 pb-3">
+                  <div className="flex items-center justify-between text-xs text-gray-500 dark:text-gray-400 mb-1">
+                    <span>
+                      {index === versions.length - 1 ? t('session.currentVersion') : t('session.version', { number: String(index + 1) })}
+                      {version.writtenBy && ` · ${version.writtenBy === currentUserId ? t('session.editedByYou') : t('session.edited')}`}
+                    </span>
+                    <span>{formatTime(version.writtenAt)}</span>
+                  </div>
+                  <DiffText before={previous?.original} after={version.original} />
+                  {version.translation !== null ? (
+                    <DiffText
+                      before={previous?.translation ?? undefined}
+                      after={version.translation}
+                      className="mt-1 text-gray-500 dark:text-gray-400"
+                    />
+                  ) : (
+                    // Only the current version can still be translated
+                    <p className="mt-1 text-xs italic text-gray-400">
+                      {index === versions.length - 1 ? t('session.translationPending') : t('session.noTranslationForVersion')}
+                    </p>
+                  )}
+                </li>
+              )
+            }).reverse()}
+          </ol>
+        )}
+      </div>
+    </>
+  )
+}
+
+/**
+ * Text with what changed since `before` marked; plain text without `before`
+ */
+function DiffText({ before, after, className = 'text-gray-900 dark:text-gray-100' }: { before?: string; after: string; className?: string }) {
+  if (before === undefined) {
+    return <p className={`text-sm leading-relaxed ${className}`}>{after}</p>
+  }
+
+  return (
+    <p className={`text-sm leading-relaxed ${className}`}>
+      {diffWords(before, after).map((part, index) => {
+        if (part.type === 'added') {
+          return <ins key={index} className="no-underline bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300 rounded">{part.text}</ins>
+        }
+        if (part.type === 'removed') {
+          return <del key={index} className="bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300 rounded">{part.text}</del>
+        }
+        return <span key={index}>{part.text}</span>
+      })}
+    </p>
+  )
+}
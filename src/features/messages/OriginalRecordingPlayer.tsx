@@ -0,0 +1,143 @@
+import { useEffect, useRef, useState } from 'react'
+import { clsx } from 'clsx'
+import { Mic, Pause } from 'lucide-react'
+import { RecordingStore, WAVEFORM_BARS } from '@/lib/recordings/RecordingStore'
+import { persistentAudioManager } from '@/services/audio/PersistentAudioManager'
+
+interface OriginalRecordingPlayerProps {
+  messageId: string
+  sessionId?: string // Session mode: also look for a recording the partner shared
+  className?: string
+}
+
+interface PlayableRecording {
+  peaks: number[]
+  blob?: Blob  // Local recording
+  url?: string // Shared by the partner
+}
+
+// The partner's upload can finish after their message arrives
+const SHARED_RETRY_MS = 5000
+const LISTENING_PAUSE_REASON = 'original-recording'
+// Drawn for shared recordings, whose waveform isn't known until played
+const PLACEHOLDER_PEAKS = Array.from({ length: WAVEFORM_BARS }, (_, i) => 0.35 + 0.25 * Math.abs(Math.sin(i)))
+
+/**
+ * Play-original control: replays what was actually said, with a small
+ * waveform that fills as it plays. Renders nothing when there's no recording
+ */
+export function OriginalRecordingPlayer({ messageId, sessionId, className }: OriginalRecordingPlayerProps) {
+  const [recording, setRecording] = useState<PlayableRecording | null>(null)
+  const [progress, setProgress] = useState<number | null>(null) // null when not playing
+  const stopRef = useRef<(() => void) | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    let retryTimer: ReturnType<typeof setTimeout> | undefined
+
+    const find = async (retry: boolean) => {
+      try {
+        const local = await RecordingStore.get(messageId)
+        if (cancelled) return
+        if (local) {
+          setRecording({ peaks: local.peaks, blob: local.blob })
+          return
+        }
+        setRecording(null)
+        if (!sessionId) return
+
+        const url = await RecordingStore.getSharedUrl(sessionId, messageId)
+        if (cancelled) return
+        if (url) {
+          setRecording({ peaks: [], url })
+        } else if (retry) {
+          retryTimer = setTimeout(() => find(false), SHARED_RETRY_MS)
+        }
+      } catch (error) {
+        console.warn('⚠️ [OriginalRecording] Lookup failed:', error)
+      }
+    }
+
+    find(true)
+    // Stored after the bubble appeared, evicted or cleared
+    const unsubscribe = RecordingStore.subscribe(changedId => {
+      if (changedId === null || changedId === messageId) find(false)
+    })
+
+    return () => {
+      cancelled = true
+      clearTimeout(retryTimer)
+      unsubscribe()
+    }
+  }, [messageId, sessionId])
+
+  // Stop playback when the bubble goes away
+  useEffect(() => () => stopRef.current?.(), [])
+
+  if (!recording) return null
+
+  const handleClick = () => {
+    if (stopRef.current) {
+      stopRef.current()
+      return
+    }
+
+    const url = recording.blob ? URL.createObjectURL(recording.blob) : recording.url!
+    const audio = new Audio(url)
+
+    const finish = () => {
+      audio.ontimeupdate = null
+      audio.onended = null
+      audio.onerror = null
+      if (recording.blob) URL.revokeObjectURL(url)
+      stopRef.current = null
+      setProgress(null)
+      persistentAudioManager.resumeListening(LISTENING_PAUSE_REASON)
+    }
+
+    stopRef.current = () => {
+      audio.pause()
+      finish()
+    }
+    audio.ontimeupdate = () => setProgress(audio.duration ? audio.currentTime / audio.duration : 0)
+    audio.onended = finish
+    audio.onerror = () => {
+      console.error('❌ [OriginalRecording] Playback failed for', messageId)
+      finish()
+    }
+
+    persistentAudioManager.pauseListening(LISTENING_PAUSE_REASON)
+    setProgress(0)
+    audio.play().catch(finish)
+  }
+
+  const isPlaying = progress !== null
+  const peaks = recording.peaks.length > 0 ? recording.peaks : PLACEHOLDER_PEAKS
+
+  return (
+    <button
+      onClick={handleClick}
+      data-testid="original-recording-button"
+      className={clsx(
+        'flex items-center gap-1 p-1 rounded-full transition-all duration-200 hover:bg-black/10 opacity-75 hover:opacity-100',
+        { 'text-green-400': isPlaying },
+        className
+      )}
+      title={isPlaying ? 'Stop original recording' : 'Play original recording'}
+    >
+      {isPlaying ? <Pause className="h-3 w-3" /> : <Mic className="h-3 w-3" />}
+      <span className="flex items-center gap-px h-3" aria-hidden="true">
+        {peaks.map((peak, index) => (
+          <span
+            key={index}
+            className={clsx(
+              'w-0.5 rounded-full bg-current',
+              isPlaying && index / peaks.length < progress ? 'opacity-100' : 'opacity-40'
+            )}
+            style={{ height: `${Math.max(15, peak * 100)}%` }}
+          />
+        ))}
+      </span>
+    </button>
+  )
+}
@@ -0,0 +1,93 @@
+import { render, screen } from '@testing-library/react'
+import type { ReactElement } from 'react'
+import { describe, test, expect, vi } from 'vitest'
+import { MessageRevisionViewer, type MessageRevisionViewerProps } from '../MessageRevisionViewer'
+import type { DatabaseMessageRevision } from '@/types/database'
+import { TranslationProvider } from '@/lib/i18n/useTranslation'
+
+const renderWithTranslations = (ui: ReactElement) => render(<TranslationProvider>{ui}</TranslationProvider>)
+
+describe('MessageRevisionViewer', () => {
+  const message: MessageRevisionViewerProps['message'] = {
+    id: 'msg-1',
+    original: 'See you at seven',
+    translation: 'Nos vemos a las siete',
+    target_lang: 'es',
+    created_at: '2025-01-01T10:00:00.000Z'
+  }
+
+  const revision = (overrides: Partial<DatabaseMessageRevision> = {}): DatabaseMessageRevision => ({
+    id: 'edit-1',
+    message_id: 'msg-1',
+    session_id: 'session-1',
+    original_text: 'See you at five',
+    translated_text: 'Nos vemos a las cinco',
+    translations: {},
+    edited_by: 'partner',
+    edited_at: '2025-01-01T10:05:00.000Z',
+    ...overrides
+  })
+
+  const renderViewer = (revisions: DatabaseMessageRevision[], overrides: Partial<MessageRevisionViewerProps['message']> = {}) => renderWithTranslations(
+    <MessageRevisionViewer
+      message={{ ...message, ...overrides }}
+      currentUserId="user-1"
+      loadRevisions={vi.fn().mockResolvedValue(revisions)}
+      onClose={vi.fn()}
+    />
+  )
+
+  test('should list every version newest first', async () => {
+    renderViewer([revision()])
+
+    const versions = await screen.findAllByTestId('message-version')
+    expect(versions).toHaveLength(2)
+    expect(versions[0]).toHaveTextContent('Current · edited')
+    expect(versions[0]).not.toHaveTextContent('edited by you')
+    expect(versions[1]).toHaveTextContent('Version 1')
+    expect(versions[1]).toHaveTextContent('Nos vemos a las cinco')
+  })
+
+  test('should tell the reader which edits were their own', async () => {
+    renderViewer([revision({ edited_by: 'user-1' })])
+
+    const versions = await screen.findAllByTestId('message-version')
+    expect(versions[0]).toHaveTextContent('Current · edited by you')
+  })
+
+  test('should prefer the translation stored for the viewer\'s language', async () => {
+    renderViewer([revision({ translations: { es: 'Te veo a las cinco' } })])
+
+    const versions = await screen.findAllByTestId('message-version')
+    expect(versions[1]).toHaveTextContent('Te veo a las cinco')
+  })
+
+  test('should say when a past version was never translated', async () => {
+    renderViewer([revision({ translated_text: null, translations: null })])
+
+    const versions = await screen.findAllByTestId('message-version')
+    expect(versions[1]).toHaveTextContent('No translation for this version')
+    expect(versions[0]).toHaveTextContent('Nos vemos a las siete')
+  })
+
+  test('should show the current version as pending until it is translated again', async () => {
+    renderViewer([revision()], { translation: null })
+
+    const versions = await screen.findAllByTestId('message-version')
+    expect(versions[0]).toHaveTextContent('Translation pending')
+    expect(versions[1]).not.toHaveTextContent('No translation for this version')
+  })
+
+  test('should report a history that could not be loaded', async () => {
+    renderWithTranslations(
+      <MessageRevisionViewer
+        message={message}
+        currentUserId="user-1"
+        loadRevisions={vi.fn().mockRejectedValue(new Error('offline'))}
+        onClose={vi.fn()}
+      />
+    )
+
+    expect(await screen.findByText('Couldn\'t load the edit history')).toBeInTheDocument()
+  })
+})
@@ -0,0 +1,25 @@
+import { describe, it, expect } from 'vitest'
+import { diffWords } from '../revisionDiff'
+
+describe('diffWords', () => {
+  it('should mark replaced words as removed and added', () => {
+    expect(diffWords('See you at five tomorrow', 'See you at six tomorrow')).toEqual([
+      { type: 'same', text: 'See you at ' },
+      { type: 'removed', text: 'five ' },
+      { type: 'added', text: 'six ' },
+      { type: 'same', text: 'tomorrow' }
+    ])
+  })
+
+  it('should keep the new text readable from its same and added parts', () => {
+    const after = 'Meet me at the north entrance please'
+    const parts = diffWords('Meet me at the entrance', after)
+
+    expect(parts.filter(part => part.type !== 'removed').map(part => part.text).join('')).toBe(after)
+    expect(parts.filter(part => part.type === 'added').map(part => part.text.trim())).toEqual(['north', 'please'])
+  })
+
+  it('should treat everything as added when there was no text', () => {
+    expect(diffWords('', 'Hola')).toEqual([{ type: 'added', text: 'Hola' }])
+  })
+})
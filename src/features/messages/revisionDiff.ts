@@ -0,0 +1,60 @@
+/**
+ * Word-level diff between two versions of a message, for the revision viewer
+ */
+
+export interface DiffPart {
+  type: 'same' | 'added' | 'removed'
+  text: string
+}
+
+// Words with the whitespace after them, so joined parts read like the text
+function tokenize(text: string): string[] {
+  return text.match(/\S+\s*|\s+/g) ?? []
+}
+
+/**
+ * Diff `before` against `after` by longest common subsequence of words.
+ * Neighbouring parts of the same type are merged
+ */
+export function diffWords(before: string, after: string): DiffPart[] {
+  const a = tokenize(before)
+  const b = tokenize(after)
+
+  // lengths[i][j]: longest common subsequence of a[i..] and b[j..]
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0))
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i].trim() === b[j].trim()
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1])
+    }
+  }
+
+  const parts: DiffPart[] = []
+  const push = (type: DiffPart['type'], text: string) => {
+    const last = parts[parts.length - 1]
+    if (last?.type === type) {
+      last.text += text
+    } else {
+      parts.push({ type, text })
+    }
+  }
+
+  let i = 0
+  let j = 0
+  while (i < a.length && j < b.length) {
+    if (a[i].trim() === b[j].trim()) {
+      push('same', b[j])
+      i++
+      j++
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      push('removed', a[i++])
+    } else {
+      push('added', b[j++])
+    }
+  }
+  while (i < a.length) push('removed', a[i++])
+  while (j < b.length) push('added', b[j++])
+
+  return parts
+}
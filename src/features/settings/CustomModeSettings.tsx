@@ -0,0 +1,116 @@
+import { useState } from 'react'
+import { Button } from '@/components/ui/Button'
+import { Card } from '@/components/ui/Card'
+import { Input } from '@/components/ui/Input'
+import { useTranslation } from '@/lib/i18n/useTranslation'
+import { ModeRegistry, DEFAULT_MODE, type CustomModeDefinition } from '@/lib/modes/ModeRegistry'
+import { UserManager } from '@/lib/user/UserManager'
+import { PenLine, X } from 'lucide-react'
+
+/**
+ * User-defined translation modes: a name and a prompt template
+ * with {{from}}, {{to}} and {{context}} placeholders
+ */
+export function CustomModeSettings() {
+  const { t } = useTranslation()
+
+  const [modes, setModes] = useState<CustomModeDefinition[]>(() => ModeRegistry.getCustomModes())
+  const [name, setName] = useState('')
+  const [icon, setIcon] = useState('')
+  const [template, setTemplate] = useState('')
+  const [error, setError] = useState<string | null>(null)
+
+  const handleAdd = () => {
+    if (!name.trim() || !template.trim()) return
+
+    try {
+      ModeRegistry.addCustomMode({ name, icon, template })
+      setModes(ModeRegistry.getCustomModes())
+      setName('')
+      setIcon('')
+      setTemplate('')
+      setError(null)
+    } catch (err) {
+      console.error('❌ [CustomModeSettings] Failed to add mode:', err)
+      setError(t('settings.customModes.invalid'))
+    }
+  }
+
+  const handleRemove = (id: string) => {
+    ModeRegistry.removeCustomMode(id)
+    setModes(ModeRegistry.getCustomModes())
+    // Don't leave the user on a mode that no longer exists
+    if (UserManager.getOrCreateUser().mode === id) {
+      UserManager.setTranslationMode(DEFAULT_MODE)
+    }
+  }
+
+  return (
+    <Card className="space-y-4">
+      <div className="flex items-center gap-2">
+        <PenLine className="h-5 w-5 text-indigo-600 dark:text-indigo-400" />
+        <h2 className="font-semibold text-gray-900 dark:text-gray-100">{t('settings.customModes.title')}</h2>
+      </div>
+      <p className="text-sm text-gray-600 dark:text-gray-300">{t('settings.customModes.description')}</p>
+
+      {/* Add mode */}
+      <div className="space-y-2">
+        <div className="flex items-center gap-2">
+          <Input
+            value={icon}
+            onChange={(e) => setIcon(e.target.value)}
+            placeholder="✏️"
+            className="w-14 text-center"
+            maxLength={4}
+          />
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder={t('settings.customModes.name')}
+          />
+        </div>
+        <textarea
+          value={template}
+          onChange={(e) => setTemplate(e.target.value)}
+          placeholder={t('settings.customModes.template')}
+          rows={4}
+          className="w-full p-2 rounded-lg border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-800 text-sm text-gray-900 dark:text-gray-100"
+        />
+        <p className="text-xs text-gray-500 dark:text-gray-400">{t('settings.customModes.templateHint')}</p>
+        <div className="flex justify-end">
+          <Button size="sm" onClick={handleAdd} disabled={!name.trim() || !template.trim()}>
+            {t('settings.customModes.add')}
+          </Button>
+        </div>
+        {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+      </div>
+
+      {/* Modes */}
+      {modes.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">{t('settings.customModes.empty')}</p>
+      ) : (
+        <div className="space-y-2">
+          {modes.map(mode => (
+            <div
+              key={mode.id}
+              className="flex items-center gap-3 p-3 border border-gray-200 dark:border-gray-600 rounded-lg"
+            >
+              <span>{mode.icon}</span>
+              <div className="flex-1 min-w-0">
+                <div className="text-sm font-medium text-gray-900 dark:text-gray-100">{mode.name}</div>
+                <div className="text-xs text-gray-500 truncate">{mode.template}</div>
+              </div>
+              <button
+                onClick={() => handleRemove(mode.id)}
+                className="p-1 text-gray-500 hover:text-red-600"
+                aria-label={t('settings.customModes.remove')}
+              >
+                <X className="h-4 w-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </Card>
+  )
+}
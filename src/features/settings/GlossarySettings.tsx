@@ -0,0 +1,175 @@
+import { useState, useEffect } from 'react'
+import { Button } from '@/components/ui/Button'
+import { Card } from '@/components/ui/Card'
+import { Input } from '@/components/ui/Input'
+import { useTranslation } from '@/lib/i18n/useTranslation'
+import { GlossaryManager, type GlossaryEntry, type GlossaryScope } from '@/lib/glossary/GlossaryManager'
+import { LanguageRegistry, type LanguageCode } from '@/lib/languages/LanguageRegistry'
+import { UserManager } from '@/lib/user/UserManager'
+import { sessionStateManager } from '@/services/session'
+import { BookOpen, X } from 'lucide-react'
+
+/**
+ * Glossary management: term mappings and never-translate entries,
+ * for all conversations or just the active session (shared with the partner)
+ */
+export function GlossarySettings() {
+  const { t } = useTranslation()
+
+  const [sessionId] = useState(() =>
+    (sessionStateManager.getCurrentSession() ?? sessionStateManager.restoreSession())?.sessionId ?? null
+  )
+  const [userEntries, setUserEntries] = useState<GlossaryEntry[]>(() => GlossaryManager.getUserEntries())
+  const [sessionEntries, setSessionEntries] = useState<GlossaryEntry[]>(() =>
+    sessionId ? GlossaryManager.getSessionGlossary(sessionId).entries : []
+  )
+
+  const [term, setTerm] = useState('')
+  const [translation, setTranslation] = useState('')
+  const [from, setFrom] = useState<LanguageCode>('en')
+  const [to, setTo] = useState<LanguageCode>(() => {
+    const saved = UserManager.getPreference<string>('targetLanguage', 'es')
+    return LanguageRegistry.isLanguageCode(saved) && saved !== 'en' ? saved : 'es'
+  })
+  const [scope, setScope] = useState<GlossaryScope>('user')
+  const [error, setError] = useState<string | null>(null)
+
+  // Partner edits arrive through the session translator while this screen may be open
+  useEffect(() => {
+    return GlossaryManager.subscribe(() => {
+      setUserEntries(GlossaryManager.getUserEntries())
+      if (sessionId) {
+        setSessionEntries(GlossaryManager.getSessionGlossary(sessionId).entries)
+      }
+    })
+  }, [sessionId])
+
+  const handleAdd = () => {
+    if (!term.trim()) return
+    if (translation.trim() && from === to) {
+      setError(t('settings.glossary.samePair'))
+      return
+    }
+
+    try {
+      GlossaryManager.addEntry(scope, { term, translation, from, to }, sessionId)
+      setTerm('')
+      setTranslation('')
+      setError(null)
+    } catch (err) {
+      console.error('❌ [GlossarySettings] Failed to add entry:', err)
+      setError(t('settings.glossary.invalid'))
+    }
+  }
+
+  const renderEntries = (entries: GlossaryEntry[], entryScope: GlossaryScope) => (
+    <div className="space-y-2">
+      {entries.map(entry => (
+        <div
+          key={entry.id}
+          className="flex items-center gap-3 p-3 border border-gray-200 dark:border-gray-600 rounded-lg"
+        >
+          <div className="flex-1 text-sm text-gray-900 dark:text-gray-100">
+            {entry.translation ? (
+              <>
+                <span className="font-medium">{entry.term}</span>
+                <span className="text-gray-500"> → </span>
+                <span className="font-medium">{entry.translation}</span>
+                <span className="ml-2 text-xs text-gray-500">
+                  {LanguageRegistry.getLanguage(entry.from)?.flag} → {LanguageRegistry.getLanguage(entry.to)?.flag}
+                </span>
+              </>
+            ) : (
+              <>
+                <span className="font-medium">{entry.term}</span>
+                <span className="ml-2 text-xs text-gray-500">{t('settings.glossary.neverTranslate')}</span>
+              </>
+            )}
+          </div>
+          <button
+            onClick={() => GlossaryManager.removeEntry(entryScope, entry.id, sessionId)}
+            className="p-1 text-gray-500 hover:text-red-600"
+            aria-label={t('settings.glossary.remove')}
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+      ))}
+    </div>
+  )
+
+  const selectClassName = 'p-2 rounded-lg border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-800 text-sm text-gray-900 dark:text-gray-100'
+
+  return (
+    <Card className="space-y-4">
+      <div className="flex items-center gap-2">
+        <BookOpen className="h-5 w-5 text-teal-600 dark:text-teal-400" />
+        <h2 className="font-semibold text-gray-900 dark:text-gray-100">{t('settings.glossary.title')}</h2>
+      </div>
+      <p className="text-sm text-gray-600 dark:text-gray-300">{t('settings.glossary.description')}</p>
+
+      {/* Add entry */}
+      <div className="space-y-2">
+        <Input
+          value={term}
+          onChange={(e) => setTerm(e.target.value)}
+          placeholder={t('settings.glossary.term')}
+        />
+        <Input
+          value={translation}
+          onChange={(e) => setTranslation(e.target.value)}
+          placeholder={t('settings.glossary.translation')}
+        />
+        {translation.trim() && (
+          <div className="flex items-center gap-2">
+            <select value={from} onChange={(e) => setFrom(e.target.value as LanguageCode)} className={selectClassName}>
+              {LanguageRegistry.getAll().map(language => (
+                <option key={language.code} value={language.code}>{language.flag} {language.nativeName}</option>
+              ))}
+            </select>
+            <span className="text-gray-500">→</span>
+            <select value={to} onChange={(e) => setTo(e.target.value as LanguageCode)} className={selectClassName}>
+              {LanguageRegistry.getAll().map(language => (
+                <option key={language.code} value={language.code}>{language.flag} {language.nativeName}</option>
+              ))}
+            </select>
+          </div>
+        )}
+        <div className="flex items-center gap-2">
+          <select
+            value={scope}
+            onChange={(e) => setScope(e.target.value as GlossaryScope)}
+            className={`flex-1 ${selectClassName}`}
+          >
+            <option value="user">{t('settings.glossary.scopeUser')}</option>
+            {sessionId && <option value="session">{t('settings.glossary.scopeSession')}</option>}
+          </select>
+          <Button size="sm" onClick={handleAdd} disabled={!term.trim()}>
+            {t('settings.glossary.add')}
+          </Button>
+        </div>
+        {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+      </div>
+
+      {/* Entries */}
+      {userEntries.length === 0 && sessionEntries.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">{t('settings.glossary.empty')}</p>
+      ) : (
+        <div className="space-y-3">
+          {sessionEntries.length > 0 && (
+            <div className="space-y-2">
+              <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300">{t('settings.glossary.scopeSession')}</h3>
+              {renderEntries(sessionEntries, 'session')}
+            </div>
+          )}
+          {userEntries.length > 0 && (
+            <div className="space-y-2">
+              <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300">{t('settings.glossary.scopeUser')}</h3>
+              {renderEntries(userEntries, 'user')}
+            </div>
+          )}
+        </div>
+      )}
+    </Card>
+  )
+}
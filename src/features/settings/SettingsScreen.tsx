@@ -1,4 +1,4 @@
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 import { useNavigate } from 'react-router-dom'
 import { Button } from '@/components/ui/Button'
 import { Card } from '@/components/ui/Card'
@@ -7,6 +7,24 @@ import { useTranslation } from '@/lib/i18n/useTranslation'
 import { useTheme } from '@/contexts/ThemeContext'
 import { UserManager } from '@/lib/user/UserManager'
 import { useSounds } from '@/lib/sounds/SoundManager'
+import { GlossarySettings } from './GlossarySettings'
+import { VoiceProfileSettings } from './VoiceProfileSettings'
+import { CustomModeSettings } from './CustomModeSettings'
+import { UsageSettings } from './UsageSettings'
+import { ttsPlaybackQueue, TTS_SPEEDS } from '@/services/audio/TTSPlaybackQueue'
+import type { TTSSpeed } from '@/services/openai/tts-secure'
+import { RecordingStore, type RecordingUsage } from '@/lib/recordings/RecordingStore'
+import { PersistentAudioManager } from '@/services/audio/PersistentAudioManager'
+import {
+  ENVIRONMENT_PRESETS,
+  PREPROCESSING_STAGES,
+  getPreprocessingSettings,
+  matchEnvironmentPreset,
+  type PreprocessingEnvironment,
+  type PreprocessingLevel,
+  type PreprocessingSettings,
+  type PreprocessingStage
+} from '@/services/audio/preprocessing'
 import { 
   ArrowLeft, 
   Languages, 
@@ -34,7 +52,17 @@ export function SettingsScreen() {
   const [notifications, setNotifications] = useState(UserManager.getPreference('notifications', true))
   const [autoSave, setAutoSave] = useState(UserManager.getPreference('autoSave', true))
   const [reducedMotion, setReducedMotion] = useState(UserManager.getPreference('reducedMotion', false))
+  const [verifyTranslations, setVerifyTranslations] = useState(UserManager.getPreference('verifyTranslations', false))
   const [fontSize, setFontSize] = useState(UserManager.getFontSize())
+  const [ttsAutoPlay, setTtsAutoPlay] = useState(() => ttsPlaybackQueue.isAutoPlayEnabled())
+  const [ttsSpeed, setTtsSpeed] = useState<TTSSpeed>(() => ttsPlaybackQueue.getSpeed())
+  const [shareRecordings, setShareRecordings] = useState(() => RecordingStore.isSharingEnabled())
+  const [recordingUsage, setRecordingUsage] = useState<RecordingUsage | null>(null)
+  const [preprocessing, setPreprocessing] = useState<PreprocessingSettings>(() => getPreprocessingSettings())
+
+  useEffect(() => {
+    RecordingStore.getUsage().then(setRecordingUsage).catch(() => setRecordingUsage(null))
+  }, [])
 
   const handleLanguageChange = (newLanguage: string) => {
     setLanguage(newLanguage)
@@ -51,6 +79,35 @@ export function SettingsScreen() {
     UserManager.setPreference('audioQuality', quality)
   }
 
+  const handleTtsAutoPlayToggle = () => {
+    ttsPlaybackQueue.setAutoPlay(!ttsAutoPlay)
+    setTtsAutoPlay(!ttsAutoPlay)
+  }
+
+  const handleTtsSpeedChange = (speed: TTSSpeed) => {
+    ttsPlaybackQueue.setSpeed(speed)
+    setTtsSpeed(speed)
+  }
+
+  const handlePreprocessingChange = (settings: PreprocessingSettings) => {
+    setPreprocessing(settings)
+    PersistentAudioManager.getInstance().setPreprocessingSettings(settings)
+  }
+
+  const handlePreprocessingStageChange = (stage: PreprocessingStage, level: PreprocessingLevel) => {
+    handlePreprocessingChange({ ...preprocessing, [stage]: level })
+  }
+
+  const handleShareRecordingsToggle = () => {
+    RecordingStore.setSharingEnabled(!shareRecordings)
+    setShareRecordings(!shareRecordings)
+  }
+
+  const handleClearRecordings = async () => {
+    await RecordingStore.clear()
+    setRecordingUsage(await RecordingStore.getUsage())
+  }
+
   const handleFontSizeChange = (size: 'small' | 'medium' | 'large' | 'xl') => {
     setFontSize(size)
     UserManager.setFontSize(size)
@@ -73,6 +130,9 @@ export function SettingsScreen() {
       case 'reducedMotion':
         setReducedMotion(newValue)
         break
+      case 'verifyTranslations':
+        setVerifyTranslations(newValue)
+        break
     }
   }
 
@@ -155,6 +215,12 @@ export function SettingsScreen() {
         </div>
       </Card>
 
+      {/* Glossary */}
+      <GlossarySettings />
+
+      {/* Custom Modes */}
+      <CustomModeSettings />
+
       {/* Theme Settings */}
       <Card className="space-y-4">
         <div className="flex items-center gap-2">
@@ -255,9 +321,136 @@ export function SettingsScreen() {
               ))}
             </div>
           </div>
+
+          {/* Auto-play Translations */}
+          <div className="flex items-center justify-between p-3 border border-gray-200 dark:border-gray-600 rounded-lg">
+            <div>
+              <div className="font-medium text-gray-900 dark:text-gray-100">{t('settings.audio.autoPlay')}</div>
+              <div className="text-sm text-gray-600 dark:text-gray-300">{t('settings.audio.autoPlayDesc')}</div>
+            </div>
+            <button
+              onClick={handleTtsAutoPlayToggle}
+              data-testid="tts-autoplay-toggle"
+              className={`w-12 h-6 rounded-full transition-all ${
+                ttsAutoPlay ? 'bg-blue-600' : 'bg-gray-300 dark:bg-gray-600'
+              }`}
+            >
+              <div className={`w-5 h-5 bg-white rounded-full transition-transform ${
+                ttsAutoPlay ? 'translate-x-6' : 'translate-x-1'
+              }`} />
+            </button>
+          </div>
+
+          {/* Speech Speed */}
+          <div>
+            <label className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2 block">
+              {t('settings.audio.speechSpeed')}
+            </label>
+            <div className="grid grid-cols-4 gap-2">
+              {TTS_SPEEDS.map((speed) => (
+                <button
+                  key={speed}
+                  onClick={() => handleTtsSpeedChange(speed)}
+                  className={`p-2 rounded-lg border text-sm font-medium transition-all ${
+                    ttsSpeed === speed
+                      ? 'border-green-500 bg-green-50 text-green-700 dark:border-green-400 dark:bg-green-900/20 dark:text-green-300'
+                      : 'border-gray-200 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:border-gray-300 dark:hover:border-gray-500'
+                  }`}
+                >
+                  {speed}×
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Noise Handling */}
+          <div>
+            <label className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-1 block">
+              {t('settings.audio.environment')}
+            </label>
+            <p className="text-sm text-gray-600 dark:text-gray-300 mb-2">{t('settings.audio.environmentDesc')}</p>
+            <div className="grid grid-cols-4 gap-2" data-testid="preprocessing-environments">
+              {(Object.keys(ENVIRONMENT_PRESETS) as PreprocessingEnvironment[]).map((environment) => (
+                <button
+                  key={environment}
+                  onClick={() => handlePreprocessingChange(ENVIRONMENT_PRESETS[environment])}
+                  className={`p-2 rounded-lg border text-sm font-medium transition-all ${
+                    matchEnvironmentPreset(preprocessing) === environment
+                      ? 'border-green-500 bg-green-50 text-green-700 dark:border-green-400 dark:bg-green-900/20 dark:text-green-300'
+                      : 'border-gray-200 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:border-gray-300 dark:hover:border-gray-500'
+                  }`}
+                >
+                  {t(`settings.audio.environments.${environment}`)}
+                </button>
+              ))}
+            </div>
+            <div className="mt-3 space-y-2">
+              {PREPROCESSING_STAGES.map((stage) => (
+                <div key={stage} className="flex items-center justify-between gap-2">
+                  <span className="text-sm text-gray-700 dark:text-gray-300">{t(`settings.audio.stages.${stage}`)}</span>
+                  <div className="flex gap-1">
+                    {(['off', 'gentle', 'strong'] as PreprocessingLevel[]).map((level) => (
+                      <button
+                        key={level}
+                        onClick={() => handlePreprocessingStageChange(stage, level)}
+                        data-testid={`preprocessing-${stage}-${level}`}
+                        className={`px-2 py-1 rounded border text-xs font-medium transition-all ${
+                          preprocessing[stage] === level
+                            ? 'border-green-500 bg-green-50 text-green-700 dark:border-green-400 dark:bg-green-900/20 dark:text-green-300'
+                            : 'border-gray-200 dark:border-gray-600 text-gray-600 dark:text-gray-300 hover:border-gray-300 dark:hover:border-gray-500'
+                        }`}
+                      >
+                        {t(`settings.audio.levels.${level}`)}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Share Recordings */}
+          <div className="flex items-center justify-between p-3 border border-gray-200 dark:border-gray-600 rounded-lg">
+            <div>
+              <div className="font-medium text-gray-900 dark:text-gray-100">{t('settings.audio.shareRecordings')}</div>
+              <div className="text-sm text-gray-600 dark:text-gray-300">{t('settings.audio.shareRecordingsDesc')}</div>
+            </div>
+            <button
+              onClick={handleShareRecordingsToggle}
+              data-testid="share-recordings-toggle"
+              className={`w-12 h-6 rounded-full transition-all ${
+                shareRecordings ? 'bg-blue-600' : 'bg-gray-300 dark:bg-gray-600'
+              }`}
+            >
+              <div className={`w-5 h-5 bg-white rounded-full transition-transform ${
+                shareRecordings ? 'translate-x-6' : 'translate-x-1'
+              }`} />
+            </button>
+          </div>
+
+          {/* Saved Recordings */}
+          {recordingUsage && (
+            <div className="flex items-center justify-between text-sm text-gray-600 dark:text-gray-300">
+              <span>
+                {t('settings.audio.savedRecordings', {
+                  count: String(recordingUsage.count),
+                  used: (recordingUsage.bytes / (1024 * 1024)).toFixed(1),
+                  budget: String(Math.round(recordingUsage.budget / (1024 * 1024)))
+                })}
+              </span>
+              {recordingUsage.count > 0 && (
+                <Button size="sm" variant="ghost" onClick={handleClearRecordings}>
+                  {t('settings.audio.clearRecordings')}
+                </Button>
+              )}
+            </div>
+          )}
         </div>
       </Card>
 
+      {/* Voice Profiles */}
+      <VoiceProfileSettings />
+
       {/* Experience Settings */}
       <Card className="space-y-4">
         <div className="flex items-center gap-2">
@@ -302,6 +495,24 @@ export function SettingsScreen() {
             </button>
           </div>
 
+          {/* Verify Translations */}
+          <div className="flex items-center justify-between p-3 border border-gray-200 dark:border-gray-600 rounded-lg">
+            <div>
+              <div className="font-medium text-gray-900 dark:text-gray-100">{t('settings.verifyTranslations')}</div>
+              <div className="text-sm text-gray-600 dark:text-gray-300">{t('settings.verifyTranslationsDesc')}</div>
+            </div>
+            <button
+              onClick={() => handlePreferenceToggle('verifyTranslations', verifyTranslations)}
+              className={`w-12 h-6 rounded-full transition-all ${
+                verifyTranslations ? 'bg-blue-600' : 'bg-gray-300 dark:bg-gray-600'
+              }`}
+            >
+              <div className={`w-5 h-5 bg-white rounded-full transition-transform ${
+                verifyTranslations ? 'translate-x-6' : 'translate-x-1'
+              }`} />
+            </button>
+          </div>
+
           {/* Auto Save */}
           <div className="flex items-center justify-between p-3 border border-gray-200 dark:border-gray-600 rounded-lg">
             <div>
@@ -347,7 +558,8 @@ export function SettingsScreen() {
         </div>
       </Card>
 
-
+      {/* Usage & Costs */}
+      <UsageSettings />
 
       {/* App Information */}
       <Card className="space-y-2">
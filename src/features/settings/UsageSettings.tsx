@@ -0,0 +1,139 @@
+import { useState, useEffect } from 'react'
+import { Button } from '@/components/ui/Button'
+import { Card } from '@/components/ui/Card'
+import { Input } from '@/components/ui/Input'
+import { useTranslation } from '@/lib/i18n/useTranslation'
+import { CostLedger, formatUsd, type UsageBudget } from '@/lib/usage/CostLedger'
+import { Wallet } from 'lucide-react'
+
+const MAX_SESSIONS_SHOWN = 5
+const DAYS_SHOWN = 7
+
+/**
+ * API spending from the cost ledger: today, this month, cache savings,
+ * per-session cost and optional budgets
+ */
+export function UsageSettings() {
+  const { t } = useTranslation()
+
+  // Re-read the ledger whenever a call is recorded
+  const [, setVersion] = useState(0)
+  useEffect(() => CostLedger.subscribe(() => setVersion(v => v + 1)), [])
+
+  const [budget, setBudget] = useState<UsageBudget>(() => CostLedger.getBudget())
+
+  const [today] = CostLedger.getDailyTotals(1)
+  const [month] = CostLedger.getMonthlyTotals(1)
+  const days = CostLedger.getDailyTotals(DAYS_SHOWN)
+  const sessions = CostLedger.getSessionTotals().slice(0, MAX_SESSIONS_SHOWN)
+
+  const handleBudgetChange = (period: keyof UsageBudget, value: string) => {
+    const amount = parseFloat(value)
+    const updated = { ...budget, [period]: Number.isFinite(amount) && amount > 0 ? amount : undefined }
+    setBudget(updated)
+    CostLedger.setBudget(updated)
+  }
+
+  const handleClear = () => {
+    CostLedger.clear()
+    setVersion(v => v + 1)
+  }
+
+  const stats = [
+    { label: t('settings.usage.today'), value: formatUsd(today?.spent ?? 0) },
+    { label: t('settings.usage.thisMonth'), value: formatUsd(month?.spent ?? 0) },
+    { label: t('settings.usage.cacheSavings'), value: formatUsd(month?.saved ?? 0) }
+  ]
+
+  return (
+    <Card className="space-y-4">
+      <div className="flex items-center gap-2">
+        <Wallet className="h-5 w-5 text-emerald-600 dark:text-emerald-400" />
+        <h2 className="font-semibold text-gray-900 dark:text-gray-100">{t('settings.usage.title')}</h2>
+      </div>
+
+      {/* Totals */}
+      <div className="grid grid-cols-3 gap-2">
+        {stats.map(stat => (
+          <div key={stat.label} className="p-3 rounded-lg bg-gray-50 dark:bg-gray-800 text-center">
+            <div className="text-lg font-semibold text-gray-900 dark:text-gray-100">{stat.value}</div>
+            <div className="text-xs text-gray-600 dark:text-gray-300">{stat.label}</div>
+          </div>
+        ))}
+      </div>
+
+      {month && (
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          {t('settings.usage.breakdown', {
+            calls: String(month.calls),
+            cached: String(month.cachedCalls),
+            whisper: formatUsd(month.byService.whisper.spent),
+            translation: formatUsd(month.byService.translation.spent),
+            tts: formatUsd(month.byService.tts.spent)
+          })}
+        </p>
+      )}
+
+      {/* Recent days */}
+      {days.length > 0 && (
+        <div className="space-y-1">
+          <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300">{t('settings.usage.daily')}</h3>
+          {days.map(day => (
+            <div key={day.period} className="flex justify-between text-sm text-gray-600 dark:text-gray-300">
+              <span>{new Date(`${day.period}T00:00:00`).toLocaleDateString()}</span>
+              <span>{formatUsd(day.spent)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Per session */}
+      <div className="space-y-1">
+        <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300">{t('settings.usage.sessions')}</h3>
+        {sessions.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">{t('settings.usage.noSessions')}</p>
+        ) : (
+          sessions.map(session => (
+            <div key={session.sessionId} className="flex justify-between text-sm text-gray-600 dark:text-gray-300">
+              <span>
+                {session.sessionCode ?? session.sessionId.slice(0, 8)}
+                <span className="ml-2 text-xs text-gray-500">{new Date(session.lastUsed).toLocaleDateString()}</span>
+              </span>
+              <span>{formatUsd(session.spent)}</span>
+            </div>
+          ))
+        )}
+      </div>
+
+      {/* Budgets */}
+      <div className="space-y-2">
+        <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300">{t('settings.usage.budgets')}</h3>
+        <div className="grid grid-cols-2 gap-2">
+          <Input
+            type="number"
+            min="0"
+            step="0.01"
+            label={t('settings.usage.dailyBudget')}
+            value={budget.daily ?? ''}
+            onChange={(e) => handleBudgetChange('daily', e.target.value)}
+          />
+          <Input
+            type="number"
+            min="0"
+            step="0.01"
+            label={t('settings.usage.monthlyBudget')}
+            value={budget.monthly ?? ''}
+            onChange={(e) => handleBudgetChange('monthly', e.target.value)}
+          />
+        </div>
+        <p className="text-xs text-gray-500 dark:text-gray-400">{t('settings.usage.budgetHint')}</p>
+      </div>
+
+      <div className="flex justify-end">
+        <Button variant="ghost" size="sm" onClick={handleClear}>
+          {t('settings.usage.clear')}
+        </Button>
+      </div>
+    </Card>
+  )
+}
@@ -0,0 +1,228 @@
+import { useState, useEffect } from 'react'
+import { Button } from '@/components/ui/Button'
+import { Card } from '@/components/ui/Card'
+import { Input } from '@/components/ui/Input'
+import { useTranslation } from '@/lib/i18n/useTranslation'
+import { LanguageRegistry, type LanguageCode } from '@/lib/languages/LanguageRegistry'
+import { UserManager } from '@/lib/user/UserManager'
+import {
+  SELF_SPEAKER_ID,
+  TTS_VOICES,
+  VoiceProfileManager,
+  type VoiceProfile,
+  type VoiceProfileInput,
+  type VoiceSettings
+} from '@/lib/voices/VoiceProfileManager'
+import { FACE_TO_FACE_SPEAKERS } from '@/features/translator/solo/faceToFace'
+import { ttsPlaybackQueue, TTSPlaybackQueue, TTS_SPEEDS } from '@/services/audio/TTSPlaybackQueue'
+import type { TTSSpeed, TTSVoice } from '@/services/openai/tts-secure'
+import { AudioLines, Play } from 'lucide-react'
+
+// Whose voice is being set up: this user (shared with session partners),
+// or the person across the table in face-to-face mode
+const PARTICIPANTS = [
+  { speakerId: SELF_SPEAKER_ID, labelKey: 'settings.voiceProfile.you' },
+  { speakerId: FACE_TO_FACE_SPEAKERS.partner, labelKey: 'settings.voiceProfile.faceToFacePartner' }
+] as const
+
+const PREVIEW_MESSAGE_ID = 'voice-profile-preview'
+
+const loadProfile = (speakerId: string): VoiceProfile | null =>
+  speakerId === SELF_SPEAKER_ID ? VoiceProfileManager.getOwnProfile() : VoiceProfileManager.getParticipantProfile(speakerId)
+
+/**
+ * Voice profiles: the TTS voice and speed a participant is read out in,
+ * with per-language overrides and a preview
+ */
+export function VoiceProfileSettings() {
+  const { t } = useTranslation()
+
+  const [speakerId, setSpeakerId] = useState<string>(SELF_SPEAKER_ID)
+  const [profile, setProfile] = useState<VoiceProfile | null>(() => loadProfile(SELF_SPEAKER_ID))
+  const [name, setName] = useState(() => profile?.name ?? '')
+  const [language, setLanguage] = useState<LanguageCode>(() => UserManager.getOrCreateUser().language)
+
+  useEffect(() => {
+    const reload = () => {
+      const loaded = loadProfile(speakerId)
+      setProfile(loaded)
+      setName(loaded?.name ?? '')
+    }
+    reload()
+    return VoiceProfileManager.subscribe(reload)
+  }, [speakerId])
+
+  const save = (input: VoiceProfileInput | null) => {
+    if (speakerId === SELF_SPEAKER_ID) {
+      VoiceProfileManager.setOwnProfile(input)
+    } else {
+      VoiceProfileManager.setParticipantProfile(speakerId, input)
+    }
+  }
+
+  const handleCustomToggle = () => {
+    save(profile ? null : {
+      voice: TTSPlaybackQueue.pickVoice(language, speakerId === SELF_SPEAKER_ID ? undefined : speakerId),
+      speed: ttsPlaybackQueue.getSpeed()
+    })
+  }
+
+  const update = (changes: Partial<VoiceProfileInput>) => {
+    if (!profile) return
+    save({ ...profile, ...changes })
+  }
+
+  // An override equal to the profile's default is dropped
+  const updateLanguage = (changes: Partial<VoiceSettings> | null) => {
+    if (!profile) return
+    const others = { ...profile.languages }
+    const settings = changes && { voice: profile.voice, speed: profile.speed, ...others[language], ...changes }
+    delete others[language]
+    const isDefault = !settings || (settings.voice === profile.voice && settings.speed === profile.speed)
+    update({ languages: isDefault ? others : { ...others, [language]: settings } })
+  }
+
+  const handlePreview = () => {
+    ttsPlaybackQueue.replay({
+      messageId: PREVIEW_MESSAGE_ID,
+      text: VoiceProfileManager.getPreviewText(language),
+      language,
+      speakerId
+    })
+  }
+
+  const override = profile?.languages?.[language]
+  const selectClassName = 'p-2 rounded-lg border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-800 text-sm text-gray-900 dark:text-gray-100'
+  const optionClassName = (selected: boolean) => `p-2 rounded-lg border text-sm font-medium transition-all ${
+    selected
+      ? 'border-green-500 bg-green-50 text-green-700 dark:border-green-400 dark:bg-green-900/20 dark:text-green-300'
+      : 'border-gray-200 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:border-gray-300 dark:hover:border-gray-500'
+  }`
+
+  return (
+    <Card className="space-y-4">
+      <div className="flex items-center gap-2">
+        <AudioLines className="h-5 w-5 text-indigo-600 dark:text-indigo-400" />
+        <h2 className="font-semibold text-gray-900 dark:text-gray-100">{t('settings.voiceProfile.title')}</h2>
+      </div>
+      <p className="text-sm text-gray-600 dark:text-gray-300">{t('settings.voiceProfile.description')}</p>
+
+      {/* Participant */}
+      <div className="grid grid-cols-2 gap-2">
+        {PARTICIPANTS.map(participant => (
+          <button
+            key={participant.speakerId}
+            onClick={() => setSpeakerId(participant.speakerId)}
+            className={optionClassName(speakerId === participant.speakerId)}
+          >
+            {t(participant.labelKey)}
+          </button>
+        ))}
+      </div>
+
+      {/* Custom voice on/off */}
+      <div className="flex items-center justify-between p-3 border border-gray-200 dark:border-gray-600 rounded-lg">
+        <div>
+          <div className="font-medium text-gray-900 dark:text-gray-100">{t('settings.voiceProfile.custom')}</div>
+          <div className="text-sm text-gray-600 dark:text-gray-300">{t('settings.voiceProfile.customDesc')}</div>
+        </div>
+        <button
+          onClick={handleCustomToggle}
+          data-testid="voice-profile-toggle"
+          className={`w-12 h-6 rounded-full transition-all ${profile ? 'bg-blue-600' : 'bg-gray-300 dark:bg-gray-600'}`}
+        >
+          <div className={`w-5 h-5 bg-white rounded-full transition-transform ${profile ? 'translate-x-6' : 'translate-x-1'}`} />
+        </button>
+      </div>
+
+      {profile && (
+        <>
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onBlur={() => name.trim() !== (profile.name ?? '') && update({ name })}
+            placeholder={t('settings.voiceProfile.name')}
+            data-testid="voice-profile-name"
+          />
+
+          {/* Default voice and speed */}
+          <div>
+            <label className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2 block">
+              {t('settings.voiceProfile.voice')}
+            </label>
+            <div className="grid grid-cols-3 gap-2">
+              {TTS_VOICES.map(voice => (
+                <button
+                  key={voice}
+                  onClick={() => update({ voice })}
+                  className={`capitalize ${optionClassName(profile.voice === voice)}`}
+                  data-testid={`voice-profile-voice-${voice}`}
+                >
+                  {voice}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div>
+            <label className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2 block">
+              {t('settings.voiceProfile.speed')}
+            </label>
+            <div className="grid grid-cols-4 gap-2">
+              {TTS_SPEEDS.map(speed => (
+                <button key={speed} onClick={() => update({ speed })} className={optionClassName(profile.speed === speed)}>
+                  {speed}×
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Per-language override */}
+          <div className="space-y-2">
+            <label className="text-sm font-medium text-gray-700 dark:text-gray-300 block">
+              {t('settings.voiceProfile.perLanguage')}
+            </label>
+            <div className="flex items-center gap-2">
+              <select
+                value={language}
+                onChange={(e) => setLanguage(e.target.value as LanguageCode)}
+                className={`flex-1 ${selectClassName}`}
+                aria-label={t('settings.voiceProfile.language')}
+              >
+                {LanguageRegistry.getAll().map(option => (
+                  <option key={option.code} value={option.code}>
+                    {option.flag} {option.nativeName}{profile.languages?.[option.code as LanguageCode] ? ' •' : ''}
+                  </option>
+                ))}
+              </select>
+              <select
+                value={override?.voice ?? ''}
+                onChange={(e) => updateLanguage(e.target.value ? { voice: e.target.value as TTSVoice } : null)}
+                className={selectClassName}
+                aria-label={t('settings.voiceProfile.voice')}
+                data-testid="voice-profile-language-voice"
+              >
+                <option value="">{t('settings.voiceProfile.sameAsDefault')}</option>
+                {TTS_VOICES.map(voice => <option key={voice} value={voice}>{voice}</option>)}
+              </select>
+              <select
+                value={override?.speed ?? ''}
+                onChange={(e) => updateLanguage(e.target.value ? { speed: Number(e.target.value) as TTSSpeed } : null)}
+                className={selectClassName}
+                aria-label={t('settings.voiceProfile.speed')}
+              >
+                <option value="">{t('settings.voiceProfile.sameAsDefault')}</option>
+                {TTS_SPEEDS.map(speed => <option key={speed} value={speed}>{speed}×</option>)}
+              </select>
+            </div>
+          </div>
+        </>
+      )}
+
+      {/* Preview, in the selected language */}
+      <Button variant="outline" size="sm" onClick={handlePreview} data-testid="voice-profile-preview">
+        <Play className="h-4 w-4 mr-1" />
+        {t('settings.voiceProfile.preview')}
+      </Button>
+    </Card>
+  )
+}
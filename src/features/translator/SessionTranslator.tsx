@@ -1,17 +1,105 @@
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useRef } from 'react'
 import { useNavigate, useLocation } from 'react-router-dom'
 import { SoloTranslator } from './solo/SoloTranslator'
 import { Layout } from '@/components/layout/Layout'
-import { sessionStateManager, type SessionState } from '@/services/session'
+import {
+  sessionStateManager,
+  getRecipientLanguages,
+  fanOutTranslations,
+  resolveTranslation,
+  type SessionParticipant,
+  type SessionState
+} from '@/services/session'
+import { sessionManager } from '@/services/SessionManager'
 import { messageSyncService } from '@/services/MessageSyncService'
 import { PresenceService } from '@/services/presence'
 import { RealtimeConnection } from '@/services/realtime'
+import type { MessageHistoryPage } from '@/services/types/sync.types'
 import type { QueuedMessage } from '@/features/messages/MessageQueue'
-import type { SessionMessage, ConnectionStatus, DatabaseReaction } from '@/types/database'
+import type { SessionMessage, ConnectionStatus, DatabaseReaction, DatabaseMessageTranslation, DatabaseMessageRevision } from '@/types/database'
 import type { ConnectionState } from '@/services/realtime'
 import { ErrorToast } from '@/components/ErrorDisplay'
 import { useSounds } from '@/lib/sounds/SoundManager'
 import { MessageQueueService } from '@/services/queues/MessageQueueService'
+import { UserManager } from '@/lib/user/UserManager'
+import { GlossaryManager } from '@/lib/glossary/GlossaryManager'
+import { VoiceProfileManager } from '@/lib/voices/VoiceProfileManager'
+import { LanguageRegistry, type LanguageCode, type LanguagePair } from '@/lib/languages/LanguageRegistry'
+import { translationPipeline } from '@/services/pipeline'
+import { getOpenAIProxyClient } from '@/lib/openai-proxy'
+import { CostLedger } from '@/lib/usage/CostLedger'
+import { ttsPlaybackQueue } from '@/services/audio/TTSPlaybackQueue'
+import { RecordingStore } from '@/lib/recordings/RecordingStore'
+
+/**
+ * Place a partner message by its session sequence number, so messages fetched
+ * after a gap land where they were sent rather than at the end
+ */
+function insertInSequence(messages: QueuedMessage[], message: QueuedMessage): QueuedMessage[] {
+  const sequence = message.sequence_number
+  const index = sequence === undefined
+    ? -1
+    : messages.findIndex(existing => existing.sequence_number !== undefined && existing.sequence_number > sequence)
+  return index === -1 ? [...messages, message] : [...messages.slice(0, index), message, ...messages.slice(index)]
+}
+
+// Language code of a message's translation, when known
+const translationLanguage = (message: Pick<QueuedMessage, 'target_lang'>) =>
+  message.target_lang ? LanguageRegistry.toCode(message.target_lang) : undefined
+
+/**
+ * Language of a message's main translation: the per-language translation it
+ * was also stored as, else the other side of the session's language pair
+ */
+function mainTranslationLanguage(message: SessionMessage, languagePair?: LanguagePair | null): string | undefined {
+  const stored = Object.entries(message.translations ?? {}).find(([, text]) => text === message.translated_text)
+  if (stored) return stored[0]
+
+  const source = LanguageRegistry.toCode(message.original_language)
+  if (languagePair && source === languagePair.own) return languagePair.partner
+  if (languagePair && source === languagePair.partner) return languagePair.own
+  return undefined
+}
+
+/**
+ * Convert a SessionMessage for display, in the reader's own language. Our
+ * own messages (restored from history) keep the main translation we sent
+ */
+function toQueuedMessage(
+  message: SessionMessage,
+  ownLanguage: LanguageCode,
+  userId: string,
+  languagePair?: LanguagePair | null
+): QueuedMessage {
+  const isOwn = message.sender_id === userId
+  const translation = isOwn ? message.translated_text : resolveTranslation(message, ownLanguage)
+  const hasOwnTranslation = !isOwn && !!message.translations?.[ownLanguage]
+  const targetLanguage = hasOwnTranslation ? ownLanguage : mainTranslationLanguage(message, languagePair)
+  return {
+    id: message.id,
+    original: message.original_text,
+    translation,
+    original_lang: message.original_language,
+    ...(translation !== null && targetLanguage ? { target_lang: targetLanguage } : {}),
+    status: 'displayed',
+    queued_at: message.timestamp,
+    processed_at: message.timestamp,
+    displayed_at: message.timestamp,
+    performance_metrics: null,
+    timestamp: message.timestamp,
+    created_at: message.timestamp,
+    localId: `remote-${message.id}`,
+    retryCount: 0,
+    displayOrder: Date.now(), // Use current time for display order
+    session_id: message.session_id,
+    user_id: message.sender_id, // Sides follow the sender: ours right, partners left
+    sequence_number: message.sequence_number,
+    edited_at: message.is_edited ? message.edited_at : undefined
+  }
+}
+
+// Edit history for the revision viewer; stable, so an open viewer loads once
+const loadMessageRevisions = (messageId: string) => messageSyncService.getMessageRevisions(messageId)
 
 export function SessionTranslator() {
   const navigate = useNavigate()
@@ -38,10 +126,25 @@ export function SessionTranslator() {
   const [partnerOnline, setPartnerOnline] = useState(false)
   const [partnerActivity, setPartnerActivity] = useState<'idle' | 'recording' | 'processing' | 'typing'>('idle')
   const [presenceServiceReady, setPresenceServiceReady] = useState(false)
+  const [participants, setParticipants] = useState<SessionParticipant[]>([])
+  
+  // The language this user reads: partner messages are shown in it, and it's
+  // declared to the other participants so they translate into it
+  const ownLanguageRef = useRef<LanguageCode>(
+    sessionState?.languagePair?.own ?? UserManager.getOrCreateUser().language
+  )
+  
+  // Group sessions: partner messages waiting for their translation into our language
+  const awaitingTranslationRef = useRef(new Set<string>())
+  
+  // Edits arrive through the sync service handlers, set up once per session
+  const reTranslateEditedMessageRef = useRef<(messageId: string, originalText: string) => Promise<void>>()
   
   // Messages state for session
   const [messages, setMessages] = useState<QueuedMessage[]>([])
   const [error, setError] = useState<Error | null>(null)
+  const [hasOlderMessages, setHasOlderMessages] = useState(false)
+  const [isLoadingOlderMessages, setIsLoadingOlderMessages] = useState(false)
   
   // Create MessageQueueService instance for session mode
   const [messageQueueService] = useState(() => new MessageQueueService())
@@ -52,6 +155,37 @@ export function SessionTranslator() {
   // Create RealtimeConnection instance for session mode
   const [realtimeConnection] = useState(() => new RealtimeConnection())
   
+  // Language pair is part of session state so it survives reloads with the session
+  const handleLanguagePairChange = (pair: LanguagePair | null) => {
+    const updated = sessionStateManager.setLanguagePair(pair)
+    if (!updated) return
+
+    setSessionState(updated)
+
+    const language = pair?.own ?? UserManager.getOrCreateUser().language
+    if (language !== ownLanguageRef.current) {
+      ownLanguageRef.current = language
+      sessionManager.setParticipantLanguage(updated.sessionId, updated.userId, language).catch(error =>
+        console.warn('⚠️ [SessionTranslator] Could not declare the new language:', error)
+      )
+    }
+  }
+
+  // Seed a new session with the user's saved pair. Runs once per session, so
+  // clearing the pair later doesn't bring it back
+  const seedLanguagePairRef = useRef<() => void>()
+  seedLanguagePairRef.current = () => {
+    if (!sessionState || sessionState.languagePair) return
+
+    const savedPair = UserManager.getLanguagePair()
+    if (savedPair) {
+      handleLanguagePairChange(savedPair)
+    }
+  }
+  useEffect(() => {
+    seedLanguagePairRef.current?.()
+  }, [sessionState?.sessionId])
+
   // Handle reaction toggle for messages
   const handleReactionToggle = async (messageId: string, emoji: string, userId: string) => {
     if (!sessionState) {
@@ -80,6 +214,20 @@ export function SessionTranslator() {
     }
   }
 
+  // Attribute API calls to this session: proxy per-session limits and the cost ledger
+  const activeSessionId = sessionState?.sessionId
+  const activeSessionCode = sessionState?.sessionCode
+  useEffect(() => {
+    if (!activeSessionId || !activeSessionCode) return
+
+    getOpenAIProxyClient().setSessionId(activeSessionId)
+    CostLedger.setActiveSession({ sessionId: activeSessionId, sessionCode: activeSessionCode })
+    return () => {
+      getOpenAIProxyClient().setSessionId(null)
+      CostLedger.setActiveSession(null)
+    }
+  }, [activeSessionId, activeSessionCode])
+
   // Redirect if no session and handle session expiry
   useEffect(() => {
     if (!sessionState) {
@@ -101,6 +249,7 @@ export function SessionTranslator() {
     if (!sessionState) return
     
     console.log('📱 [SessionTranslator] Initializing real-time sync:', sessionState.sessionCode)
+    const awaitingTranslation = awaitingTranslationRef.current
     
     // Set up MessageSyncService event handlers (presence-related handlers moved to PresenceService)
     messageSyncService.setEventHandlers({
@@ -113,29 +262,28 @@ export function SessionTranslator() {
           setPartnerActivity('idle')
         }, 1000) // 1 second delay
         
-        // Convert SessionMessage to QueuedMessage for display
-        const queuedMessage: QueuedMessage = {
-          id: message.id,
-          original: message.original_text,
-          translation: message.translated_text,
-          original_lang: message.original_language,
-          target_lang: message.original_language === 'en' ? 'es' : 'en', // Infer target
-          status: 'displayed',
-          queued_at: message.timestamp,
-          processed_at: message.timestamp,
-          displayed_at: message.timestamp,
-          performance_metrics: null,
-          timestamp: message.timestamp,
-          created_at: message.timestamp,
-          localId: `remote-${message.id}`,
-          retryCount: 0,
-          displayOrder: Date.now(), // Use current time for display order
-          session_id: message.session_id,
-          user_id: message.sender_id
-        }
+        // Convert SessionMessage to QueuedMessage for display, in our own language
+        const ownLanguage = ownLanguageRef.current
+        const hasOwnTranslation = !!message.translations?.[ownLanguage]
+        const queuedMessage = toQueuedMessage(message, ownLanguage, sessionState.userId, sessionState.languagePair)
         
         // Add to messages as partner message (will show on left side)
-        setMessages(prev => [...prev, queuedMessage])
+        setMessages(prev => insertInSequence(prev, queuedMessage))
+        
+        // Speak it if auto-play is on (queued behind anything still playing). In
+        // group sessions our translation follows the message; speak that instead
+        const isGroup = presenceService.getParticipants().length > 2
+        const saidInOwnLanguage = LanguageRegistry.toCode(message.original_language) === ownLanguage
+        if (isGroup && !hasOwnTranslation && !saidInOwnLanguage) {
+          awaitingTranslation.add(queuedMessage.id)
+        } else {
+          ttsPlaybackQueue.autoPlay({
+            messageId: queuedMessage.id,
+            text: queuedMessage.translation || queuedMessage.original,
+            language: (queuedMessage.translation && queuedMessage.target_lang) || queuedMessage.original_lang,
+            speakerId: message.sender_id
+          })
+        }
         
         // Play sound notification for incoming translated message
         console.log('🔊 [SessionTranslator] About to call playMessageReceived() for partner message:', message.id)
@@ -147,6 +295,60 @@ export function SessionTranslator() {
         }
       },
       
+      onMessagesLoaded: ({ messages: page, hasMore }: MessageHistoryPage) => {
+        // History is older than anything already shown; no sounds or auto-play
+        const loaded = page.map(message => toQueuedMessage(message, ownLanguageRef.current, sessionState.userId, sessionState.languagePair))
+        setMessages(prev => {
+          const shown = new Set(prev.map(msg => msg.id))
+          return [...loaded.filter(msg => !shown.has(msg.id)), ...prev]
+        })
+        setHasOlderMessages(hasMore)
+      },
+      
+      onTranslationReceived: (translation: DatabaseMessageTranslation) => {
+        if (translation.language !== ownLanguageRef.current) return
+
+        let speakerId: string | undefined
+        setMessages(prev => prev.map(msg => {
+          if (msg.id !== translation.message_id) return msg
+          speakerId = msg.user_id
+          return { ...msg, translation: translation.translated_text, target_lang: translation.language }
+        }))
+
+        if (awaitingTranslation.delete(translation.message_id)) {
+          ttsPlaybackQueue.autoPlay({
+            messageId: translation.message_id,
+            text: translation.translated_text,
+            language: translation.language,
+            speakerId
+          })
+        }
+      },
+      
+      onMessageEdited: (messageId: string, newText: string, editedAt?: string | null) => {
+        // The old translation is of the previous text
+        setMessages(prev => prev.map(msg =>
+          msg.id === messageId
+            ? { ...msg, original: newText, translation: null, edited_at: editedAt ?? msg.edited_at ?? new Date().toISOString() }
+            : msg
+        ))
+      },
+      
+      onReTranslationNeeded: (messageId: string, originalText: string) => {
+        reTranslateEditedMessageRef.current?.(messageId, originalText)
+      },
+      
+      onMessageRevised: (revision: DatabaseMessageRevision) => {
+        // Shows "edited"; the new text follows with the message update
+        setMessages(prev => prev.map(msg =>
+          msg.id === revision.message_id ? { ...msg, edited_at: revision.edited_at } : msg
+        ))
+      },
+      
+      onMessageDeleted: (messageId: string) => {
+        setMessages(prev => prev.filter(msg => msg.id !== messageId))
+      },
+      
       onMessageDelivered: (messageId: string) => {
         console.log('✅ [SessionTranslator] Message delivered:', messageId)
         // Update message status to show delivery confirmation
@@ -266,6 +468,23 @@ export function SessionTranslator() {
     const unsubscribePresence = presenceService.subscribeToPresence((isOnline: boolean) => {
       console.log('👥 [SessionTranslator] Partner presence changed:', isOnline)
       setPartnerOnline(isOnline)
+      
+      // Catch a (re)joining partner up on the session glossary; the newer copy wins on their side
+      const glossary = GlossaryManager.getSessionGlossary(sessionState.sessionId)
+      if (isOnline && Date.parse(glossary.updatedAt) > 0) {
+        presenceService.broadcastGlossary(glossary)
+      }
+
+      // ...and on how our messages should sound on their side
+      const voiceProfile = VoiceProfileManager.getOwnProfile()
+      if (isOnline && voiceProfile) {
+        presenceService.broadcastVoiceProfile(voiceProfile)
+      }
+    })
+    
+    const unsubscribeParticipants = presenceService.subscribeToParticipants((roster) => {
+      console.log('👥 [SessionTranslator] Participants:', roster.map(p => `${p.userId} (${p.language ?? '?'})`))
+      setParticipants(roster)
     })
     
     const unsubscribeActivity = presenceService.subscribeToActivity((activity: 'idle' | 'recording' | 'processing' | 'typing') => {
@@ -274,6 +493,31 @@ export function SessionTranslator() {
       console.log(`✅ [ActivityIndicator] State updated, will pass to SingleDeviceTranslator`)
     })
     
+    const unsubscribeGlossary = presenceService.subscribeToGlossary((glossary) => {
+      GlossaryManager.applySessionGlossary(sessionState.sessionId, glossary)
+    })
+    
+    // Share our own session glossary edits with the partner
+    const unsubscribeGlossaryChanges = GlossaryManager.subscribe((changedSessionId, source) => {
+      if (source === 'local' && changedSessionId === sessionState.sessionId) {
+        presenceService.broadcastGlossary(GlossaryManager.getSessionGlossary(sessionState.sessionId))
+      }
+    })
+    
+    // Our own messages in this session are read out with our own voice profile
+    const unregisterSelfVoice = VoiceProfileManager.registerSelf(sessionState.userId)
+
+    const unsubscribeVoiceProfile = presenceService.subscribeToVoiceProfile((userId, profile) => {
+      VoiceProfileManager.applyPartnerProfile(userId, profile)
+    })
+
+    // Share our own voice profile edits with the partner
+    const unsubscribeVoiceProfileChanges = VoiceProfileManager.subscribe((speakerId, source) => {
+      if (source === 'local' && speakerId === null) {
+        presenceService.broadcastVoiceProfile(VoiceProfileManager.getOwnProfile())
+      }
+    })
+    
     // Initialize the session
     const initializeSession = async () => {
       try {
@@ -286,8 +530,8 @@ export function SessionTranslator() {
           return
         }
         
-        // Add this user as participant
-        await sessionStateManager.addParticipant(sessionState.sessionId, sessionState.userId)
+        // Add this user as participant, declaring the language they read
+        await sessionStateManager.addParticipant(sessionState.sessionId, sessionState.userId, ownLanguageRef.current)
         
         // Initialize RealtimeConnection first
         await realtimeConnection.initialize({
@@ -348,15 +592,24 @@ export function SessionTranslator() {
       console.log('🧹 [SessionTranslator] Component unmounting, cleaning up session...')
       // Cleanup presence subscriptions
       unsubscribePresence()
+      unsubscribeParticipants()
       unsubscribeActivity()
+      unsubscribeGlossary()
+      unsubscribeGlossaryChanges()
+      unregisterSelfVoice()
+      unsubscribeVoiceProfile()
+      unsubscribeVoiceProfileChanges()
       // Cleanup services
       presenceService.cleanup()
       messageSyncService.cleanup()
       realtimeConnection.cleanup()
+      ttsPlaybackQueue.stop()
       // Clear session state in SessionStateManager (keeps persistence for recovery)
       sessionStateManager.cleanup()
       // Reset presence service ready state
       setPresenceServiceReady(false)
+      setParticipants([])
+      awaitingTranslation.clear()
     }
   }, [sessionState?.sessionId])
   
@@ -381,6 +634,47 @@ export function SessionTranslator() {
   }, [sessionState])
   
   // Handle new messages from SingleDeviceTranslator
+  // Fetch the page before the oldest message shown, as the user scrolls up
+  const handleLoadOlderMessages = async () => {
+    if (isLoadingOlderMessages || !hasOlderMessages) return
+    
+    setIsLoadingOlderMessages(true)
+    setHasOlderMessages(await messageSyncService.loadOlderMessages())
+    setIsLoadingOlderMessages(false)
+  }
+  
+  // Languages the other participants read. They're declared in the database;
+  // presence only knows who's online
+  const loadRecipientLanguages = async (session: SessionState, sourceLanguage: string): Promise<LanguageCode[]> => {
+    const participants = await sessionManager.getParticipants(session.sessionId).catch(error => {
+      console.warn('⚠️ [SessionTranslator] Could not load participants, using those online:', error)
+      return presenceService.getParticipants()
+    })
+    return getRecipientLanguages(participants, session.userId, sourceLanguage)
+  }
+
+  // Translate a sent message once more per other language the participants
+  // read, and add those translations to it
+  const fanOutSentMessage = async (messageId: string, message: QueuedMessage, session: SessionState) => {
+    try {
+      const targetLanguage = translationLanguage(message)
+      const languages = (await loadRecipientLanguages(session, message.original_lang))
+        .filter(language => language !== targetLanguage)
+      if (languages.length === 0) return
+
+      const translations = await fanOutTranslations(translationPipeline, {
+        text: message.original,
+        sourceLanguage: LanguageRegistry.toCode(message.original_lang),
+        languages,
+        mode: UserManager.getTranslationMode(),
+        glossary: GlossaryManager.getEntries(session.sessionId)
+      })
+      await messageSyncService.storeTranslations(messageId, translations)
+    } catch (error) {
+      console.error('❌ [SessionTranslator] Failed to translate for the other participants:', error)
+    }
+  }
+
   const handleNewMessage = async (message: QueuedMessage) => {
     console.log('🔍 [SessionTranslator] handleNewMessage called with:', {
       id: message.id,
@@ -470,6 +764,8 @@ export function SessionTranslator() {
       try {
         console.log('📤 [SessionTranslator] Sending message to MessageSyncService:', message.id)
         
+        const targetLanguage = translationLanguage(message)
+        
         // Transform QueuedMessage to format expected by queueMessage (matching actual DB schema)
         const queuedMessageData = {
           session_id: sessionState.sessionId,
@@ -477,13 +773,22 @@ export function SessionTranslator() {
           original_text: message.original,
           translated_text: message.translation,
           original_language: message.original_lang || 'auto',
-          timestamp: new Date().toISOString()
+          timestamp: new Date().toISOString(),
+          translations: targetLanguage ? { [targetLanguage]: message.translation } : {}
           // Note: Removed non-existent columns: audio_duration, is_audio, target_language, created_at
         }
         
         const messageId = messageSyncService.queueMessage(queuedMessageData)
         console.log('✅ [SessionTranslator] Message queued successfully:', messageId)
         
+        // Other languages the participants read follow without holding up the send
+        fanOutSentMessage(messageId, message, sessionState)
+        
+        // Link the original recording to the synced message (and upload it if sharing is on)
+        RecordingStore.share(message.id, sessionState.sessionId, messageId).catch(error =>
+          console.warn('⚠️ [SessionTranslator] Could not share the recording:', error)
+        )
+        
       } catch (error) {
         console.error('❌ [SessionTranslator] Failed to send message:', {
           messageId: message.id,
@@ -495,6 +800,33 @@ export function SessionTranslator() {
     }
   }
   
+  // An edit clears the message's translations: translate the new text again,
+  // into its main language and every language the participants read
+  const reTranslateEditedMessage = async (messageId: string, originalText: string) => {
+    const message = messages.find(msg => msg.id === messageId)
+    if (!message || !sessionState) return
+
+    try {
+      const sourceLanguage = LanguageRegistry.toCode(message.original_lang)
+      const targetLanguage = translationLanguage(message)
+      const recipientLanguages = await loadRecipientLanguages(sessionState, message.original_lang)
+      const translations = await fanOutTranslations(translationPipeline, {
+        text: originalText,
+        sourceLanguage,
+        languages: targetLanguage ? Array.from(new Set([targetLanguage, ...recipientLanguages])) : recipientLanguages,
+        mode: UserManager.getTranslationMode(),
+        glossary: GlossaryManager.getEntries(sessionState.sessionId)
+      })
+      const translation = targetLanguage ? translations[targetLanguage] ?? null : null
+
+      await messageSyncService.storeReTranslation(messageId, translation, translations)
+      setMessages(prev => prev.map(msg => msg.id === messageId ? { ...msg, translation } : msg))
+    } catch (error) {
+      console.error('❌ [SessionTranslator] Failed to translate the edited message:', error)
+    }
+  }
+  reTranslateEditedMessageRef.current = reTranslateEditedMessage
+  
   // Don't render if no session
   if (!sessionState) {
     return null
@@ -534,10 +866,18 @@ export function SessionTranslator() {
               userId: sessionState.userId,
               status: connectionStatus,
               connectionState: connectionState,
-              partnerOnline: partnerOnline
+              partnerOnline: partnerOnline,
+              participants
             }}
             presenceService={presenceServiceReady ? presenceService : undefined}
             onReactionToggle={handleReactionToggle}
+            languagePair={sessionState.languagePair ?? null}
+            onLanguagePairChange={handleLanguagePairChange}
+            onRemoveMessage={(messageId) => setMessages(prev => prev.filter(m => m.id !== messageId))}
+            hasOlderMessages={hasOlderMessages}
+            isLoadingOlderMessages={isLoadingOlderMessages}
+            onLoadOlderMessages={handleLoadOlderMessages}
+            onLoadRevisions={loadMessageRevisions}
           />
         </div>
       </div>
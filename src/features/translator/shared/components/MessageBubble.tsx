@@ -1,11 +1,17 @@
 import { useState, useRef, useCallback } from 'react'
 import { clsx } from 'clsx'
-import { Check, Clock, AlertCircle, Play, Pause, Loader2, Volume2, ChevronDown, ChevronUp } from 'lucide-react'
+import { Check, Clock, AlertCircle, AlertTriangle, Pause, Loader2, Volume2, ChevronDown, ChevronUp, History, RotateCcw, WifiOff, ArrowUp, ArrowDown, Trash2 } from 'lucide-react'
 import type { TranslatorMessage } from '../types'
 import { useLongPress } from '@/hooks/useLongPress'
 import { EmojiReactionPickerFixed as EmojiReactionPicker } from '@/features/messages/EmojiReactionPickerFixed'
 import { MessageReactions } from '@/features/messages/MessageReactions'
-import type { MessageReactions as MessageReactionsType } from '@/types/database'
+import type { MessageReactions as MessageReactionsType, DatabaseMessageRevision } from '@/types/database'
+import { useTTSPlayback } from '@/hooks/useTTSPlayback'
+import { useTranslation } from '@/lib/i18n/useTranslation'
+import { OriginalRecordingPlayer } from '@/features/messages/OriginalRecordingPlayer'
+import { MessageRevisionViewer } from '@/features/messages/MessageRevisionViewer'
+import { isDoubtfulTranslation } from '@/services/pipeline/TranslationVerifier'
+import type { TranslationVerification } from '@/services/pipeline/types'
 
 // Re-export compatible type for compatibility
 export type QueuedMessage = TranslatorMessage & {
@@ -13,6 +19,9 @@ export type QueuedMessage = TranslatorMessage & {
   original_lang: string
   target_lang: string
   reactions?: MessageReactionsType
+  edited_at?: string | null // Session mode: last edit
+  verification?: TranslationVerification // Solo mode: result of the optional verification stage
+  offlineCapture?: boolean // Made offline, waiting in CaptureQueue
 }
 
 export interface MessageBubbleProps {
@@ -24,12 +33,14 @@ export interface MessageBubbleProps {
   fontSize?: 'small' | 'medium' | 'large' | 'xl'
   onReactionToggle?: (messageId: string, emoji: string, userId: string) => void
   onLongPress?: (messageId: string, position: { x: number, y: number }) => void
+  onRetranslate?: (message: QueuedMessage) => void // Shown on doubtful translations
+  onMoveCapture?: (messageId: string, direction: 'up' | 'down') => void // Offline messages still waiting
+  onDeleteCapture?: (messageId: string) => void
+  onLoadRevisions?: (messageId: string) => Promise<DatabaseMessageRevision[]> // Session mode: edit history
   className?: string
   'data-testid'?: string
 }
 
-type TTSStatus = 'idle' | 'loading' | 'ready' | 'playing' | 'error'
-
 export function MessageBubble({ 
   message, 
   theme = 'blue', 
@@ -38,18 +49,20 @@ export function MessageBubble({
   fontSize = 'medium',
   onReactionToggle,
   onLongPress,
+  onRetranslate,
+  onMoveCapture,
+  onDeleteCapture,
+  onLoadRevisions,
   className,
   'data-testid': testId = 'message-bubble'
 }: MessageBubbleProps) {
+  const { t } = useTranslation()
   // In solo mode, use a consistent userId for all messages
   const userId = currentUserId || 'single-user'
-  const [ttsStatus, setTtsStatus] = useState<TTSStatus>('idle')
-  const [audioUrl, setAudioUrl] = useState<string | null>(null)
-  const [error, setError] = useState<string | null>(null)
   const [showOriginal, setShowOriginal] = useState(false)
   const [showEmojiPicker, setShowEmojiPicker] = useState(false)
   const [pickerPosition, setPickerPosition] = useState({ x: 0, y: 0 })
-  const audioRef = useRef<HTMLAudioElement | null>(null)
+  const [showRevisions, setShowRevisions] = useState(false)
   const messageRef = useRef<HTMLDivElement | null>(null)
   
   // Determine message alignment and styling based on mode
@@ -58,6 +71,9 @@ export function MessageBubble({
   // Determine if reactions are allowed
   const canReact = isSessionMode && !isOwnMessage && onReactionToggle
   
+  // Edited messages keep their earlier versions
+  const hasRevisions = !!message.edited_at && !!onLoadRevisions
+  
   // Debug logging
   if (process.env.NODE_ENV === 'development') {
     console.log(`🔍 MessageBubble: canReact=${canReact}, isSessionMode=${isSessionMode}, isOwnMessage=${isOwnMessage}`, {
@@ -102,67 +118,25 @@ export function MessageBubble({
   // Show translation as primary text, original as secondary
   const primaryText = message.translation || message.original
   const secondaryText = message.translation ? message.original : null
+  
+  // A processing message is being streamed in: transcript first, then a growing translation
+  const isStreaming = message.status === 'processing'
 
-  // Simplified TTS function for shared component
-  const generateTTS = async () => {
-    if (ttsStatus === 'loading') return
-    
-    setTtsStatus('loading')
-    setError(null)
-    
-    try {
-      // For the shared component, we'll use a simplified approach
-      // The actual TTS implementation will be injected through props or context
-      console.log('🔊 TTS requested for:', primaryText)
-      
-      // Simulate TTS generation - in real implementation this would be handled by parent
-      await new Promise(resolve => setTimeout(resolve, 1000))
-      
-      // Create a simple audio URL (placeholder)
-      const url = `data:audio/wav;base64,${btoa('placeholder-audio-data')}`
-      setAudioUrl(url)
-      setTtsStatus('ready')
-      
-    } catch (err) {
-      console.error('TTS generation failed:', err)
-      setError((err as Error).message)
-      setTtsStatus('error')
-    }
-  }
-
-  const playAudioWithUrl = (url: string) => {
-    if (audioRef.current) {
-      audioRef.current.pause()
-      audioRef.current.currentTime = 0
-    }
-    
-    const audio = new Audio(url)
-    audioRef.current = audio
-    
-    audio.onplay = () => setTtsStatus('playing')
-    audio.onended = () => setTtsStatus('ready')
-    audio.onerror = () => {
-      setError('Audio playback failed')
-      setTtsStatus('error')
-    }
-    
-    audio.play().catch(err => {
-      console.error('Audio playback failed:', err)
-      setError('Audio playback failed')
-      setTtsStatus('error')
-    })
-  }
+  // Verification stage flagged this translation (low back-translation agreement or a likely reply)
+  const isDoubtful = message.status === 'displayed' && isDoubtfulTranslation(message.verification)
+  const doubtfulTitle = message.verification?.possibleReply
+    ? 'This may be a reply instead of a translation'
+    : `Low translation confidence (${Math.round((message.verification?.confidence ?? 0) * 100)}%)`
 
-  const handleTTSClick = () => {
-    if (ttsStatus === 'idle' || ttsStatus === 'error') {
-      generateTTS()
-    } else if (ttsStatus === 'ready') {
-      audioUrl && playAudioWithUrl(audioUrl)
-    } else if (ttsStatus === 'playing') {
-      audioRef.current?.pause()
-      setTtsStatus('ready')
-    }
-  }
+  // Speech goes through the app-wide playback queue
+  const { status: ttsStatus, speakerName, toggle: handleTTSClick } = useTTSPlayback({
+    messageId: message.id,
+    text: primaryText,
+    language: message.translation
+      ? (message.target_lang || message.targetLang)
+      : (message.original_lang || message.originalLang),
+    speakerId: message.user_id || message.userId
+  })
 
   // Get TTS button content based on status
   const getTTSButton = () => {
@@ -171,8 +145,8 @@ export function MessageBubble({
         return <Loader2 className="h-3 w-3 animate-spin" />
       case 'playing':
         return <Pause className="h-3 w-3" />
-      case 'ready':
-        return <Play className="h-3 w-3" />
+      case 'queued':
+        return <Clock className="h-3 w-3" />
       case 'error':
         return <Volume2 className="h-3 w-3 text-red-400" />
       default:
@@ -189,6 +163,11 @@ export function MessageBubble({
     })
     
     if (!canReact) {
+      // Edit history is then the only menu entry
+      if (hasRevisions) {
+        setShowRevisions(true)
+        return
+      }
       console.log('❌ Cannot react to this message')
       return
     }
@@ -212,7 +191,7 @@ export function MessageBubble({
     if (onLongPress) {
       onLongPress(message.id, { x: clientX, y: clientY })
     }
-  }, [canReact, message.id, onLongPress, isOwnMessage])
+  }, [canReact, hasRevisions, message.id, onLongPress, isOwnMessage])
 
   // Handle reaction toggle from picker
   const handleReactionToggle = (emoji: string) => {
@@ -362,6 +341,13 @@ export function MessageBubble({
               !useOwnMessageStyling && 'text-gray-900 dark:text-gray-100'
             )}>
               {primaryText}
+              {isStreaming && (
+                <span
+                  className="inline-block w-1.5 h-[1em] ml-0.5 align-text-bottom bg-current opacity-70 animate-pulse"
+                  data-testid="streaming-cursor"
+                  aria-hidden="true"
+                />
+              )}
             </p>
             
             {/* Chevron toggle for original text */}
@@ -403,10 +389,40 @@ export function MessageBubble({
           )}
         </div>
         
-        {/* Error message */}
-        {error && (
-          <div className="mb-2 text-xs text-red-400">
-            {error}
+        {/* Made offline: waiting for the connection, can be reordered or deleted */}
+        {message.offlineCapture && message.status === 'queued' && (
+          <div className="flex items-center gap-1 mb-1 text-xs opacity-90" data-testid="offline-capture">
+            <WifiOff className="h-3 w-3 flex-shrink-0" />
+            <span className="flex-1">
+              {message.original ? 'Waiting for connection' : 'Voice message waiting for connection'}
+            </span>
+            {onMoveCapture && (
+              <>
+                <button
+                  onClick={() => onMoveCapture(message.id, 'up')}
+                  className="p-1 rounded-full hover:bg-black/10"
+                  title="Move up"
+                >
+                  <ArrowUp className="h-3 w-3" />
+                </button>
+                <button
+                  onClick={() => onMoveCapture(message.id, 'down')}
+                  className="p-1 rounded-full hover:bg-black/10"
+                  title="Move down"
+                >
+                  <ArrowDown className="h-3 w-3" />
+                </button>
+              </>
+            )}
+            {onDeleteCapture && (
+              <button
+                onClick={() => onDeleteCapture(message.id)}
+                className="p-1 rounded-full hover:bg-black/10"
+                title="Delete"
+              >
+                <Trash2 className="h-3 w-3" />
+              </button>
+            )}
           </div>
         )}
         
@@ -424,6 +440,11 @@ export function MessageBubble({
               })}
             </span>
             
+            {/* Edited since it was sent */}
+            {message.edited_at && (
+              <span className="opacity-75 text-xs italic" data-testid="message-edited">{t('session.edited')}</span>
+            )}
+            
             {/* Status indicator */}
             {isOwnMessage && (
               <div className="opacity-75">
@@ -433,18 +454,46 @@ export function MessageBubble({
                 {message.status === 'failed' && <AlertCircle className="h-3 w-3 text-red-400" />}
               </div>
             )}
+            
+            {/* Translation quality warning */}
+            {isDoubtful && (
+              <div className="flex items-center gap-1" data-testid="translation-warning">
+                <span title={doubtfulTitle} className="text-amber-400">
+                  <AlertTriangle className="h-3 w-3" />
+                </span>
+                {onRetranslate && (
+                  <button
+                    onClick={() => onRetranslate(message)}
+                    className="p-0.5 rounded-full hover:bg-black/10 opacity-75 hover:opacity-100"
+                    title="Retranslate"
+                  >
+                    <RotateCcw className="h-3 w-3" />
+                  </button>
+                )}
+              </div>
+            )}
           </div>
           
-          {/* Right side - TTS Control */}
+          {/* Right side - Original recording and TTS Control */}
           <div className="flex items-center gap-1">
+            <OriginalRecordingPlayer
+              messageId={message.id}
+              sessionId={isSessionMode ? message.sessionId : undefined}
+            />
+            {/* Who is speaking, from their voice profile */}
+            {speakerName && ttsStatus === 'playing' && (
+              <span className="text-[10px] opacity-75 truncate max-w-[6rem]" data-testid="tts-speaker">
+                {speakerName}
+              </span>
+            )}
             <button
               onClick={handleTTSClick}
-              disabled={ttsStatus === 'loading'}
+              disabled={ttsStatus === 'loading' || isStreaming}
               className={clsx(
                 'p-1 rounded-full transition-all duration-200 hover:bg-black/10',
                 {
                   'opacity-50 cursor-not-allowed': ttsStatus === 'loading',
-                  'text-green-400': ttsStatus === 'ready' || ttsStatus === 'playing',
+                  'text-green-400': ttsStatus === 'queued' || ttsStatus === 'playing',
                   'text-red-400': ttsStatus === 'error',
                   'hover:scale-110': ttsStatus !== 'loading'
                 },
@@ -453,8 +502,8 @@ export function MessageBubble({
               title={
                 ttsStatus === 'idle' ? 'Play audio' :
                 ttsStatus === 'loading' ? 'Generating...' :
-                ttsStatus === 'ready' ? 'Play audio' :
-                ttsStatus === 'playing' ? 'Pause audio' :
+                ttsStatus === 'queued' ? 'Queued' :
+                ttsStatus === 'playing' ? 'Stop audio' :
                 'Error - click to retry'
               }
             >
@@ -489,7 +538,29 @@ export function MessageBubble({
         position={pickerPosition}
         onEmojiSelect={handleReactionToggle}
         onClose={() => setShowEmojiPicker(false)}
+        actions={hasRevisions ? (
+          <button
+            onClick={() => {
+              setShowEmojiPicker(false)
+              setShowRevisions(true)
+            }}
+            className="flex items-center gap-1 px-3 py-1 rounded-full bg-white dark:bg-gray-800 text-xs text-gray-700 dark:text-gray-200 shadow border border-gray-200 dark:border-gray-700"
+          >
+            <History className="h-3 w-3" />
+            {t('session.editHistory')}
+          </button>
+        ) : undefined}
       />
+      
+      {/* Earlier versions of an edited message, from the long-press menu */}
+      {showRevisions && onLoadRevisions && (
+        <MessageRevisionViewer
+          message={message}
+          currentUserId={userId}
+          loadRevisions={onLoadRevisions}
+          onClose={() => setShowRevisions(false)}
+        />
+      )}
     </>
   )
 }
\ No newline at end of file
@@ -0,0 +1,71 @@
+import { clsx } from 'clsx'
+import { Users } from 'lucide-react'
+import { useTranslation } from '@/lib/i18n/useTranslation'
+import { LanguageRegistry } from '@/lib/languages/LanguageRegistry'
+import type { SessionParticipant } from '@/services/session/types'
+
+export interface ParticipantRosterProps {
+  participants: SessionParticipant[] // In join order
+  currentUserId: string
+  partnerOnline: boolean // Until the roster has loaded
+  className?: string
+}
+
+/**
+ * Session roster for the header: everyone who joined, with the language they
+ * read and whether they're online. Two-person sessions keep the partner line
+ */
+export function ParticipantRoster({
+  participants,
+  currentUserId,
+  partnerOnline,
+  className
+}: ParticipantRosterProps) {
+  const { t } = useTranslation()
+
+  const others = participants.filter(participant => participant.userId !== currentUserId)
+  const onlineCount = participants.filter(participant => participant.isOnline).length
+  const isGroup = others.length > 1
+
+  return (
+    <div className={clsx('flex items-center gap-1.5', className)} data-testid="session-roster">
+      <Users className="h-3 w-3 text-gray-500" />
+      <span className={`text-xs ${partnerOnline ? 'text-green-600' : 'text-gray-500'}`}>
+        {isGroup
+          ? t('session.participantsOnline', { online: String(onlineCount), total: String(participants.length) })
+          : partnerOnline ? t('session.partnerOnline') : t('session.partnerOffline')
+        }
+      </span>
+
+      {participants.length > 1 && (
+        <ul className="flex items-center gap-1">
+          {participants.map((participant, index) => {
+            const isSelf = participant.userId === currentUserId
+            const language = participant.language && LanguageRegistry.getLanguage(participant.language)
+            const label = isSelf ? t('session.you') : t('session.participant', { number: String(index + 1) })
+
+            return (
+              <li
+                key={participant.userId}
+                className={clsx(
+                  'flex items-center gap-0.5 px-1.5 py-0.5 rounded-full text-[10px] font-medium',
+                  isSelf
+                    ? 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300'
+                    : 'bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-300',
+                  !participant.isOnline && 'opacity-50'
+                )}
+                title={`${label}${language ? ` · ${language.name}` : ''}`}
+                data-testid="roster-participant"
+                data-online={participant.isOnline}
+              >
+                <span className={clsx('w-1.5 h-1.5 rounded-full', participant.isOnline ? 'bg-green-500' : 'bg-gray-400')} />
+                {language ? language.flag : null}
+                <span>{label}</span>
+              </li>
+            )
+          })}
+        </ul>
+      )}
+    </div>
+  )
+}
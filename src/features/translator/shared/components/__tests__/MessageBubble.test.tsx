@@ -0,0 +1,79 @@
+import { describe, it, expect, vi } from 'vitest'
+import { render, screen, fireEvent } from '@testing-library/react'
+import type { ReactElement } from 'react'
+import { TranslationProvider } from '@/lib/i18n/useTranslation'
+import { MessageBubble, type QueuedMessage } from '../MessageBubble'
+
+vi.mock('@/features/messages/OriginalRecordingPlayer', () => ({
+  OriginalRecordingPlayer: () => null
+}))
+
+const renderWithTranslations = (ui: ReactElement) => render(<TranslationProvider>{ui}</TranslationProvider>)
+
+describe('MessageBubble', () => {
+  const createMessage = (overrides: Partial<QueuedMessage> = {}): QueuedMessage => ({
+    id: 'msg-1',
+    original: 'See you at five',
+    translation: 'Nos vemos a las cinco',
+    originalLang: 'en',
+    targetLang: 'es',
+    original_lang: 'en',
+    target_lang: 'es',
+    status: 'displayed',
+    timestamp: '2025-01-01T10:00:00.000Z',
+    created_at: '2025-01-01T10:00:00.000Z',
+    user_id: 'single-user',
+    ...overrides
+  })
+
+  describe('Translation verification', () => {
+    it('should warn about a translation that failed verification and offer to retranslate it', () => {
+      const onRetranslate = vi.fn()
+      const message = createMessage({ verification: { confidence: 0.2, possibleReply: false } })
+
+      renderWithTranslations(<MessageBubble message={message} onRetranslate={onRetranslate} />)
+
+      expect(screen.getByTestId('translation-warning')).toBeInTheDocument()
+      expect(screen.getByTitle('Low translation confidence (20%)')).toBeInTheDocument()
+
+      fireEvent.click(screen.getByTitle('Retranslate'))
+      expect(onRetranslate).toHaveBeenCalledWith(message)
+    })
+
+    it('should flag a likely reply instead of a translation', () => {
+      renderWithTranslations(<MessageBubble message={createMessage({ verification: { confidence: 0.9, possibleReply: true } })} />)
+
+      expect(screen.getByTitle('This may be a reply instead of a translation')).toBeInTheDocument()
+      expect(screen.queryByTitle('Retranslate')).not.toBeInTheDocument()
+    })
+
+    it('should not warn about a verified translation', () => {
+      renderWithTranslations(<MessageBubble message={createMessage({ verification: { confidence: 0.9, possibleReply: false } })} />)
+
+      expect(screen.queryByTestId('translation-warning')).not.toBeInTheDocument()
+    })
+  })
+
+  describe('Offline captures', () => {
+    it('should let a message waiting for the connection be reordered and deleted', () => {
+      const onMoveCapture = vi.fn()
+      const onDeleteCapture = vi.fn()
+      const message = createMessage({ translation: null, status: 'queued', offlineCapture: true })
+
+      renderWithTranslations(<MessageBubble message={message} onMoveCapture={onMoveCapture} onDeleteCapture={onDeleteCapture} />)
+
+      expect(screen.getByTestId('offline-capture')).toHaveTextContent('Waiting for connection')
+
+      fireEvent.click(screen.getByTitle('Move up'))
+      fireEvent.click(screen.getByTitle('Delete'))
+      expect(onMoveCapture).toHaveBeenCalledWith('msg-1', 'up')
+      expect(onDeleteCapture).toHaveBeenCalledWith('msg-1')
+    })
+
+    it('should drop the controls once the capture is being translated', () => {
+      renderWithTranslations(<MessageBubble message={createMessage({ status: 'processing', offlineCapture: true })} onDeleteCapture={vi.fn()} />)
+
+      expect(screen.queryByTestId('offline-capture')).not.toBeInTheDocument()
+    })
+  })
+})
@@ -11,6 +11,7 @@ export { AudioVisualization, AudioFrequencyAnalyzer } from './AudioVisualization
 export { ScrollToBottomButton } from './ScrollToBottomButton'
 export { UnreadMessagesDivider } from './UnreadMessagesDivider'
 export { ErrorDisplay, InlineError, ErrorToast } from './ErrorDisplay'
+export { ParticipantRoster } from './ParticipantRoster'
 
 // Re-export types
 export type { QueuedMessage } from './MessageBubble'
\ No newline at end of file
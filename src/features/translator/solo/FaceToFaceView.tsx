@@ -0,0 +1,138 @@
+import { useEffect, type ReactNode } from 'react'
+import { clsx } from 'clsx'
+import { Mic } from 'lucide-react'
+import { MessageBubble } from '@/features/messages/MessageBubble'
+import { type QueuedMessage } from '@/features/messages/MessageQueue'
+import { AudioVisualization } from '../shared'
+import { useSmartScroll } from '@/hooks/useSmartScroll'
+import { useTranslation } from '@/lib/i18n/useTranslation'
+import { LanguageRegistry, type LanguagePair } from '@/lib/languages/LanguageRegistry'
+import { FACE_TO_FACE_SIDES, FACE_TO_FACE_SPEAKERS, toHalfMessage, type FaceToFaceSide } from './faceToFace'
+
+interface FaceToFaceViewProps {
+  messages: QueuedMessage[]
+  languagePair: LanguagePair
+  recordingSide: FaceToFaceSide | null // Whose half is recording, if any
+  isProcessing?: boolean
+  audioLevel: number
+  fontSize?: 'small' | 'medium' | 'large' | 'xl'
+  onToggleRecording: (side: FaceToFaceSide) => void
+  divider?: ReactNode // Shown on the line between the halves (errors)
+}
+
+/**
+ * Split screen for a phone lying flat between two people
+ *
+ * Each half belongs to one speaker: their language, their record button,
+ * and the conversation as they read it. The top half is turned 180° for
+ * the person across the table
+ */
+export function FaceToFaceView({ divider, ...props }: FaceToFaceViewProps) {
+  const [top, bottom] = FACE_TO_FACE_SIDES
+
+  return (
+    <div className="h-full flex flex-col" data-testid="face-to-face-view">
+      <FaceToFaceHalf side={top} {...props} />
+      <div className="flex-shrink-0 border-t border-dashed border-gray-300 dark:border-gray-600">
+        {divider}
+      </div>
+      <FaceToFaceHalf side={bottom} {...props} />
+    </div>
+  )
+}
+
+interface FaceToFaceHalfProps extends Omit<FaceToFaceViewProps, 'divider'> {
+  side: FaceToFaceSide
+}
+
+function FaceToFaceHalf({
+  side,
+  messages,
+  languagePair,
+  recordingSide,
+  isProcessing = false,
+  audioLevel,
+  fontSize = 'medium',
+  onToggleRecording
+}: FaceToFaceHalfProps) {
+  const { t } = useTranslation()
+  const { scrollContainerRef, scrollToBottom, shouldAutoScroll } = useSmartScroll({ threshold: 80 })
+
+  const language = LanguageRegistry.getLanguage(languagePair[side])
+  const isRecording = recordingSide === side
+  const otherIsRecording = recordingSide !== null && !isRecording
+
+  // Each half follows new messages unless its reader has scrolled back
+  const lastMessage = messages[messages.length - 1]
+  useEffect(() => {
+    if (shouldAutoScroll) {
+      scrollToBottom()
+    }
+  }, [messages.length, lastMessage?.translation, shouldAutoScroll, scrollToBottom])
+
+  return (
+    <section
+      className={clsx('flex-1 min-h-0 flex flex-col', side === 'partner' && 'rotate-180')}
+      data-testid={`face-to-face-half-${side}`}
+      lang={languagePair[side]}
+    >
+      <div
+        ref={scrollContainerRef}
+        className="flex-1 overflow-y-auto px-4 py-3 space-y-3"
+        style={{ touchAction: 'pan-y', overscrollBehavior: 'contain' }}
+      >
+        {messages.length === 0 ? (
+          <div className="h-full flex items-center justify-center text-center text-sm text-gray-500 dark:text-gray-400">
+            {t('translator.faceToFaceHint')}
+          </div>
+        ) : (
+          messages.map(message => (
+            <MessageBubble
+              key={message.id}
+              message={toHalfMessage(message, side)}
+              theme="blue"
+              currentUserId={FACE_TO_FACE_SPEAKERS[side]}
+              alignBySpeaker
+              fontSize={fontSize}
+            />
+          ))
+        )}
+      </div>
+
+      <div className="flex-shrink-0 flex items-center justify-between gap-2 px-3 py-2 bg-white/80 dark:bg-gray-900/80 backdrop-blur-sm">
+        <span className="text-sm font-medium text-gray-900 dark:text-gray-100" data-testid={`face-to-face-language-${side}`}>
+          {language?.flag} {language?.nativeName ?? languagePair[side]}
+        </span>
+
+        <span className="text-[10px] text-gray-600 dark:text-gray-400">
+          {isRecording ? t('translator.recording') : isProcessing ? t('translator.processing') : ''}
+        </span>
+
+        <div className="flex items-center gap-2">
+          <AudioVisualization
+            audioLevel={isRecording ? audioLevel : 0}
+            isRecording={isRecording}
+            size="sm"
+            colors={{ active: '#10B981', inactive: '#E5E7EB' }}
+          />
+          <button
+            data-testid={`face-to-face-record-${side}`}
+            onClick={() => onToggleRecording(side)}
+            disabled={otherIsRecording}
+            aria-pressed={isRecording}
+            aria-label={`${t('translator.faceToFaceRecord')} (${language?.name ?? languagePair[side]})`}
+            className={clsx(
+              'w-12 h-12 rounded-full flex items-center justify-center transition-all duration-200 transform-gpu flex-shrink-0 text-white active:scale-95',
+              isRecording
+                ? 'bg-green-500 hover:bg-green-600 scale-110 shadow-lg shadow-green-500/50'
+                : 'bg-green-500 hover:bg-green-600 hover:scale-105 shadow-lg shadow-green-500/30',
+              otherIsRecording && 'opacity-40 cursor-not-allowed hover:scale-100'
+            )}
+          >
+            <Mic className={clsx('h-4 w-4', isRecording && 'animate-pulse')} />
+          </button>
+        </div>
+      </div>
+    </section>
+  )
+}
@@ -1,6 +1,6 @@
-import { useState, useRef, useEffect } from 'react'
+import { useState, useRef, useEffect, useCallback } from 'react'
 import { useNavigate } from 'react-router-dom'
-import { ArrowLeft, Mic, MicOff, Settings, Sun, Moon, Wifi, WifiOff, RotateCcw, Users } from 'lucide-react'
+import { ArrowLeft, Mic, MicOff, Settings, Sun, Moon, Wifi, WifiOff, RotateCcw, Ear, SplitSquareVertical, Loader2 } from 'lucide-react'
 import { Button } from '@/components/ui/Button'
 import { Input } from '@/components/ui/Input'
 import { MobileContainer } from '@/components/layout/MobileContainer'
@@ -10,20 +10,35 @@ import {
   AudioVisualization,
   ErrorDisplay,
   ScrollToBottomButton,
-  UnreadMessagesDivider
+  UnreadMessagesDivider,
+  ParticipantRoster
 } from '../shared'
 import { type QueuedMessage } from '@/features/messages/MessageQueue'
 import { IMessageQueue } from '@/services/queues/IMessageQueue'
+import type { SessionParticipant } from '@/services/session'
+import type { DatabaseMessageRevision } from '@/types/database'
 import { MessageQueueService } from '@/services/queues/MessageQueueService'
-import { persistentAudioManager, type AudioRecordingResult } from '@/services/audio/PersistentAudioManager'
+import { persistentAudioManager, type AudioRecordingResult, type ListeningState } from '@/services/audio/PersistentAudioManager'
+import { ttsPlaybackQueue } from '@/services/audio/TTSPlaybackQueue'
+import { DEFAULT_VAD_CONFIG } from '@/services/audio/VoiceActivityDetector'
 import { performanceLogger } from '@/lib/performance'
-import { createTranslationPipeline, type ITranslationPipeline, type TranslationRequest } from '@/services/pipeline'
+import { createTranslationPipeline, type AudioChunkInput, type ITranslationPipeline, type TranslationRequest, type TranslationResult } from '@/services/pipeline'
 import { useTranslation } from '@/lib/i18n/useTranslation'
 import { UserManager } from '@/lib/user/UserManager'
+import { LanguageRegistry, type LanguageCode, type LanguagePair } from '@/lib/languages/LanguageRegistry'
+import { LanguageIdentifier } from '@/lib/languages/LanguageIdentifier'
+import { GlossaryManager } from '@/lib/glossary/GlossaryManager'
+import { RecordingStore } from '@/lib/recordings/RecordingStore'
+import { CaptureQueue, type CapturedMessage } from '@/lib/offline/CaptureQueue'
+import { pwaManager } from '@/lib/pwa/PWAManager'
+import { ModeRegistry, type CustomModeDefinition, type TranslationMode } from '@/lib/modes/ModeRegistry'
 import { useSounds } from '@/lib/sounds/SoundManager'
 import { ConversationContextManager, type ConversationContextEntry } from '@/lib/conversation/ConversationContext'
 import { useSmartScroll } from '@/hooks/useSmartScroll'
+import { useLoadOlderOnScroll } from '@/hooks/useLoadOlderOnScroll'
 import { useUnreadMessages } from '@/hooks/useUnreadMessages'
+import { FaceToFaceView } from './FaceToFaceView'
+import { FACE_TO_FACE_SPEAKERS, orientLanguagePair, otherSide, type FaceToFaceSide } from './faceToFace'
 
 /**
  * Generate a unique message ID using UUID
@@ -37,6 +52,44 @@ function generateMessageId(): string {
   return `msg-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
 }
 
+// Trailing silence choices (ms) that end a hands-free segment
+const HANDS_FREE_SILENCE_OPTIONS = [600, 900, 1500, 2500]
+
+// Long recordings come back cut at pauses; the pipeline transcribes the chunks
+function toAudioChunks(result: AudioRecordingResult): AudioChunkInput[] | undefined {
+  return result.chunks?.map(chunk => ({
+    audio: chunk.audioFile,
+    startTime: chunk.startTime,
+    endTime: chunk.endTime
+  }))
+}
+
+// Chat message for an offline capture that's waiting for the connection
+function toWaitingMessage(capture: CapturedMessage, displayOrder: number): QueuedMessage {
+  const { request } = capture
+  const capturedAt = new Date(capture.createdAt).toISOString()
+  return {
+    id: capture.id,
+    session_id: request.sessionId,
+    user_id: request.userId,
+    original: request.inputType === 'text' ? request.input as string : '',
+    translation: null,
+    original_lang: request.sourceLanguage ?? 'auto',
+    target_lang: request.targetLanguage,
+    status: 'queued',
+    queued_at: capturedAt,
+    processed_at: null,
+    displayed_at: null,
+    performance_metrics: null,
+    timestamp: capturedAt,
+    created_at: capturedAt,
+    localId: capture.id,
+    retryCount: 0,
+    displayOrder,
+    offlineCapture: true
+  }
+}
+
 interface SoloTranslatorProps {
   // Core solo mode props
   messageQueueService?: IMessageQueue
@@ -54,9 +107,17 @@ interface SoloTranslatorProps {
     status: 'connected' | 'connecting' | 'reconnecting' | 'disconnected'
     connectionState: string
     partnerOnline: boolean
+    participants?: SessionParticipant[] // Roster, in join order
   }
   presenceService?: any // PresenceService type (avoid circular import)
   onReactionToggle?: (messageId: string, emoji: string, userId: string) => void
+  languagePair?: LanguagePair | null // Session mode: pair stored in session state
+  onLanguagePairChange?: (pair: LanguagePair | null) => void
+  onRemoveMessage?: (messageId: string) => void // Session mode: a waiting offline message was deleted
+  hasOlderMessages?: boolean // Session mode: history pages remain above the loaded messages
+  isLoadingOlderMessages?: boolean
+  onLoadOlderMessages?: () => void
+  onLoadRevisions?: (messageId: string) => Promise<DatabaseMessageRevision[]> // Session mode: edit history viewer
 }
 
 export function SoloTranslator({ 
@@ -69,7 +130,14 @@ export function SoloTranslator({
   partnerActivity = 'idle',
   sessionInfo,
   onReactionToggle,
-  presenceService
+  presenceService,
+  languagePair: externalLanguagePair,
+  onLanguagePairChange,
+  onRemoveMessage,
+  hasOlderMessages = false,
+  isLoadingOlderMessages = false,
+  onLoadOlderMessages,
+  onLoadRevisions
 }: SoloTranslatorProps) {
   const navigate = useNavigate()
   const { t } = useTranslation()
@@ -97,17 +165,23 @@ export function SoloTranslator({
   const messages = isSessionMode ? (externalMessages || []) : internalMessages
   const setMessages = isSessionMode ? () => {} : setInternalMessages // No-op in session mode
   
+  // Messages made offline wait in the capture queue, per session
+  const captureSessionId = isSessionMode && sessionInfo ? sessionInfo.sessionId : 'solo-session'
+  const [captureOrder, setCaptureOrder] = useState<string[]>([])
+  const processCaptureQueueRef = useRef<() => Promise<void>>()
+  const processingCapturesRef = useRef(false)
+  
   const [isRecording, setIsRecording] = useState(false)
   const [isProcessing, setIsProcessing] = useState(false)
   const [currentActivity, setCurrentActivity] = useState<'idle' | 'recording' | 'processing' | 'typing'>('idle')
   
   // Helper to update activity and notify presence service in session mode
-  const updateActivity = (activity: 'idle' | 'recording' | 'processing' | 'typing') => {
+  const updateActivity = useCallback((activity: 'idle' | 'recording' | 'processing' | 'typing') => {
     setCurrentActivity(activity)
     if (isSessionMode && presenceService) {
       presenceService.updateActivity?.(activity)
     }
-  }
+  }, [isSessionMode, presenceService])
   
   // Helper functions for session status UI
   const getSessionStatusIcon = (status: string) => {
@@ -140,14 +214,28 @@ export function SoloTranslator({
     }
   }
   const [error, setError] = useState<string | null>(null)
-  const [targetLanguage, setTargetLanguage] = useState<'es' | 'pt' | 'fr' | 'de'>(() => {
-    const saved = UserManager.getPreference('targetLanguage', 'es')
-    return saved as 'es' | 'pt' | 'fr' | 'de'
+  const [targetLanguage, setTargetLanguage] = useState<LanguageCode>(() => {
+    const saved = UserManager.getPreference<string>('targetLanguage', 'es')
+    return LanguageRegistry.isLanguageCode(saved) && saved !== 'en' ? saved : 'es'
   })
-  const [translationMode, setTranslationMode] = useState<'casual' | 'fun'>(() => UserManager.getTranslationMode())
+  const [translationMode, setTranslationMode] = useState<TranslationMode>(() => UserManager.getTranslationMode())
+  const [customModes] = useState<CustomModeDefinition[]>(() => ModeRegistry.getCustomModes())
+  const [internalLanguagePair, setInternalLanguagePair] = useState<LanguagePair | null>(() => UserManager.getLanguagePair())
+  const languagePair = isSessionMode && externalLanguagePair !== undefined ? externalLanguagePair : internalLanguagePair
+  // Face-to-face: split screen between two people on this device. Solo mode only
+  const [faceToFace, setFaceToFace] = useState(() => !isSessionMode && UserManager.getPreference<boolean>('faceToFace', false))
+  const [recordingSide, setRecordingSide] = useState<FaceToFaceSide | null>(null)
+  const showFaceToFace = faceToFace && !isSessionMode && !!languagePair
   const [audioLevel, setAudioLevel] = useState(0)
+  const [handsFree, setHandsFree] = useState(false)
+  const [listeningState, setListeningState] = useState<ListeningState>('off')
+  const [handsFreeSilenceMs, setHandsFreeSilenceMs] = useState<number>(() =>
+    UserManager.getPreference('handsFreeSilenceMs', DEFAULT_VAD_CONFIG.trailingSilenceMs)
+  )
   const [conversationContext, setConversationContext] = useState<ConversationContextEntry[]>([])
   const [textMessage, setTextMessage] = useState('')
+  // Typed text whose language couldn't be identified confidently; the user picks one
+  const [pendingLanguageChoice, setPendingLanguageChoice] = useState<{ text: string; candidates: LanguageCode[] } | null>(null)
   const [showTextInput, setShowTextInput] = useState(false)
   const [showSettingsMenu, setShowSettingsMenu] = useState(false)
   const [fontSize, setFontSize] = useState<'small' | 'medium' | 'large' | 'xl'>(() => UserManager.getFontSize())
@@ -165,6 +253,14 @@ export function SoloTranslator({
     smoothScroll: true
   })
   
+  // Session history: older pages load as the user scrolls up
+  useLoadOlderOnScroll(scrollContainerRef, {
+    hasOlder: hasOlderMessages,
+    isLoading: isLoadingOlderMessages,
+    onLoadOlder: onLoadOlderMessages,
+    itemCount: externalMessages?.length ?? 0
+  })
+  
   // Unread messages tracking - Adapt for session vs solo mode
   const userId = isSessionMode ? (sessionInfo ? `session-${sessionInfo.code}` : 'session-user') : 'single-user'
   const {
@@ -196,11 +292,17 @@ export function SoloTranslator({
     }
   }
   
-  const addMessage = (message: QueuedMessage) => {
+  // Add a message or replace the existing one with the same id (used while streaming)
+  const upsertMessage = (message: QueuedMessage) => {
     if (isSessionMode) {
+      // SessionTranslator already upserts by id and only syncs 'displayed' messages
       onNewMessage?.(message)
     } else {
-      setInternalMessages(prev => [...prev, message])
+      setInternalMessages(prev => 
+        prev.some(msg => msg.id === message.id)
+          ? prev.map(msg => msg.id === message.id ? message : msg)
+          : [...prev, message]
+      )
     }
   }
   
@@ -306,14 +408,24 @@ export function SoloTranslator({
       setError(error.message)
     }
     
+    audioManager.onListeningStateChange = setListeningState
+    
     return () => {
       // Cleanup callbacks (but keep persistent stream alive)
       audioManager.onAudioData = undefined
       audioManager.onStateChange = undefined
       audioManager.onError = undefined
+      audioManager.onListeningStateChange = undefined
+      audioManager.stopHandsFree()
     }
   }, [])
 
+  // Partner sees "recording" while hands-free mode hears speech
+  useEffect(() => {
+    if (!handsFree) return
+    updateActivity(listeningState === 'speech' ? 'recording' : 'idle')
+  }, [handsFree, listeningState, updateActivity])
+
   // Close settings menu when clicking outside
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -329,16 +441,18 @@ export function SoloTranslator({
     }
   }, [showSettingsMenu])
 
-  const handleModeToggle = () => {
-    const newMode = UserManager.toggleTranslationMode()
-    setTranslationMode(newMode)
+  const handleModeChange = (mode: TranslationMode) => {
+    UserManager.setTranslationMode(mode)
+    setTranslationMode(mode)
   }
 
   const resetAudioLevel = () => {
     setAudioLevel(0)
   }
 
-  // Spacebar recording for desktop - toggle record on/off
+  // Spacebar recording for desktop - toggle record on/off. The listener goes
+  // through a ref so it always toggles with the current recording state
+  const toggleRecordingRef = useRef<() => void>()
   useEffect(() => {
     const handleKeyDown = (event: KeyboardEvent) => {
       // Only handle spacebar in this component when not focused on an input
@@ -348,13 +462,7 @@ export function SoloTranslator({
           !event.repeat &&
           !showTextInput) { // Don't trigger when in text mode
         event.preventDefault()
-        
-        // Toggle recording state - allow recording even while processing
-        if (isRecording) {
-          handleStopRecording()
-        } else {
-          handleStartRecording()
-        }
+        toggleRecordingRef.current?.()
       }
     }
 
@@ -366,7 +474,7 @@ export function SoloTranslator({
     return () => {
       document.removeEventListener('keydown', handleKeyDown)
     }
-  }, [isRecording, isProcessing, showTextInput])
+  }, [showTextInput])
 
   // Cleanup on unmount
   useEffect(() => {
@@ -375,7 +483,7 @@ export function SoloTranslator({
     }
   }, [])
 
-  const handleStartRecording = async () => {
+  const handleStartRecording = async (side?: FaceToFaceSide) => {
     // Check if already recording
     if (isRecording) {
       return
@@ -412,14 +520,18 @@ export function SoloTranslator({
         })
         
         // Process with OpenAI APIs
-        await processAudioMessage(audioBlob)
+        await processAudioMessage(audioBlob, toAudioChunks(result), side)
       }
       
+      // Don't record translations being read out
+      ttsPlaybackQueue.stop()
+      
       // Start recording using persistent stream
       await audioManager.startRecording()
       
       // Update React state
       setIsRecording(true)
+      setRecordingSide(side ?? null)
       console.log('🎤 [ActivityIndicator] Activity state change: idle → recording')
       updateActivity('recording')
       
@@ -452,6 +564,55 @@ export function SoloTranslator({
     }
   }
 
+  // Hands-free segments arrive long after the mode was switched on, so they
+  // go through a ref to always use the current language, mode and context
+  const processAudioMessageRef = useRef<(audioBlob: Blob, audioChunks?: AudioChunkInput[]) => Promise<void>>()
+
+  const handleToggleHandsFree = async () => {
+    if (handsFree) {
+      audioManager.stopHandsFree()
+      audioManager.onComplete = undefined
+      setHandsFree(false)
+      updateActivity('idle')
+      resetAudioLevel()
+      return
+    }
+
+    if (isRecording) {
+      await handleCancelRecording()
+    }
+
+    try {
+      if (!audioManager.isStreamReady() && !(await audioManager.ensurePermissions())) {
+        setError('Microphone permission denied. Please grant permission and try again.')
+        return
+      }
+
+      setError(null)
+      audioManager.onComplete = async (result: AudioRecordingResult) => {
+        const audioBlob = new Blob([await result.audioFile.arrayBuffer()], {
+          type: result.audioFile.type
+        })
+        await processAudioMessageRef.current?.(audioBlob, toAudioChunks(result))
+      }
+      await audioManager.startHandsFree({ trailingSilenceMs: handsFreeSilenceMs })
+      setHandsFree(true)
+    } catch (err) {
+      console.error('❌ [Audio] Hands-free mode failed:', err)
+      audioManager.onComplete = undefined
+      setError(err instanceof Error ? err.message : 'Failed to start hands-free mode')
+      playError()
+    }
+  }
+
+  const handleHandsFreeSilenceChange = (silenceMs: number) => {
+    UserManager.setPreference('handsFreeSilenceMs', silenceMs)
+    setHandsFreeSilenceMs(silenceMs)
+    if (handsFree) {
+      audioManager.startHandsFree({ trailingSilenceMs: silenceMs })
+    }
+  }
+
   const handleStopRecording = async () => {
     // Pre-validation checks
     if (!isRecording) {
@@ -483,6 +644,17 @@ export function SoloTranslator({
     }
   }
 
+  // Toggle recording state - allow recording even while processing
+  toggleRecordingRef.current = () => {
+    if (handsFree) {
+      handleToggleHandsFree()
+    } else if (isRecording) {
+      handleStopRecording()
+    } else {
+      handleStartRecording()
+    }
+  }
+
   const handleCancelRecording = async () => {
     if (!isRecording) {
       return
@@ -510,7 +682,64 @@ export function SoloTranslator({
     }
   }
 
-  const processTextMessage = async (messageText: string) => {
+  const changeLanguagePair = (pair: LanguagePair | null) => {
+    UserManager.setLanguagePair(pair)
+    if (isSessionMode && onLanguagePairChange) {
+      onLanguagePairChange(pair)
+    } else {
+      setInternalLanguagePair(pair)
+    }
+  }
+
+  const handleLanguagePairToggle = () => {
+    // Start from English ↔ current target, the same direction single-target mode uses
+    changeLanguagePair(languagePair ? null : { own: 'en', partner: targetLanguage })
+  }
+
+  // Face-to-face needs a pair: one language per half
+  const handleFaceToFaceToggle = async () => {
+    const enabled = !faceToFace
+    if (enabled) {
+      // Each half has its own record button instead
+      if (handsFree) await handleToggleHandsFree()
+      if (!languagePair) changeLanguagePair({ own: 'en', partner: targetLanguage })
+    }
+    UserManager.setPreference('faceToFace', enabled)
+    setFaceToFace(enabled)
+  }
+
+  // One microphone: a half's button stops its own recording, the other half waits
+  const handleFaceToFaceRecord = async (side: FaceToFaceSide) => {
+    if (!isRecording) {
+      await handleStartRecording(side)
+    } else if (recordingSide === side) {
+      await handleStopRecording()
+    }
+  }
+
+  // Speech in neither pair language is still translated (into the partner's language), but flagged
+  const outsidePairNoticeRef = useRef<ReturnType<typeof setTimeout>>()
+  const flagOutsideLanguagePair = (result: TranslationResult) => {
+    if (!result.outsideLanguagePair || !languagePair) return
+
+    const nameOf = (code: string) => LanguageRegistry.toName(code) ?? code
+    setError(t('translator.outsideLanguagePair', {
+      detected: result.detectedLanguage,
+      pair: `${nameOf(languagePair.own)} ↔ ${nameOf(languagePair.partner)}`,
+      target: nameOf(result.targetLanguageCode)
+    }))
+    clearTimeout(outsidePairNoticeRef.current)
+    outsidePairNoticeRef.current = setTimeout(() => setError(null), 5000)
+  }
+  useEffect(() => () => clearTimeout(outsidePairNoticeRef.current), [])
+
+  // User glossary everywhere, plus the shared session glossary in session mode
+  const getGlossaryRequest = (): Pick<TranslationRequest, 'glossary'> => {
+    const glossary = GlossaryManager.getEntries(isSessionMode && sessionInfo ? sessionInfo.sessionId : null)
+    return glossary.length > 0 ? { glossary } : {}
+  }
+
+  const processTextMessage = async (messageText: string, sourceLanguage?: LanguageCode) => {
     if (!messageText.trim()) return
 
     const messageId = generateMessageId()
@@ -521,35 +750,57 @@ export function SoloTranslator({
       messageText
     })
     
+    // Create translation request FIRST (like voice messages)
+    const recentMessages = messages.slice(-3).map(msg => msg.original).filter(Boolean)
+    const translationRequest: TranslationRequest = {
+      input: messageText,
+      inputType: 'text',
+      ...(sourceLanguage ? { sourceLanguage } : {}),
+      targetLanguage,
+      ...(languagePair ? { languagePair } : {}),
+      ...getGlossaryRequest(),
+      ...(UserManager.getPreference('verifyTranslations', false) ? { verify: true } : {}),
+      mode: translationMode,
+      context: {
+        conversationContext,
+        recentMessages,
+        isRomanticContext: UserManager.detectRomanticContext(recentMessages)
+      },
+      messageId,
+      userId: isSessionMode && sessionInfo ? sessionInfo.userId : 'single-user',
+      sessionId: captureSessionId
+    }
+
+    // No connection: keep it and translate it once we're back online
+    if (pwaManager.isOffline() && CaptureQueue.isSupported()) {
+      await captureOffline(translationRequest)
+      setTextMessage('')
+      return
+    }
+
+    // Clear text input once it's been sent
+    if (await translateText(translationRequest)) {
+      setTextMessage('')
+    }
+  }
+
+  // Translate a typed message; resolves false if it failed
+  const translateText = async (translationRequest: TranslationRequest): Promise<boolean> => {
+    const messageText = translationRequest.input as string
+    const messageId = translationRequest.messageId!
+
     try {
-      // Create translation request FIRST (like voice messages)
-      const recentMessages = messages.slice(-3).map(msg => msg.original).filter(Boolean)
-      const translationRequest: TranslationRequest = {
-        input: messageText,
-        inputType: 'text',
-        targetLanguage,
-        mode: translationMode,
-        context: {
-          conversationContext,
-          recentMessages,
-          isRomanticContext: UserManager.detectRomanticContext(recentMessages)
-        },
-        messageId,
-        userId: isSessionMode && sessionInfo ? sessionInfo.userId : 'single-user',
-        sessionId: isSessionMode && sessionInfo ? sessionInfo.sessionId : 'solo-session'
-      }
-      
       // Use translation pipeline
       const result = await pipeline.translate(translationRequest)
+      flagOutsideLanguagePair(result)
       
       // Update conversation context
-      const updatedContext = ConversationContextManager.addToContext(
-        conversationContext,
+      setConversationContext(prev => ConversationContextManager.addToContext(
+        prev,
         messageText,
         result.originalLanguageCode,
         Date.now()
-      )
-      setConversationContext(updatedContext)
+      ))
       
       // Create final message with translation (like voice messages)
       const finalMessage: QueuedMessage = {
@@ -574,7 +825,8 @@ export function SoloTranslator({
         created_at: new Date().toISOString(),
         localId: messageId,
         retryCount: 0,
-        displayOrder: messages.length + 1
+        displayOrder: messages.length + 1,
+        ...(result.verification ? { verification: result.verification } : {})
       }
 
       await queueService.add(finalMessage)
@@ -590,13 +842,12 @@ export function SoloTranslator({
         isSessionMode
       })
       
-      addMessage(finalMessage)
+      // Upsert: an offline capture is already shown as waiting
+      upsertMessage(finalMessage)
 
       // Play message sent sound
       playMessageSent()
-      
-      // Clear text input
-      setTextMessage('')
+      return true
 
     } catch (err) {
       console.error('❌ Text message processing failed:', err)
@@ -625,62 +876,180 @@ export function SoloTranslator({
         displayOrder: messages.length + 1
       }
       
-      addMessage(failedMessage)
+      upsertMessage(failedMessage)
+      return false
     } finally {
       // Don't change global states - allow concurrent messages
       setTimeout(() => setError(null), 5000)
     }
   }
 
+  // One-tap retranslate from a doubtful-translation badge. Solo mode only:
+  // session messages have already been synced to the partner
+  const handleRetranslate = async (message: Pick<QueuedMessage, 'id' | 'original' | 'original_lang' | 'target_lang'>) => {
+    updateMessage(message.id, msg => ({ ...msg, status: 'processing' }))
+
+    try {
+      const result = await pipeline.translate({
+        input: message.original,
+        inputType: 'text',
+        ...(LanguageRegistry.isLanguageCode(message.original_lang) ? { sourceLanguage: message.original_lang } : {}),
+        targetLanguage: LanguageRegistry.isLanguageCode(message.target_lang) ? message.target_lang : targetLanguage,
+        ...getGlossaryRequest(),
+        verify: true,
+        mode: translationMode
+      })
+
+      updateMessage(message.id, msg => ({
+        ...msg,
+        status: 'displayed',
+        translation: result.translation,
+        verification: result.verification
+      }))
+    } catch (err) {
+      console.error('❌ Retranslation failed:', err)
+      setError(`Retranslation failed: ${(err as Error).message}`)
+      updateMessage(message.id, msg => ({ ...msg, status: 'displayed' }))
+      setTimeout(() => setError(null), 5000)
+    }
+  }
+
   const handleSendTextMessage = () => {
-    if (textMessage.trim()) {
-      processTextMessage(textMessage.trim())
+    const text = textMessage.trim()
+    if (!text) return
+
+    // Ask instead of guessing when the offline identifier isn't sure
+    const identification = LanguageIdentifier.identify(text, {
+      preferred: languagePair ? [languagePair.own, languagePair.partner] : undefined
+    })
+    if (identification.language === 'uncertain' && identification.candidates.length > 1) {
+      console.log('🤔 [SoloTranslator] Text language uncertain, asking user:', identification.candidates.slice(0, 3))
+      setPendingLanguageChoice({
+        text,
+        candidates: identification.candidates.slice(0, 3).map(candidate => candidate.language)
+      })
+      return
     }
+
+    processTextMessage(text)
   }
 
-  const processAudioMessage = async (audioBlob: Blob) => {
+  const handleLanguageChoice = (language: LanguageCode) => {
+    if (!pendingLanguageChoice) return
+    processTextMessage(pendingLanguageChoice.text, language)
+    setPendingLanguageChoice(null)
+  }
+
+  // `side` is set for face-to-face recordings: whose half the record button was on
+  const processAudioMessage = async (audioBlob: Blob, audioChunks?: AudioChunkInput[], side?: FaceToFaceSide) => {
     const messageId = generateMessageId()
+    // Keep what was said so the message can be replayed later
+    RecordingStore.save(messageId, audioBlob).catch(error =>
+      console.warn('⚠️ [SoloTranslator] Could not store the recording:', error)
+    )
+
+    // Create translation request
+    const recentMessages = messages.slice(-3).map(msg => msg.original).filter(Boolean)
+    const translationRequest: TranslationRequest = {
+      input: audioBlob,
+      inputType: 'audio',
+      ...(audioChunks ? { audioChunks } : {}),
+      // Face-to-face: the pair seen from the speaker's half, so it goes to the other half's language
+      targetLanguage: side && languagePair ? languagePair[otherSide(side)] : targetLanguage,
+      ...(languagePair ? { languagePair: side ? orientLanguagePair(languagePair, side) : languagePair } : {}),
+      ...getGlossaryRequest(),
+      ...(UserManager.getPreference('verifyTranslations', false) ? { verify: true } : {}),
+      mode: translationMode,
+      context: {
+        conversationContext,
+        recentMessages,
+        isRomanticContext: UserManager.detectRomanticContext(recentMessages)
+      },
+      messageId,
+      userId: side ? FACE_TO_FACE_SPEAKERS[side] : isSessionMode && sessionInfo ? sessionInfo.userId : 'single-user',
+      sessionId: captureSessionId
+    }
+
+    // No connection: keep the recording and translate it once we're back online
+    if (pwaManager.isOffline() && CaptureQueue.isSupported()) {
+      await captureOffline(translationRequest)
+      return
+    }
+
+    await translateAudio(translationRequest)
+  }
+
+  // Transcribe and translate a recording; resolves false if it failed
+  const translateAudio = async (translationRequest: TranslationRequest): Promise<boolean> => {
+    const messageId = translationRequest.messageId!
+    // Sender: face-to-face recordings belong to whichever half recorded them
+    const senderId = translationRequest.userId ?? (isSessionMode && sessionInfo ? sessionInfo.userId : 'single-user')
+    // Placeholder shown while the translation streams in
+    let streamingMessage: QueuedMessage | null = null
     
     // Set activity to processing
     console.log('⚙️ [SoloTranslator] Activity state change: recording → processing')
     updateActivity('processing')
 
     try {
-      // Create translation request
-      const recentMessages = messages.slice(-3).map(msg => msg.original).filter(Boolean)
-      const translationRequest: TranslationRequest = {
-        input: audioBlob,
-        inputType: 'audio',
-        targetLanguage,
-        mode: translationMode,
-        context: {
-          conversationContext,
-          recentMessages,
-          isRomanticContext: UserManager.detectRomanticContext(recentMessages)
-        },
-        messageId,
-        userId: isSessionMode && sessionInfo ? sessionInfo.userId : 'single-user',
-        sessionId: isSessionMode && sessionInfo ? sessionInfo.sessionId : 'solo-session'
+      // Use streaming translation pipeline: show the transcript as soon as
+      // Whisper returns, then grow the translation as tokens arrive
+      let result: TranslationResult | null = null
+      
+      for await (const event of pipeline.translateStream(translationRequest)) {
+        if (event.type === 'transcript') {
+          const now = new Date().toISOString()
+          const placeholder: QueuedMessage = {
+            id: messageId,
+            session_id: isSessionMode && sessionInfo ? sessionInfo.sessionId : 'solo-session',
+            user_id: senderId,
+            userId: senderId, // Add for MessageBubble compatibility
+            original: event.original,
+            translation: null,
+            original_lang: event.originalLanguageCode,
+            target_lang: event.targetLanguageCode,
+            status: 'processing',
+            queued_at: now,
+            processed_at: null,
+            displayed_at: null,
+            performance_metrics: null,
+            timestamp: now,
+            created_at: now,
+            localId: messageId,
+            retryCount: 0,
+            displayOrder: messages.length + 1
+          }
+          streamingMessage = placeholder
+          upsertMessage(placeholder)
+        } else if (event.type === 'translation-delta' && streamingMessage) {
+          const updated: QueuedMessage = { ...streamingMessage, translation: event.translation }
+          streamingMessage = updated
+          upsertMessage(updated)
+        } else if (event.type === 'complete') {
+          result = event.result
+        }
       }
       
-      // Use translation pipeline
-      const result = await pipeline.translate(translationRequest)
+      if (!result) {
+        throw new Error('Translation stream ended without a result')
+      }
+      flagOutsideLanguagePair(result)
       
       // Update conversation context
-      const updatedContext = ConversationContextManager.addToContext(
-        conversationContext,
-        result.original,
-        result.originalLanguageCode,
+      const { original, originalLanguageCode } = result
+      setConversationContext(prev => ConversationContextManager.addToContext(
+        prev,
+        original,
+        originalLanguageCode,
         Date.now()
-      )
-      setConversationContext(updatedContext)
+      ))
 
       // Final message update
       const finalMessage: QueuedMessage = {
         id: messageId,
         session_id: isSessionMode && sessionInfo ? sessionInfo.sessionId : 'solo-session',
-        user_id: isSessionMode && sessionInfo ? sessionInfo.userId : 'single-user',
-        userId: isSessionMode && sessionInfo ? sessionInfo.userId : 'single-user', // Add for MessageBubble compatibility
+        user_id: senderId,
+        userId: senderId, // Add for MessageBubble compatibility
         original: result.original,
         translation: result.translation,
         original_lang: result.originalLanguageCode,
@@ -698,18 +1067,26 @@ export function SoloTranslator({
         created_at: new Date().toISOString(),
         localId: messageId,
         retryCount: 0,
-        displayOrder: messages.length + 1
+        displayOrder: messages.length + 1,
+        ...(result.verification ? { verification: result.verification } : {})
       }
 
       await queueService.add(finalMessage)
-      addMessage(finalMessage)
+      upsertMessage(finalMessage)
+      return true
 
     } catch (err) {
       console.error('❌ Solo audio processing failed:', err)
       setError(`Processing failed: ${(err as Error).message}`)
       
+      // Don't leave a half-streamed message spinning forever
+      if (streamingMessage) {
+        upsertMessage({ ...streamingMessage, status: 'failed' })
+      }
+      
       // Play error sound
       playError()
+      return false
     } finally {
       // Reset activity to idle when processing completes
       console.log('✅ [SoloTranslator] Activity state change: processing → idle')
@@ -719,6 +1096,119 @@ export function SoloTranslator({
       setTimeout(() => setError(null), 5000)
     }
   }
+  processAudioMessageRef.current = processAudioMessage
+
+  // Show a message made offline as waiting until it can be translated
+  const captureOffline = async (translationRequest: TranslationRequest) => {
+    try {
+      const capture = await CaptureQueue.add(translationRequest)
+      upsertMessage(toWaitingMessage(capture, messages.length + 1))
+    } catch (err) {
+      console.error('❌ [SoloTranslator] Could not keep the offline message:', err)
+      setError(`Could not save the message offline: ${(err as Error).message}`)
+      playError()
+      setTimeout(() => setError(null), 5000)
+    }
+  }
+
+  // Translate offline captures one at a time, in queue order. Stops, keeping
+  // the rest waiting, if the connection drops again
+  const processCaptureQueue = async () => {
+    if (processingCapturesRef.current) return
+    processingCapturesRef.current = true
+
+    try {
+      while (!pwaManager.isOffline()) {
+        const [capture] = await CaptureQueue.list(captureSessionId)
+        if (!capture) break
+
+        console.log(`📤 [SoloTranslator] Translating offline capture ${capture.id}`)
+        upsertMessage({ ...toWaitingMessage(capture, messages.length + 1), status: 'processing' })
+
+        const translated = capture.request.inputType === 'audio'
+          ? await translateAudio(capture.request)
+          : await translateText(capture.request)
+
+        if (!translated && pwaManager.isOffline()) {
+          upsertMessage(toWaitingMessage(capture, messages.length + 1))
+          break
+        }
+        await CaptureQueue.remove(capture.id)
+      }
+    } catch (err) {
+      console.error('❌ [SoloTranslator] Offline capture queue failed:', err)
+    } finally {
+      processingCapturesRef.current = false
+    }
+  }
+  processCaptureQueueRef.current = processCaptureQueue
+
+  const handleMoveCapture = (messageId: string, direction: 'up' | 'down') => {
+    CaptureQueue.move(messageId, direction).catch(err =>
+      console.error('❌ [SoloTranslator] Could not reorder offline message:', err)
+    )
+  }
+
+  const handleDeleteCapture = async (messageId: string) => {
+    try {
+      await CaptureQueue.remove(messageId)
+      await RecordingStore.delete(messageId)
+      if (isSessionMode) {
+        onRemoveMessage?.(messageId)
+      } else {
+        setInternalMessages(prev => prev.filter(msg => msg.id !== messageId))
+      }
+    } catch (err) {
+      console.error('❌ [SoloTranslator] Could not delete offline message:', err)
+    }
+  }
+
+  // Captures load after the effect below ran, so they're shown through a ref
+  // that appends them after the current messages
+  const showWaitingCapturesRef = useRef<(captures: CapturedMessage[]) => void>()
+  showWaitingCapturesRef.current = captures =>
+    captures.forEach((capture, index) => upsertMessage(toWaitingMessage(capture, messages.length + index + 1)))
+
+  // Show captures kept from before a reload, keep their order in sync, and
+  // translate them whenever the connection is (back) up
+  useEffect(() => {
+    let cancelled = false
+
+    const refreshOrder = async () => {
+      const captures = await CaptureQueue.list(captureSessionId)
+      if (!cancelled) setCaptureOrder(captures.map(capture => capture.id))
+      return captures
+    }
+
+    refreshOrder()
+      .then(captures => {
+        if (cancelled) return
+        showWaitingCapturesRef.current?.(captures)
+        if (!pwaManager.isOffline()) processCaptureQueueRef.current?.()
+      })
+      .catch(err => console.error('❌ [SoloTranslator] Could not load offline messages:', err))
+
+    const unsubscribe = CaptureQueue.subscribe(() => {
+      refreshOrder().catch(() => {})
+    })
+    const removeConnectionListener = pwaManager.onConnectionChange(online => {
+      if (online) processCaptureQueueRef.current?.()
+    })
+
+    return () => {
+      cancelled = true
+      unsubscribe()
+      removeConnectionListener()
+    }
+  }, [captureSessionId])
+
+  // Waiting offline captures go last, in the order they'll be translated
+  const orderedMessages = captureOrder.length === 0 ? messages : [
+    ...messages.filter(msg => !(msg.offlineCapture && captureOrder.includes(msg.id))),
+    ...captureOrder
+      .map(id => messages.find(msg => msg.id === id && msg.offlineCapture))
+      .filter((msg): msg is QueuedMessage => !!msg)
+  ]
 
   return (
     <MobileContainer className="h-full">
@@ -780,6 +1270,28 @@ export function SoloTranslator({
                         </div>
                       </div>
                       
+                      {/* Hands-free Pause Length */}
+                      <div className="mb-3">
+                        <label className="text-xs font-medium text-gray-700 dark:text-gray-300 mb-1 block">
+                          {t('translator.handsFreeSilence')}
+                        </label>
+                        <div className="grid grid-cols-4 gap-1">
+                          {HANDS_FREE_SILENCE_OPTIONS.map((silenceMs) => (
+                            <button
+                              key={silenceMs}
+                              onClick={() => handleHandsFreeSilenceChange(silenceMs)}
+                              className={`px-2 py-1 text-xs rounded transition-colors ${
+                                handsFreeSilenceMs === silenceMs
+                                  ? 'bg-blue-500 text-white'
+                                  : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+                              }`}
+                            >
+                              {silenceMs / 1000}s
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+                      
                       {/* Theme Toggle */}
                       <div className="border-t border-gray-200 dark:border-gray-700 pt-2">
                         <button
@@ -921,337 +1433,504 @@ export function SoloTranslator({
                     <span className="text-gray-600 dark:text-gray-400">{getSessionStatusText(sessionInfo.status)}</span>
                   </div>
                   
-                  {/* Partner Status */}
-                  <div className="flex items-center gap-1.5">
-                    <Users className="h-3 w-3 text-gray-500" />
-                    <span className={`text-xs ${sessionInfo.partnerOnline ? 'text-green-600' : 'text-gray-500'}`}>
-                      {sessionInfo.partnerOnline 
-                        ? t('session.partnerOnline', 'Partner Online')
-                        : t('session.partnerOffline', 'Waiting for partner...')
-                      }
-                    </span>
-                  </div>
+                  {/* Participants */}
+                  <ParticipantRoster
+                    participants={sessionInfo.participants ?? []}
+                    currentUserId={sessionInfo.userId}
+                    partnerOnline={sessionInfo.partnerOnline}
+                  />
                 </div>
               )}
 
               {/* Right side - Mode Toggle & Target Language */}
               <div className="flex items-center gap-2">
-                {/* Mode Toggle - Ultra Compact */}
-                <button
-                  onClick={handleModeToggle}
+                {/* Mode Picker - Ultra Compact */}
+                <select
+                  value={translationMode}
+                  onChange={(e) => handleModeChange(e.target.value as TranslationMode)}
                   disabled={isProcessing || isRecording}
                   className={`
-                    px-2 py-0.5 rounded-full text-[10px] font-medium transition-all duration-200
-                    ${translationMode === 'fun' 
-                      ? 'bg-pink-100 text-pink-700 hover:bg-pink-200 dark:bg-pink-900/30 dark:text-pink-300' 
-                      : 'bg-blue-100 text-blue-700 hover:bg-blue-200 dark:bg-blue-900/30 dark:text-blue-300'
+                    px-1.5 py-0.5 rounded-full text-[10px] font-medium border-none focus:outline-none transition-all duration-200
+                    ${translationMode === 'casual'
+                      ? 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300'
+                      : 'bg-pink-100 text-pink-700 dark:bg-pink-900/30 dark:text-pink-300'
                     }
-                    ${isProcessing || isRecording ? 'opacity-50 cursor-not-allowed' : 'hover:scale-105'}
+                    ${isProcessing || isRecording ? 'opacity-50 cursor-not-allowed' : ''}
                   `}
-                  title={`Current mode: ${translationMode}. Click to toggle.`}
+                  title={`Translation mode: ${ModeRegistry.describe(translationMode).name}`}
+                  aria-label="Translation mode"
+                  data-testid="mode-picker"
                 >
-                  {translationMode === 'fun' ? '🎉' : '💬'}
-                </button>
+                  {ModeRegistry.getAll().map(mode => (
+                    <option key={mode.id} value={mode.id} title={mode.description}>
+                      {mode.icon} {mode.name}
+                    </option>
+                  ))}
+                  {customModes.map(mode => (
+                    <option key={mode.id} value={mode.id}>
+                      {mode.icon} {mode.name}
+                    </option>
+                  ))}
+                </select>
                 
-                {/* Target Language - Compact */}
-                <select
-                  value={targetLanguage}
-                  onChange={(e) => {
-                    const newLang = e.target.value as 'es' | 'pt' | 'fr' | 'de'
-                    console.log('🎯 Target language changed to:', newLang)
-                    setTargetLanguage(newLang)
-                    UserManager.setPreference('targetLanguage', newLang)
-                  }}
+                {/* Language Pair Toggle */}
+                <button
+                  onClick={handleLanguagePairToggle}
                   disabled={isProcessing || isRecording}
-                  className="text-xs bg-transparent border-none text-gray-900 dark:text-gray-100 focus:outline-none pr-1"
+                  className={`px-1.5 py-0.5 rounded-full text-[10px] font-medium transition-all duration-200 ${
+                    languagePair
+                      ? 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300'
+                      : 'bg-gray-100 text-gray-600 dark:bg-gray-800 dark:text-gray-400'
+                  }`}
+                  title={languagePair ? 'Language pair mode on. Click to translate to a single target.' : 'Translate between two languages'}
+                  data-testid="language-pair-toggle"
                 >
-                  <option value="es">ES</option>
-                  <option value="pt">PT</option>
-                  <option value="fr">FR</option>
-                  <option value="de">DE</option>
-                </select>
+                  ⇄
+                </button>
+
+                {/* Face-to-face Toggle - Solo mode only */}
+                {!isSessionMode && (
+                  <button
+                    onClick={handleFaceToFaceToggle}
+                    disabled={isProcessing || isRecording}
+                    aria-pressed={showFaceToFace}
+                    className={`p-1 rounded-full transition-all duration-200 ${
+                      showFaceToFace
+                        ? 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300'
+                        : 'bg-gray-100 text-gray-600 dark:bg-gray-800 dark:text-gray-400'
+                    }`}
+                    title={t('translator.faceToFace')}
+                    data-testid="face-to-face-toggle"
+                  >
+                    <SplitSquareVertical className="h-3 w-3" />
+                  </button>
+                )}
+
+                {languagePair ? (
+                  /* Language Pair - Compact */
+                  <div className="flex items-center gap-0.5" data-testid="language-pair-selects">
+                    {(['own', 'partner'] as const).map((side, index) => (
+                      <span key={side} className="flex items-center gap-0.5">
+                        {index === 1 && <span className="text-[10px] text-gray-500">↔</span>}
+                        <select
+                          value={languagePair[side]}
+                          onChange={(e) => {
+                            const updated = { ...languagePair, [side]: e.target.value as LanguageCode }
+                            if (updated.own === updated.partner) return
+                            console.log('🎯 Language pair changed to:', updated)
+                            changeLanguagePair(updated)
+                          }}
+                          disabled={isProcessing || isRecording}
+                          className="text-xs bg-transparent border-none text-gray-900 dark:text-gray-100 focus:outline-none"
+                          aria-label={side === 'own' ? 'Your language' : "Partner's language"}
+                        >
+                          {LanguageRegistry.getAll().map(language => (
+                            <option key={language.code} value={language.code} title={language.name}>
+                              {language.code.toUpperCase()}
+                            </option>
+                          ))}
+                        </select>
+                      </span>
+                    ))}
+                  </div>
+                ) : (
+                  /* Target Language - Compact */
+                  <select
+                    value={targetLanguage}
+                    onChange={(e) => {
+                      const newLang = e.target.value as LanguageCode
+                      console.log('🎯 Target language changed to:', newLang)
+                      setTargetLanguage(newLang)
+                      UserManager.setPreference('targetLanguage', newLang)
+                    }}
+                    disabled={isProcessing || isRecording}
+                    className="text-xs bg-transparent border-none text-gray-900 dark:text-gray-100 focus:outline-none pr-1"
+                  >
+                    {LanguageRegistry.getAll()
+                      .filter(language => language.code !== 'en')
+                      .map(language => (
+                        <option key={language.code} value={language.code} title={language.name}>
+                          {language.code.toUpperCase()}
+                        </option>
+                      ))}
+                  </select>
+                )}
               </div>
             </div>
           </div>
         </header>
         
-        {/* Message Area - Takes remaining space with padding for fixed header and footer */}
-        <div 
-          ref={scrollContainerRef}
-          className="overflow-y-auto space-y-4" 
-          style={{
-            height: 'calc(100vh - 64px - 80px)', // Full viewport minus header (64px) and footer (80px)
-            marginTop: '0', // No margin needed - header is fixed positioned
-            paddingLeft: '16px', // 4 * 4px = 16px
-            paddingRight: '16px', // 4 * 4px = 16px  
-            paddingTop: '68px', // 64px header height + 4px spacing to prevent messages going under header
-            paddingBottom: '80px', // Space for fixed footer
-            scrollPaddingTop: '22px', // Prevent content from scrolling under fixed header
-            touchAction: 'pan-y',
-            overscrollBehavior: 'contain',
-            WebkitOverflowScrolling: 'touch'
-          }}>
-            {messages.length === 0 ? (
-              <div className="flex-1 flex items-center justify-center">
-                <div className="text-center space-y-4 max-w-md mx-auto">
-                  <div className="w-16 h-16 mx-auto bg-blue-100 dark:bg-blue-900/30 rounded-full flex items-center justify-center">
-                    <Mic className="h-8 w-8 text-blue-600" />
-                  </div>
-                  <div>
-                    <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-2">
-                      {t('translator.welcomeTitle', 'Ready to Translate')}
-                    </h3>
-                    <p className="text-gray-600 dark:text-gray-400 text-sm">
-                      {t('translator.welcomeMessage', 'Hold the button below to record and translate between languages automatically.')}
-                    </p>
+        {showFaceToFace && languagePair ? (
+          /* Face-to-face - Split screen below the header */
+          <div className="flex-1 min-h-0" style={{ paddingTop: '44px' }}>
+            <FaceToFaceView
+              messages={orderedMessages}
+              languagePair={languagePair}
+              recordingSide={isRecording ? recordingSide : null}
+              isProcessing={currentActivity === 'processing'}
+              audioLevel={audioLevel}
+              fontSize={fontSize}
+              onToggleRecording={handleFaceToFaceRecord}
+              divider={error && (
+                <ErrorDisplay
+                  error={error}
+                  onDismiss={() => setError(null)}
+                  className="m-1"
+                />
+              )}
+            />
+          </div>
+        ) : (
+          <>
+          {/* Message Area - Takes remaining space with padding for fixed header and footer */}
+          <div 
+            ref={scrollContainerRef}
+            className="overflow-y-auto space-y-4" 
+            style={{
+              height: 'calc(100vh - 64px - 80px)', // Full viewport minus header (64px) and footer (80px)
+              marginTop: '0', // No margin needed - header is fixed positioned
+              paddingLeft: '16px', // 4 * 4px = 16px
+              paddingRight: '16px', // 4 * 4px = 16px  
+              paddingTop: '68px', // 64px header height + 4px spacing to prevent messages going under header
+              paddingBottom: '80px', // Space for fixed footer
+              scrollPaddingTop: '22px', // Prevent content from scrolling under fixed header
+              touchAction: 'pan-y',
+              overscrollBehavior: 'contain',
+              WebkitOverflowScrolling: 'touch'
+            }}>
+              {messages.length === 0 ? (
+                <div className="flex-1 flex items-center justify-center">
+                  <div className="text-center space-y-4 max-w-md mx-auto">
+                    <div className="w-16 h-16 mx-auto bg-blue-100 dark:bg-blue-900/30 rounded-full flex items-center justify-center">
+                      <Mic className="h-8 w-8 text-blue-600" />
+                    </div>
+                    <div>
+                      <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-2">
+                        {t('translator.welcomeTitle', 'Ready to Translate')}
+                      </h3>
+                      <p className="text-gray-600 dark:text-gray-400 text-sm">
+                        {t('translator.welcomeMessage', 'Hold the button below to record and translate between languages automatically.')}
+                      </p>
+                    </div>
                   </div>
                 </div>
-              </div>
-            ) : (
-              <>
-                {messages.map((message, index) => {
-                  const isFirstUnread = message.id === firstUnreadMessageId
-                  return (
-                    <div key={message.id}>
-                      {/* Show unread divider before first unread message */}
-                      {isFirstUnread && (
-                        <UnreadMessagesDivider 
-                          isVisible={true}
-                          messageCount={unreadCount}
-                        />
-                      )}
-                      <div id={`message-${message.id}`}>
-                        <MessageBubble 
-                          message={message} 
-                          theme="blue"
-                          currentUserId={isSessionMode && sessionInfo ? sessionInfo.userId : "single-user"}
-                          isSessionMode={isSessionMode}
-                          fontSize={fontSize}
-                          onReactionToggle={onReactionToggle}
-                        />
-                      </div>
+              ) : (
+                <>
+                  {isLoadingOlderMessages && (
+                    <div className="flex items-center justify-center gap-2 py-2 text-xs text-gray-500 dark:text-gray-400" data-testid="loading-older-messages">
+                      <Loader2 className="h-3 w-3 animate-spin" />
+                      {t('session.loadingOlderMessages')}
                     </div>
-                  )
-                })}
-              </>
-            )}
-
-            {/* Activity Indicators */}
-            {/* Own activity - Only show when NOT processing a message */}
-            {currentActivity !== 'idle' && !isProcessing && (
-              <ActivityIndicator 
-                activity={currentActivity} 
-                userName={t('translator.you', 'You')}
-                isOwnMessage={true}
-              />
-            )}
+                  )}
+                  {orderedMessages.map((message, index) => {
+                    const isFirstUnread = message.id === firstUnreadMessageId
+                    return (
+                      <div key={message.id}>
+                        {/* Show unread divider before first unread message */}
+                        {isFirstUnread && (
+                          <UnreadMessagesDivider 
+                            isVisible={true}
+                            messageCount={unreadCount}
+                          />
+                        )}
+                        <div id={`message-${message.id}`}>
+                          <MessageBubble 
+                            message={message} 
+                            theme="blue"
+                            currentUserId={isSessionMode && sessionInfo ? sessionInfo.userId : "single-user"}
+                            isSessionMode={isSessionMode}
+                            fontSize={fontSize}
+                            onReactionToggle={onReactionToggle}
+                            onRetranslate={isSessionMode ? undefined : handleRetranslate}
+                            onMoveCapture={handleMoveCapture}
+                            onDeleteCapture={handleDeleteCapture}
+                            onLoadRevisions={onLoadRevisions}
+                          />
+                        </div>
+                      </div>
+                    )
+                  })}
+                </>
+              )}
+
+              {/* Activity Indicators */}
+              {/* Own activity - Only show when NOT processing a message */}
+              {currentActivity !== 'idle' && !isProcessing && (
+                <ActivityIndicator 
+                  activity={currentActivity} 
+                  userName={t('translator.you', 'You')}
+                  isOwnMessage={true}
+                />
+              )}
             
-            {/* Partner activity - Only in session mode */}
-            {isSessionMode && partnerActivity !== 'idle' && (
-              <ActivityIndicator 
-                activity={partnerActivity} 
-                userName={t('translator.partner', 'Partner')}
-                isOwnMessage={false}
-              />
-            )}
+              {/* Partner activity - Only in session mode */}
+              {isSessionMode && partnerActivity !== 'idle' && (
+                <ActivityIndicator 
+                  activity={partnerActivity} 
+                  userName={t('translator.partner', 'Partner')}
+                  isOwnMessage={false}
+                />
+              )}
             
-            {/* Scroll to bottom button */}
-            <ScrollToBottomButton 
-              onClick={scrollToBottom}
-              isVisible={!isAtBottom}
-              unreadCount={unreadCount}
-            />
-        </div>
-        
-        {/* Recording Controls - Fixed at bottom */}
-        <div className="fixed bottom-0 left-0 right-0 p-2 bg-white/80 dark:bg-gray-900/80 backdrop-blur-sm border-t border-gray-200/50 dark:border-gray-700/50 z-40">
-            {/* Enhanced Error Display */}
-            {error && (
-              <ErrorDisplay 
-                error={error}
-                onDismiss={() => setError(null)}
-                onRetry={() => {
-                  setError(null)
-                  if (!isRecording) {
-                    handleStartRecording()
-                  }
-                }}
-                className="mb-2 mx-1"
+              {/* Scroll to bottom button */}
+              <ScrollToBottomButton 
+                onClick={scrollToBottom}
+                isVisible={!isAtBottom}
+                unreadCount={unreadCount}
               />
-            )}
-
-            {/* Text Message Input - Compact */}
-            {showTextInput && (
-              <div className="mb-2 flex gap-1.5 p-2 bg-gray-50 dark:bg-gray-800 rounded-lg">
-                <input
-                  type="text"
-                  value={textMessage}
-                  onChange={(e) => setTextMessage(e.target.value)}
-                  onKeyDown={(e) => {
-                    if (e.key === 'Enter' && textMessage.trim()) {
-                      handleSendTextMessage()
+          </div>
+        
+          {/* Recording Controls - Fixed at bottom */}
+          <div className="fixed bottom-0 left-0 right-0 p-2 bg-white/80 dark:bg-gray-900/80 backdrop-blur-sm border-t border-gray-200/50 dark:border-gray-700/50 z-40">
+              {/* Enhanced Error Display */}
+              {error && (
+                <ErrorDisplay 
+                  error={error}
+                  onDismiss={() => setError(null)}
+                  onRetry={() => {
+                    setError(null)
+                    if (!isRecording) {
+                      handleStartRecording()
                     }
                   }}
-                  placeholder="Type message..."
-                  className="flex-1 px-2 py-1.5 bg-white dark:bg-gray-900 border border-gray-300 dark:border-gray-600 rounded text-sm focus:outline-none focus:ring-1 focus:ring-blue-500 dark:text-white"
+                  className="mb-2 mx-1"
                 />
-                <Button
-                  onClick={handleSendTextMessage}
-                  disabled={!textMessage.trim()}
-                  size="sm"
-                  className="px-3 py-1.5 text-xs"
-                >
-                  Send
-                </Button>
-              </div>
-            )}
-
-            {/* Combined Recording Controls - Single Row Layout */}
-            {!showTextInput && (
-              <div className="flex items-center justify-between gap-2">
-                {/* Left: Input Mode Toggle - Icon Only */}
-                <div className="relative bg-white dark:bg-gray-800 rounded-full p-0.5 shadow-sm border border-gray-200 dark:border-gray-700 flex-shrink-0">
-                  <div 
-                    className={`absolute top-0.5 bottom-0.5 w-1/2 bg-gradient-to-r from-blue-500 to-blue-600 rounded-full transition-transform duration-200 ${
-                      showTextInput ? 'translate-x-full' : 'translate-x-0'
-                    }`}
-                  />
-                  <div className="relative flex">
-                    <button
-                      onClick={() => setShowTextInput(false)}
-                      className={`relative z-10 p-1.5 rounded-full transition-all duration-200 flex items-center justify-center ${
-                        !showTextInput 
-                          ? 'text-white'
-                          : 'text-gray-600 dark:text-gray-400'
-                      }`}
-                      title="Voice input"
-                    >
-                      <Mic className="h-3 w-3" />
-                    </button>
-                    <button
-                      onClick={() => setShowTextInput(true)}
-                      className={`relative z-10 p-1.5 rounded-full transition-all duration-200 flex items-center justify-center ${
-                        showTextInput 
-                          ? 'text-white'
-                          : 'text-gray-600 dark:text-gray-400'
-                      }`}
-                      title="Text input"
-                    >
-                      <svg className="h-3 w-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
-                      </svg>
-                    </button>
-                  </div>
-                </div>
-
-                {/* Center: Status Text */}
-                <p className="text-[10px] text-gray-600 dark:text-gray-400 flex-1 text-center">
-                  {isRecording ? 'Recording...' : 'Tap to record'}
-                </p>
+              )}
 
-                {/* Right: Recording Button and Controls */}
-                <div className="flex items-center gap-2">
-                  {/* Cancel Button - Only shown when recording */}
-                  {isRecording && (
-                    <button
-                      onClick={handleCancelRecording}
-                      className="px-3 py-1.5 bg-red-500 hover:bg-red-600 text-white rounded-full text-[10px] font-medium transition-colors shadow-sm"
-                    >
-                      Cancel
-                    </button>
-                  )}
-                  
-                  {/* Recording Button */}
+              {/* Uncertain language prompt for typed messages */}
+              {showTextInput && pendingLanguageChoice && (
+                <div
+                  className="mb-2 flex items-center gap-1.5 p-2 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-lg text-xs"
+                  data-testid="language-choice-prompt"
+                >
+                  <span className="text-amber-800 dark:text-amber-200 flex-1">
+                    {t('translator.whichLanguage')}
+                  </span>
+                  {pendingLanguageChoice.candidates.map(code => {
+                    const language = LanguageRegistry.getLanguage(code)
+                    return (
+                      <button
+                        key={code}
+                        onClick={() => handleLanguageChoice(code)}
+                        className="px-2 py-1 rounded bg-white dark:bg-gray-800 border border-amber-300 dark:border-amber-700 text-gray-900 dark:text-gray-100 hover:bg-amber-100 dark:hover:bg-amber-900/40"
+                      >
+                        {language?.flag} {language?.nativeName ?? code}
+                      </button>
+                    )
+                  })}
                   <button
-                    data-testid="recording-button"
-                    onClick={async (e) => {
-                      console.log('🖱️ RECORDING BUTTON CLICKED!')
-                      console.log('   🎤 isRecording:', isRecording)
-                      console.log('   🔧 audioManager exists:', !!audioManager)
-                      console.log('   📡 audioManager stream ready:', audioManager.isStreamReady())
-                      
-                      if (isRecording) {
-                        console.log('   ▶️ Calling handleStopRecording()')
-                        await handleStopRecording()
-                      } else {
-                        console.log('   ▶️ Calling handleStartRecording()')
-                        await handleStartRecording()
-                      }
-                    }}
-                    disabled={false}
-                    className={`
-                      w-12 h-12 rounded-full flex items-center justify-center transition-all duration-200 transform-gpu flex-shrink-0
-                      ${isRecording 
-                        ? 'bg-green-500 hover:bg-green-600 scale-110 shadow-lg shadow-green-500/50' 
-                        : 'bg-green-500 hover:bg-green-600 hover:scale-105 shadow-lg shadow-green-500/30'
-                      }
-                      active:scale-95
-                      text-white
-                    `}
+                    onClick={() => setPendingLanguageChoice(null)}
+                    className="px-1 text-amber-700 dark:text-amber-300"
+                    aria-label="Dismiss"
                   >
-                    {isRecording ? (
-                      <div className="animate-pulse">
-                        <Mic className="h-4 w-4" />
-                      </div>
-                    ) : (
-                      <Mic className="h-4 w-4" />
-                    )}
+                    ✕
                   </button>
-                  
-                  {/* Inline 5-bar audio visualization */}
-                  <AudioVisualization
-                    audioLevel={audioLevel}
-                    isRecording={isRecording}
-                    size="sm"
-                    colors={{
-                      active: isRecording ? '#10B981' : '#10B981', // Green for both states
-                      inactive: '#E5E7EB'
+                </div>
+              )}
+
+              {/* Text Message Input - Compact */}
+              {showTextInput && (
+                <div className="mb-2 flex gap-1.5 p-2 bg-gray-50 dark:bg-gray-800 rounded-lg">
+                  <input
+                    type="text"
+                    value={textMessage}
+                    onChange={(e) => setTextMessage(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter' && textMessage.trim()) {
+                        handleSendTextMessage()
+                      }
                     }}
+                    placeholder="Type message..."
+                    className="flex-1 px-2 py-1.5 bg-white dark:bg-gray-900 border border-gray-300 dark:border-gray-600 rounded text-sm focus:outline-none focus:ring-1 focus:ring-blue-500 dark:text-white"
                   />
+                  <Button
+                    onClick={handleSendTextMessage}
+                    disabled={!textMessage.trim()}
+                    size="sm"
+                    className="px-3 py-1.5 text-xs"
+                  >
+                    Send
+                  </Button>
                 </div>
-              </div>
-            )}
+              )}
 
-            {/* Text Input Mode */}
-            {showTextInput && (
-              <div className="flex items-center gap-2">
-                {/* Input Mode Toggle - Icon Only */}
-                <div className="relative bg-white dark:bg-gray-800 rounded-full p-0.5 shadow-sm border border-gray-200 dark:border-gray-700 flex-shrink-0">
-                  <div 
-                    className={`absolute top-0.5 bottom-0.5 w-1/2 bg-gradient-to-r from-blue-500 to-blue-600 rounded-full transition-transform duration-200 ${
-                      showTextInput ? 'translate-x-full' : 'translate-x-0'
+              {/* Combined Recording Controls - Single Row Layout */}
+              {!showTextInput && (
+                <div className="flex items-center justify-between gap-2">
+                  {/* Left: Input Mode Toggle - Icon Only */}
+                  <div className="relative bg-white dark:bg-gray-800 rounded-full p-0.5 shadow-sm border border-gray-200 dark:border-gray-700 flex-shrink-0">
+                    <div 
+                      className={`absolute top-0.5 bottom-0.5 w-1/2 bg-gradient-to-r from-blue-500 to-blue-600 rounded-full transition-transform duration-200 ${
+                        showTextInput ? 'translate-x-full' : 'translate-x-0'
+                      }`}
+                    />
+                    <div className="relative flex">
+                      <button
+                        onClick={() => setShowTextInput(false)}
+                        className={`relative z-10 p-1.5 rounded-full transition-all duration-200 flex items-center justify-center ${
+                          !showTextInput 
+                            ? 'text-white'
+                            : 'text-gray-600 dark:text-gray-400'
+                        }`}
+                        title="Voice input"
+                      >
+                        <Mic className="h-3 w-3" />
+                      </button>
+                      <button
+                        onClick={() => setShowTextInput(true)}
+                        className={`relative z-10 p-1.5 rounded-full transition-all duration-200 flex items-center justify-center ${
+                          showTextInput 
+                            ? 'text-white'
+                            : 'text-gray-600 dark:text-gray-400'
+                        }`}
+                        title="Text input"
+                      >
+                        <svg className="h-3 w-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+                        </svg>
+                      </button>
+                    </div>
+                  </div>
+
+                  {/* Center: Status Text */}
+                  <p
+                    className={`text-[10px] flex-1 text-center ${
+                      handsFree && listeningState !== 'paused' ? 'text-green-600 dark:text-green-400' : 'text-gray-600 dark:text-gray-400'
                     }`}
-                  />
-                  <div className="relative flex">
+                    data-testid="listening-status"
+                  >
+                    {handsFree
+                      ? listeningState === 'speech' ? t('translator.hearingSpeech')
+                        : listeningState === 'paused' ? t('translator.listeningPaused')
+                        : t('translator.listening')
+                      : isRecording ? 'Recording...' : 'Tap to record'}
+                  </p>
+
+                  {/* Right: Recording Button and Controls */}
+                  <div className="flex items-center gap-2">
+                    {/* Cancel Button - Only shown when recording */}
+                    {isRecording && (
+                      <button
+                        onClick={handleCancelRecording}
+                        className="px-3 py-1.5 bg-red-500 hover:bg-red-600 text-white rounded-full text-[10px] font-medium transition-colors shadow-sm"
+                      >
+                        Cancel
+                      </button>
+                    )}
+                  
+                    {/* Hands-free Toggle */}
                     <button
-                      onClick={() => setShowTextInput(false)}
-                      className={`relative z-10 p-1.5 rounded-full transition-all duration-200 flex items-center justify-center ${
-                        !showTextInput 
-                          ? 'text-white'
-                          : 'text-gray-600 dark:text-gray-400'
+                      data-testid="hands-free-toggle"
+                      onClick={handleToggleHandsFree}
+                      aria-pressed={handsFree}
+                      title={t('translator.handsFree')}
+                      className={`p-1.5 rounded-full border transition-colors flex-shrink-0 ${
+                        handsFree
+                          ? 'bg-green-500 border-green-500 text-white'
+                          : 'bg-white dark:bg-gray-800 border-gray-200 dark:border-gray-700 text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-100'
                       }`}
-                      title="Voice input"
                     >
-                      <Mic className="h-3 w-3" />
+                      <Ear className="h-3 w-3" />
                     </button>
+                  
+                    {/* Recording Button */}
                     <button
-                      onClick={() => setShowTextInput(true)}
-                      className={`relative z-10 p-1.5 rounded-full transition-all duration-200 flex items-center justify-center ${
-                        showTextInput 
-                          ? 'text-white'
-                          : 'text-gray-600 dark:text-gray-400'
-                      }`}
-                      title="Text input"
+                      data-testid="recording-button"
+                      onClick={async (e) => {
+                        console.log('🖱️ RECORDING BUTTON CLICKED!')
+                        console.log('   🎤 isRecording:', isRecording)
+                        console.log('   🔧 audioManager exists:', !!audioManager)
+                        console.log('   📡 audioManager stream ready:', audioManager.isStreamReady())
+                      
+                        if (handsFree) {
+                          // The mic button turns listening off in hands-free mode
+                          await handleToggleHandsFree()
+                        } else if (isRecording) {
+                          console.log('   ▶️ Calling handleStopRecording()')
+                          await handleStopRecording()
+                        } else {
+                          console.log('   ▶️ Calling handleStartRecording()')
+                          await handleStartRecording()
+                        }
+                      }}
+                      disabled={false}
+                      className={`
+                        w-12 h-12 rounded-full flex items-center justify-center transition-all duration-200 transform-gpu flex-shrink-0
+                        ${isRecording || listeningState === 'speech'
+                          ? 'bg-green-500 hover:bg-green-600 scale-110 shadow-lg shadow-green-500/50' 
+                          : handsFree
+                          ? 'bg-green-500 hover:bg-green-600 ring-4 ring-green-500/30 shadow-lg shadow-green-500/30' 
+                          : 'bg-green-500 hover:bg-green-600 hover:scale-105 shadow-lg shadow-green-500/30'
+                        }
+                        active:scale-95
+                        text-white
+                      `}
                     >
-                      <svg className="h-3 w-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
-                      </svg>
+                      {isRecording || listeningState === 'speech' ? (
+                        <div className="animate-pulse">
+                          <Mic className="h-4 w-4" />
+                        </div>
+                      ) : (
+                        <Mic className="h-4 w-4" />
+                      )}
                     </button>
+                  
+                    {/* Inline 5-bar audio visualization */}
+                    <AudioVisualization
+                      audioLevel={audioLevel}
+                      isRecording={isRecording || handsFree}
+                      size="sm"
+                      colors={{
+                        active: isRecording ? '#10B981' : '#10B981', // Green for both states
+                        inactive: '#E5E7EB'
+                      }}
+                    />
                   </div>
                 </div>
-              </div>
-            )}
-        </div>
+              )}
+
+              {/* Text Input Mode */}
+              {showTextInput && (
+                <div className="flex items-center gap-2">
+                  {/* Input Mode Toggle - Icon Only */}
+                  <div className="relative bg-white dark:bg-gray-800 rounded-full p-0.5 shadow-sm border border-gray-200 dark:border-gray-700 flex-shrink-0">
+                    <div 
+                      className={`absolute top-0.5 bottom-0.5 w-1/2 bg-gradient-to-r from-blue-500 to-blue-600 rounded-full transition-transform duration-200 ${
+                        showTextInput ? 'translate-x-full' : 'translate-x-0'
+                      }`}
+                    />
+                    <div className="relative flex">
+                      <button
+                        onClick={() => setShowTextInput(false)}
+                        className={`relative z-10 p-1.5 rounded-full transition-all duration-200 flex items-center justify-center ${
+                          !showTextInput 
+                            ? 'text-white'
+                            : 'text-gray-600 dark:text-gray-400'
+                        }`}
+                        title="Voice input"
+                      >
+                        <Mic className="h-3 w-3" />
+                      </button>
+                      <button
+                        onClick={() => setShowTextInput(true)}
+                        className={`relative z-10 p-1.5 rounded-full transition-all duration-200 flex items-center justify-center ${
+                          showTextInput 
+                            ? 'text-white'
+                            : 'text-gray-600 dark:text-gray-400'
+                        }`}
+                        title="Text input"
+                      >
+                        <svg className="h-3 w-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+                        </svg>
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              )}
+          </div>
+          </>
+        )}
       </div>
     </MobileContainer>
   )
@@ -0,0 +1,46 @@
+/**
+ * Face-to-face mode: one phone lying flat between two people
+ *
+ * The screen is split in two halves, one per speaker. The bottom half belongs
+ * to the device owner (the pair's `own` language), the top half, turned
+ * 180°, to the person across the table (`partner`).
+ */
+
+import type { LanguagePair } from '@/lib/languages/LanguageRegistry'
+import type { QueuedMessage } from '@/features/messages/MessageQueue'
+
+export type FaceToFaceSide = keyof LanguagePair
+
+export const FACE_TO_FACE_SIDES: readonly FaceToFaceSide[] = ['partner', 'own'] // Top half first
+
+// Message user ids, so each half can tell its own messages apart
+// (and the TTS queue gives each speaker their own voice)
+export const FACE_TO_FACE_SPEAKERS: Record<FaceToFaceSide, string> = {
+  own: 'single-user',
+  partner: 'face-to-face-partner'
+}
+
+export function otherSide(side: FaceToFaceSide): FaceToFaceSide {
+  return side === 'own' ? 'partner' : 'own'
+}
+
+export function speakerSide(message: Pick<QueuedMessage, 'user_id'>): FaceToFaceSide {
+  return message.user_id === FACE_TO_FACE_SPEAKERS.partner ? 'partner' : 'own'
+}
+
+/**
+ * The pair as seen from one half: that half's speaker is `own`. The pipeline's
+ * pair logic then translates whatever they say into the other half's language
+ */
+export function orientLanguagePair(pair: LanguagePair, side: FaceToFaceSide): LanguagePair {
+  return side === 'own' ? pair : { own: pair.partner, partner: pair.own }
+}
+
+/**
+ * How a message reads on one half: the other person's messages come
+ * translated, a speaker's own messages as they said them
+ */
+export function toHalfMessage(message: QueuedMessage, side: FaceToFaceSide): QueuedMessage {
+  if (speakerSide(message) !== side || !message.translation) return message
+  return { ...message, translation: null }
+}
@@ -0,0 +1,72 @@
+import { renderHook, act } from '@testing-library/react'
+import { useLoadOlderOnScroll } from '../useLoadOlderOnScroll'
+import { beforeEach, describe, test, expect, vi } from 'vitest'
+
+describe('useLoadOlderOnScroll', () => {
+  let container: HTMLDivElement
+  let scrollHeight: number
+
+  const scrollTo = (top: number) => {
+    act(() => {
+      container.scrollTop = top
+      container.dispatchEvent(new Event('scroll'))
+    })
+  }
+
+  const render = (onLoadOlder: () => void) => renderHook(
+    ({ itemCount, isLoading }) => useLoadOlderOnScroll({ current: container }, {
+      hasOlder: true,
+      isLoading,
+      onLoadOlder,
+      itemCount
+    }),
+    { initialProps: { itemCount: 50, isLoading: false } }
+  )
+
+  beforeEach(() => {
+    container = document.createElement('div')
+    scrollHeight = 5000
+    Object.defineProperty(container, 'scrollHeight', { get: () => scrollHeight })
+  })
+
+  test('loads older items only near the top', () => {
+    const onLoadOlder = vi.fn()
+    render(onLoadOlder)
+
+    scrollTo(1000)
+    expect(onLoadOlder).not.toHaveBeenCalled()
+
+    scrollTo(40)
+    scrollTo(20)
+    expect(onLoadOlder).toHaveBeenCalledTimes(1)
+  })
+
+  test('keeps the visible items in place when older ones are prepended', () => {
+    const onLoadOlder = vi.fn()
+    const { rerender } = render(onLoadOlder)
+
+    scrollTo(40)
+    rerender({ itemCount: 50, isLoading: true })
+
+    scrollHeight = 8000
+    rerender({ itemCount: 100, isLoading: true })
+    expect(container.scrollTop).toBe(3040)
+
+    rerender({ itemCount: 100, isLoading: false })
+    scrollTo(10)
+    expect(onLoadOlder).toHaveBeenCalledTimes(2)
+  })
+
+  test('allows another load when a page adds nothing', () => {
+    const onLoadOlder = vi.fn()
+    const { rerender } = render(onLoadOlder)
+
+    scrollTo(0)
+    rerender({ itemCount: 50, isLoading: true })
+    rerender({ itemCount: 50, isLoading: false })
+    expect(container.scrollTop).toBe(0)
+
+    scrollTo(5)
+    expect(onLoadOlder).toHaveBeenCalledTimes(2)
+  })
+})
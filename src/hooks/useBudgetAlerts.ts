@@ -0,0 +1,30 @@
+import { useEffect } from 'react'
+import { useWarningToast } from '@/components/ui/Toast'
+import { useTranslation } from '@/lib/i18n/useTranslation'
+import { CostLedger, formatUsd } from '@/lib/usage/CostLedger'
+
+/**
+ * Hook that shows a warning toast once per day/month when API spending
+ * reaches the budget set in Settings. Must be used inside ToastProvider
+ */
+export function useBudgetAlerts() {
+  const showWarning = useWarningToast()
+  const { t } = useTranslation()
+
+  useEffect(() => {
+    return CostLedger.subscribe(record => {
+      if (record.cached) return
+
+      for (const alert of CostLedger.checkBudget()) {
+        console.warn(`💸 ${alert.period} budget reached: $${alert.spent.toFixed(4)} of $${alert.budget}`)
+        showWarning(
+          t(alert.period === 'daily' ? 'settings.usage.alertDaily' : 'settings.usage.alertMonthly', {
+            spent: formatUsd(alert.spent),
+            budget: formatUsd(alert.budget)
+          }),
+          t('settings.usage.alertTitle')
+        )
+      }
+    })
+  }, [showWarning, t])
+}
@@ -0,0 +1,58 @@
+import { useRef, useEffect, useLayoutEffect } from 'react'
+
+interface UseLoadOlderOnScrollOptions {
+  hasOlder: boolean
+  isLoading: boolean
+  onLoadOlder?: () => void
+  itemCount: number // Changes when older items are prepended
+  threshold?: number // How close to the top starts loading
+}
+
+/**
+ * Load older items as the user scrolls up a chat-style list
+ *
+ * Features:
+ * - Calls onLoadOlder once the container nears the top
+ * - Keeps the visible items in place when older ones are prepended
+ * - Loads one page at a time
+ */
+export function useLoadOlderOnScroll(
+  scrollContainerRef: React.RefObject<HTMLElement>,
+  options: UseLoadOlderOnScrollOptions
+): void {
+  const { hasOlder, isLoading, onLoadOlder, itemCount, threshold = 150 } = options
+
+  // Scroll position when loading started
+  const anchor = useRef<{ scrollHeight: number; scrollTop: number } | null>(null)
+
+  // Start loading near the top
+  useEffect(() => {
+    const container = scrollContainerRef.current
+    if (!container || !onLoadOlder) return
+
+    const handleScroll = () => {
+      if (!hasOlder || isLoading || anchor.current || container.scrollTop > threshold) return
+
+      anchor.current = { scrollHeight: container.scrollHeight, scrollTop: container.scrollTop }
+      onLoadOlder()
+    }
+
+    container.addEventListener('scroll', handleScroll, { passive: true })
+    return () => container.removeEventListener('scroll', handleScroll)
+  }, [scrollContainerRef, hasOlder, isLoading, onLoadOlder, threshold])
+
+  // Before paint, move down by the height the older items added
+  useLayoutEffect(() => {
+    const container = scrollContainerRef.current
+    if (!container || !anchor.current) return
+
+    const added = container.scrollHeight - anchor.current.scrollHeight
+    if (added > 0) {
+      container.scrollTop = anchor.current.scrollTop + added
+      anchor.current = null
+    } else if (!isLoading) {
+      // Finished without anything new
+      anchor.current = null
+    }
+  }, [scrollContainerRef, itemCount, isLoading])
+}
@@ -0,0 +1,29 @@
+import { useEffect, useState } from 'react'
+import { SyncQueueStore } from '@/lib/offline/SyncQueueStore'
+
+/**
+ * Session changes (messages, reactions, edits, deletes) not synced yet
+ */
+export function usePendingChanges(): number {
+  const [pendingChanges, setPendingChanges] = useState(0)
+
+  useEffect(() => {
+    let active = true
+    const refresh = () => {
+      SyncQueueStore.count()
+        .then(count => {
+          if (active) setPendingChanges(count)
+        })
+        .catch(error => console.error('❌ [usePendingChanges] Failed to count pending changes:', error))
+    }
+
+    refresh()
+    const unsubscribe = SyncQueueStore.subscribe(refresh)
+    return () => {
+      active = false
+      unsubscribe()
+    }
+  }, [])
+
+  return pendingChanges
+}
@@ -0,0 +1,36 @@
+import { useEffect, useState } from 'react'
+import { ttsPlaybackQueue, type TTSPlaybackItem } from '@/services/audio/TTSPlaybackQueue'
+
+export type TTSButtonStatus = 'idle' | 'queued' | 'loading' | 'playing' | 'error'
+
+/**
+ * Hook for a message's speaker button: its place in the app-wide TTS queue,
+ * whose voice profile is speaking it, and a toggle that plays it now or
+ * skips it while it's playing
+ */
+export function useTTSPlayback(item: TTSPlaybackItem) {
+  const { messageId } = item
+  const [status, setStatus] = useState<TTSButtonStatus>('idle')
+  const [speakerName, setSpeakerName] = useState<string | undefined>()
+
+  useEffect(() => {
+    const update = () => {
+      const playbackStatus = ttsPlaybackQueue.getStatus(messageId)
+      const { current, failedMessageId } = ttsPlaybackQueue.getState()
+      setStatus(playbackStatus ?? (failedMessageId === messageId ? 'error' : 'idle'))
+      setSpeakerName(current?.messageId === messageId ? current.speakerName : undefined)
+    }
+    update()
+    return ttsPlaybackQueue.subscribe(update)
+  }, [messageId])
+
+  const toggle = () => {
+    if (ttsPlaybackQueue.getStatus(messageId) === 'playing') {
+      ttsPlaybackQueue.skip()
+    } else {
+      ttsPlaybackQueue.replay(item)
+    }
+  }
+
+  return { status, speakerName, toggle }
+}
@@ -5,6 +5,7 @@
  */
 
 import { performanceLogger, PERF_OPS } from '@/lib/performance'
+import type { VoiceSettings } from '@/lib/voices/VoiceProfileManager'
 
 export interface CacheEntry<T> {
   data: T
@@ -66,14 +67,14 @@ export class CacheManager {
   }
 
   /**
-   * Generate cache key for TTS
+   * Generate cache key for TTS. Keyed by the speaker's resolved voice profile,
+   * so changing a profile never replays audio made with another voice or speed
    */
   static generateTTSKey(
     text: string, 
-    voice: string, 
-    speed: number
+    profile: VoiceSettings
   ): string {
-    return `tts:${voice}:${speed}:${this.hashString(text)}`
+    return `tts:${profile.voice}:${profile.speed}:${this.hashString(text)}`
   }
 
   /**
@@ -6,9 +6,10 @@
 
 import { CacheManager } from './CacheManager'
 import { TranslationService } from '@/services/openai/translation'
-import { TTSService, type TTSVoice, type TTSSpeed } from '@/services/openai/tts'
+import { SecureTTSService as TTSService, type TTSVoice, type TTSSpeed } from '@/services/openai/tts-secure'
 import { TranscriptionService } from '@/services/openai/transcription'
 import { performanceLogger, PERF_OPS } from '@/lib/performance'
+import { calculateGPTCost, calculateTTSCost, calculateWhisperCost, recordApiCost } from '@/lib/openai'
 import type { Language, TranslationMode, TranslationResult, TTSResult, TranscriptionResult } from '@/services/openai/index'
 import type { PromptContext } from '@/services/openai/prompts'
 
@@ -54,6 +55,15 @@ export class CachedOpenAIService {
           toLang, 
           textLength: text.length 
         })
+
+        recordApiCost('GPT-4o-mini (cached)', {
+          service: 'translation',
+          model: 'gpt-4o-mini',
+          cost: calculateGPTCost(cached.inputTokens, cached.outputTokens),
+          cached: true,
+          inputTokens: cached.inputTokens,
+          outputTokens: cached.outputTokens
+        })
         
         return { ...cached, cached: true }
       }
@@ -99,7 +109,7 @@ export class CachedOpenAIService {
     performanceLogger.start('cached-tts')
     
     // Generate cache key
-    const cacheKey = CacheManager.generateTTSKey(text, voice, speed)
+    const cacheKey = CacheManager.generateTTSKey(text, { voice, speed })
     
     console.log(`🔊 [Cached TTS] Synthesizing: "${text.slice(0, 50)}${text.length > 50 ? '...' : ''}" (${voice}, ${speed}x)`)
     
@@ -118,6 +128,14 @@ export class CachedOpenAIService {
           speed, 
           textLength: text.length 
         })
+
+        recordApiCost('TTS (cached)', {
+          service: 'tts',
+          model: 'tts-1',
+          cost: calculateTTSCost(text.length),
+          cached: true,
+          characters: text.length
+        })
         
         return { ...cached, cached: true }
       }
@@ -180,6 +198,14 @@ export class CachedOpenAIService {
           cached: true, 
           audioSize: audioBlob.size 
         })
+
+        recordApiCost('Whisper (cached)', {
+          service: 'whisper',
+          model: 'whisper-1',
+          cost: calculateWhisperCost(cached.duration),
+          cached: true,
+          seconds: cached.duration
+        })
         
         return { ...cached, cached: true }
       }
@@ -3,6 +3,8 @@
  * Maintains rolling window of recent messages for improved STT and translation accuracy
  */
 
+import { LanguageRegistry } from '@/lib/languages/LanguageRegistry'
+
 export interface ConversationContextEntry {
   text: string
   language: string
@@ -60,15 +62,19 @@ export class ConversationContextManager {
 
   /**
    * Build context prompt for Whisper STT API
-   * Simple concatenated text for transcription accuracy
+   * Simple concatenated text for transcription accuracy, plus glossary
+   * spellings so names come out right
    */
-  static buildWhisperContext(context: ConversationContextEntry[]): string {
+  static buildWhisperContext(context: ConversationContextEntry[], glossaryTerms: string[] = []): string {
     console.log('╔══════════════════════════════════════════════════════════╗')
     console.log('║                 🎧 WHISPER CONTEXT BUILDER               ║')
     console.log('╚══════════════════════════════════════════════════════════╝')
     console.log('📊 Input context entries:', context.length)
+    console.log('📖 Glossary terms:', glossaryTerms.length)
     
-    if (context.length === 0) {
+    const glossaryHint = glossaryTerms.length > 0 ? `Names and terms: ${glossaryTerms.join(', ')}.` : ''
+    
+    if (context.length === 0 && !glossaryHint) {
       console.log('⚠️  No context available - returning empty string')
       console.log('🎧 Whisper will receive NO conversation context')
       console.log('═══════════════════════════════════════════════════════')
@@ -82,7 +88,9 @@ export class ConversationContextManager {
     })
     
     const contextTexts = context.map(msg => msg.text).join(' ')
-    const whisperContext = `Recent conversation: ${contextTexts}`
+    const whisperContext = [glossaryHint, contextTexts && `Recent conversation: ${contextTexts}`]
+      .filter(Boolean)
+      .join(' ')
     
     console.log('🔧 Final Whisper context prompt:')
     console.log(`   Length: ${whisperContext.length} characters`)
@@ -112,9 +120,7 @@ export class ConversationContextManager {
     
     console.log('📋 Building structured context for GPT:')
     const contextEntries = context.map((msg, index) => {
-      const langName = msg.language === 'en' ? 'English' : 
-                      msg.language === 'es' ? 'Spanish' : 
-                      msg.language === 'pt' ? 'Portuguese' : msg.language
+      const langName = LanguageRegistry.toName(msg.language) ?? msg.language
       
       console.log(`   ${index + 1}. Language: ${msg.language} (${langName})`)
       console.log(`      Text: "${msg.text}"`)
@@ -115,8 +115,12 @@ export class ErrorManager {
   private static classifyError(error: unknown, context?: string): AppError {
     let code = ErrorCode.UNKNOWN_ERROR
 
+    // Structured proxy rejections (rate limits, spend caps) carry their own code
+    if (this.hasErrorCode(error)) {
+      code = error.code
+    }
     // OpenAI API errors
-    if (this.isOpenAIError(error)) {
+    else if (this.isOpenAIError(error)) {
       code = this.classifyOpenAIError(error)
     }
     // Supabase errors
@@ -165,6 +169,11 @@ export class ErrorManager {
     }
   }
 
+  private static hasErrorCode(error: unknown): error is { code: ErrorCode } {
+    return typeof error === 'object' && error !== null &&
+      Object.values(ErrorCode).includes((error as { code?: unknown }).code as ErrorCode)
+  }
+
   /**
    * OpenAI error detection and classification
    */
@@ -440,7 +449,7 @@ export class ErrorManager {
       case ErrorCode.AUDIO_TOO_SHORT:
         return 'Recording too short. Please speak for at least 1 second.'
       case ErrorCode.AUDIO_TOO_LONG:
-        return 'Recording too long. Maximum recording time is 60 seconds.'
+        return 'Recording too long to upload. Please record in shorter parts.'
       case ErrorCode.AUDIO_DEVICE_ERROR:
         return 'Microphone problem. Please check your audio device.'
 
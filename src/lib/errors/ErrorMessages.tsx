@@ -37,7 +37,7 @@ export const ErrorMessages: Record<string, ActionableError> = {
   
   SESSION_FULL: {
     title: "Session is full",
-    message: "This session already has 2 participants. Please create a new session.",
+    message: "This session has no room for more participants. Please create a new session.",
     icon: <AlertCircle className="h-6 w-6 text-yellow-500" />,
     action: {
       label: "Create New Session",
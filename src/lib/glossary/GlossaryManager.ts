@@ -0,0 +1,285 @@
+/**
+ * Glossary
+ *
+ * Names, brand names and nicknames that must not be translated literally.
+ * An entry is either a mapping (term → fixed translation for a language pair,
+ * applied in both directions) or a never-translate term copied verbatim.
+ *
+ * User entries apply everywhere. Session entries apply inside one session and
+ * are shared with the partner (see PresenceService.broadcastGlossary).
+ */
+
+import { LanguageRegistry, type LanguageCode } from '@/lib/languages/LanguageRegistry'
+
+export type GlossaryScope = 'user' | 'session'
+
+export interface GlossaryEntry {
+  id: string
+  term: string
+  translation?: string // Omitted for never-translate entries
+  from?: LanguageCode  // Language pair of a mapping, required with translation
+  to?: LanguageCode
+  createdAt: string
+}
+
+export type GlossaryEntryInput = Pick<GlossaryEntry, 'term' | 'translation' | 'from' | 'to'>
+
+/**
+ * Session glossary as stored and synced; the newer copy wins
+ */
+export interface SessionGlossary {
+  entries: GlossaryEntry[]
+  updatedAt: string
+}
+
+/**
+ * Glossary narrowed to one translation direction
+ */
+export interface ResolvedGlossary {
+  mappings: { term: string; translation: string }[]
+  keep: string[] // Never-translate terms
+}
+
+export interface GlossaryViolation {
+  term: string
+  expected: string // Text that should have appeared in the translation
+}
+
+export type GlossaryChangeListener = (sessionId: string | null, source: 'local' | 'partner') => void
+
+export class GlossaryManager {
+  private static readonly USER_KEY = 'translator-glossary'
+  private static readonly SESSION_KEY_PREFIX = 'translator-session-glossary-'
+  private static readonly MAX_WHISPER_TERMS = 30
+
+  private static listeners = new Set<GlossaryChangeListener>()
+
+  /**
+   * Entries that apply everywhere for this user
+   */
+  static getUserEntries(): GlossaryEntry[] {
+    return this.load<GlossaryEntry[]>(this.USER_KEY, []).filter(entry => this.isValidEntry(entry))
+  }
+
+  static getSessionGlossary(sessionId: string): SessionGlossary {
+    const stored = this.load<SessionGlossary | null>(this.SESSION_KEY_PREFIX + sessionId, null)
+    if (!stored || !Array.isArray(stored.entries) || typeof stored.updatedAt !== 'string') {
+      return { entries: [], updatedAt: new Date(0).toISOString() }
+    }
+    return { entries: stored.entries.filter(entry => this.isValidEntry(entry)), updatedAt: stored.updatedAt }
+  }
+
+  /**
+   * All active entries: session entries first so they take precedence
+   */
+  static getEntries(sessionId?: string | null): GlossaryEntry[] {
+    const sessionEntries = sessionId ? this.getSessionGlossary(sessionId).entries : []
+    return [...sessionEntries, ...this.getUserEntries()]
+  }
+
+  static addEntry(scope: GlossaryScope, input: GlossaryEntryInput, sessionId?: string | null): GlossaryEntry {
+    const entry: GlossaryEntry = {
+      id: crypto.randomUUID(),
+      term: input.term.trim(),
+      ...(input.translation?.trim()
+        ? { translation: input.translation.trim(), from: input.from, to: input.to }
+        : {}),
+      createdAt: new Date().toISOString()
+    }
+
+    if (!this.isValidEntry(entry)) {
+      throw new Error('Invalid glossary entry provided')
+    }
+
+    this.updateEntries(scope, sessionId, entries => [...entries, entry])
+    console.log(`📖 [Glossary] Added ${scope} entry:`, entry.translation ? `${entry.term} → ${entry.translation}` : `${entry.term} (never translate)`)
+    return entry
+  }
+
+  static removeEntry(scope: GlossaryScope, id: string, sessionId?: string | null): void {
+    this.updateEntries(scope, sessionId, entries => entries.filter(entry => entry.id !== id))
+    console.log(`🗑️ [Glossary] Removed ${scope} entry:`, id)
+  }
+
+  /**
+   * Apply a session glossary received from the partner.
+   * Returns false when the local copy is the same or newer
+   */
+  static applySessionGlossary(sessionId: string, glossary: SessionGlossary): boolean {
+    if (!glossary || !Array.isArray(glossary.entries) || typeof glossary.updatedAt !== 'string') {
+      console.warn('⚠️ [Glossary] Ignoring malformed session glossary')
+      return false
+    }
+
+    const current = this.getSessionGlossary(sessionId)
+    if (Date.parse(glossary.updatedAt) <= Date.parse(current.updatedAt)) {
+      return false
+    }
+
+    this.save(this.SESSION_KEY_PREFIX + sessionId, {
+      entries: glossary.entries.filter(entry => this.isValidEntry(entry)),
+      updatedAt: glossary.updatedAt
+    })
+    console.log(`🔄 [Glossary] Applied partner glossary for session ${sessionId} (${glossary.entries.length} entries)`)
+    this.notify(sessionId, 'partner')
+    return true
+  }
+
+  static clearSessionGlossary(sessionId: string): void {
+    localStorage.removeItem(this.SESSION_KEY_PREFIX + sessionId)
+  }
+
+  /**
+   * Listen for glossary changes. Returns an unsubscribe function
+   */
+  static subscribe(listener: GlossaryChangeListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  /**
+   * Narrow entries to one translation direction. Mappings apply both ways
+   * and the first entry for a term wins
+   */
+  static resolve(entries: GlossaryEntry[], from: string, to: string): ResolvedGlossary {
+    const fromCode = LanguageRegistry.toCode(from)
+    const toCode = LanguageRegistry.toCode(to)
+    const seen = new Set<string>()
+    const resolved: ResolvedGlossary = { mappings: [], keep: [] }
+
+    for (const entry of entries) {
+      if (!entry.translation) {
+        if (seen.has(entry.term.toLowerCase())) continue
+        seen.add(entry.term.toLowerCase())
+        resolved.keep.push(entry.term)
+        continue
+      }
+
+      const mapping = entry.from === fromCode && entry.to === toCode
+        ? { term: entry.term, translation: entry.translation }
+        : entry.from === toCode && entry.to === fromCode
+          ? { term: entry.translation, translation: entry.term }
+          : null
+
+      if (!mapping || seen.has(mapping.term.toLowerCase())) continue
+      seen.add(mapping.term.toLowerCase())
+      resolved.mappings.push(mapping)
+    }
+
+    return resolved
+  }
+
+  static isEmpty(glossary: ResolvedGlossary): boolean {
+    return glossary.mappings.length === 0 && glossary.keep.length === 0
+  }
+
+  /**
+   * Spellings to bias Whisper towards. The spoken language isn't known yet,
+   * so both sides of every mapping are included
+   */
+  static getWhisperTerms(entries: GlossaryEntry[]): string[] {
+    const terms = entries.flatMap(entry => entry.translation ? [entry.term, entry.translation] : [entry.term])
+    return [...new Set(terms)].slice(0, this.MAX_WHISPER_TERMS)
+  }
+
+  /**
+   * Glossary rules appended to the translation prompt
+   */
+  static buildPromptSection(glossary: ResolvedGlossary): string {
+    if (this.isEmpty(glossary)) return ''
+
+    const lines = [
+      ...glossary.mappings.map(({ term, translation }) => `- "${term}" → always "${translation}"`),
+      ...glossary.keep.map(term => `- "${term}" → keep exactly as "${term}" (never translate)`)
+    ]
+
+    return `\n\nGLOSSARY (names and terms - follow exactly):\n${lines.join('\n')}`
+  }
+
+  /**
+   * Check that every glossary term present in the original came through
+   * as required in the translation
+   */
+  static verify(glossary: ResolvedGlossary, original: string, translation: string): GlossaryViolation[] {
+    const violations: GlossaryViolation[] = []
+
+    for (const { term, translation: expected } of glossary.mappings) {
+      if (this.containsTerm(original, term) && !this.containsTerm(translation, expected)) {
+        violations.push({ term, expected })
+      }
+    }
+    for (const term of glossary.keep) {
+      if (this.containsTerm(original, term) && !this.containsTerm(translation, term)) {
+        violations.push({ term, expected: term })
+      }
+    }
+
+    return violations
+  }
+
+  private static containsTerm(text: string, term: string): boolean {
+    const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    return new RegExp(`(?<![\\p{L}\\p{N}])${escaped}(?![\\p{L}\\p{N}])`, 'iu').test(text)
+  }
+
+  private static isValidEntry(value: unknown): value is GlossaryEntry {
+    if (!value || typeof value !== 'object') return false
+    const { id, term, translation, from, to } = value as Record<string, unknown>
+    if (typeof id !== 'string' || typeof term !== 'string' || !term.trim()) {
+      return false
+    }
+    if (translation === undefined) return true
+
+    return (
+      typeof translation === 'string' &&
+      translation.trim().length > 0 &&
+      LanguageRegistry.isLanguagePair({ own: from, partner: to })
+    )
+  }
+
+  private static updateEntries(
+    scope: GlossaryScope,
+    sessionId: string | null | undefined,
+    update: (entries: GlossaryEntry[]) => GlossaryEntry[]
+  ): void {
+    if (scope === 'user') {
+      this.save(this.USER_KEY, update(this.getUserEntries()))
+      this.notify(null, 'local')
+      return
+    }
+
+    if (!sessionId) {
+      throw new Error('Session glossary entries require an active session')
+    }
+
+    this.save(this.SESSION_KEY_PREFIX + sessionId, {
+      entries: update(this.getSessionGlossary(sessionId).entries),
+      updatedAt: new Date().toISOString()
+    })
+    this.notify(sessionId, 'local')
+  }
+
+  private static notify(sessionId: string | null, source: 'local' | 'partner'): void {
+    this.listeners.forEach(listener => listener(sessionId, source))
+  }
+
+  private static load<T>(key: string, defaultValue: T): T {
+    try {
+      const stored = localStorage.getItem(key)
+      return stored ? JSON.parse(stored) : defaultValue
+    } catch (error) {
+      console.warn(`Failed to load glossary ${key}:`, error)
+      return defaultValue
+    }
+  }
+
+  private static save(key: string, value: unknown): void {
+    try {
+      localStorage.setItem(key, JSON.stringify(value))
+    } catch (error) {
+      console.error(`Failed to save glossary ${key}:`, error)
+    }
+  }
+}
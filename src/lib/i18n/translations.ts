@@ -55,6 +55,32 @@ export const translations = {
         mediumDesc: 'Balanced quality and data usage',
         low: 'Low Quality',
         lowDesc: 'Reduced quality, less data usage',
+        autoPlay: 'Auto-play Translations',
+        autoPlayDesc: 'Speak your partner\'s translated messages as they arrive',
+        environment: 'Background Noise',
+        environmentDesc: 'Clean up your voice before it is transcribed',
+        environments: {
+          off: 'Off',
+          quiet: 'Quiet',
+          cafe: 'Café',
+          street: 'Street',
+        },
+        stages: {
+          highPass: 'Low rumble filter',
+          noiseGate: 'Noise gate',
+          gainNormalization: 'Volume leveling',
+          noiseSuppression: 'Noise suppression',
+        },
+        levels: {
+          off: 'Off',
+          gentle: 'Gentle',
+          strong: 'Strong',
+        },
+        speechSpeed: 'Speech Speed',
+        shareRecordings: 'Share My Recordings',
+        shareRecordingsDesc: 'Let your partner play your original voice in sessions',
+        savedRecordings: '{{count}} saved recordings · {{used}} of {{budget}} MB',
+        clearRecordings: 'Clear',
       },
       hapticFeedback: 'Haptic Feedback',
       hapticFeedbackDesc: 'Vibration feedback for interactions',
@@ -62,6 +88,8 @@ export const translations = {
       reducedMotionDesc: 'Minimize animations and transitions',
       autoSave: 'Auto-save Sessions',
       autoSaveDesc: 'Automatically save session history',
+      verifyTranslations: 'Verify Translations',
+      verifyTranslationsDesc: 'Double-check each translation by translating it back (uses more data)',
       enableNotifications: 'Enable Notifications',
       notificationsDesc: 'Get alerts for new messages',
       exportData: 'Export Settings',
@@ -71,6 +99,64 @@ export const translations = {
       version: 'Version',
       buildDate: 'Build Date',
       footer: 'Made with ❤️ for seamless communication',
+      voiceProfile: {
+        title: 'Voice Profiles',
+        description: 'Pick the voice and speed each person is read out in. Your own profile is shared with your partner in sessions.',
+        you: 'You',
+        faceToFacePartner: 'Face-to-face partner',
+        custom: 'Custom voice',
+        customDesc: 'Off uses the automatic voice',
+        name: 'Name shown during playback',
+        voice: 'Voice',
+        speed: 'Speed',
+        perLanguage: 'Per language',
+        language: 'Language',
+        sameAsDefault: 'Default',
+        preview: 'Preview'
+      },
+      glossary: {
+        title: 'Glossary',
+        description: 'Names, brands and nicknames that should never be translated literally.',
+        term: 'Term or name',
+        translation: 'Fixed translation (leave empty to never translate)',
+        neverTranslate: 'never translate',
+        scopeUser: 'All conversations',
+        scopeSession: 'This session (shared with partner)',
+        add: 'Add',
+        empty: 'No glossary entries yet',
+        remove: 'Remove entry',
+        samePair: 'Choose two different languages',
+        invalid: 'Could not add this entry',
+      },
+      customModes: {
+        title: 'Custom modes',
+        description: 'Write your own translation style. It is used like the built-in modes.',
+        name: 'Mode name',
+        template: 'Prompt, e.g. Translate from {{from}} to {{to}} like a pirate',
+        templateHint: '{{from}} and {{to}} become the languages; conversation context is added automatically.',
+        add: 'Add mode',
+        empty: 'No custom modes yet',
+        remove: 'Remove mode',
+        invalid: 'Could not add this mode',
+      },
+      usage: {
+        title: 'Usage & costs',
+        today: 'Today',
+        thisMonth: 'This month',
+        cacheSavings: 'Saved by cache',
+        breakdown: '{{calls}} calls this month ({{cached}} from cache) · Speech {{whisper}} · Translation {{translation}} · Voice {{tts}}',
+        daily: 'Last 7 days',
+        sessions: 'By session',
+        noSessions: 'No session usage yet',
+        budgets: 'Budgets',
+        dailyBudget: 'Daily budget (USD)',
+        monthlyBudget: 'Monthly budget (USD)',
+        budgetHint: 'You get one alert per day or month once spending reaches a budget.',
+        clear: 'Clear usage history',
+        alertTitle: 'Budget reached',
+        alertDaily: 'Today\'s API spending ({{spent}}) reached your daily budget of {{budget}}.',
+        alertMonthly: 'This month\'s API spending ({{spent}}) reached your monthly budget of {{budget}}.',
+      },
     },
 
     
@@ -78,6 +164,7 @@ export const translations = {
     translator: {
       singleDevice: 'Single Device Mode',
       autoDetect: 'Auto-detecting languages',
+      whichLanguage: 'Which language is this?',
       targetLang: 'Target',
       you: 'You',
       partner: 'Partner',
@@ -86,6 +173,15 @@ export const translations = {
       processing: 'Processing your message...',
       recording: 'Recording... Click again to send',
       instructions: 'Click to start recording, click again to send',
+      handsFree: 'Hands-free mode',
+      listening: 'Listening...',
+      hearingSpeech: 'Hearing speech...',
+      listeningPaused: 'Paused while audio plays',
+      handsFreeSilence: 'Hands-free pause',
+      faceToFace: 'Face-to-face mode',
+      faceToFaceHint: 'Tap the microphone and speak. The translation appears on the other side.',
+      faceToFaceRecord: 'Record',
+      outsideLanguagePair: '{{detected}} isn\'t part of {{pair}}. Translated to {{target}}.',
     },
 
     // Languages
@@ -117,6 +213,20 @@ export const translations = {
       disconnected: 'Disconnected',
       partnerOnline: 'Partner Online',
       partnerOffline: 'Waiting for partner...',
+      participantsOnline: '{{online}} of {{total}} online',
+      participant: '#{{number}}',
+      you: 'You',
+      pendingChanges: '{{count}} pending changes',
+      loadingOlderMessages: 'Loading earlier messages…',
+      editHistory: 'Edit history',
+      edited: 'edited',
+      editedByYou: 'edited by you',
+      currentVersion: 'Current',
+      version: 'Version {{number}}',
+      translationPending: 'Translation pending',
+      noTranslationForVersion: 'No translation for this version',
+      editHistoryFailed: "Couldn't load the edit history",
+      closeEditHistory: 'Close edit history',
     },
   },
   
@@ -151,6 +261,7 @@ export const translations = {
     translator: {
       singleDevice: 'Modo de Dispositivo Único',
       autoDetect: 'Detección automática de idiomas',
+      whichLanguage: '¿En qué idioma está esto?',
       targetLang: 'Objetivo',
       you: 'Tú',
       partner: 'Compañero',
@@ -159,6 +270,15 @@ export const translations = {
       processing: 'Procesando tu mensaje...',
       recording: 'Grabando... Haz clic de nuevo para enviar',
       instructions: 'Haz clic para comenzar a grabar, haz clic de nuevo para enviar',
+      handsFree: 'Modo manos libres',
+      listening: 'Escuchando...',
+      hearingSpeech: 'Oyendo voz...',
+      listeningPaused: 'En pausa mientras suena el audio',
+      handsFreeSilence: 'Pausa manos libres',
+      faceToFace: 'Modo cara a cara',
+      faceToFaceHint: 'Toca el micrófono y habla. La traducción aparece del otro lado.',
+      faceToFaceRecord: 'Grabar',
+      outsideLanguagePair: '{{detected}} no forma parte de {{pair}}. Traducido a {{target}}.',
     },
     
     // Languages
@@ -212,6 +332,32 @@ export const translations = {
         mediumDesc: 'Calidad y uso de datos equilibrados',
         low: 'Baja Calidad',
         lowDesc: 'Calidad reducida, menos uso de datos',
+        autoPlay: 'Reproducción Automática',
+        autoPlayDesc: 'Lee en voz alta los mensajes traducidos de tu pareja al llegar',
+        environment: 'Ruido de Fondo',
+        environmentDesc: 'Limpia tu voz antes de transcribirla',
+        environments: {
+          off: 'No',
+          quiet: 'Tranquilo',
+          cafe: 'Café',
+          street: 'Calle',
+        },
+        stages: {
+          highPass: 'Filtro de graves',
+          noiseGate: 'Puerta de ruido',
+          gainNormalization: 'Nivelación de volumen',
+          noiseSuppression: 'Supresión de ruido',
+        },
+        levels: {
+          off: 'No',
+          gentle: 'Suave',
+          strong: 'Fuerte',
+        },
+        speechSpeed: 'Velocidad de Voz',
+        shareRecordings: 'Compartir Mis Grabaciones',
+        shareRecordingsDesc: 'Permite que tu pareja escuche tu voz original en las sesiones',
+        savedRecordings: '{{count}} grabaciones guardadas · {{used}} de {{budget}} MB',
+        clearRecordings: 'Borrar',
       },
       hapticFeedback: 'Vibración Táctil',
       hapticFeedbackDesc: 'Vibración para interacciones',
@@ -219,6 +365,8 @@ export const translations = {
       reducedMotionDesc: 'Minimizar animaciones y transiciones',
       autoSave: 'Guardar Automáticamente',
       autoSaveDesc: 'Guardar historial de conversaciones automáticamente',
+      verifyTranslations: 'Verificar traducciones',
+      verifyTranslationsDesc: 'Comprueba cada traducción traduciéndola de vuelta (usa más datos)',
       enableNotifications: 'Habilitar Notificaciones',
       notificationsDesc: 'Recibir alertas por nuevos mensajes',
       exportData: 'Exportar Configuración',
@@ -228,6 +376,64 @@ export const translations = {
       version: 'Versión',
       buildDate: 'Fecha de Compilación',
       footer: 'Hecho con ❤️ para comunicación perfecta',
+      voiceProfile: {
+        title: 'Perfiles de voz',
+        description: 'Elige la voz y la velocidad con la que se lee a cada persona. Tu perfil se comparte con tu compañero en las sesiones.',
+        you: 'Tú',
+        faceToFacePartner: 'Persona frente a ti',
+        custom: 'Voz personalizada',
+        customDesc: 'Desactivado usa la voz automática',
+        name: 'Nombre mostrado durante la reproducción',
+        voice: 'Voz',
+        speed: 'Velocidad',
+        perLanguage: 'Por idioma',
+        language: 'Idioma',
+        sameAsDefault: 'Predeterminada',
+        preview: 'Escuchar'
+      },
+      glossary: {
+        title: 'Glosario',
+        description: 'Nombres, marcas y apodos que nunca deben traducirse literalmente.',
+        term: 'Término o nombre',
+        translation: 'Traducción fija (vacío para no traducir nunca)',
+        neverTranslate: 'no traducir',
+        scopeUser: 'Todas las conversaciones',
+        scopeSession: 'Esta sesión (compartida con tu pareja)',
+        add: 'Añadir',
+        empty: 'Aún no hay entradas en el glosario',
+        remove: 'Eliminar entrada',
+        samePair: 'Elige dos idiomas diferentes',
+        invalid: 'No se pudo añadir esta entrada',
+      },
+      customModes: {
+        title: 'Modos personalizados',
+        description: 'Escribe tu propio estilo de traducción. Se usa como los modos integrados.',
+        name: 'Nombre del modo',
+        template: 'Instrucciones, p. ej. Traduce de {{from}} a {{to}} como un pirata',
+        templateHint: '{{from}} y {{to}} se sustituyen por los idiomas; el contexto de la conversación se añade automáticamente.',
+        add: 'Añadir modo',
+        empty: 'Aún no hay modos personalizados',
+        remove: 'Eliminar modo',
+        invalid: 'No se pudo añadir este modo',
+      },
+      usage: {
+        title: 'Uso y costes',
+        today: 'Hoy',
+        thisMonth: 'Este mes',
+        cacheSavings: 'Ahorrado por caché',
+        breakdown: '{{calls}} llamadas este mes ({{cached}} desde caché) · Voz {{whisper}} · Traducción {{translation}} · Audio {{tts}}',
+        daily: 'Últimos 7 días',
+        sessions: 'Por sesión',
+        noSessions: 'Aún no hay uso en sesiones',
+        budgets: 'Presupuestos',
+        dailyBudget: 'Presupuesto diario (USD)',
+        monthlyBudget: 'Presupuesto mensual (USD)',
+        budgetHint: 'Recibirás un aviso por día o mes cuando el gasto alcance un presupuesto.',
+        clear: 'Borrar historial de uso',
+        alertTitle: 'Presupuesto alcanzado',
+        alertDaily: 'El gasto de API de hoy ({{spent}}) alcanzó tu presupuesto diario de {{budget}}.',
+        alertMonthly: 'El gasto de API de este mes ({{spent}}) alcanzó tu presupuesto mensual de {{budget}}.',
+      },
     },
     
     // Session
@@ -238,6 +444,20 @@ export const translations = {
       disconnected: 'Desconectado',
       partnerOnline: 'Compañero en línea',
       partnerOffline: 'Esperando al compañero...',
+      participantsOnline: '{{online}} de {{total}} en línea',
+      participant: '#{{number}}',
+      you: 'Tú',
+      pendingChanges: '{{count}} cambios pendientes',
+      loadingOlderMessages: 'Cargando mensajes anteriores…',
+      editHistory: 'Historial de ediciones',
+      edited: 'editado',
+      editedByYou: 'editado por ti',
+      currentVersion: 'Actual',
+      version: 'Versión {{number}}',
+      translationPending: 'Traducción pendiente',
+      noTranslationForVersion: 'Sin traducción para esta versión',
+      editHistoryFailed: 'No se pudo cargar el historial de ediciones',
+      closeEditHistory: 'Cerrar historial de ediciones',
     },
   },
   
@@ -272,6 +492,7 @@ export const translations = {
     translator: {
       singleDevice: 'Modo de Dispositivo Único',
       autoDetect: 'Detecção automática de idiomas',
+      whichLanguage: 'Em que idioma está isto?',
       targetLang: 'Alvo',
       you: 'Você',
       partner: 'Parceiro',
@@ -280,6 +501,15 @@ export const translations = {
       processing: 'Processando sua mensagem...',
       recording: 'Gravando... Clique novamente para enviar',
       instructions: 'Clique para começar a gravar, clique novamente para enviar',
+      handsFree: 'Modo mãos livres',
+      listening: 'Ouvindo...',
+      hearingSpeech: 'Captando fala...',
+      listeningPaused: 'Pausado durante o áudio',
+      handsFreeSilence: 'Pausa mãos livres',
+      faceToFace: 'Modo cara a cara',
+      faceToFaceHint: 'Toque no microfone e fale. A tradução aparece do outro lado.',
+      faceToFaceRecord: 'Gravar',
+      outsideLanguagePair: '{{detected}} não faz parte de {{pair}}. Traduzido para {{target}}.',
     },
     
     // Languages
@@ -333,6 +563,32 @@ export const translations = {
         mediumDesc: 'Qualidade e uso de dados equilibrados',
         low: 'Baixa Qualidade',
         lowDesc: 'Qualidade reduzida, menos uso de dados',
+        autoPlay: 'Reprodução Automática',
+        autoPlayDesc: 'Lê em voz alta as mensagens traduzidas do seu parceiro quando chegam',
+        environment: 'Ruído de Fundo',
+        environmentDesc: 'Limpa sua voz antes da transcrição',
+        environments: {
+          off: 'Não',
+          quiet: 'Silencioso',
+          cafe: 'Café',
+          street: 'Rua',
+        },
+        stages: {
+          highPass: 'Filtro de graves',
+          noiseGate: 'Porta de ruído',
+          gainNormalization: 'Nivelamento de volume',
+          noiseSuppression: 'Supressão de ruído',
+        },
+        levels: {
+          off: 'Não',
+          gentle: 'Suave',
+          strong: 'Forte',
+        },
+        speechSpeed: 'Velocidade da Voz',
+        shareRecordings: 'Compartilhar Minhas Gravações',
+        shareRecordingsDesc: 'Permite que seu parceiro ouça sua voz original nas sessões',
+        savedRecordings: '{{count}} gravações salvas · {{used}} de {{budget}} MB',
+        clearRecordings: 'Limpar',
       },
       hapticFeedback: 'Vibração Tátil',
       hapticFeedbackDesc: 'Vibração para interações',
@@ -340,6 +596,8 @@ export const translations = {
       reducedMotionDesc: 'Minimizar animações e transições',
       autoSave: 'Salvar Automaticamente',
       autoSaveDesc: 'Salvar histórico de conversações automaticamente',
+      verifyTranslations: 'Verificar traduções',
+      verifyTranslationsDesc: 'Confere cada tradução traduzindo-a de volta (usa mais dados)',
       enableNotifications: 'Ativar Notificações',
       notificationsDesc: 'Receber alertas para novas mensagens',
       exportData: 'Exportar Configurações',
@@ -349,6 +607,64 @@ export const translations = {
       version: 'Versão',
       buildDate: 'Data de Compilação',
       footer: 'Feito com ❤️ para comunicação perfeita',
+      voiceProfile: {
+        title: 'Perfis de voz',
+        description: 'Escolha a voz e a velocidade com que cada pessoa é lida. O seu perfil é partilhado com o seu parceiro nas sessões.',
+        you: 'Você',
+        faceToFacePartner: 'Pessoa à sua frente',
+        custom: 'Voz personalizada',
+        customDesc: 'Desligado usa a voz automática',
+        name: 'Nome exibido durante a reprodução',
+        voice: 'Voz',
+        speed: 'Velocidade',
+        perLanguage: 'Por idioma',
+        language: 'Idioma',
+        sameAsDefault: 'Padrão',
+        preview: 'Ouvir'
+      },
+      glossary: {
+        title: 'Glossário',
+        description: 'Nomes, marcas e apelidos que nunca devem ser traduzidos literalmente.',
+        term: 'Termo ou nome',
+        translation: 'Tradução fixa (vazio para nunca traduzir)',
+        neverTranslate: 'não traduzir',
+        scopeUser: 'Todas as conversas',
+        scopeSession: 'Esta sessão (compartilhada com o parceiro)',
+        add: 'Adicionar',
+        empty: 'Nenhuma entrada no glossário ainda',
+        remove: 'Remover entrada',
+        samePair: 'Escolha dois idiomas diferentes',
+        invalid: 'Não foi possível adicionar esta entrada',
+      },
+      customModes: {
+        title: 'Modos personalizados',
+        description: 'Escreva seu próprio estilo de tradução. Ele é usado como os modos integrados.',
+        name: 'Nome do modo',
+        template: 'Instruções, ex.: Traduza de {{from}} para {{to}} como um pirata',
+        templateHint: '{{from}} e {{to}} viram os idiomas; o contexto da conversa é adicionado automaticamente.',
+        add: 'Adicionar modo',
+        empty: 'Nenhum modo personalizado ainda',
+        remove: 'Remover modo',
+        invalid: 'Não foi possível adicionar este modo',
+      },
+      usage: {
+        title: 'Uso e custos',
+        today: 'Hoje',
+        thisMonth: 'Este mês',
+        cacheSavings: 'Economizado pelo cache',
+        breakdown: '{{calls}} chamadas este mês ({{cached}} do cache) · Voz {{whisper}} · Tradução {{translation}} · Áudio {{tts}}',
+        daily: 'Últimos 7 dias',
+        sessions: 'Por sessão',
+        noSessions: 'Ainda não há uso em sessões',
+        budgets: 'Orçamentos',
+        dailyBudget: 'Orçamento diário (USD)',
+        monthlyBudget: 'Orçamento mensal (USD)',
+        budgetHint: 'Você recebe um alerta por dia ou mês quando o gasto atinge um orçamento.',
+        clear: 'Limpar histórico de uso',
+        alertTitle: 'Orçamento atingido',
+        alertDaily: 'O gasto de API de hoje ({{spent}}) atingiu seu orçamento diário de {{budget}}.',
+        alertMonthly: 'O gasto de API deste mês ({{spent}}) atingiu seu orçamento mensal de {{budget}}.',
+      },
     },
     
     // Session
@@ -359,6 +675,20 @@ export const translations = {
       disconnected: 'Desconectado',
       partnerOnline: 'Parceiro Online',
       partnerOffline: 'Aguardando parceiro...',
+      participantsOnline: '{{online}} de {{total}} online',
+      participant: '#{{number}}',
+      you: 'Você',
+      pendingChanges: '{{count}} alterações pendentes',
+      loadingOlderMessages: 'Carregando mensagens anteriores…',
+      editHistory: 'Histórico de edições',
+      edited: 'editada',
+      editedByYou: 'editada por você',
+      currentVersion: 'Atual',
+      version: 'Versão {{number}}',
+      translationPending: 'Tradução pendente',
+      noTranslationForVersion: 'Sem tradução para esta versão',
+      editHistoryFailed: 'Não foi possível carregar o histórico de edições',
+      closeEditHistory: 'Fechar histórico de edições',
     },
   },
   
@@ -418,6 +748,32 @@ export const translations = {
         mediumDesc: 'Qualité et utilisation de données équilibrées',
         low: 'Basse Qualité',
         lowDesc: 'Qualité réduite, moins d\'utilisation de données',
+        autoPlay: 'Lecture Automatique',
+        autoPlayDesc: 'Lit à voix haute les messages traduits de votre partenaire à leur arrivée',
+        environment: 'Bruit de Fond',
+        environmentDesc: 'Nettoie votre voix avant la transcription',
+        environments: {
+          off: 'Non',
+          quiet: 'Calme',
+          cafe: 'Café',
+          street: 'Rue',
+        },
+        stages: {
+          highPass: 'Filtre des graves',
+          noiseGate: 'Porte de bruit',
+          gainNormalization: 'Nivellement du volume',
+          noiseSuppression: 'Suppression du bruit',
+        },
+        levels: {
+          off: 'Non',
+          gentle: 'Léger',
+          strong: 'Fort',
+        },
+        speechSpeed: 'Vitesse de Parole',
+        shareRecordings: 'Partager Mes Enregistrements',
+        shareRecordingsDesc: 'Permet à votre partenaire d\'écouter votre voix originale en session',
+        savedRecordings: '{{count}} enregistrements sauvegardés · {{used}} sur {{budget}} Mo',
+        clearRecordings: 'Effacer',
       },
       hapticFeedback: 'Retour Haptique',
       hapticFeedbackDesc: 'Vibration pour les interactions',
@@ -425,6 +781,8 @@ export const translations = {
       reducedMotionDesc: 'Minimiser les animations et transitions',
       autoSave: 'Sauvegarde Automatique',
       autoSaveDesc: 'Sauvegarder automatiquement l\'historique des conversations',
+      verifyTranslations: 'Vérifier les traductions',
+      verifyTranslationsDesc: 'Vérifie chaque traduction en la retraduisant (utilise plus de données)',
       enableNotifications: 'Activer les Notifications',
       notificationsDesc: 'Recevoir des alertes pour les nouveaux messages',
       exportData: 'Exporter les Paramètres',
@@ -434,12 +792,71 @@ export const translations = {
       version: 'Version',
       buildDate: 'Date de Construction',
       footer: 'Fait avec ❤️ pour une communication parfaite',
+      voiceProfile: {
+        title: 'Profils de voix',
+        description: 'Choisissez la voix et la vitesse de lecture de chaque personne. Votre profil est partagé avec votre partenaire dans les sessions.',
+        you: 'Vous',
+        faceToFacePartner: 'Personne en face',
+        custom: 'Voix personnalisée',
+        customDesc: 'Désactivé utilise la voix automatique',
+        name: 'Nom affiché pendant la lecture',
+        voice: 'Voix',
+        speed: 'Vitesse',
+        perLanguage: 'Par langue',
+        language: 'Langue',
+        sameAsDefault: 'Par défaut',
+        preview: 'Écouter'
+      },
+      glossary: {
+        title: 'Glossaire',
+        description: 'Noms, marques et surnoms à ne jamais traduire littéralement.',
+        term: 'Terme ou nom',
+        translation: 'Traduction fixe (vide pour ne jamais traduire)',
+        neverTranslate: 'ne pas traduire',
+        scopeUser: 'Toutes les conversations',
+        scopeSession: 'Cette session (partagée avec le partenaire)',
+        add: 'Ajouter',
+        empty: 'Aucune entrée dans le glossaire',
+        remove: "Supprimer l'entrée",
+        samePair: 'Choisissez deux langues différentes',
+        invalid: "Impossible d'ajouter cette entrée",
+      },
+      customModes: {
+        title: 'Modes personnalisés',
+        description: 'Rédigez votre propre style de traduction. Il s\'utilise comme les modes intégrés.',
+        name: 'Nom du mode',
+        template: 'Consigne, ex. Traduis du {{from}} vers le {{to}} comme un pirate',
+        templateHint: '{{from}} et {{to}} deviennent les langues ; le contexte de la conversation est ajouté automatiquement.',
+        add: 'Ajouter le mode',
+        empty: 'Aucun mode personnalisé',
+        remove: 'Supprimer le mode',
+        invalid: 'Impossible d\'ajouter ce mode',
+      },
+      usage: {
+        title: 'Utilisation et coûts',
+        today: 'Aujourd\'hui',
+        thisMonth: 'Ce mois-ci',
+        cacheSavings: 'Économisé grâce au cache',
+        breakdown: '{{calls}} appels ce mois-ci ({{cached}} depuis le cache) · Voix {{whisper}} · Traduction {{translation}} · Audio {{tts}}',
+        daily: '7 derniers jours',
+        sessions: 'Par session',
+        noSessions: 'Aucune utilisation en session pour l\'instant',
+        budgets: 'Budgets',
+        dailyBudget: 'Budget quotidien (USD)',
+        monthlyBudget: 'Budget mensuel (USD)',
+        budgetHint: 'Vous recevez une alerte par jour ou par mois lorsque les dépenses atteignent un budget.',
+        clear: 'Effacer l\'historique d\'utilisation',
+        alertTitle: 'Budget atteint',
+        alertDaily: 'Les dépenses API du jour ({{spent}}) ont atteint votre budget quotidien de {{budget}}.',
+        alertMonthly: 'Les dépenses API du mois ({{spent}}) ont atteint votre budget mensuel de {{budget}}.',
+      },
     },
     
     // Translator
     translator: {
       singleDevice: 'Mode Appareil Unique',
       autoDetect: 'Détection automatique des langues',
+      whichLanguage: 'Dans quelle langue est-ce ?',
       targetLang: 'Cible',
       you: 'Vous',
       partner: 'Partenaire',
@@ -448,6 +865,15 @@ export const translations = {
       processing: 'Traitement de votre message...',
       recording: 'Enregistrement... Cliquez à nouveau pour envoyer',
       instructions: 'Cliquez pour commencer l\'enregistrement, cliquez à nouveau pour envoyer',
+      handsFree: 'Mode mains libres',
+      listening: 'À l\'écoute...',
+      hearingSpeech: 'Parole détectée...',
+      listeningPaused: 'En pause pendant la lecture audio',
+      handsFreeSilence: 'Pause mains libres',
+      faceToFace: 'Mode face à face',
+      faceToFaceHint: 'Touchez le micro et parlez. La traduction s\'affiche de l\'autre côté.',
+      faceToFaceRecord: 'Enregistrer',
+      outsideLanguagePair: '{{detected}} ne fait pas partie de {{pair}}. Traduit en {{target}}.',
     },
 
     // Languages
@@ -479,6 +905,20 @@ export const translations = {
       disconnected: 'Déconnecté',
       partnerOnline: 'Partenaire en ligne',
       partnerOffline: 'En attente du partenaire...',
+      participantsOnline: '{{online}} sur {{total}} en ligne',
+      participant: '#{{number}}',
+      you: 'Vous',
+      pendingChanges: '{{count}} modifications en attente',
+      loadingOlderMessages: 'Chargement des messages précédents…',
+      editHistory: 'Historique des modifications',
+      edited: 'modifié',
+      editedByYou: 'modifié par vous',
+      currentVersion: 'Actuelle',
+      version: 'Version {{number}}',
+      translationPending: 'Traduction en attente',
+      noTranslationForVersion: 'Pas de traduction pour cette version',
+      editHistoryFailed: "Impossible de charger l'historique des modifications",
+      closeEditHistory: "Fermer l'historique des modifications",
     },
   },
   
@@ -538,6 +978,32 @@ export const translations = {
         mediumDesc: 'Ausgewogene Qualität und Datenverbrauch',
         low: 'Niedrige Qualität',
         lowDesc: 'Reduzierte Qualität, weniger Datenverbrauch',
+        autoPlay: 'Automatische Wiedergabe',
+        autoPlayDesc: 'Liest übersetzte Nachrichten deines Partners beim Eintreffen vor',
+        environment: 'Hintergrundgeräusche',
+        environmentDesc: 'Bereinigt Ihre Stimme vor der Transkription',
+        environments: {
+          off: 'Aus',
+          quiet: 'Ruhig',
+          cafe: 'Café',
+          street: 'Straße',
+        },
+        stages: {
+          highPass: 'Trittschallfilter',
+          noiseGate: 'Rauschsperre',
+          gainNormalization: 'Lautstärkeausgleich',
+          noiseSuppression: 'Rauschunterdrückung',
+        },
+        levels: {
+          off: 'Aus',
+          gentle: 'Sanft',
+          strong: 'Stark',
+        },
+        speechSpeed: 'Sprechgeschwindigkeit',
+        shareRecordings: 'Meine Aufnahmen Teilen',
+        shareRecordingsDesc: 'Dein Partner kann in Sitzungen deine Originalstimme anhören',
+        savedRecordings: '{{count}} gespeicherte Aufnahmen · {{used}} von {{budget}} MB',
+        clearRecordings: 'Löschen',
       },
       hapticFeedback: 'Haptisches Feedback',
       hapticFeedbackDesc: 'Vibration bei Interaktionen',
@@ -545,6 +1011,8 @@ export const translations = {
       reducedMotionDesc: 'Animationen und Übergänge minimieren',
       autoSave: 'Automatisch speichern',
       autoSaveDesc: 'Gesprächsverlauf automatisch speichern',
+      verifyTranslations: 'Übersetzungen prüfen',
+      verifyTranslationsDesc: 'Prüft jede Übersetzung durch Rückübersetzung (verbraucht mehr Daten)',
       enableNotifications: 'Benachrichtigungen aktivieren',
       notificationsDesc: 'Benachrichtigungen für neue Nachrichten erhalten',
       exportData: 'Einstellungen exportieren',
@@ -554,12 +1022,71 @@ export const translations = {
       version: 'Version',
       buildDate: 'Build-Datum',
       footer: 'Mit ❤️ für perfekte Kommunikation gemacht',
+      voiceProfile: {
+        title: 'Stimmprofile',
+        description: 'Wähle Stimme und Tempo, mit denen jede Person vorgelesen wird. Dein eigenes Profil wird in Sitzungen mit deinem Partner geteilt.',
+        you: 'Du',
+        faceToFacePartner: 'Gegenüber',
+        custom: 'Eigene Stimme',
+        customDesc: 'Aus verwendet die automatische Stimme',
+        name: 'Name während der Wiedergabe',
+        voice: 'Stimme',
+        speed: 'Tempo',
+        perLanguage: 'Pro Sprache',
+        language: 'Sprache',
+        sameAsDefault: 'Standard',
+        preview: 'Anhören'
+      },
+      glossary: {
+        title: 'Glossar',
+        description: 'Namen, Marken und Spitznamen, die nie wörtlich übersetzt werden sollen.',
+        term: 'Begriff oder Name',
+        translation: 'Feste Übersetzung (leer lassen, um nie zu übersetzen)',
+        neverTranslate: 'nicht übersetzen',
+        scopeUser: 'Alle Unterhaltungen',
+        scopeSession: 'Diese Sitzung (mit Partner geteilt)',
+        add: 'Hinzufügen',
+        empty: 'Noch keine Glossareinträge',
+        remove: 'Eintrag entfernen',
+        samePair: 'Wähle zwei verschiedene Sprachen',
+        invalid: 'Eintrag konnte nicht hinzugefügt werden',
+      },
+      customModes: {
+        title: 'Eigene Modi',
+        description: 'Schreibe deinen eigenen Übersetzungsstil. Er wird wie die eingebauten Modi verwendet.',
+        name: 'Name des Modus',
+        template: 'Anweisung, z. B. Übersetze von {{from}} nach {{to}} wie ein Pirat',
+        templateHint: '{{from}} und {{to}} werden durch die Sprachen ersetzt; der Gesprächskontext wird automatisch ergänzt.',
+        add: 'Modus hinzufügen',
+        empty: 'Noch keine eigenen Modi',
+        remove: 'Modus entfernen',
+        invalid: 'Dieser Modus konnte nicht hinzugefügt werden',
+      },
+      usage: {
+        title: 'Nutzung und Kosten',
+        today: 'Heute',
+        thisMonth: 'Dieser Monat',
+        cacheSavings: 'Durch Cache gespart',
+        breakdown: '{{calls}} Aufrufe diesen Monat ({{cached}} aus dem Cache) · Sprache {{whisper}} · Übersetzung {{translation}} · Audio {{tts}}',
+        daily: 'Letzte 7 Tage',
+        sessions: 'Nach Sitzung',
+        noSessions: 'Noch keine Nutzung in Sitzungen',
+        budgets: 'Budgets',
+        dailyBudget: 'Tagesbudget (USD)',
+        monthlyBudget: 'Monatsbudget (USD)',
+        budgetHint: 'Sie erhalten eine Warnung pro Tag oder Monat, sobald die Ausgaben ein Budget erreichen.',
+        clear: 'Nutzungsverlauf löschen',
+        alertTitle: 'Budget erreicht',
+        alertDaily: 'Die heutigen API-Ausgaben ({{spent}}) haben Ihr Tagesbudget von {{budget}} erreicht.',
+        alertMonthly: 'Die API-Ausgaben dieses Monats ({{spent}}) haben Ihr Monatsbudget von {{budget}} erreicht.',
+      },
     },
     
     // Translator
     translator: {
       singleDevice: 'Einzelgerätemodus',
       autoDetect: 'Automatische Spracherkennung',
+      whichLanguage: 'Welche Sprache ist das?',
       targetLang: 'Ziel',
       you: 'Sie',
       partner: 'Partner',
@@ -568,6 +1095,15 @@ export const translations = {
       processing: 'Verarbeite Ihre Nachricht...',
       recording: 'Aufnahme... Klicken Sie erneut zum Senden',
       instructions: 'Klicken Sie zum Starten der Aufnahme, klicken Sie erneut zum Senden',
+      handsFree: 'Freisprechmodus',
+      listening: 'Hört zu...',
+      hearingSpeech: 'Sprache erkannt...',
+      listeningPaused: 'Pausiert während der Audiowiedergabe',
+      handsFreeSilence: 'Freisprech-Pause',
+      faceToFace: 'Gegenüber-Modus',
+      faceToFaceHint: 'Tippe auf das Mikrofon und sprich. Die Übersetzung erscheint auf der anderen Seite.',
+      faceToFaceRecord: 'Aufnehmen',
+      outsideLanguagePair: '{{detected}} gehört nicht zu {{pair}}. Übersetzt in: {{target}}.',
     },
 
     // Languages
@@ -599,6 +1135,20 @@ export const translations = {
       disconnected: 'Getrennt',
       partnerOnline: 'Partner online',
       partnerOffline: 'Warte auf Partner...',
+      participantsOnline: '{{online}} von {{total}} online',
+      participant: '#{{number}}',
+      you: 'Du',
+      pendingChanges: '{{count}} ausstehende Änderungen',
+      loadingOlderMessages: 'Frühere Nachrichten werden geladen…',
+      editHistory: 'Bearbeitungsverlauf',
+      edited: 'bearbeitet',
+      editedByYou: 'von dir bearbeitet',
+      currentVersion: 'Aktuell',
+      version: 'Version {{number}}',
+      translationPending: 'Übersetzung ausstehend',
+      noTranslationForVersion: 'Keine Übersetzung für diese Version',
+      editHistoryFailed: 'Bearbeitungsverlauf konnte nicht geladen werden',
+      closeEditHistory: 'Bearbeitungsverlauf schließen',
     },
   },
 }
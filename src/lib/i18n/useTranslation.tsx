@@ -13,7 +13,8 @@ const TranslationContext = createContext<TranslationContextValue | null>(null)
 export function TranslationProvider({ children }: { children: ReactNode }) {
   const [language, setLanguageState] = useState<Language>(() => {
     const user = UserManager.getOrCreateUser()
-    return user.language
+    // Users can speak languages the UI has no bundle for yet
+    return user.language in translations ? user.language as Language : 'en'
   })
   
   const setLanguage = (lang: Language) => {
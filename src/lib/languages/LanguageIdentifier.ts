@@ -0,0 +1,122 @@
+/**
+ * Offline Text Language Identification
+ *
+ * Character n-gram (1-3) naive Bayes classifier over the bundled model in
+ * language-model.json. Rebuild the model after editing the training corpus:
+ *   npm run build:language-model
+ */
+
+import languageModel from './language-model.json'
+import { LanguageRegistry, type LanguageCode } from './LanguageRegistry'
+
+export const MAX_NGRAM = 3
+
+// Below this posterior the caller should ask the user instead of guessing
+export const UNCERTAIN_CONFIDENCE_THRESHOLD = 0.75
+
+export interface LanguageModel {
+  version: number
+  maxNgram: number
+  floor: number[] // Log-probability for unseen n-grams, indexed by n - 1
+  languages: Record<string, { ngrams: Record<string, number> }>
+}
+
+export interface LanguageIdentification {
+  language: LanguageCode | 'uncertain'
+  bestGuess: LanguageCode | null // Top-scoring language even when uncertain
+  confidence: number             // Posterior probability of bestGuess, 0-1
+  candidates: { language: LanguageCode; confidence: number }[] // Sorted, most likely first
+}
+
+export interface IdentifyOptions {
+  candidates?: LanguageCode[] // Restrict to these languages
+  preferred?: LanguageCode[]  // Retry among these when the open identification is uncertain (e.g. the active language pair)
+  threshold?: number
+}
+
+/**
+ * Split text into padded character n-grams. Shared with the model build script
+ * so training and inference tokenize identically
+ */
+export function extractNgrams(text: string, maxNgram: number = MAX_NGRAM): string[] {
+  const normalized = text
+    .normalize('NFC')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{M}']+/gu, ' ')
+    .trim()
+
+  if (!normalized) return []
+
+  const ngrams: string[] = []
+  for (const word of normalized.split(' ')) {
+    const padded = ` ${word} `
+    for (let n = 1; n <= maxNgram; n++) {
+      for (let i = 0; i + n <= padded.length; i++) {
+        const gram = padded.slice(i, i + n)
+        if (gram.trim()) ngrams.push(gram)
+      }
+    }
+  }
+  return ngrams
+}
+
+export class LanguageIdentifier {
+  private static model = languageModel as LanguageModel
+
+  /**
+   * Identify the language of a piece of text.
+   * Returns language 'uncertain' when the best guess is below the threshold
+   */
+  static identify(text: string, options: IdentifyOptions = {}): LanguageIdentification {
+    const { preferred, ...rest } = options
+    const identification = this.identifyAmong(text, rest)
+
+    if (identification.language === 'uncertain' && preferred && preferred.length > 0) {
+      return this.identifyAmong(text, { ...rest, candidates: preferred })
+    }
+    return identification
+  }
+
+  private static identifyAmong(text: string, options: IdentifyOptions): LanguageIdentification {
+    const threshold = options.threshold ?? UNCERTAIN_CONFIDENCE_THRESHOLD
+    const ngrams = extractNgrams(text, this.model.maxNgram)
+    const languages = (options.candidates ?? Object.keys(this.model.languages))
+      .filter((code): code is LanguageCode =>
+        LanguageRegistry.isLanguageCode(code) && code in this.model.languages
+      )
+
+    if (ngrams.length === 0 || languages.length === 0) {
+      return { language: 'uncertain', bestGuess: null, confidence: 0, candidates: [] }
+    }
+
+    const logLikelihoods = languages.map(code => this.score(ngrams, code))
+
+    // Overlapping 1/2/3-grams are far from independent; temper by n-gram order
+    // so the posterior isn't wildly overconfident
+    const tempered = logLikelihoods.map(score => score / this.model.maxNgram)
+    const max = Math.max(...tempered)
+    const weights = tempered.map(score => Math.exp(score - max))
+    const total = weights.reduce((sum, weight) => sum + weight, 0)
+
+    const candidates = languages
+      .map((language, i) => ({ language, confidence: weights[i] / total }))
+      .sort((a, b) => b.confidence - a.confidence)
+
+    const best = candidates[0]
+    return {
+      language: best.confidence >= threshold ? best.language : 'uncertain',
+      bestGuess: best.language,
+      confidence: best.confidence,
+      candidates
+    }
+  }
+
+  private static score(ngrams: string[], code: string): number {
+    const table = this.model.languages[code].ngrams
+    let score = 0
+    for (const gram of ngrams) {
+      score += table[gram] ?? this.model.floor[gram.length - 1]
+    }
+    return score
+  }
+}
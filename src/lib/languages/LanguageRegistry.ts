@@ -0,0 +1,190 @@
+/**
+ * Language Registry
+ *
+ * Single source of truth for every language the translator supports.
+ * Pipeline, prompts, Whisper mapping, user profile and UI selectors all read
+ * from here, so adding a language is a data change in LANGUAGES below.
+ */
+
+export interface LanguageFormality {
+  informal: string // Register to use in casual/fun modes (e.g. 'tú')
+  formal?: string  // Register to avoid; omitted when the language has no T-V split
+}
+
+export interface LanguageDefinition {
+  code: string          // BCP-47 primary tag used across the app ('es')
+  name: string          // English display name, also what prompts receive ('Spanish')
+  nativeName: string    // Name in the language itself ('Español')
+  flag: string
+  whisperCode: string   // ISO-639-1 code Whisper accepts and reports
+  aliases?: readonly string[] // Regional tags that fold into this entry ('pt-BR')
+  formality?: LanguageFormality
+  styleNote?: string    // Extra prompt guidance when translating into this language
+}
+
+export const LANGUAGES = [
+  {
+    code: 'en',
+    name: 'English',
+    nativeName: 'English',
+    flag: '🇺🇸',
+    whisperCode: 'en',
+    aliases: ['en-GB', 'en-US'],
+    styleNote: 'Use British English for English translations'
+  },
+  {
+    code: 'es',
+    name: 'Spanish',
+    nativeName: 'Español',
+    flag: '🇪🇸',
+    whisperCode: 'es',
+    aliases: ['es-ES', 'es-MX'],
+    formality: { informal: 'tú', formal: 'usted' }
+  },
+  {
+    code: 'pt',
+    name: 'Portuguese',
+    nativeName: 'Português',
+    flag: '🇵🇹',
+    whisperCode: 'pt',
+    aliases: ['pt-BR', 'pt-PT'],
+    formality: { informal: 'você' }
+  },
+  {
+    code: 'fr',
+    name: 'French',
+    nativeName: 'Français',
+    flag: '🇫🇷',
+    whisperCode: 'fr',
+    formality: { informal: 'tu', formal: 'vous' }
+  },
+  {
+    code: 'de',
+    name: 'German',
+    nativeName: 'Deutsch',
+    flag: '🇩🇪',
+    whisperCode: 'de',
+    formality: { informal: 'du', formal: 'Sie' }
+  },
+  {
+    code: 'it',
+    name: 'Italian',
+    nativeName: 'Italiano',
+    flag: '🇮🇹',
+    whisperCode: 'it',
+    formality: { informal: 'tu', formal: 'Lei' }
+  },
+  {
+    code: 'nl',
+    name: 'Dutch',
+    nativeName: 'Nederlands',
+    flag: '🇳🇱',
+    whisperCode: 'nl',
+    formality: { informal: 'je', formal: 'u' }
+  },
+  {
+    code: 'ru',
+    name: 'Russian',
+    nativeName: 'Русский',
+    flag: '🇷🇺',
+    whisperCode: 'ru',
+    formality: { informal: 'ты', formal: 'вы' }
+  },
+  {
+    code: 'ja',
+    name: 'Japanese',
+    nativeName: '日本語',
+    flag: '🇯🇵',
+    whisperCode: 'ja',
+    formality: { informal: 'plain form', formal: 'keigo' }
+  },
+  {
+    code: 'zh',
+    name: 'Chinese',
+    nativeName: '中文',
+    flag: '🇨🇳',
+    whisperCode: 'zh',
+    aliases: ['zh-CN', 'zh-TW']
+  },
+  {
+    code: 'ar',
+    name: 'Arabic',
+    nativeName: 'العربية',
+    flag: '🇸🇦',
+    whisperCode: 'ar'
+  }
+] as const satisfies readonly LanguageDefinition[]
+
+export type LanguageCode = (typeof LANGUAGES)[number]['code']
+export type LanguageName = (typeof LANGUAGES)[number]['name']
+
+export const DEFAULT_LANGUAGE_CODE: LanguageCode = 'en'
+
+/**
+ * Two-party conversation languages: speech in one is translated into the other
+ */
+export interface LanguagePair {
+  own: LanguageCode     // This device's speaker
+  partner: LanguageCode // The other side of the conversation
+}
+
+// Every way a language can be referred to → its definition (codes, names, Whisper output)
+const LOOKUP = new Map<string, LanguageDefinition>()
+for (const language of LANGUAGES as readonly LanguageDefinition[]) {
+  const keys = [language.code, language.name, language.nativeName, language.whisperCode, ...(language.aliases ?? [])]
+  for (const key of keys) {
+    LOOKUP.set(key.toLowerCase(), language)
+  }
+}
+
+export class LanguageRegistry {
+  /**
+   * All supported languages in display order
+   */
+  static getAll(): readonly LanguageDefinition[] {
+    return LANGUAGES
+  }
+
+  /**
+   * Resolve a code ('es', 'pt-BR'), English name ('Spanish'), native name
+   * or Whisper output ('spanish') to its definition
+   */
+  static getLanguage(codeOrName: string | null | undefined): LanguageDefinition | undefined {
+    if (!codeOrName) return undefined
+
+    const normalized = codeOrName.toLowerCase().trim().replace(/_/g, '-')
+    return LOOKUP.get(normalized) ?? LOOKUP.get(normalized.split('-')[0])
+  }
+
+  static isSupported(codeOrName: string | null | undefined): boolean {
+    return this.getLanguage(codeOrName) !== undefined
+  }
+
+  /**
+   * Narrow arbitrary input (stored preferences, route config) to a supported code
+   */
+  static isLanguageCode(value: unknown): value is LanguageCode {
+    return typeof value === 'string' && LANGUAGES.some(language => language.code === value)
+  }
+
+  static isLanguagePair(value: unknown): value is LanguagePair {
+    if (!value || typeof value !== 'object') return false
+    const { own, partner } = value as Record<string, unknown>
+    return this.isLanguageCode(own) && this.isLanguageCode(partner) && own !== partner
+  }
+
+  static toCode(codeOrName: string): LanguageCode | undefined {
+    return this.getLanguage(codeOrName)?.code as LanguageCode | undefined
+  }
+
+  static toName(codeOrName: string): LanguageName | undefined {
+    return this.getLanguage(codeOrName)?.name as LanguageName | undefined
+  }
+
+  /**
+   * Map Whisper's reported language ('en' or 'english') to a supported code
+   */
+  static fromWhisper(whisperLanguage: string): LanguageCode | undefined {
+    return this.toCode(whisperLanguage)
+  }
+}
@@ -0,0 +1,477 @@
+/**
+ * Mode Registry
+ *
+ * Every translation mode (register, tone and STT examples the prompt uses).
+ * PromptService builds the prompt for any built-in mode from MODES below, so
+ * adding a mode is a data change here. Users can also define their own modes
+ * as a prompt template, stored on this device.
+ */
+
+import { LanguageRegistry, type LanguageCode } from '@/lib/languages/LanguageRegistry'
+
+export type ModeRegister = 'informal' | 'formal' | 'neutral'
+
+/**
+ * STT error examples keyed by source language. A string applies to every
+ * target; a map gives examples per target language
+ */
+export type SttExampleTable = Partial<Record<LanguageCode, string | Partial<Record<LanguageCode, string>>>>
+
+export interface ModeSection {
+  title: string
+  rules: string[]
+}
+
+export interface ModeDefinition {
+  id: string
+  name: string          // English display name
+  icon: string
+  description: string
+  context: string       // Situation line the prompt opens with
+  register: ModeRegister
+  formalityRules?: Partial<Record<LanguageCode, string>> // Per target language, overrides the registry's T-V forms
+  steps: string[]       // TRANSLATION PROCESS; {{from}}, {{to}}, {{formality}} and {{style}} are filled in
+  sections?: ModeSection[]
+  sttExamples: SttExampleTable
+}
+
+export interface CustomModeDefinition {
+  id: CustomModeId
+  name: string
+  icon: string
+  template: string      // {{from}}, {{to}} and {{context}} are filled in
+  createdAt: string
+}
+
+export type CustomModeInput = Pick<CustomModeDefinition, 'name' | 'template'> & { icon?: string }
+
+export const MODES = [
+  {
+    id: 'casual',
+    name: 'Casual',
+    icon: '💬',
+    description: 'Everyday conversation',
+    context: 'Real-time speech with STT errors',
+    register: 'informal',
+    steps: [
+      'Fix STT errors (punctuation, homophones, grammar)',
+      'Translate the corrected text from {{from}} to {{to}}',
+      'Use informal conversational language{{formality}}',
+      '{{style}}'
+    ],
+    sections: [
+      {
+        title: 'STYLE',
+        rules: [
+          "Match speaker's tone and energy",
+          'Keep casual speech patterns natural'
+        ]
+      }
+    ],
+    sttExamples: {
+      en: {
+        es: `- "lets eat grandma" → "let's eat, grandma" → "vamos a comer, abuela"
+- "how r u" → "how are you" → "¿cómo estás?"
+- "i cant wait" → "I can't wait" → "No puedo esperar"`,
+        pt: `- "lets eat grandma" → "let's eat, grandma" → "vamos comer, vovó"
+- "how r u" → "how are you" → "como você está?"
+- "i cant wait" → "I can't wait" → "Não posso esperar"`,
+        fr: `- "lets eat grandma" → "let's eat, grandma" → "allons manger, grand-mère"
+- "how r u" → "how are you" → "comment vas-tu?"
+- "i cant wait" → "I can't wait" → "Je ne peux pas attendre"`,
+        de: `- "lets eat grandma" → "let's eat, grandma" → "lass uns essen gehen, Oma"
+- "how r u" → "how are you" → "wie geht es dir?"
+- "i cant wait" → "I can't wait" → "Ich kann es kaum erwarten"`
+      },
+      es: `- "como estas" → "¿cómo estás?" → "How are you?"
+- "no se" → "no sé" → "I don't know"
+- "q haces" → "¿qué haces?" → "What are you doing?"`,
+      pt: `- "como voce esta" → "Como você está?" → "How are you?"
+- "nao sei" → "Não sei" → "I don't know"
+- "que faz" → "Que faz?" → "What are you doing?"`,
+      fr: `- "cmmt vas tu" → "comment vas-tu" → "How are you?"
+- "je ne sais pas" → "je ne sais pas" → "I don't know"
+- "quest ce que tu fais" → "qu'est-ce que tu fais?" → "What are you doing?"`,
+      de: `- "wie gehts" → "wie geht's?" → "How are you?"
+- "ich weiss nicht" → "ich weiß nicht" → "I don't know"
+- "was machst du" → "was machst du?" → "What are you doing?"`
+    }
+  },
+  {
+    id: 'fun',
+    name: 'Fun with Emojis',
+    icon: '🎉',
+    description: 'Playful tone with the odd emoji',
+    context: 'Fun mode - real-time speech with emoji enhancement',
+    register: 'informal',
+    steps: [
+      'Fix STT errors (missing punctuation, homophones, grammar)',
+      'Translate the corrected text from {{from}} to {{to}}',
+      'Add appropriate emojis to enhance meaning and context',
+      'If conversation context suggests romance/dating, preserve that tone naturally',
+      'Use informal, fun language{{formality}}'
+    ],
+    sections: [
+      {
+        title: 'EMOJI GUIDELINES',
+        rules: [
+          'Use emojis SPARINGLY and CONTEXTUALLY - maximum 1 per message, often none',
+          'Add emojis for SPECIFIC nouns when relevant: coffee ☕, beach 🏖️, food 🍕, weather ☀️🌧️',
+          'For EMOTIONS: love/affection ❤️💕, excitement 🎉, sadness 😢, flirty 😏😉',
+          'For ROMANTIC/FLIRTY content: subtle winks 😉, smirks 😏, hearts ❤️💕, kisses 💋',
+          'NEVER use generic 😊 for basic greetings, questions, or neutral responses',
+          'NO emojis for simple pleasantries, directions, or factual statements',
+          'Focus on meaningful enhancement, not decoration'
+        ]
+      },
+      {
+        title: 'ROMANTIC CONTEXT DETECTION',
+        rules: [
+          'Look for romantic keywords in recent conversation: love, miss, beautiful, date, kiss, etc.',
+          'If detected, use romantic emojis sparingly: 💕❤️😍💋🌹 (max 1 per message)',
+          'If no romantic context, avoid emojis unless truly meaningful',
+          'Never use generic emojis like 😊 for neutral conversation'
+        ]
+      }
+    ],
+    sttExamples: {
+      en: {
+        es: `- "i miss you to" → "I miss you too" → "Te extraño 💕 también"
+- "your beautiful" → "you're beautiful" → "Eres hermosa"
+- "how r u" → "how are you" → "¿Cómo estás hoy?"
+- "want some coffee" → "Want some coffee?" → "¿Quieres café ☕?"
+- "going to beach" → "Going to the beach" → "Voy a la playa 🏖️"`,
+        pt: `- "i miss you to" → "I miss you too" → "Sinto sua falta 💕 também"
+- "your beautiful" → "you're beautiful" → "Você é linda"
+- "how r u" → "how are you" → "Como você está hoje?"
+- "want some coffee" → "Want some coffee?" → "Quer café ☕?"
+- "going to beach" → "Going to the beach" → "Vou à praia 🏖️"`,
+        fr: `- "i miss you to" → "I miss you too" → "Tu me manques 💕 aussi"
+- "your beautiful" → "you're beautiful" → "Tu es belle"
+- "how r u" → "how are you" → "Comment vas-tu aujourd'hui?"
+- "want some coffee" → "Want some coffee?" → "Tu veux du café ☕?"
+- "going to beach" → "Going to the beach" → "Je vais à la plage 🏖️"`,
+        de: `- "i miss you to" → "I miss you too" → "Ich vermisse dich 💕 auch"
+- "your beautiful" → "you're beautiful" → "Du bist wunderschön"
+- "how r u" → "how are you" → "Wie geht es dir heute?"
+- "want some coffee" → "Want some coffee?" → "Möchtest du Kaffee ☕?"
+- "going to beach" → "Going to the beach" → "Ich gehe zum Strand 🏖️"`
+      },
+      es: `- "como estas" → "¿cómo estás?" → "How are you doing?"
+- "te amo mucho" → "Te amo mucho" → "I love you ❤️ so much"
+- "q tal" → "¿qué tal?" → "How's it going today?"
+- "quiero cafe" → "Quiero café" → "I want coffee ☕"
+- "vamos a la playa" → "Vamos a la playa" → "Let's go to the beach 🏖️"`,
+      pt: `- "como voce esta" → "Como você está?" → "How are you doing?"
+- "te amo muito" → "Te amo muito" → "I love you ❤️ so much"
+- "que tal" → "Que tal?" → "How's it going today?"
+- "quero cafe" → "Quero café" → "I want coffee ☕"
+- "vamos a praia" → "Vamos à praia" → "Let's go to the beach 🏖️"`,
+      fr: `- "cmmt tu vas" → "comment tu vas?" → "How are you doing?"
+- "je taime bcp" → "je t'aime beaucoup" → "I love you ❤️ so much"
+- "ca va" → "ça va?" → "How's it going today?"
+- "je veux du cafe" → "je veux du café" → "I want coffee ☕"
+- "allons a la plage" → "allons à la plage" → "Let's go to the beach 🏖️"`,
+      de: `- "wie gehts dir" → "wie geht's dir?" → "How are you doing?"
+- "ich liebe dich sehr" → "ich liebe dich sehr" → "I love you ❤️ so much"
+- "was ist los" → "was ist los?" → "How's it going today?"
+- "ich will kaffee" → "ich will Kaffee" → "I want coffee ☕"
+- "gehen wir zum strand" → "gehen wir zum Strand" → "Let's go to the beach 🏖️"`
+    }
+  },
+  {
+    id: 'formal',
+    name: 'Formal',
+    icon: '💼',
+    description: 'Business meetings and polite company',
+    context: 'Formal/business conversation - real-time speech with STT errors',
+    register: 'formal',
+    formalityRules: {
+      pt: 'o senhor / a senhora, not você',
+      en: 'no contractions or slang'
+    },
+    steps: [
+      'Fix STT errors (punctuation, homophones, grammar)',
+      'Translate the corrected text from {{from}} to {{to}}',
+      'Use formal, polite language{{formality}}',
+      'Replace slang and filler words with their professional equivalents'
+    ],
+    sections: [
+      {
+        title: 'STYLE',
+        rules: [
+          'Courteous and professional, as in a business meeting',
+          'Keep titles and surnames (Mr, Dr, Frau, Señora) when the speaker uses them',
+          'Never add emojis'
+        ]
+      }
+    ],
+    sttExamples: {
+      en: {
+        es: `- "can u send me the report" → "Can you send me the report?" → "¿Podría enviarme el informe?"
+- "thx for coming" → "Thanks for coming" → "Gracias por venir"
+- "lets circle back tmrw" → "Let's circle back tomorrow" → "Retomemos el tema mañana"`,
+        fr: `- "can u send me the report" → "Can you send me the report?" → "Pourriez-vous m'envoyer le rapport ?"
+- "thx for coming" → "Thanks for coming" → "Merci d'être venu"
+- "lets circle back tmrw" → "Let's circle back tomorrow" → "Reprenons ce point demain"`,
+        de: `- "can u send me the report" → "Can you send me the report?" → "Könnten Sie mir den Bericht schicken?"
+- "thx for coming" → "Thanks for coming" → "Vielen Dank für Ihr Kommen"
+- "lets circle back tmrw" → "Let's circle back tomorrow" → "Lassen Sie uns morgen darauf zurückkommen"`
+      },
+      es: `- "me puede mandar el informe" → "¿Me puede mandar el informe?" → "Could you send me the report?"
+- "gracias por venir" → "Gracias por venir" → "Thank you for coming"`,
+      de: `- "konnen sie mir helfen" → "Können Sie mir helfen?" → "Could you help me?"
+- "vielen dank fur ihre zeit" → "Vielen Dank für Ihre Zeit" → "Thank you for your time"`
+    }
+  },
+  {
+    id: 'medical',
+    name: 'Medical',
+    icon: '🩺',
+    description: 'Clinical and precise, nothing added',
+    context: 'Medical/clinical conversation between patient and care provider - accuracy is critical',
+    register: 'formal',
+    formalityRules: {
+      pt: 'o senhor / a senhora, not você'
+    },
+    steps: [
+      'Fix STT errors only where the intended word is certain',
+      'Translate the corrected text from {{from}} to {{to}} precisely',
+      'Use clear, respectful language{{formality}}',
+      'Keep every number, dose, unit, duration and body part exactly as spoken'
+    ],
+    sections: [
+      {
+        title: 'PRECISION RULES',
+        rules: [
+          'No embellishment, no softening, no emojis',
+          'Never add, omit or summarise symptoms, medication names or instructions',
+          'Use the standard medical term in the target language when the speaker uses one',
+          'Keep the speaker\'s uncertainty ("maybe", "I think") - it matters clinically',
+          'If a word is unclear, translate it literally rather than guessing'
+        ]
+      }
+    ],
+    sttExamples: {
+      en: `- "take two tablets twice a day" → "Take two tablets twice a day"
+- "im allergic to penicillin" → "I'm allergic to penicillin"
+- "the pain started 3 days ago" → "The pain started three days ago"
+- "high blood pressure" (not "hi blood pressure")`,
+      es: `- "me duele el pecho desde ayer" → "Me duele el pecho desde ayer" → "My chest has hurt since yesterday"
+- "soy alergico a la penicilina" → "Soy alérgico a la penicilina" → "I'm allergic to penicillin"`,
+      pt: `- "to com dor de cabeca" → "Estou com dor de cabeça" → "I have a headache"
+- "tomo remedio pra pressao" → "Tomo remédio para pressão" → "I take blood pressure medication"`
+    }
+  },
+  {
+    id: 'child',
+    name: 'Child-friendly',
+    icon: '🧸',
+    description: 'Simple, warm words a child understands',
+    context: 'Speaking with or to a young child - real-time speech with STT errors',
+    register: 'informal',
+    steps: [
+      'Fix STT errors (punctuation, homophones, grammar)',
+      'Translate the corrected text from {{from}} to {{to}}',
+      'Use simple, warm, informal language{{formality}}',
+      'Prefer short sentences and everyday words a young child knows'
+    ],
+    sections: [
+      {
+        title: 'STYLE',
+        rules: [
+          'Gentle and encouraging tone',
+          'Keep the full meaning - simplify the words, not the message',
+          'Nothing scary, sarcastic or crude'
+        ]
+      }
+    ],
+    sttExamples: {
+      en: {
+        es: `- "time for bed sweety" → "Time for bed, sweetie" → "Hora de dormir, cariño"
+- "do u want a snack" → "Do you want a snack?" → "¿Quieres algo de comer?"`,
+        pt: `- "time for bed sweety" → "Time for bed, sweetie" → "Hora de dormir, querida"
+- "do u want a snack" → "Do you want a snack?" → "Quer um lanchinho?"`
+      },
+      es: `- "ya es hora de dormir" → "Ya es hora de dormir" → "It's time for bed now"
+- "quieres jugar" → "¿Quieres jugar?" → "Do you want to play?"`
+    }
+  },
+  {
+    id: 'literal',
+    name: 'Literal',
+    icon: '🔤',
+    description: 'Word-for-word, for learning and checking',
+    context: 'Literal mode - stay as close to the original wording as grammar allows',
+    register: 'neutral',
+    steps: [
+      'Fix STT errors (punctuation, homophones) without rewording',
+      'Translate the corrected text from {{from}} to {{to}} word for word',
+      'Keep the original word order and idioms where {{to}} grammar allows',
+      'Keep the speaker\'s register - do not make it more or less formal'
+    ],
+    sections: [
+      {
+        title: 'STYLE',
+        rules: [
+          'Do not paraphrase, smooth out or localise idioms',
+          'Never add emojis or words that were not spoken'
+        ]
+      }
+    ],
+    sttExamples: {
+      en: `- "its raining cats and dogs" → "It's raining cats and dogs" (translate the words, not the idiom)
+- "how r u" → "how are you"`,
+      es: `- "me tomas el pelo" → "¿Me tomas el pelo?" → "Are you taking me the hair?"`
+    }
+  }
+] as const satisfies readonly ModeDefinition[]
+
+export type BuiltInModeId = (typeof MODES)[number]['id']
+export type CustomModeId = `custom-${string}`
+export type TranslationMode = BuiltInModeId | CustomModeId
+
+export const DEFAULT_MODE: BuiltInModeId = 'casual'
+
+const LOOKUP = new Map<string, ModeDefinition>(
+  (MODES as readonly ModeDefinition[]).map(mode => [mode.id, mode])
+)
+
+export class ModeRegistry {
+  private static readonly CUSTOM_MODES_KEY = 'translator-custom-modes'
+  private static readonly MAX_TEMPLATE_LENGTH = 4000
+
+  /**
+   * Built-in modes in display order
+   */
+  static getAll(): readonly ModeDefinition[] {
+    return MODES
+  }
+
+  static getMode(id: string | null | undefined): ModeDefinition | undefined {
+    return id ? LOOKUP.get(id) : undefined
+  }
+
+  static isBuiltInMode(value: unknown): value is BuiltInModeId {
+    return typeof value === 'string' && LOOKUP.has(value)
+  }
+
+  static isCustomModeId(value: unknown): value is CustomModeId {
+    return typeof value === 'string' && value.startsWith('custom-') && value.length > 'custom-'.length
+  }
+
+  /**
+   * Narrow stored input to a mode id. A custom id stays valid after the mode
+   * is deleted; prompts then fall back to the default mode
+   */
+  static isTranslationMode(value: unknown): value is TranslationMode {
+    return this.isBuiltInMode(value) || this.isCustomModeId(value)
+  }
+
+  /**
+   * Display name and icon for any mode id, built-in or custom
+   */
+  static describe(id: TranslationMode): { name: string; icon: string } {
+    const mode = this.getMode(id) ?? this.getCustomMode(id)
+    return mode ? { name: mode.name, icon: mode.icon } : { name: id, icon: '❔' }
+  }
+
+  /**
+   * Register note for a target language, e.g. " (tú, not usted)".
+   * A mode's own rule for the language wins over the registry's T-V forms
+   */
+  static getFormalityNote(mode: ModeDefinition, toLang: string): string {
+    const code = LanguageRegistry.toCode(toLang)
+    const rule = code ? mode.formalityRules?.[code] : undefined
+    if (rule) return ` (${rule})`
+
+    if (mode.register === 'neutral') return ''
+
+    const formality = LanguageRegistry.getLanguage(toLang)?.formality
+    if (!formality) return mode.register === 'formal' ? ' (formal tone)' : ''
+
+    if (mode.register === 'formal') {
+      return formality.formal
+        ? ` (${formality.formal}, not ${formality.informal})`
+        : ' (formal tone)'
+    }
+    return formality.formal
+      ? ` (${formality.informal}, not ${formality.formal})`
+      : ` (${formality.informal}, informal tone)`
+  }
+
+  /**
+   * The mode's STT examples for a language direction, or null when it has none
+   */
+  static getSttExamples(mode: ModeDefinition, fromLang: string, toLang: string): string | null {
+    const fromCode = LanguageRegistry.toCode(fromLang)
+    const toCode = LanguageRegistry.toCode(toLang)
+    const examples = fromCode ? mode.sttExamples[fromCode] : undefined
+
+    if (typeof examples === 'string') return examples
+    return (examples && toCode ? examples[toCode] : undefined) ?? null
+  }
+
+  /**
+   * Modes the user defined on this device
+   */
+  static getCustomModes(): CustomModeDefinition[] {
+    try {
+      const stored = localStorage.getItem(this.CUSTOM_MODES_KEY)
+      const modes = stored ? JSON.parse(stored) : []
+      return Array.isArray(modes) ? modes.filter(mode => this.isValidCustomMode(mode)) : []
+    } catch (error) {
+      console.warn('Failed to load custom modes:', error)
+      return []
+    }
+  }
+
+  static getCustomMode(id: string | null | undefined): CustomModeDefinition | undefined {
+    return id ? this.getCustomModes().find(mode => mode.id === id) : undefined
+  }
+
+  static addCustomMode(input: CustomModeInput): CustomModeDefinition {
+    const mode: CustomModeDefinition = {
+      id: `custom-${crypto.randomUUID()}`,
+      name: input.name.trim(),
+      icon: input.icon?.trim() || '✏️',
+      template: input.template.trim(),
+      createdAt: new Date().toISOString()
+    }
+
+    if (!this.isValidCustomMode(mode)) {
+      throw new Error('Invalid custom mode provided')
+    }
+
+    this.saveCustomModes([...this.getCustomModes(), mode])
+    console.log('✏️ [ModeRegistry] Added custom mode:', mode.name)
+    return mode
+  }
+
+  static removeCustomMode(id: string): void {
+    this.saveCustomModes(this.getCustomModes().filter(mode => mode.id !== id))
+    console.log('🗑️ [ModeRegistry] Removed custom mode:', id)
+  }
+
+  private static isValidCustomMode(value: unknown): value is CustomModeDefinition {
+    if (!value || typeof value !== 'object') return false
+    const { id, name, icon, template } = value as Record<string, unknown>
+    return (
+      this.isCustomModeId(id) &&
+      typeof name === 'string' &&
+      name.trim().length > 0 &&
+      typeof icon === 'string' &&
+      typeof template === 'string' &&
+      template.trim().length > 0 &&
+      template.length <= this.MAX_TEMPLATE_LENGTH
+    )
+  }
+
+  private static saveCustomModes(modes: CustomModeDefinition[]): void {
+    try {
+      localStorage.setItem(this.CUSTOM_MODES_KEY, JSON.stringify(modes))
+    } catch (error) {
+      console.error('Failed to save custom modes:', error)
+    }
+  }
+}
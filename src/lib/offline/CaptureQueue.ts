@@ -0,0 +1,130 @@
+/**
+ * Capture Queue - Messages made without connectivity
+ *
+ * ProgressPreservationService keeps workflow steps in localStorage, which
+ * can't hold audio. Recordings and typed messages made offline are kept here
+ * instead, in IndexedDB, as the full translation request: the input plus the
+ * context snapshot (recent messages, glossary, mode, languages) from the
+ * moment they were made. They're translated in queue order once the app is
+ * back online, and survive reloads until then.
+ */
+
+import type { TranslationRequest } from '@/services/pipeline/types'
+import { IndexedDBStore, isIndexedDBSupported } from '@/lib/storage/IndexedDBStore'
+
+export interface CapturedMessage {
+  id: string            // Message id it's shown and translated under
+  request: TranslationRequest
+  sessionId: string     // 'solo-session' outside sessions
+  createdAt: number
+  position: number      // Processing order, lowest first
+}
+
+/**
+ * Swap an item with its neighbour. Returns the items whose position changed
+ */
+export function moveCapture(
+  captures: CapturedMessage[],
+  id: string,
+  direction: 'up' | 'down'
+): CapturedMessage[] {
+  const ordered = [...captures].sort((a, b) => a.position - b.position)
+  const index = ordered.findIndex(capture => capture.id === id)
+  const neighbourIndex = direction === 'up' ? index - 1 : index + 1
+  if (index < 0 || neighbourIndex < 0 || neighbourIndex >= ordered.length) return []
+
+  const current = ordered[index]
+  const neighbour = ordered[neighbourIndex]
+  return [
+    { ...current, position: neighbour.position },
+    { ...neighbour, position: current.position }
+  ]
+}
+
+export class CaptureQueue {
+  private static store = new IndexedDBStore<CapturedMessage>({
+    dbName: 'translator-capture-queue',
+    storeName: 'captures',
+    keyPath: 'id'
+  })
+  private static listeners = new Set<() => void>()
+
+  static isSupported(): boolean {
+    return isIndexedDBSupported()
+  }
+
+  /**
+   * Queue a request behind everything already waiting
+   */
+  static async add(request: TranslationRequest): Promise<CapturedMessage> {
+    if (!request.messageId) {
+      throw new Error('Captured requests need a messageId')
+    }
+    if (!this.isSupported()) {
+      throw new Error('Offline capture needs IndexedDB')
+    }
+
+    const existing = await this.store.getAll()
+    const capture: CapturedMessage = {
+      id: request.messageId,
+      request,
+      sessionId: request.sessionId || 'solo-session',
+      createdAt: Date.now(),
+      position: existing.reduce((max, item) => Math.max(max, item.position), 0) + 1
+    }
+
+    await this.store.put(capture)
+    console.log(`📥 [CaptureQueue] Captured ${request.inputType} message ${capture.id} offline (${existing.length + 1} waiting)`)
+    this.notify()
+    return capture
+  }
+
+  /**
+   * Waiting messages of a session, in processing order
+   */
+  static async list(sessionId: string): Promise<CapturedMessage[]> {
+    if (!this.isSupported()) return []
+
+    const captures = await this.store.getAll()
+    return captures
+      .filter(capture => capture.sessionId === sessionId)
+      .sort((a, b) => a.position - b.position)
+  }
+
+  static async move(id: string, direction: 'up' | 'down'): Promise<void> {
+    const capture = await this.store.get(id)
+    if (!capture) return
+
+    const changed = moveCapture(await this.list(capture.sessionId), id, direction)
+    for (const item of changed) {
+      await this.store.put(item)
+    }
+    if (changed.length > 0) this.notify()
+  }
+
+  static async remove(id: string): Promise<void> {
+    if (!this.isSupported()) return
+    await this.store.delete(id)
+    this.notify()
+  }
+
+  /**
+   * Called whenever messages are added, reordered or removed
+   */
+  static subscribe(listener: () => void): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  private static notify(): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener()
+      } catch (error) {
+        console.error('❌ [CaptureQueue] Listener failed:', error)
+      }
+    })
+  }
+}
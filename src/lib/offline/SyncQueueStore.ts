@@ -0,0 +1,82 @@
+/**
+ * Sync Queue Store - Session changes waiting to reach the server
+ *
+ * MessageSyncService queues messages, reactions, edits and deletes while it's
+ * disconnected. Its queues live in memory, so they're mirrored here in
+ * IndexedDB to survive reloads (and iOS evicting the tab). Each entry keeps
+ * the client-generated id it's written under, so replaying one that already
+ * reached the server changes nothing.
+ */
+
+import type { QueuedSessionMessage } from '@/types/database'
+import type { QueuedSyncOperation } from '@/services/types/sync.types'
+import { IndexedDBStore, isIndexedDBSupported } from '@/lib/storage/IndexedDBStore'
+
+export type PendingChange =
+  | { kind: 'message'; id: string; sessionId: string; sequence: number; message: QueuedSessionMessage }
+  | { kind: 'operation'; id: string; sessionId: string; sequence: number; operation: QueuedSyncOperation }
+
+export class SyncQueueStore {
+  private static store = new IndexedDBStore<PendingChange>({
+    dbName: 'translator-sync-queue',
+    storeName: 'changes',
+    keyPath: 'id'
+  })
+  private static listeners = new Set<() => void>()
+
+  static isSupported(): boolean {
+    return isIndexedDBSupported()
+  }
+
+  static async save(change: PendingChange): Promise<void> {
+    if (!this.isSupported()) return
+    await this.store.put(change)
+    this.notify()
+  }
+
+  static async remove(id: string): Promise<void> {
+    if (!this.isSupported()) return
+    await this.store.delete(id)
+    this.notify()
+  }
+
+  /**
+   * Changes of a session, in the order they were made
+   */
+  static async list(sessionId: string): Promise<PendingChange[]> {
+    if (!this.isSupported()) return []
+
+    const changes = await this.store.getAll()
+    return changes
+      .filter(change => change.sessionId === sessionId)
+      .sort((a, b) => a.sequence - b.sequence)
+  }
+
+  /**
+   * Changes waiting across all sessions
+   */
+  static async count(): Promise<number> {
+    if (!this.isSupported()) return 0
+    return (await this.store.getAll()).length
+  }
+
+  /**
+   * Called whenever changes are saved or removed
+   */
+  static subscribe(listener: () => void): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  private static notify(): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener()
+      } catch (error) {
+        console.error('❌ [SyncQueueStore] Listener failed:', error)
+      }
+    })
+  }
+}
@@ -3,8 +3,66 @@
  * This replaces direct OpenAI client calls to hide API keys from browser
  */
 
+import { ErrorCode } from '@/lib/errors/ErrorCodes';
+
+// Retry-After beyond this isn't worth an automatic retry (e.g. a daily cap)
+const MAX_AUTO_RETRY_AFTER_MS = 10000;
+
+/**
+ * Rejection from the proxy. Structured rejections (rate limits, spend caps,
+ * invalid payloads) carry the ErrorCode the proxy chose
+ */
+export class ProxyRequestError extends Error {
+  readonly statusCode: number;
+  readonly code?: ErrorCode;
+  readonly scope?: string; // 'client' | 'session' | 'global' | 'upstream'
+  readonly retryAfterMs?: number;
+  readonly isRetryable?: boolean;
+
+  constructor(label: string, statusCode: number, body: { error?: string; code?: string; scope?: string; retryAfter?: number }) {
+    super(`${label} API error: ${body.error || 'Unknown error'}`);
+    this.name = 'ProxyRequestError';
+    this.statusCode = statusCode;
+    this.code = Object.values(ErrorCode).includes(body.code as ErrorCode) ? body.code as ErrorCode : undefined;
+    this.scope = body.scope;
+    this.retryAfterMs = typeof body.retryAfter === 'number' ? body.retryAfter * 1000 : undefined;
+
+    // Only leave retry decisions to the message/status heuristics for unstructured errors
+    if (this.code === ErrorCode.API_INVALID_REQUEST || this.code === ErrorCode.RATE_LIMITED_USER) {
+      this.isRetryable = false;
+    } else if (this.code === ErrorCode.API_RATE_LIMIT) {
+      this.isRetryable = this.retryAfterMs === undefined || this.retryAfterMs <= MAX_AUTO_RETRY_AFTER_MS;
+    }
+  }
+}
+
+/**
+ * Turn a failed proxy response into a ProxyRequestError
+ */
+async function toProxyError(response: Response, label: string): Promise<ProxyRequestError> {
+  let body: { error?: string; code?: string; scope?: string; retryAfter?: number } = {};
+  try {
+    body = await response.json();
+  } catch {
+    // Non-JSON error page (e.g. from a gateway)
+  }
+  return new ProxyRequestError(label, response.status, body);
+}
+
 export class OpenAIProxyClient {
   private baseUrl = '/api/openai';
+  private sessionId: string | null = null;
+
+  /**
+   * Attribute requests to a session so the proxy can apply per-session limits
+   */
+  setSessionId(sessionId: string | null): void {
+    this.sessionId = sessionId;
+  }
+
+  private headers(extra: Record<string, string> = {}): Record<string, string> {
+    return this.sessionId ? { ...extra, 'X-Session-Id': this.sessionId } : extra;
+  }
 
 
   /**
@@ -18,20 +76,93 @@ export class OpenAIProxyClient {
   }) {
     const response = await fetch(`${this.baseUrl}/translate`, {
       method: 'POST',
-      headers: {
+      headers: this.headers({
         'Content-Type': 'application/json',
-      },
+      }),
       body: JSON.stringify(params)
     });
 
     if (!response.ok) {
-      const error = await response.json();
-      throw new Error(`Translation API error: ${error.error || 'Unknown error'}`);
+      throw await toProxyError(response, 'Translation');
     }
 
     return response.json();
   }
 
+  /**
+   * Create a streamed chat completion via proxy server
+   * Yields content deltas as the server-sent events arrive; the final chunk
+   * carries token usage (requested through stream_options.include_usage)
+   */
+  async *createChatCompletionStream(params: {
+    model: string;
+    messages: Array<{ role: string; content: string }>;
+    temperature?: number;
+    max_tokens?: number;
+  }): AsyncGenerator<{
+    delta?: string;
+    usage?: { prompt_tokens: number; completion_tokens: number };
+  }> {
+    const response = await fetch(`${this.baseUrl}/translate`, {
+      method: 'POST',
+      headers: this.headers({
+        'Content-Type': 'application/json',
+        'Accept': 'text/event-stream',
+      }),
+      body: JSON.stringify({
+        ...params,
+        stream: true,
+        stream_options: { include_usage: true },
+      })
+    });
+
+    if (!response.ok) {
+      throw await toProxyError(response, 'Translation');
+    }
+
+    if (!response.body) {
+      throw new Error('Translation API error: Streaming not supported');
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    try {
+      while (true) {
+        const { value, done } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+
+        // SSE events are separated by a blank line; keep any partial event
+        const events = buffer.split('\n\n');
+        buffer = events.pop() || '';
+
+        for (const event of events) {
+          for (const line of event.split('\n')) {
+            if (!line.startsWith('data:')) continue;
+
+            const data = line.slice(5).trim();
+            if (data === '[DONE]') return;
+
+            const payload = JSON.parse(data);
+            if (payload.error) {
+              throw new Error(`Translation API error: ${payload.error.message || payload.error}`);
+            }
+
+            yield {
+              delta: payload.choices?.[0]?.delta?.content || undefined,
+              usage: payload.usage || undefined,
+            };
+          }
+        }
+      }
+    } finally {
+      reader.releaseLock();
+    }
+  }
+
   /**
    * Create Whisper transcription via proxy server
    */
@@ -51,12 +182,12 @@ export class OpenAIProxyClient {
 
     const response = await fetch(`${this.baseUrl}/whisper`, {
       method: 'POST',
+      headers: this.headers(),
       body: formData
     });
 
     if (!response.ok) {
-      const error = await response.json();
-      throw new Error(`Whisper API error: ${error.error || 'Unknown error'}`);
+      throw await toProxyError(response, 'Whisper');
     }
 
     return response.json();
@@ -74,15 +205,14 @@ export class OpenAIProxyClient {
   }) {
     const response = await fetch(`${this.baseUrl}/tts`, {
       method: 'POST',
-      headers: {
+      headers: this.headers({
         'Content-Type': 'application/json',
-      },
+      }),
       body: JSON.stringify(params)
     });
 
     if (!response.ok) {
-      const error = await response.json();
-      throw new Error(`TTS API error: ${error.error || 'Unknown error'}`);
+      throw await toProxyError(response, 'TTS');
     }
 
     // Return the audio response as ArrayBuffer
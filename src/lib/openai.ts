@@ -1,5 +1,6 @@
 import OpenAI from 'openai'
 import { networkQualityDetector } from './network-quality'
+import { CostLedger, type UsageRecordInput } from './usage/CostLedger'
 
 let _openai: OpenAI | null = null
 
@@ -72,4 +73,12 @@ export function calculateTTSCost(characters: number): number {
 
 export function logApiCost(service: string, cost: number): void {
   console.log(`💰 ${service} cost: $${cost.toFixed(5)}`)
+}
+
+/**
+ * Log a call's cost and add it to the persistent cost ledger
+ */
+export function recordApiCost(service: string, usage: UsageRecordInput): void {
+  logApiCost(service, usage.cost)
+  CostLedger.record(usage)
 }
\ No newline at end of file
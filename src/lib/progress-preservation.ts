@@ -52,12 +52,14 @@ export class ProgressPreservationService {
    * Create a new workflow for tracking
    */
   static createWorkflow(
-    steps: Omit<WorkflowStep, 'status' | 'startTime'>[]
+    steps: Omit<WorkflowStep, 'status' | 'startTime'>[],
+    messageId?: string
   ): string {
     const workflowId = `workflow_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
     
     const workflow: WorkflowProgress = {
       id: workflowId,
+      ...(messageId ? { messageId } : {}),
       steps: steps.map(step => ({
         ...step,
         status: 'pending',
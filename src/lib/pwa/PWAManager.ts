@@ -308,9 +308,9 @@ export class PWAManager {
   }
 
   /**
-   * Setup offline/online event listeners
+   * Setup offline/online event listeners; returns a cleanup function
    */
-  onConnectionChange(callback: (online: boolean) => void): void {
+  onConnectionChange(callback: (online: boolean) => void): () => void {
     const handleOnline = () => callback(true)
     const handleOffline = () => callback(false)
 
@@ -0,0 +1,286 @@
+/**
+ * Recording Store
+ *
+ * Keeps the original voice recording of each message in IndexedDB, so what
+ * was actually said can be replayed when a translation looks wrong. Storage
+ * is capped by a size budget; the oldest recordings are evicted first.
+ *
+ * In session mode recordings can also be shared with the partner through the
+ * `recordings` Supabase Storage bucket. They live at `<sessionId>/<messageId>`
+ * (the synced message id), so the partner finds them without extra columns.
+ */
+
+import { supabase } from '@/lib/supabase'
+import { UserManager } from '@/lib/user/UserManager'
+import { IndexedDBStore, isIndexedDBSupported } from '@/lib/storage/IndexedDBStore'
+
+export interface RecordingMeta {
+  messageId: string    // Local message id
+  remoteId?: string    // Id of the synced session message, once sent
+  mimeType: string
+  size: number         // Bytes
+  duration: number     // Seconds (0 when the audio couldn't be decoded)
+  peaks: number[]      // Waveform bars, 0..1
+  createdAt: number
+}
+
+export interface StoredRecording extends RecordingMeta {
+  blob: Blob
+}
+
+export interface RecordingUsage {
+  count: number
+  bytes: number
+  budget: number
+}
+
+export const DEFAULT_RECORDING_BUDGET = 50 * 1024 * 1024 // 50 MB
+export const WAVEFORM_BARS = 24
+
+const SHARED_BUCKET = 'recordings'
+const SHARED_URL_EXPIRY_SECONDS = 60 * 60
+
+/**
+ * Loudest sample per bar, scaled so the loudest bar is 1. Quiet recordings
+ * keep their shape instead of drawing as a flat line
+ */
+export function computePeaks(samples: Float32Array, bars = WAVEFORM_BARS): number[] {
+  if (samples.length === 0) return []
+
+  const barLength = Math.max(1, Math.floor(samples.length / bars))
+  const peaks: number[] = []
+  for (let bar = 0; bar < bars; bar++) {
+    const start = bar * barLength
+    const end = bar === bars - 1 ? samples.length : Math.min(samples.length, start + barLength)
+    let peak = 0
+    for (let i = start; i < end; i++) {
+      peak = Math.max(peak, Math.abs(samples[i]))
+    }
+    peaks.push(peak)
+  }
+
+  const loudest = Math.max(...peaks)
+  return loudest > 0 ? peaks.map(peak => Math.round((peak / loudest) * 100) / 100) : peaks
+}
+
+/**
+ * Ids to evict, oldest first, until the rest fits in the budget
+ */
+export function selectEvictions(
+  recordings: Pick<RecordingMeta, 'messageId' | 'size' | 'createdAt'>[],
+  budget: number
+): string[] {
+  let total = recordings.reduce((sum, recording) => sum + recording.size, 0)
+  const evicted: string[] = []
+
+  for (const recording of [...recordings].sort((a, b) => a.createdAt - b.createdAt)) {
+    if (total <= budget) break
+    evicted.push(recording.messageId)
+    total -= recording.size
+  }
+
+  return evicted
+}
+
+export class RecordingStore {
+  private static store = new IndexedDBStore<StoredRecording>({
+    dbName: 'translator-recordings',
+    storeName: 'recordings',
+    keyPath: 'messageId',
+    indexes: ['remoteId']
+  })
+  private static listeners = new Set<(messageId: string | null) => void>()
+  private static sharedUrls = new Map<string, { url: string; expiresAt: number }>()
+
+  static isSupported(): boolean {
+    return isIndexedDBSupported()
+  }
+
+  static getBudget(): number {
+    return UserManager.getPreference('recordingBudget', DEFAULT_RECORDING_BUDGET)
+  }
+
+  static setBudget(bytes: number): void {
+    UserManager.setPreference('recordingBudget', bytes)
+    this.enforceBudget().catch(error => console.error('❌ [Recordings] Eviction failed:', error))
+  }
+
+  static isSharingEnabled(): boolean {
+    return UserManager.getPreference('shareRecordings', false)
+  }
+
+  static setSharingEnabled(enabled: boolean): void {
+    UserManager.setPreference('shareRecordings', enabled)
+  }
+
+  /**
+   * Store the recording of a message, evicting old ones to stay in budget.
+   * Recordings larger than the whole budget are not kept
+   */
+  static async save(messageId: string, blob: Blob): Promise<RecordingMeta | null> {
+    if (!this.isSupported()) return null
+
+    const budget = this.getBudget()
+    if (blob.size > budget) {
+      console.warn(`⚠️ [Recordings] ${messageId} is larger than the budget, not stored`)
+      return null
+    }
+
+    const { duration, peaks } = await this.analyze(blob)
+    const meta: RecordingMeta = {
+      messageId,
+      mimeType: blob.type || 'audio/wav',
+      size: blob.size,
+      duration,
+      peaks,
+      createdAt: Date.now()
+    }
+
+    await this.store.put({ ...meta, blob })
+    console.log(`🎙️ [Recordings] Stored ${messageId} (${(blob.size / 1024).toFixed(0)} KB)`)
+    this.notify(messageId)
+
+    await this.enforceBudget()
+    return meta
+  }
+
+  /**
+   * Recording by local message id or by synced message id
+   */
+  static async get(id: string): Promise<StoredRecording | null> {
+    if (!this.isSupported()) return null
+
+    const byLocalId = await this.store.get(id)
+    return byLocalId ?? (await this.store.getByIndex('remoteId', id)) ?? null
+  }
+
+  static async delete(messageId: string): Promise<void> {
+    if (!this.isSupported()) return
+    await this.store.delete(messageId)
+    this.notify(messageId)
+  }
+
+  static async clear(): Promise<void> {
+    if (!this.isSupported()) return
+    await this.store.clear()
+    console.log('🧹 [Recordings] Cleared')
+    this.notify(null)
+  }
+
+  /**
+   * Called with the id of a stored or deleted recording, or null when all
+   * recordings were cleared
+   */
+  static subscribe(listener: (messageId: string | null) => void): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  static async getUsage(): Promise<RecordingUsage> {
+    const recordings = this.isSupported() ? await this.store.getAll() : []
+    return {
+      count: recordings.length,
+      bytes: recordings.reduce((sum, recording) => sum + recording.size, 0),
+      budget: this.getBudget()
+    }
+  }
+
+  /**
+   * Remember which session message a recording belongs to and, if sharing is
+   * on, upload it so the partner can play it
+   */
+  static async share(messageId: string, sessionId: string, remoteId: string): Promise<void> {
+    const recording = await this.get(messageId)
+    if (!recording) return
+
+    await this.store.put({ ...recording, remoteId })
+
+    if (!this.isSharingEnabled()) return
+
+    const { error } = await supabase.storage
+      .from(SHARED_BUCKET)
+      .upload(`${sessionId}/${remoteId}`, recording.blob, { contentType: recording.mimeType, upsert: true })
+
+    if (error) {
+      throw error
+    }
+    console.log(`📤 [Recordings] Shared ${remoteId} with the session`)
+  }
+
+  /**
+   * Playable URL of a recording the partner shared, or null if there's none
+   */
+  static async getSharedUrl(sessionId: string, messageId: string): Promise<string | null> {
+    const path = `${sessionId}/${messageId}`
+    const cached = this.sharedUrls.get(path)
+    if (cached && cached.expiresAt > Date.now()) return cached.url
+
+    const { data, error } = await supabase.storage
+      .from(SHARED_BUCKET)
+      .createSignedUrl(path, SHARED_URL_EXPIRY_SECONDS)
+
+    // Not uploaded (yet): don't cache, the upload may still be in flight
+    if (error || !data?.signedUrl) return null
+
+    // Renew a minute before the signed URL expires
+    this.sharedUrls.set(path, { url: data.signedUrl, expiresAt: Date.now() + (SHARED_URL_EXPIRY_SECONDS - 60) * 1000 })
+    return data.signedUrl
+  }
+
+  /**
+   * Recording for an exported message: the local copy, else the shared one
+   */
+  static async getForExport(sessionId: string, messageId: string): Promise<Blob | null> {
+    const local = await this.get(messageId)
+    if (local) return local.blob
+
+    const { data, error } = await supabase.storage.from(SHARED_BUCKET).download(`${sessionId}/${messageId}`)
+    return error || !data ? null : data
+  }
+
+  /**
+   * Duration and waveform, computed once when the recording is stored
+   */
+  static async analyze(blob: Blob): Promise<Pick<RecordingMeta, 'duration' | 'peaks'>> {
+    const AudioContextClass = typeof window !== 'undefined'
+      ? window.AudioContext || window.webkitAudioContext
+      : undefined
+    if (!AudioContextClass) return { duration: 0, peaks: [] }
+
+    const context: AudioContext = new AudioContextClass()
+    try {
+      const audioBuffer = await context.decodeAudioData(await blob.arrayBuffer())
+      return {
+        duration: audioBuffer.duration,
+        peaks: computePeaks(audioBuffer.getChannelData(0))
+      }
+    } catch (error) {
+      console.warn('⚠️ [Recordings] Could not decode recording for its waveform:', error)
+      return { duration: 0, peaks: [] }
+    } finally {
+      context.close().catch(() => {})
+    }
+  }
+
+  private static async enforceBudget(): Promise<void> {
+    const evicted = selectEvictions(await this.store.getAll(), this.getBudget())
+    for (const messageId of evicted) {
+      await this.delete(messageId)
+    }
+    if (evicted.length > 0) {
+      console.log(`🧹 [Recordings] Evicted ${evicted.length} old recording(s) to stay in budget`)
+    }
+  }
+
+  private static notify(messageId: string | null): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(messageId)
+      } catch (error) {
+        console.error('❌ [Recordings] Listener failed:', error)
+      }
+    })
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * IndexedDBStore - One object store in its own database
+ *
+ * Small promise wrapper used by the stores that need to keep blobs across
+ * reloads (localStorage can't). Each call runs in its own transaction, so
+ * callers can await freely between calls.
+ */
+
+export interface IndexedDBStoreConfig {
+  dbName: string
+  storeName: string
+  keyPath: string
+  version?: number
+  indexes?: string[] // Non-unique indexes on these fields
+}
+
+export function isIndexedDBSupported(): boolean {
+  return typeof indexedDB !== 'undefined'
+}
+
+export class IndexedDBStore<T> {
+  private dbPromise: Promise<IDBDatabase> | null = null
+
+  constructor(private config: IndexedDBStoreConfig) {}
+
+  get(key: IDBValidKey): Promise<T | undefined> {
+    return this.run('readonly', store => store.get(key))
+  }
+
+  getByIndex(index: string, key: IDBValidKey): Promise<T | undefined> {
+    return this.run('readonly', store => store.index(index).get(key))
+  }
+
+  getAll(): Promise<T[]> {
+    return this.run('readonly', store => store.getAll())
+  }
+
+  async put(value: T): Promise<void> {
+    await this.run('readwrite', store => store.put(value))
+  }
+
+  async delete(key: IDBValidKey): Promise<void> {
+    await this.run('readwrite', store => store.delete(key))
+  }
+
+  async clear(): Promise<void> {
+    await this.run('readwrite', store => store.clear())
+  }
+
+  private openDatabase(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      const { dbName, storeName, keyPath, version = 1, indexes = [] } = this.config
+
+      this.dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(dbName, version)
+        request.onupgradeneeded = () => {
+          const db = request.result
+          const store = db.objectStoreNames.contains(storeName)
+            ? request.transaction!.objectStore(storeName)
+            : db.createObjectStore(storeName, { keyPath })
+          for (const index of indexes) {
+            if (!store.indexNames.contains(index)) {
+              store.createIndex(index, index, { unique: false })
+            }
+          }
+        }
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => reject(request.error)
+      }).catch(error => {
+        // Let the next call try again
+        this.dbPromise = null
+        throw error
+      })
+    }
+    return this.dbPromise
+  }
+
+  private async run<R>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest): Promise<R> {
+    const db = await this.openDatabase()
+    const { storeName } = this.config
+    return new Promise<R>((resolve, reject) => {
+      const request = operation(db.transaction(storeName, mode).objectStore(storeName))
+      request.onsuccess = () => resolve(request.result as R)
+      request.onerror = () => reject(request.error)
+    })
+  }
+}
@@ -0,0 +1,310 @@
+/**
+ * Cost Ledger
+ *
+ * Persistent record of every Whisper, GPT and TTS call made from this device,
+ * with the usage it was billed on and the session it belonged to.
+ *
+ * Cache hits are recorded too, with the cost the call would have had and
+ * `cached: true`: they count towards savings, not spending.
+ */
+
+import { UserManager } from '@/lib/user/UserManager'
+
+export type UsageService = 'whisper' | 'translation' | 'tts'
+
+export interface UsageRecordInput {
+  service: UsageService
+  model: string
+  cost: number          // USD, at API_COSTS prices
+  cached?: boolean
+  inputTokens?: number  // translation
+  outputTokens?: number // translation
+  seconds?: number      // whisper
+  characters?: number   // tts
+  sessionId?: string | null // Defaults to the active session
+  sessionCode?: string      // 4-digit code shown to users, for reports
+}
+
+export interface UsageRecord extends UsageRecordInput {
+  id: string
+  timestamp: string
+  cached: boolean
+  sessionId: string | null
+}
+
+export interface UsageQuery {
+  since?: Date
+  until?: Date
+  sessionId?: string | null // null matches calls made outside a session
+  service?: UsageService
+}
+
+export interface UsageSummary {
+  spent: number  // Non-cached calls
+  saved: number  // Cache hits
+  calls: number
+  cachedCalls: number
+  byService: Record<UsageService, { spent: number; calls: number }>
+}
+
+export interface UsagePeriodTotal extends UsageSummary {
+  period: string // 'YYYY-MM-DD' or 'YYYY-MM' (local time)
+}
+
+export interface SessionUsageTotal extends UsageSummary {
+  sessionId: string
+  sessionCode?: string
+  lastUsed: string
+}
+
+export interface UsageBudget {
+  daily?: number   // USD
+  monthly?: number // USD
+}
+
+export interface BudgetAlert {
+  period: 'daily' | 'monthly'
+  budget: number
+  spent: number
+}
+
+export type UsageListener = (record: UsageRecord) => void
+
+/**
+ * Format a USD amount, keeping sub-dollar amounts readable
+ */
+export function formatUsd(amount: number): string {
+  return `$${amount.toFixed(amount > 0 && amount < 1 ? 4 : 2)}`
+}
+
+export class CostLedger {
+  private static readonly LEDGER_KEY = 'translator-cost-ledger'
+  private static readonly ALERTS_KEY = 'translator-cost-alerts'
+  private static readonly MAX_RECORDS = 5000
+  private static readonly RETENTION_DAYS = 400 // Keeps a full year of monthly totals
+
+  private static activeSession: { sessionId: string; sessionCode?: string } | null = null
+  private static listeners = new Set<UsageListener>()
+
+  /**
+   * Attribute subsequent calls to a session (null when leaving it)
+   */
+  static setActiveSession(session: { sessionId: string; sessionCode?: string } | null): void {
+    this.activeSession = session
+  }
+
+  static record(input: UsageRecordInput): UsageRecord {
+    const session = input.sessionId !== undefined
+      ? { sessionId: input.sessionId, sessionCode: input.sessionCode }
+      : { sessionId: this.activeSession?.sessionId ?? null, sessionCode: this.activeSession?.sessionCode }
+
+    const record: UsageRecord = {
+      ...input,
+      ...(session.sessionCode ? { sessionCode: session.sessionCode } : {}),
+      id: crypto.randomUUID(),
+      timestamp: new Date().toISOString(),
+      cost: Math.max(0, input.cost),
+      cached: input.cached ?? false,
+      sessionId: session.sessionId
+    }
+
+    const cutoff = Date.now() - this.RETENTION_DAYS * 24 * 60 * 60 * 1000
+    const records = [...this.load(), record]
+      .filter(entry => Date.parse(entry.timestamp) >= cutoff)
+      .slice(-this.MAX_RECORDS)
+    this.save(records)
+
+    this.listeners.forEach(listener => listener(record))
+    return record
+  }
+
+  /**
+   * Records matching every given filter, oldest first
+   */
+  static query(filter: UsageQuery = {}): UsageRecord[] {
+    const since = filter.since?.getTime() ?? -Infinity
+    const until = filter.until?.getTime() ?? Infinity
+
+    return this.load().filter(record => {
+      const time = Date.parse(record.timestamp)
+      return (
+        time >= since &&
+        time < until &&
+        (filter.sessionId === undefined || record.sessionId === filter.sessionId) &&
+        (filter.service === undefined || record.service === filter.service)
+      )
+    })
+  }
+
+  static summarize(records: UsageRecord[]): UsageSummary {
+    const summary: UsageSummary = {
+      spent: 0,
+      saved: 0,
+      calls: 0,
+      cachedCalls: 0,
+      byService: {
+        whisper: { spent: 0, calls: 0 },
+        translation: { spent: 0, calls: 0 },
+        tts: { spent: 0, calls: 0 }
+      }
+    }
+
+    for (const record of records) {
+      summary.calls++
+      summary.byService[record.service].calls++
+      if (record.cached) {
+        summary.cachedCalls++
+        summary.saved += record.cost
+      } else {
+        summary.spent += record.cost
+        summary.byService[record.service].spent += record.cost
+      }
+    }
+    return summary
+  }
+
+  /**
+   * Totals per local calendar day, most recent first, days without calls omitted
+   */
+  static getDailyTotals(days = 30): UsagePeriodTotal[] {
+    const since = new Date()
+    since.setHours(0, 0, 0, 0)
+    since.setDate(since.getDate() - (days - 1))
+    return this.groupBy(this.query({ since }), record => this.dayKey(new Date(record.timestamp)))
+  }
+
+  /**
+   * Totals per local calendar month, most recent first
+   */
+  static getMonthlyTotals(months = 12): UsagePeriodTotal[] {
+    const since = new Date()
+    since.setHours(0, 0, 0, 0)
+    since.setDate(1)
+    since.setMonth(since.getMonth() - (months - 1))
+    return this.groupBy(this.query({ since }), record => this.monthKey(new Date(record.timestamp)))
+  }
+
+  /**
+   * Totals per session, most recently used first
+   */
+  static getSessionTotals(): SessionUsageTotal[] {
+    const bySession = new Map<string, UsageRecord[]>()
+    for (const record of this.load()) {
+      if (!record.sessionId) continue
+      const group = bySession.get(record.sessionId) ?? []
+      group.push(record)
+      bySession.set(record.sessionId, group)
+    }
+
+    return [...bySession.entries()]
+      .map(([sessionId, records]) => ({
+        sessionId,
+        sessionCode: records.find(record => record.sessionCode)?.sessionCode,
+        lastUsed: records[records.length - 1].timestamp,
+        ...this.summarize(records)
+      }))
+      .sort((a, b) => b.lastUsed.localeCompare(a.lastUsed))
+  }
+
+  static getBudget(): UsageBudget {
+    return UserManager.getPreference<UsageBudget>('usageBudget', {})
+  }
+
+  static setBudget(budget: UsageBudget): void {
+    UserManager.setPreference('usageBudget', budget)
+  }
+
+  /**
+   * Budgets exceeded in the current day/month that haven't been reported yet.
+   * Each period is reported once
+   */
+  static checkBudget(now = new Date()): BudgetAlert[] {
+    const budget = this.getBudget()
+    const reported = this.loadJson<string[]>(this.ALERTS_KEY, [])
+    const alerts: BudgetAlert[] = []
+
+    const periods = [
+      { period: 'daily' as const, limit: budget.daily, key: `daily:${this.dayKey(now)}`, since: new Date(now.getFullYear(), now.getMonth(), now.getDate()) },
+      { period: 'monthly' as const, limit: budget.monthly, key: `monthly:${this.monthKey(now)}`, since: new Date(now.getFullYear(), now.getMonth(), 1) }
+    ]
+
+    for (const { period, limit, key, since } of periods) {
+      if (!limit || limit <= 0 || reported.includes(key)) continue
+
+      const { spent } = this.summarize(this.query({ since }))
+      if (spent >= limit) {
+        alerts.push({ period, budget: limit, spent })
+        reported.push(key)
+      }
+    }
+
+    if (alerts.length > 0) {
+      this.saveJson(this.ALERTS_KEY, reported.slice(-10))
+    }
+    return alerts
+  }
+
+  /**
+   * Listen for new records. Returns an unsubscribe function
+   */
+  static subscribe(listener: UsageListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  static clear(): void {
+    localStorage.removeItem(this.LEDGER_KEY)
+    localStorage.removeItem(this.ALERTS_KEY)
+  }
+
+  private static groupBy(records: UsageRecord[], keyOf: (record: UsageRecord) => string): UsagePeriodTotal[] {
+    const groups = new Map<string, UsageRecord[]>()
+    for (const record of records) {
+      const key = keyOf(record)
+      const group = groups.get(key) ?? []
+      group.push(record)
+      groups.set(key, group)
+    }
+
+    return [...groups.entries()]
+      .map(([period, group]) => ({ period, ...this.summarize(group) }))
+      .sort((a, b) => b.period.localeCompare(a.period))
+  }
+
+  private static dayKey(date: Date): string {
+    return `${this.monthKey(date)}-${String(date.getDate()).padStart(2, '0')}`
+  }
+
+  private static monthKey(date: Date): string {
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`
+  }
+
+  private static load(): UsageRecord[] {
+    const records = this.loadJson<UsageRecord[]>(this.LEDGER_KEY, [])
+    return Array.isArray(records) ? records : []
+  }
+
+  private static save(records: UsageRecord[]): void {
+    this.saveJson(this.LEDGER_KEY, records)
+  }
+
+  private static loadJson<T>(key: string, defaultValue: T): T {
+    try {
+      const stored = localStorage.getItem(key)
+      return stored ? JSON.parse(stored) : defaultValue
+    } catch (error) {
+      console.warn(`Failed to load ${key}:`, error)
+      return defaultValue
+    }
+  }
+
+  private static saveJson(key: string, value: unknown): void {
+    try {
+      localStorage.setItem(key, JSON.stringify(value))
+    } catch (error) {
+      console.error(`Failed to save ${key}:`, error)
+    }
+  }
+}
@@ -1,8 +1,11 @@
+import { LanguageRegistry, DEFAULT_LANGUAGE_CODE, type LanguageCode, type LanguagePair } from '@/lib/languages/LanguageRegistry'
+import { ModeRegistry, DEFAULT_MODE, type TranslationMode } from '@/lib/modes/ModeRegistry'
+
 export interface User {
   id: string
   createdAt: string
-  language: 'en' | 'es' | 'pt'
-  mode: 'casual' | 'fun'
+  language: LanguageCode
+  mode: TranslationMode
   isLeft: boolean
 }
 
@@ -74,9 +77,9 @@ export class UserManager {
   /**
    * Detect user language from browser settings
    */
-  private static detectUserLanguage(): 'en' | 'es' | 'pt' {
+  private static detectUserLanguage(): LanguageCode {
     // Always default to English as requested by user
-    return 'en'
+    return DEFAULT_LANGUAGE_CODE
   }
 
   /**
@@ -87,8 +90,8 @@ export class UserManager {
       user &&
       typeof user.id === 'string' &&
       typeof user.createdAt === 'string' &&
-      ['en', 'es', 'pt'].includes(user.language) &&
-      ['casual', 'fun'].includes(user.mode) &&
+      LanguageRegistry.isLanguageCode(user.language) &&
+      ModeRegistry.isTranslationMode(user.mode) &&
       typeof user.isLeft === 'boolean'
     )
   }
@@ -178,24 +181,15 @@ export class UserManager {
   /**
    * Get user language preference name for display
    */
-  static getLanguageName(language: 'en' | 'es' | 'pt'): string {
-    const names = {
-      en: 'English',
-      es: 'Español',
-      pt: 'Português'
-    }
-    return names[language]
+  static getLanguageName(language: LanguageCode): string {
+    return LanguageRegistry.getLanguage(language)?.nativeName ?? language
   }
 
   /**
    * Get user mode display name
    */
-  static getModeName(mode: 'casual' | 'fun'): string {
-    const names = {
-      casual: 'Casual',
-      fun: 'Fun with Emojis'
-    }
-    return names[mode]
+  static getModeName(mode: TranslationMode): string {
+    return ModeRegistry.describe(mode).name
   }
 
   /**
@@ -226,29 +220,42 @@ export class UserManager {
   }
 
   /**
-   * Get current translation mode (casual/fun)
+   * Get current translation mode. A custom mode that was since deleted
+   * falls back to the default
    */
-  static getTranslationMode(): 'casual' | 'fun' {
-    const user = this.getOrCreateUser()
-    return user.mode
+  static getTranslationMode(): TranslationMode {
+    const { mode } = this.getOrCreateUser()
+    if (ModeRegistry.isCustomModeId(mode) && !ModeRegistry.getCustomMode(mode)) {
+      return DEFAULT_MODE
+    }
+    return mode
   }
 
   /**
    * Set translation mode and persist it
    */
-  static setTranslationMode(mode: 'casual' | 'fun'): void {
+  static setTranslationMode(mode: TranslationMode): void {
     this.updateUser({ mode })
     console.log(`🎯 Translation mode updated to: ${mode}`)
   }
 
   /**
-   * Toggle between casual and fun modes
+   * Get the persisted language pair, or null when pair mode is off
    */
-  static toggleTranslationMode(): 'casual' | 'fun' {
-    const currentMode = this.getTranslationMode()
-    const newMode = currentMode === 'casual' ? 'fun' : 'casual'
-    this.setTranslationMode(newMode)
-    return newMode
+  static getLanguagePair(): LanguagePair | null {
+    const pair = this.getPreference<unknown>('languagePair', null)
+    return LanguageRegistry.isLanguagePair(pair) ? pair : null
+  }
+
+  /**
+   * Persist the language pair (null turns pair mode off)
+   */
+  static setLanguagePair(pair: LanguagePair | null): void {
+    if (pair && !LanguageRegistry.isLanguagePair(pair)) {
+      throw new Error('Invalid language pair provided')
+    }
+    this.setPreference('languagePair', pair)
+    console.log('🌐 Language pair updated to:', pair ? `${pair.own} ↔ ${pair.partner}` : 'off')
   }
 
   /**
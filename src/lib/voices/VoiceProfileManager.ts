@@ -0,0 +1,213 @@
+/**
+ * Voice profiles
+ *
+ * The TTS voice and speed a participant's messages are read out in, with
+ * optional overrides per message language. The user's own profile is shared
+ * with the partner in session mode (see PresenceService.broadcastVoiceProfile);
+ * profiles received from partners, and ones set up here for a face-to-face
+ * partner, are kept per speaker id.
+ *
+ * Speakers without a profile keep the automatic voice (TTSPlaybackQueue.pickVoice).
+ */
+
+import { UserManager } from '@/lib/user/UserManager'
+import { LanguageRegistry, type LanguageCode } from '@/lib/languages/LanguageRegistry'
+import type { TTSSpeed, TTSVoice } from '@/services/openai/tts-secure'
+
+export const TTS_VOICES: TTSVoice[] = ['alloy', 'echo', 'fable', 'onyx', 'nova', 'shimmer']
+
+export interface VoiceSettings {
+  voice: TTSVoice
+  speed: TTSSpeed
+}
+
+export interface VoiceProfile extends VoiceSettings {
+  name?: string // Shown while this speaker's messages play
+  languages?: Partial<Record<LanguageCode, VoiceSettings>>
+  updatedAt: string
+}
+
+export type VoiceProfileInput = Omit<VoiceProfile, 'updatedAt'>
+
+// Sender id of this device's messages outside sessions
+export const SELF_SPEAKER_ID = 'single-user'
+
+// speakerId is null for the user's own profile
+export type VoiceProfileChangeListener = (speakerId: string | null, source: 'local' | 'partner') => void
+
+// Read out by the settings preview, in the language being set up
+const PREVIEW_TEXTS: Partial<Record<LanguageCode, string>> = {
+  en: 'Hi! This is how your messages will sound.',
+  es: '¡Hola! Así sonarán tus mensajes.',
+  pt: 'Olá! É assim que as suas mensagens vão soar.',
+  fr: 'Bonjour ! Voici comment vos messages sonneront.',
+  de: 'Hallo! So klingen deine Nachrichten.'
+}
+
+export class VoiceProfileManager {
+  private static readonly OWN_PREFERENCE = 'voiceProfile'
+  private static readonly PARTICIPANTS_PREFERENCE = 'voiceProfiles'
+
+  // Session user ids are per session; the session registers its own
+  private static selfSpeakerIds = new Set<string>([SELF_SPEAKER_ID])
+  private static listeners = new Set<VoiceProfileChangeListener>()
+
+  static getOwnProfile(): VoiceProfile | null {
+    const profile = UserManager.getPreference<unknown>(this.OWN_PREFERENCE, null)
+    return this.isValidProfile(profile) ? profile : null
+  }
+
+  /**
+   * Save the user's own profile; null goes back to the automatic voice
+   */
+  static setOwnProfile(input: VoiceProfileInput | null): VoiceProfile | null {
+    const profile = input ? this.stamp(input) : null
+    UserManager.setPreference(this.OWN_PREFERENCE, profile)
+    console.log('🗣️ [VoiceProfiles] Own profile', profile ? `set to ${profile.voice} at ${profile.speed}x` : 'cleared')
+    this.notify(null, 'local')
+    return profile
+  }
+
+  static getParticipantProfile(speakerId: string): VoiceProfile | null {
+    const profile = this.getParticipantProfiles()[speakerId]
+    return this.isValidProfile(profile) ? profile : null
+  }
+
+  /**
+   * Assign a profile to another speaker on this device (e.g. the face-to-face partner)
+   */
+  static setParticipantProfile(speakerId: string, input: VoiceProfileInput | null): VoiceProfile | null {
+    const profile = input ? this.stamp(input) : null
+    this.saveParticipantProfile(speakerId, profile)
+    this.notify(speakerId, 'local')
+    return profile
+  }
+
+  /**
+   * Apply a profile shared by a partner. Returns false when the local copy
+   * is the same or newer
+   */
+  static applyPartnerProfile(speakerId: string, profile: VoiceProfile | null): boolean {
+    if (profile !== null && !this.isValidProfile(profile)) {
+      console.warn('⚠️ [VoiceProfiles] Ignoring malformed partner profile')
+      return false
+    }
+
+    const current = this.getParticipantProfile(speakerId)
+    if (profile && current && Date.parse(profile.updatedAt) <= Date.parse(current.updatedAt)) {
+      return false
+    }
+    if (!profile && !current) return false
+
+    this.saveParticipantProfile(speakerId, profile)
+    console.log(`🔄 [VoiceProfiles] Applied partner profile for ${speakerId}:`, profile ? `${profile.voice} at ${profile.speed}x` : 'cleared')
+    this.notify(speakerId, 'partner')
+    return true
+  }
+
+  /**
+   * Treat a speaker id as this user (their session user id). Returns an
+   * unregister function
+   */
+  static registerSelf(speakerId: string): () => void {
+    this.selfSpeakerIds.add(speakerId)
+    return () => {
+      if (speakerId !== SELF_SPEAKER_ID) this.selfSpeakerIds.delete(speakerId)
+    }
+  }
+
+  static isSelf(speakerId: string | undefined): boolean {
+    return !speakerId || this.selfSpeakerIds.has(speakerId)
+  }
+
+  /**
+   * Profile of whoever sent a message: own messages use the own profile
+   */
+  static getProfile(speakerId?: string): VoiceProfile | null {
+    return this.isSelf(speakerId) ? this.getOwnProfile() : this.getParticipantProfile(speakerId!)
+  }
+
+  /**
+   * Voice and speed for a message, or null when the speaker has no profile.
+   * A language override wins over the profile's default
+   */
+  static resolve(language: string, speakerId?: string): VoiceSettings | null {
+    const profile = this.getProfile(speakerId)
+    if (!profile) return null
+
+    const code = LanguageRegistry.toCode(language)
+    const override = code ? profile.languages?.[code] : undefined
+    return override ?? { voice: profile.voice, speed: profile.speed }
+  }
+
+  static getPreviewText(language: string): string {
+    const code = LanguageRegistry.toCode(language)
+    return (code && PREVIEW_TEXTS[code]) || PREVIEW_TEXTS.en!
+  }
+
+  /**
+   * Listen for profile changes. Returns an unsubscribe function
+   */
+  static subscribe(listener: VoiceProfileChangeListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  static isValidSettings(value: unknown): value is VoiceSettings {
+    if (!value || typeof value !== 'object') return false
+    const { voice, speed } = value as Record<string, unknown>
+    return TTS_VOICES.includes(voice as TTSVoice) &&
+      typeof speed === 'number' && speed >= 0.25 && speed <= 4
+  }
+
+  static isValidProfile(value: unknown): value is VoiceProfile {
+    if (!this.isValidSettings(value)) return false
+    const { name, languages, updatedAt } = value as unknown as Record<string, unknown>
+    if (name !== undefined && typeof name !== 'string') return false
+    if (typeof updatedAt !== 'string' || Number.isNaN(Date.parse(updatedAt))) return false
+    if (languages === undefined) return true
+    if (!languages || typeof languages !== 'object') return false
+    return Object.entries(languages).every(([code, settings]) =>
+      LanguageRegistry.isLanguageCode(code) && this.isValidSettings(settings)
+    )
+  }
+
+  private static stamp(input: VoiceProfileInput): VoiceProfile {
+    const name = input.name?.trim()
+    const profile: VoiceProfile = {
+      voice: input.voice,
+      speed: input.speed,
+      ...(name ? { name } : {}),
+      ...(input.languages && Object.keys(input.languages).length > 0 ? { languages: input.languages } : {}),
+      updatedAt: new Date().toISOString()
+    }
+
+    if (!this.isValidProfile(profile)) {
+      throw new Error('Invalid voice profile provided')
+    }
+    return profile
+  }
+
+  private static getParticipantProfiles(): Record<string, VoiceProfile> {
+    const profiles = UserManager.getPreference<unknown>(this.PARTICIPANTS_PREFERENCE, {})
+    return profiles && typeof profiles === 'object' ? profiles as Record<string, VoiceProfile> : {}
+  }
+
+  private static saveParticipantProfile(speakerId: string, profile: VoiceProfile | null): void {
+    const others = { ...this.getParticipantProfiles() }
+    delete others[speakerId]
+    UserManager.setPreference(this.PARTICIPANTS_PREFERENCE, profile ? { ...others, [speakerId]: profile } : others)
+  }
+
+  private static notify(speakerId: string | null, source: 'local' | 'partner'): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(speakerId, source)
+      } catch (error) {
+        console.error('❌ [VoiceProfiles] Listener failed:', error)
+      }
+    })
+  }
+}
@@ -5,13 +5,21 @@
  */
 
 import { performanceLogger, PERF_OPS } from '@/lib/performance'
+import { QualityDegradationService, type QualityConfig } from '@/lib/quality-degradation'
 import type { 
   AudioWorkerMessage, 
   AudioWorkerResponse, 
   AudioAnalysisResult, 
-  AudioCompressionOptions 
+  AudioCompressionOptions,
+  AudioCompressionResult,
+  EncodedAudio
 } from '@/workers/audioProcessor.worker'
 
+// Whisper works on 16kHz audio; anything above is resampled away server-side
+const WHISPER_SAMPLE_RATE = 16000
+// Rate recordings are decoded at before the worker resamples them
+const DECODE_SAMPLE_RATE = 48000
+
 export class AudioWorkerManager {
   private static instance: AudioWorkerManager | null = null
   private worker: Worker | null = null
@@ -41,8 +49,8 @@ export class AudioWorkerManager {
    * Initialize the Web Worker
    */
   private async initializeWorker(): Promise<void> {
-    if (typeof window === 'undefined') {
-      console.warn('🚨 [Audio Worker Manager] Web Workers not available in SSR')
+    if (typeof window === 'undefined' || typeof Worker === 'undefined') {
+      console.warn('🚨 [Audio Worker Manager] Web Workers not available in this environment')
       return
     }
     
@@ -128,7 +136,8 @@ export class AudioWorkerManager {
   private sendMessage<T>(
     type: AudioWorkerMessage['type'], 
     data: any, 
-    timeout = 30000
+    timeout = 30000,
+    transfer: Transferable[] = []
   ): Promise<T> {
     return new Promise((resolve, reject) => {
       if (!this.worker || !this.isInitialized) {
@@ -149,40 +158,75 @@ export class AudioWorkerManager {
       
       // Send message
       const message: AudioWorkerMessage = { id, type, data }
-      this.worker.postMessage(message)
+      this.worker.postMessage(message, transfer)
       
       console.log(`📤 [Audio Worker Manager] Sent: ${type} (${id})`)
     })
   }
   
   /**
-   * Compress audio using worker
+   * Target sample rate and bit depth for the current network quality.
+   * Never above Whisper's 16kHz; 8-bit only when bandwidth is very limited
+   */
+  static getCompressionTarget(
+    config: Pick<QualityConfig, 'audioSampleRate' | 'audioBitsPerSecond'> = QualityDegradationService.getCurrentConfig()
+  ): AudioCompressionOptions {
+    return {
+      targetSampleRate: Math.min(config.audioSampleRate, WHISPER_SAMPLE_RATE),
+      bitsPerSample: config.audioBitsPerSecond >= 32000 ? 16 : 8,
+      normalize: true
+    }
+  }
+  
+  /**
+   * Compress a recording (any format the browser can decode) using worker.
+   * Decoding happens here since decodeAudioData isn't available in workers;
+   * downmixing, resampling, normalization and WAV encoding run in the worker
    */
   async compressAudio(
     audioBuffer: ArrayBuffer, 
-    options: AudioCompressionOptions = { quality: 'medium' }
-  ): Promise<ArrayBuffer> {
+    options: Partial<AudioCompressionOptions> = {}
+  ): Promise<AudioCompressionResult> {
     performanceLogger.start('audio-worker-compress')
     
     try {
-      console.log(`🗜️ [Audio Worker Manager] Compressing ${audioBuffer.byteLength} bytes (${options.quality} quality)`)
-      
-      const result = await this.sendMessage<ArrayBuffer>('COMPRESS_AUDIO', {
-        buffer: audioBuffer,
-        options
-      })
+      const target = { ...AudioWorkerManager.getCompressionTarget(), ...options }
+      console.log(`🗜️ [Audio Worker Manager] Compressing ${audioBuffer.byteLength} bytes (${target.targetSampleRate}Hz, ${target.bitsPerSample}-bit)`)
+      
+      // decodeAudioData detaches its input, so decode a copy
+      const decodeCtx = new OfflineAudioContext(1, 1, DECODE_SAMPLE_RATE)
+      const decoded = await decodeCtx.decodeAudioData(audioBuffer.slice(0))
+      const channels = Array.from({ length: decoded.numberOfChannels }, (_, i) => decoded.getChannelData(i).slice())
+      
+      const encoded = await this.sendMessage<EncodedAudio>(
+        'COMPRESS_AUDIO',
+        { audio: { channels, sampleRate: decoded.sampleRate }, options: target },
+        30000,
+        channels.map(channel => channel.buffer)
+      )
       
       performanceLogger.end('audio-worker-compress')
       
-      const compressionRatio = (1 - result.byteLength / audioBuffer.byteLength) * 100
-      console.log(`✅ [Audio Worker Manager] Compression complete: ${compressionRatio.toFixed(1)}% reduction`)
+      const originalBytes = audioBuffer.byteLength
+      const compressedBytes = encoded.buffer.byteLength
+      const result: AudioCompressionResult = {
+        ...encoded,
+        mimeType: 'audio/wav',
+        originalBytes,
+        compressedBytes,
+        savedBytes: originalBytes - compressedBytes,
+        savingsPercent: originalBytes > 0 ? (1 - compressedBytes / originalBytes) * 100 : 0
+      }
+      
+      console.log(`✅ [Audio Worker Manager] Compression complete: ${result.savingsPercent.toFixed(1)}% reduction (${result.savedBytes} bytes)`)
       
       performanceLogger.logEvent(PERF_OPS.AUDIO_PROCESSING, {
         operation: 'compress',
-        originalSize: audioBuffer.byteLength,
-        compressedSize: result.byteLength,
-        compressionRatio,
-        quality: options.quality
+        originalSize: originalBytes,
+        compressedSize: compressedBytes,
+        compressionRatio: result.savingsPercent,
+        sampleRate: result.sampleRate,
+        bitsPerSample: result.bitsPerSample
       })
       
       return result
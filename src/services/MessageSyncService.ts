@@ -4,31 +4,64 @@ import type {
   ConnectionStatus,
   QueuedMessage,
   DatabaseReaction,
+  DatabaseMessageTranslation,
+  DatabaseMessageRevision,
   MessageReactions,
+  MessageTranslations,
   EmojiReaction
 } from '@/types/database'
-import type { RealtimeChannel } from '@supabase/supabase-js'
+import type { PostgrestError, RealtimeChannel } from '@supabase/supabase-js'
 import type { PresenceService } from './presence'
 import { RealtimeConnection } from './realtime'
 import type { RealtimeConnectionConfig } from './realtime'
 import { supabase } from '@/lib/supabase'
+import { SyncQueueStore } from '@/lib/offline/SyncQueueStore'
+import { SequenceTracker, type SequenceRange } from './session/SequenceTracker'
 import type { 
   SyncOperation,
   QueuedSyncOperation,
   MessageSyncCallbacks,
   MessageWithReactionsData,
+  MessageHistoryPage,
   ReactionOperation,
   EditOperation,
   DeleteOperation
 } from './types/sync.types'
 
+// Messages with everything shown alongside them
+const MESSAGE_SELECT = `
+  *,
+  message_reactions (
+    id,
+    user_id,
+    emoji,
+    created_at
+  ),
+  message_translations (
+    language,
+    translated_text
+  )
+`
+
+// Realtime events can land slightly out of order; only fetch a gap that stays open
+const GAP_GRACE_MS = 1000
+
+// Edited/deleted timestamps come from the editing device's clock
+const CATCH_UP_CLOCK_MARGIN_MS = 60000
+
+// Messages per history page; older pages load as the user scrolls up
+const HISTORY_PAGE_SIZE = 50
+
 /**
  * MessageSyncService - Handles real-time message synchronization for sessions
  * 
  * Core Features:
  * - Real-time message sync via RealtimeConnection
- * - Offline message queuing with retry logic
+ * - Offline message queuing with retry logic, persisted across reloads (SyncQueueStore)
  * - Message delivery confirmations
+ * - Per-language translations for group sessions (message_translations)
+ * - Gap detection by sequence_number, with catch-up after reconnects
+ * - Paginated message history, latest page first
  * 
  * Note: Connection management moved to RealtimeConnection (Phase 1d refactor)
  * Note: Presence tracking moved to PresenceService (Phase 1c refactor)
@@ -42,6 +75,13 @@ export class MessageSyncService {
   private isProcessingQueue = false
   private sequenceNumber = 0
   private processedMessageIds: Set<string> = new Set() // Track processed messages to prevent duplicates
+  private sequenceTracker = new SequenceTracker()
+  private gapTimeout: NodeJS.Timeout | null = null
+  private disconnectedAt: string | null = null // Edits and deletes since then are fetched on reconnect
+  private connectionListeners: (() => void)[] = []
+  private oldestLoadedSequence: number | null = null // History pagination cursor
+  private hasOlderMessages = false
+  private olderMessagesRequest: Promise<void> | null = null
   
   // Event listeners
   private onMessageReceived?: (message: SessionMessage) => void
@@ -51,10 +91,12 @@ export class MessageSyncService {
   // New event listeners for Phase 2
   private onReactionAdded?: (reaction: DatabaseReaction) => void
   private onReactionRemoved?: (reaction: DatabaseReaction) => void
-  private onMessageEdited?: (messageId: string, newText: string) => void
+  private onMessageEdited?: (messageId: string, newText: string, editedAt?: string | null) => void
   private onMessageDeleted?: (messageId: string) => void
   private onReTranslationNeeded?: (messageId: string, originalText: string) => void
-  private onMessagesLoaded?: (messages: any[]) => void
+  private onMessageRevised?: (revision: DatabaseMessageRevision) => void
+  private onTranslationReceived?: (translation: DatabaseMessageTranslation) => void
+  private onMessagesLoaded?: (page: MessageHistoryPage) => void
 
   // Current session state
   private currentSessionId: string | null = null
@@ -66,73 +108,25 @@ export class MessageSyncService {
   private realtimeConnection?: RealtimeConnection
 
   /**
-   * Load existing messages from database when joining a session
-   * This ensures users see the full conversation history with reactions
+   * Load the latest page of messages when joining a session
+   * Older pages follow through loadOlderMessages as the user scrolls up
    */
   private async loadMessageHistory(sessionId: string): Promise<void> {
     console.log('📚 [MessageSyncService] Loading message history for session:', sessionId)
     
     try {
-      const { data: messages, error } = await supabase
-        .from('messages')
-        .select(`
-          *,
-          message_reactions (
-            id,
-            user_id,
-            emoji,
-            created_at
-          )
-        `)
-        .eq('session_id', sessionId)
-        .eq('is_deleted', false) // Don't load deleted messages
-        .order('sequence_number', { ascending: true })
+      const messages = await this.fetchHistoryPage(sessionId)
       
-      if (error) {
-        console.error('❌ [MessageSyncService] Failed to load message history:', error)
-        return
-      }
-      
-      if (!messages || messages.length === 0) {
+      if (messages.length === 0) {
         console.log('📭 [MessageSyncService] No historical messages found')
         return
       }
       
       console.log(`📚 [MessageSyncService] Found ${messages.length} historical messages`)
       
-      // Process each historical message
-      messages.forEach((message: MessageWithReactionsData) => {
-        // Skip our own messages (we already have them locally)
-        if (message.sender_id !== this.currentUserId) {
-          console.log('📥 [MessageSyncService] Processing historical message:', {
-            messageId: message.id,
-            senderId: message.sender_id,
-            timestamp: message.timestamp,
-            reactionsCount: message.message_reactions?.length || 0
-          })
-          
-          // Convert to SessionMessage format and include reactions
-          const sessionMessage: SessionMessage & { reactions?: MessageReactions } = {
-            id: message.id,
-            session_id: message.session_id,
-            sender_id: message.sender_id,
-            original_text: message.original_text,
-            translated_text: message.translated_text,
-            original_language: message.original_language,
-            timestamp: message.timestamp,
-            is_delivered: message.is_delivered,
-            sequence_number: message.sequence_number,
-            is_edited: message.is_edited,
-            edited_at: message.edited_at,
-            is_deleted: message.is_deleted,
-            deleted_at: message.deleted_at,
-            reactions: this.processReactions(message.message_reactions || [])
-          }
-          
-          // Use the existing handler to process the message
-          this.handleIncomingMessage(sessionMessage)
-        }
-      })
+      // Realtime events pick up from the newest message we have
+      this.sequenceTracker.reset(messages[messages.length - 1].sequence_number)
+      this.deliverHistoryPage(messages)
       
       console.log('✅ [MessageSyncService] Message history loaded successfully')
     } catch (error) {
@@ -140,6 +134,109 @@ export class MessageSyncService {
     }
   }
 
+  /**
+   * Load the page of messages before the oldest one loaded so far
+   * Returns whether even older messages remain
+   */
+  async loadOlderMessages(): Promise<boolean> {
+    const sessionId = this.currentSessionId
+    if (!sessionId || this.oldestLoadedSequence === null || !this.hasOlderMessages) {
+      return false
+    }
+
+    if (!this.olderMessagesRequest) {
+      console.log('📚 [MessageSyncService] Loading messages before sequence:', this.oldestLoadedSequence)
+      this.olderMessagesRequest = this.fetchHistoryPage(sessionId, this.oldestLoadedSequence)
+        .then(messages => {
+          // Ignore a page that lands after the session changed
+          if (sessionId === this.currentSessionId) {
+            this.deliverHistoryPage(messages)
+          }
+        })
+        .catch(error => {
+          // The cursor is unchanged, so scrolling up again retries
+          console.error('❌ [MessageSyncService] Failed to load older messages:', error)
+        })
+        .finally(() => {
+          this.olderMessagesRequest = null
+        })
+    }
+
+    await this.olderMessagesRequest
+    return this.hasOlderMessages
+  }
+
+  /**
+   * Fetch up to a page of messages before `beforeSequence` (or the newest
+   * ones), oldest first
+   */
+  private async fetchHistoryPage(sessionId: string, beforeSequence?: number): Promise<MessageWithReactionsData[]> {
+    let query = supabase
+      .from('messages')
+      .select(MESSAGE_SELECT)
+      .eq('session_id', sessionId)
+      .eq('is_deleted', false) // Don't load deleted messages
+    if (beforeSequence !== undefined) {
+      query = query.lt('sequence_number', beforeSequence)
+    }
+
+    const { data, error } = await query
+      .order('sequence_number', { ascending: false })
+      .limit(HISTORY_PAGE_SIZE)
+
+    if (error) {
+      throw error
+    }
+
+    return ((data ?? []) as MessageWithReactionsData[]).reverse()
+  }
+
+  /**
+   * Hand a history page to the UI, the user's own messages included (a new
+   * device has no local copy), and move the cursor past it
+   */
+  private deliverHistoryPage(messages: MessageWithReactionsData[]): void {
+    const page = messages
+      .filter(message => !this.processedMessageIds.has(message.id))
+      .map(message => this.toSessionMessage(message))
+    page.forEach(message => this.processedMessageIds.add(message.id))
+
+    if (messages.length > 0) {
+      this.oldestLoadedSequence = messages[0].sequence_number
+    }
+    this.hasOlderMessages = messages.length === HISTORY_PAGE_SIZE
+
+    console.log(`📚 [MessageSyncService] Delivering ${page.length} history messages`, {
+      oldestSequence: this.oldestLoadedSequence,
+      hasMore: this.hasOlderMessages
+    })
+
+    this.onMessagesLoaded?.({ messages: page, hasMore: this.hasOlderMessages })
+  }
+
+  /**
+   * Convert a stored message to SessionMessage format, reactions included
+   */
+  private toSessionMessage(message: MessageWithReactionsData): SessionMessage & { reactions?: MessageReactions } {
+    return {
+      id: message.id,
+      session_id: message.session_id,
+      sender_id: message.sender_id,
+      original_text: message.original_text,
+      translated_text: message.translated_text,
+      original_language: message.original_language,
+      timestamp: message.timestamp,
+      is_delivered: message.is_delivered,
+      sequence_number: message.sequence_number,
+      is_edited: message.is_edited,
+      edited_at: message.edited_at,
+      is_deleted: message.is_deleted,
+      deleted_at: message.deleted_at,
+      reactions: this.processReactions(message.message_reactions || []),
+      translations: this.processTranslations(message.message_translations || [])
+    }
+  }
+
   /**
    * Process raw reactions into grouped format
    */
@@ -167,6 +264,17 @@ export class MessageSyncService {
     return grouped
   }
 
+  /**
+   * Process raw per-language translations into a language → text map
+   */
+  private processTranslations(translations: Pick<DatabaseMessageTranslation, 'language' | 'translated_text'>[]): MessageTranslations {
+    const byLanguage: MessageTranslations = {}
+    translations.forEach(({ language, translated_text }) => {
+      byLanguage[language] = translated_text
+    })
+    return byLanguage
+  }
+
   /**
    * Queue a message for sending when connection is available
    */
@@ -189,6 +297,7 @@ export class MessageSyncService {
     }
 
     this.messageQueue.set(messageId, queuedMessage)
+    this.persistMessage(queuedMessage)
 
     // Try to send immediately if connected
     if (currentStatus === 'connected') {
@@ -260,15 +369,24 @@ export class MessageSyncService {
       .from('messages')
       .insert(messageData)
 
-    if (error) {
+    // The id is generated here, so a conflict means an earlier attempt got
+    // through before its response was lost
+    if (error && !this.isDuplicateError(error)) {
       throw error
     }
 
+    // Group sessions: one row per recipient language. The message itself is
+    // out already, so a failure here only costs those readers their translation
+    if (queuedMessage.translations && Object.keys(queuedMessage.translations).length > 0) {
+      await this.sendTranslations(queuedMessage.id, queuedMessage.session_id, queuedMessage.translations)
+    }
+
     // Message sent successfully
     console.log('✅ [MessageSyncService] Message sent successfully:', queuedMessage.id)
     queuedMessage.status = 'sent'
     queuedMessage.sentAt = new Date().toISOString()
     this.messageQueue.set(queuedMessage.id, queuedMessage)
+    this.forgetPersisted(queuedMessage.id)
     
     this.onMessageDelivered?.(queuedMessage.id)
 
@@ -278,6 +396,29 @@ export class MessageSyncService {
     }, 5000) // Keep for 5 seconds for delivery confirmation
   }
 
+  /**
+   * Store a message's per-language translations
+   */
+  private async sendTranslations(messageId: string, sessionId: string, translations: MessageTranslations): Promise<void> {
+    const rows = Object.entries(translations).map(([language, translated_text]) => ({
+      message_id: messageId,
+      session_id: sessionId,
+      language,
+      translated_text
+    }))
+
+    const { error } = await supabase
+      .from('message_translations')
+      .upsert(rows, { onConflict: 'message_id,language' })
+
+    if (error) {
+      console.error('❌ [MessageSyncService] Failed to store translations:', { messageId, error })
+      return
+    }
+
+    console.log(`🌍 [MessageSyncService] Stored ${rows.length} translations for message:`, messageId)
+  }
+
   /**
    * Handle message sending failure
    */
@@ -286,6 +427,7 @@ export class MessageSyncService {
     queuedMessage.status = 'failed'
     queuedMessage.lastError = error?.message || 'Unknown error'
     this.messageQueue.set(queuedMessage.id, queuedMessage)
+    this.persistMessage(queuedMessage)
 
     console.error(`❌ [MessageSyncService] Message failed (attempt ${queuedMessage.retryCount}):`, {
       messageId: queuedMessage.id,
@@ -320,6 +462,68 @@ export class MessageSyncService {
     return Math.min(1000 * Math.pow(2, attempt), 10000) // Cap at 10 seconds
   }
 
+  /**
+   * Postgres unique violation: the row is already there
+   */
+  private isDuplicateError(error: PostgrestError): boolean {
+    return error.code === '23505'
+  }
+
+  private persistMessage(queuedMessage: QueuedSessionMessage): void {
+    SyncQueueStore.save({
+      kind: 'message',
+      id: queuedMessage.id,
+      sessionId: queuedMessage.session_id,
+      sequence: queuedMessage.sequence,
+      message: { ...queuedMessage }
+    }).catch(error => console.error('❌ [MessageSyncService] Failed to persist queued message:', error))
+  }
+
+  private persistOperation(queuedOp: QueuedSyncOperation): void {
+    if (!this.currentSessionId) return
+
+    SyncQueueStore.save({
+      kind: 'operation',
+      id: queuedOp.id,
+      sessionId: this.currentSessionId,
+      sequence: queuedOp.sequence,
+      operation: { ...queuedOp }
+    }).catch(error => console.error('❌ [MessageSyncService] Failed to persist sync operation:', error))
+  }
+
+  private forgetPersisted(id: string): void {
+    SyncQueueStore.remove(id)
+      .catch(error => console.error('❌ [MessageSyncService] Failed to remove persisted change:', error))
+  }
+
+  /**
+   * Put back what was still queued for this session when the app last closed.
+   * Sequence numbers continue after the restored ones to keep replay order
+   */
+  private async restorePersistedQueues(sessionId: string): Promise<void> {
+    try {
+      const changes = await SyncQueueStore.list(sessionId)
+      if (changes.length === 0) return
+
+      changes.forEach(change => {
+        if (change.kind === 'message') {
+          if (!this.messageQueue.has(change.id)) {
+            // An interrupted send is retried like any other
+            const status = change.message.status === 'sending' ? 'pending' : change.message.status
+            this.messageQueue.set(change.id, { ...change.message, status })
+          }
+        } else if (!this.syncQueue.has(change.id)) {
+          this.syncQueue.set(change.id, change.operation)
+        }
+        this.sequenceNumber = Math.max(this.sequenceNumber, change.sequence + 1)
+      })
+
+      console.log(`📦 [MessageSyncService] Restored ${changes.length} pending changes for session:`, sessionId)
+    } catch (error) {
+      console.error('❌ [MessageSyncService] Failed to restore pending changes:', error)
+    }
+  }
+
   /**
    * Initialize session with real-time message subscriptions
    * Note: PresenceService should be initialized separately
@@ -352,6 +556,12 @@ export class MessageSyncService {
       // Set up reaction subscription for real-time reaction updates
       await this.setupReactionSubscription(sessionId)
 
+      // Resubscribe and catch up on what was missed whenever the connection comes back
+      this.watchConnection(realtimeConnection)
+
+      // Pick up changes queued before a reload
+      await this.restorePersistedQueues(sessionId)
+
       // Process any queued messages
       await this.processMessageQueue()
       
@@ -407,6 +617,7 @@ export class MessageSyncService {
           originalText: payload.new.original_text,
           translatedText: payload.new.translated_text
         })
+        this.trackSequence(payload.new as SessionMessage)
         this.handleIncomingMessage(payload.new as SessionMessage)
       })
       .on('postgres_changes', {
@@ -432,7 +643,42 @@ export class MessageSyncService {
           originalText: payload.new.original_text,
           translatedText: payload.new.translated_text
         })
-        this.handleIncomingMessage(payload.new as SessionMessage)
+        this.handleMessageUpdate(payload.new as SessionMessage)
+      })
+      // Same channel as the messages, so a translation never overtakes its message
+      .on('postgres_changes', {
+        event: 'INSERT',
+        schema: 'public',
+        table: 'message_translations',
+        filter: `session_id=eq.${sessionId}`
+      }, (payload) => {
+        const translation = payload.new as DatabaseMessageTranslation
+        if (translation.session_id !== this.currentSessionId) {
+          return
+        }
+
+        console.log('🌍 [MessageSyncService] Translation received:', {
+          messageId: translation.message_id,
+          language: translation.language
+        })
+        this.onTranslationReceived?.(translation)
+      })
+      .on('postgres_changes', {
+        event: 'INSERT',
+        schema: 'public',
+        table: 'message_revisions',
+        filter: `session_id=eq.${sessionId}`
+      }, (payload) => {
+        const revision = payload.new as DatabaseMessageRevision
+        if (revision.session_id !== this.currentSessionId) {
+          return
+        }
+
+        console.log('📝 [MessageSyncService] Message revised:', {
+          messageId: revision.message_id,
+          editedBy: revision.edited_by
+        })
+        this.onMessageRevised?.(revision)
       })
       .subscribe(async (status) => {
         console.log('📡 [MessageSyncService] Message subscription status:', status)
@@ -502,6 +748,145 @@ export class MessageSyncService {
       })
   }
 
+  /**
+   * Listen for the connection dropping and coming back
+   */
+  private watchConnection(realtimeConnection: RealtimeConnection): void {
+    this.connectionListeners.push(
+      realtimeConnection.subscribeToConnectionState(state => {
+        if (state !== 'connected' && !this.disconnectedAt) {
+          this.disconnectedAt = new Date().toISOString()
+        }
+      }),
+      realtimeConnection.onReconnect(() => {
+        this.handleReconnect().catch(console.error)
+      })
+    )
+  }
+
+  /**
+   * RealtimeConnection drops every channel when it reconnects. Subscribe again
+   * first, then fetch whatever happened in between
+   */
+  private async handleReconnect(): Promise<void> {
+    const sessionId = this.currentSessionId
+    if (!sessionId) return
+
+    console.log('🔄 [MessageSyncService] Reconnected, resubscribing and catching up:', {
+      sessionId,
+      lastContiguousSequence: this.sequenceTracker.getContiguous(),
+      disconnectedAt: this.disconnectedAt
+    })
+
+    await this.setupMessageSubscription(sessionId)
+    await this.setupReactionSubscription(sessionId)
+
+    const changedSince = this.disconnectedAt
+    this.disconnectedAt = null
+    await this.catchUp({ from: this.sequenceTracker.getContiguous() + 1 }, changedSince)
+
+    await this.processMessageQueue()
+    await this.processSyncQueue()
+  }
+
+  /**
+   * Note a realtime message's sequence number, fetching the gap it reveals
+   */
+  private trackSequence(message: SessionMessage): void {
+    if (!this.sequenceTracker.record(message.sequence_number) || this.gapTimeout) {
+      return
+    }
+
+    console.log('🕳️ [MessageSyncService] Sequence gap detected:', this.sequenceTracker.getMissingRange())
+    this.gapTimeout = setTimeout(() => {
+      this.gapTimeout = null
+      const range = this.sequenceTracker.getMissingRange()
+      if (range) {
+        this.catchUp(range).catch(console.error)
+      }
+    }, GAP_GRACE_MS)
+  }
+
+  /**
+   * Fetch missed messages in sequence order, then edits and deletes of
+   * messages we already have
+   */
+  private async catchUp(range: SequenceRange, changedSince?: string | null): Promise<void> {
+    const sessionId = this.currentSessionId
+    if (!sessionId) return
+
+    let query = supabase
+      .from('messages')
+      .select(MESSAGE_SELECT)
+      .eq('session_id', sessionId)
+      .gte('sequence_number', range.from)
+    if (range.to !== undefined) {
+      query = query.lte('sequence_number', range.to)
+    }
+
+    const { data: missed, error } = await query.order('sequence_number', { ascending: true })
+    if (error) {
+      // The gap stays open; the next message or reconnect tries again
+      console.error('❌ [MessageSyncService] Failed to fetch missed messages:', { range, error })
+      return
+    }
+
+    console.log(`📥 [MessageSyncService] Caught up ${missed?.length ?? 0} messages from sequence ${range.from}`)
+    for (const message of (missed ?? []) as MessageWithReactionsData[]) {
+      this.sequenceTracker.record(message.sequence_number)
+      if (message.is_deleted) {
+        // Deleted before we ever saw it
+        this.processedMessageIds.add(message.id)
+      } else if (message.sender_id !== this.currentUserId) {
+        this.handleIncomingMessage(this.toSessionMessage(message))
+      }
+    }
+
+    if (!changedSince) return
+
+    const since = new Date(Date.parse(changedSince) - CATCH_UP_CLOCK_MARGIN_MS).toISOString()
+    const { data: changed, error: changedError } = await supabase
+      .from('messages')
+      .select(MESSAGE_SELECT)
+      .eq('session_id', sessionId)
+      .or(`edited_at.gt.${since},deleted_at.gt.${since}`)
+      .order('sequence_number', { ascending: true })
+
+    if (changedError) {
+      console.error('❌ [MessageSyncService] Failed to fetch missed edits and deletes:', changedError)
+      return
+    }
+
+    for (const message of (changed ?? []) as MessageWithReactionsData[]) {
+      this.handleMessageUpdate(this.toSessionMessage(message))
+    }
+  }
+
+  /**
+   * Apply a changed message: an edit or delete of one we have, otherwise a
+   * message we missed the insert of
+   */
+  private handleMessageUpdate(message: SessionMessage): void {
+    if (message.sender_id === this.currentUserId) return
+
+    if (!this.processedMessageIds.has(message.id)) {
+      // Older than the loaded history: it arrives with its page
+      const notYetPaged = this.oldestLoadedSequence !== null && message.sequence_number < this.oldestLoadedSequence
+      if (!message.is_deleted && !notYetPaged) {
+        this.handleIncomingMessage(message)
+      }
+      return
+    }
+
+    if (message.is_deleted) {
+      console.log('🗑️ [MessageSyncService] Partner deleted message:', message.id)
+      this.onMessageDeleted?.(message.id)
+    } else if (message.is_edited) {
+      console.log('✏️ [MessageSyncService] Partner edited message:', message.id)
+      this.onMessageEdited?.(message.id, message.original_text, message.edited_at)
+    }
+  }
+
   /**
    * Process queued sync operations (reactions, edits, deletes)
    */
@@ -518,6 +903,7 @@ export class MessageSyncService {
       try {
         await this.processSyncOperation(queuedOp)
         this.syncQueue.delete(queuedOp.id)
+        this.forgetPersisted(queuedOp.id)
       } catch (error) {
         console.error('❌ [MessageSyncService] Failed to process sync operation:', error)
         this.handleSyncOperationFailure(queuedOp, error)
@@ -526,37 +912,26 @@ export class MessageSyncService {
   }
 
   /**
-   * Process a single sync operation
+   * Process a single sync operation. Throws so a failed replay stays queued
    */
   private async processSyncOperation(queuedOp: QueuedSyncOperation): Promise<void> {
     const { operation } = queuedOp
     
     switch (operation.type) {
       case 'add_reaction':
-        await this.addReaction(
-          operation.messageId,
-          operation.emoji,
-          operation.userId
-        )
+        await this.applyAddReaction(operation)
         break
         
       case 'remove_reaction':
-        await this.removeReaction(
-          operation.messageId,
-          operation.emoji,
-          operation.userId
-        )
+        await this.applyRemoveReaction(operation)
         break
         
       case 'edit_message':
-        await this.editMessage(
-          operation.messageId,
-          operation.originalText
-        )
+        await this.applyEditMessage(operation)
         break
         
       case 'delete_message':
-        await this.deleteMessage(operation.messageId)
+        await this.applyDeleteMessage(operation)
         break
         
       default:
@@ -573,6 +948,8 @@ export class MessageSyncService {
     queuedOp.error = error?.message || 'Unknown error'
     
     if (queuedOp.retryCount < 3) {
+      this.persistOperation(queuedOp)
+
       // Schedule retry
       const delay = this.getRetryDelay(queuedOp.retryCount - 1)
       setTimeout(() => {
@@ -583,6 +960,7 @@ export class MessageSyncService {
     } else {
       // Max retries exceeded, remove from queue
       this.syncQueue.delete(queuedOp.id)
+      this.forgetPersisted(queuedOp.id)
       console.error(`💀 [MessageSyncService] Sync operation failed permanently:`, queuedOp)
     }
   }
@@ -632,6 +1010,8 @@ export class MessageSyncService {
     this.onMessageEdited = callbacks.onMessageEdited
     this.onMessageDeleted = callbacks.onMessageDeleted
     this.onReTranslationNeeded = callbacks.onReTranslationNeeded
+    this.onMessageRevised = callbacks.onMessageRevised
+    this.onTranslationReceived = callbacks.onTranslationReceived
     this.onMessagesLoaded = callbacks.onMessagesLoaded
     
     console.log('✅ [MessageSyncService] Event handlers set successfully')
@@ -642,6 +1022,7 @@ export class MessageSyncService {
    */
   async addReaction(messageId: string, emoji: string, userId: string): Promise<void> {
     const operation: ReactionOperation = {
+      id: crypto.randomUUID(),
       type: 'add_reaction',
       messageId,
       userId,
@@ -651,22 +1032,7 @@ export class MessageSyncService {
     
     if (this.getConnectionStatus() === 'connected') {
       try {
-        const { error } = await supabase
-          .from('message_reactions')
-          .insert({
-            message_id: messageId,
-            user_id: userId,
-            emoji: emoji
-          })
-        
-        if (error) throw error
-        
-        console.log('✅ [MessageSyncService] Reaction added successfully:', {
-          messageId,
-          emoji,
-          userId
-        })
-        
+        await this.applyAddReaction(operation)
       } catch (error) {
         console.error('❌ [MessageSyncService] Failed to add reaction:', error)
         this.queueSyncOperation(operation)
@@ -681,6 +1047,7 @@ export class MessageSyncService {
    */
   async removeReaction(messageId: string, emoji: string, userId: string): Promise<void> {
     const operation: ReactionOperation = {
+      id: crypto.randomUUID(),
       type: 'remove_reaction',
       messageId,
       userId,
@@ -690,21 +1057,7 @@ export class MessageSyncService {
     
     if (this.getConnectionStatus() === 'connected') {
       try {
-        const { error } = await supabase
-          .from('message_reactions')
-          .delete()
-          .eq('message_id', messageId)
-          .eq('user_id', userId)
-          .eq('emoji', emoji)
-        
-        if (error) throw error
-        
-        console.log('✅ [MessageSyncService] Reaction removed successfully:', {
-          messageId,
-          emoji,
-          userId
-        })
-        
+        await this.applyRemoveReaction(operation)
       } catch (error) {
         console.error('❌ [MessageSyncService] Failed to remove reaction:', error)
         this.queueSyncOperation(operation)
@@ -719,6 +1072,7 @@ export class MessageSyncService {
    */
   async editMessage(messageId: string, newOriginalText: string): Promise<void> {
     const operation: EditOperation = {
+      id: crypto.randomUUID(),
       type: 'edit_message',
       messageId,
       originalText: newOriginalText,
@@ -728,37 +1082,7 @@ export class MessageSyncService {
     
     if (this.getConnectionStatus() === 'connected') {
       try {
-        // Get current message for history
-        const { data: currentMessage, error: fetchError } = await supabase
-          .from('messages')
-          .select('original_text')
-          .eq('id', messageId)
-          .single()
-        
-        if (fetchError) throw fetchError
-        
-        operation.previousText = currentMessage.original_text
-        
-        // Update message
-        const { error: updateError } = await supabase
-          .from('messages')
-          .update({
-            original_text: newOriginalText,
-            is_edited: true,
-            edited_at: new Date().toISOString(),
-            // Clear translation to trigger re-translation
-            translated_text: null
-          })
-          .eq('id', messageId)
-        
-        if (updateError) throw updateError
-        
-        console.log('✅ [MessageSyncService] Message edited successfully:', messageId)
-        
-        // Notify listeners
-        this.onMessageEdited?.(messageId, newOriginalText)
-        this.onReTranslationNeeded?.(messageId, newOriginalText)
-        
+        await this.applyEditMessage(operation)
       } catch (error) {
         console.error('❌ [MessageSyncService] Failed to edit message:', error)
         this.queueSyncOperation(operation)
@@ -768,11 +1092,56 @@ export class MessageSyncService {
     }
   }
 
+  /**
+   * Add per-language translations to a message already queued or sent, e.g.
+   * from a fan-out that finished after it. A message still waiting to be
+   * sent takes them along
+   */
+  async storeTranslations(messageId: string, translations: MessageTranslations): Promise<void> {
+    const sessionId = this.currentSessionId
+    if (!sessionId) throw new Error('Cannot store translations outside a session')
+    if (Object.keys(translations).length === 0) return
+
+    const queuedMessage = this.messageQueue.get(messageId)
+    if (queuedMessage && queuedMessage.status !== 'sent') {
+      queuedMessage.translations = { ...queuedMessage.translations, ...translations }
+      if (queuedMessage.status !== 'sending') {
+        this.persistMessage(queuedMessage)
+        return
+      }
+      // Being sent: its insert picks them up unless it's already past that
+    }
+
+    await this.sendTranslations(messageId, sessionId, translations)
+  }
+
+  /**
+   * Store the translations of an edited message's new text (see
+   * onReTranslationNeeded). Other participants pick up theirs as
+   * message_translations arrive
+   */
+  async storeReTranslation(messageId: string, translatedText: string | null, translations: MessageTranslations): Promise<void> {
+    const sessionId = this.currentSessionId
+    if (!sessionId) throw new Error('Cannot store translations outside a session')
+
+    const { error } = await supabase
+      .from('messages')
+      .update({ translated_text: translatedText })
+      .eq('id', messageId)
+
+    if (error) throw error
+
+    if (Object.keys(translations).length > 0) {
+      await this.sendTranslations(messageId, sessionId, translations)
+    }
+  }
+
   /**
    * Soft delete a message
    */
   async deleteMessage(messageId: string): Promise<void> {
     const operation: DeleteOperation = {
+      id: crypto.randomUUID(),
       type: 'delete_message',
       messageId,
       timestamp: new Date().toISOString()
@@ -780,30 +1149,7 @@ export class MessageSyncService {
     
     if (this.getConnectionStatus() === 'connected') {
       try {
-        const { error } = await supabase
-          .from('messages')
-          .update({
-            is_deleted: true,
-            deleted_at: new Date().toISOString(),
-            // Clear sensitive content
-            original_text: '',
-            translated_text: ''
-          })
-          .eq('id', messageId)
-        
-        if (error) throw error
-        
-        // Also delete all reactions
-        await supabase
-          .from('message_reactions')
-          .delete()
-          .eq('message_id', messageId)
-        
-        console.log('✅ [MessageSyncService] Message deleted successfully:', messageId)
-        
-        // Notify listeners
-        this.onMessageDeleted?.(messageId)
-        
+        await this.applyDeleteMessage(operation)
       } catch (error) {
         console.error('❌ [MessageSyncService] Failed to delete message:', error)
         this.queueSyncOperation(operation)
@@ -813,11 +1159,167 @@ export class MessageSyncService {
     }
   }
 
+  /**
+   * Earlier versions of a message, oldest first. The current version is the
+   * message itself
+   */
+  async getMessageRevisions(messageId: string): Promise<DatabaseMessageRevision[]> {
+    const { data, error } = await supabase
+      .from('message_revisions')
+      .select('*')
+      .eq('message_id', messageId)
+      .order('edited_at', { ascending: true })
+
+    if (error) {
+      console.error('❌ [MessageSyncService] Failed to load message revisions:', error)
+      throw error
+    }
+
+    return (data ?? []) as DatabaseMessageRevision[]
+  }
+
+  /**
+   * Store a reaction under its operation id. A replay finds it already there
+   */
+  private async applyAddReaction(operation: ReactionOperation): Promise<void> {
+    const { messageId, emoji, userId } = operation
+
+    const { error } = await supabase
+      .from('message_reactions')
+      .insert({
+        id: operation.id,
+        message_id: messageId,
+        user_id: userId,
+        emoji: emoji
+      })
+
+    if (error && !this.isDuplicateError(error)) throw error
+
+    console.log('✅ [MessageSyncService] Reaction added successfully:', {
+      messageId,
+      emoji,
+      userId
+    })
+  }
+
+  private async applyRemoveReaction(operation: ReactionOperation): Promise<void> {
+    const { messageId, emoji, userId } = operation
+
+    const { error } = await supabase
+      .from('message_reactions')
+      .delete()
+      .eq('message_id', messageId)
+      .eq('user_id', userId)
+      .eq('emoji', emoji)
+    
+    if (error) throw error
+    
+    console.log('✅ [MessageSyncService] Reaction removed successfully:', {
+      messageId,
+      emoji,
+      userId
+    })
+  }
+
+  private async applyEditMessage(operation: EditOperation): Promise<void> {
+    const { messageId, originalText } = operation
+    const editorId = this.currentUserId
+    if (!editorId) throw new Error('Cannot edit a message outside a session')
+
+    // Get current message for history
+    const { data: currentMessage, error: fetchError } = await supabase
+      .from('messages')
+      .select('session_id, original_text, translated_text, message_translations (language, translated_text)')
+      .eq('id', messageId)
+      .single()
+    
+    if (fetchError) throw fetchError
+    
+    operation.previousText = currentMessage.original_text
+    
+    // Keep the version being replaced. Stored under the operation's id, so a
+    // replay after a partial failure doesn't record it twice
+    const { error: revisionError } = await supabase
+      .from('message_revisions')
+      .insert({
+        id: operation.id,
+        message_id: messageId,
+        session_id: currentMessage.session_id,
+        original_text: currentMessage.original_text,
+        translated_text: currentMessage.translated_text,
+        translations: this.processTranslations(currentMessage.message_translations || []),
+        edited_by: editorId,
+        edited_at: operation.timestamp
+      })
+    
+    if (revisionError && !this.isDuplicateError(revisionError)) throw revisionError
+    
+    // Update message
+    const { error: updateError } = await supabase
+      .from('messages')
+      .update({
+        original_text: originalText,
+        is_edited: true,
+        edited_at: operation.timestamp,
+        // Clear translation to trigger re-translation
+        translated_text: null
+      })
+      .eq('id', messageId)
+    
+    if (updateError) throw updateError
+    
+    // Per-language translations are of the old text too
+    await supabase
+      .from('message_translations')
+      .delete()
+      .eq('message_id', messageId)
+    
+    console.log('✅ [MessageSyncService] Message edited successfully:', messageId)
+    
+    // Notify listeners
+    this.onMessageEdited?.(messageId, originalText, operation.timestamp)
+    this.onReTranslationNeeded?.(messageId, originalText)
+  }
+
+  private async applyDeleteMessage(operation: DeleteOperation): Promise<void> {
+    const { messageId } = operation
+
+    const { error } = await supabase
+      .from('messages')
+      .update({
+        is_deleted: true,
+        deleted_at: new Date().toISOString(),
+        // Clear sensitive content
+        original_text: '',
+        translated_text: ''
+      })
+      .eq('id', messageId)
+    
+    if (error) throw error
+    
+    // Also delete all reactions
+    await supabase
+      .from('message_reactions')
+      .delete()
+      .eq('message_id', messageId)
+    
+    // ...and its per-language translations
+    await supabase
+      .from('message_translations')
+      .delete()
+      .eq('message_id', messageId)
+    
+    console.log('✅ [MessageSyncService] Message deleted successfully:', messageId)
+    
+    // Notify listeners
+    this.onMessageDeleted?.(messageId)
+  }
+
   /**
    * Queue a sync operation for later processing
    */
   private queueSyncOperation(operation: SyncOperation): void {
-    const operationId = crypto.randomUUID()
+    const operationId = 'id' in operation ? operation.id : operation.messageId
     const queuedOperation: QueuedSyncOperation = {
       id: operationId,
       operation,
@@ -827,6 +1329,7 @@ export class MessageSyncService {
     }
     
     this.syncQueue.set(operationId, queuedOperation)
+    this.persistOperation(queuedOperation)
     console.log('📦 [MessageSyncService] Sync operation queued:', {
       type: operation.type,
       operationId
@@ -859,6 +1362,14 @@ export class MessageSyncService {
     this.retryTimeouts.forEach(timeout => clearTimeout(timeout))
     this.retryTimeouts.clear()
 
+    // Stop gap detection and reconnect handling
+    if (this.gapTimeout) {
+      clearTimeout(this.gapTimeout)
+      this.gapTimeout = null
+    }
+    this.connectionListeners.forEach(unsubscribe => unsubscribe())
+    this.connectionListeners = []
+
     // Remove message channel via RealtimeConnection
     if (this.messageChannel && this.realtimeConnection) {
       console.log('🔌 [MessageSyncService] Removing message channel...')
@@ -900,13 +1411,18 @@ export class MessageSyncService {
     this.presenceService = undefined
     this.realtimeConnection = undefined
     
-    // Clear message queue
+    // Clear message queue (persisted changes stay for the next initializeSession)
     this.messageQueue.clear()
     this.syncQueue.clear()
     this.sequenceNumber = 0
     
     // Clear processed messages tracking
     this.processedMessageIds.clear()
+    this.sequenceTracker.reset(0)
+    this.disconnectedAt = null
+    this.oldestLoadedSequence = null
+    this.hasOlderMessages = false
+    this.olderMessagesRequest = null
     
     // Clear event handlers
     this.onMessageReceived = undefined
@@ -917,6 +1433,8 @@ export class MessageSyncService {
     this.onMessageEdited = undefined
     this.onMessageDeleted = undefined
     this.onReTranslationNeeded = undefined
+    this.onMessageRevised = undefined
+    this.onTranslationReceived = undefined
     this.onMessagesLoaded = undefined
     
     console.log('✅ [MessageSyncService] Complete cleanup finished')
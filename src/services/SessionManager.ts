@@ -1,6 +1,12 @@
 import { supabase } from '@/lib/supabase'
 import { ErrorManager } from '@/lib/errors/ErrorManager'
 import { ErrorCode } from '@/lib/errors/ErrorCodes'
+import { LanguageRegistry, type LanguageCode } from '@/lib/languages/LanguageRegistry'
+import type { SessionParticipant } from '@/services/session/types'
+import type { SessionParticipantRow } from '@/types/database'
+
+// Group sessions: family calls and small meetings
+export const MAX_SESSION_PARTICIPANTS = 6
 
 /**
  * SessionManager - Handles session creation, joining, and validation
@@ -162,11 +168,11 @@ export class SessionManager {
         )
       }
 
-      // Check if session is full (max 2 participants)
-      if (participants && participants.length >= 2) {
+      // Check if session is full
+      if (participants && participants.length >= MAX_SESSION_PARTICIPANTS) {
         throw ErrorManager.createError(
           ErrorCode.SESSION_FULL,
-          'This session already has 2 participants'
+          `This session already has ${MAX_SESSION_PARTICIPANTS} participants`
         )
       }
 
@@ -182,11 +188,12 @@ export class SessionManager {
   }
 
   /**
-   * Add a participant to a session (with proper conflict resolution)
+   * Add a participant to a session (with proper conflict resolution).
+   * The language is the one they read; messages are translated into it
    */
-  async addParticipant(sessionId: string, userId: string): Promise<void> {
+  async addParticipant(sessionId: string, userId: string, language?: LanguageCode): Promise<void> {
     try {
-      console.log('👤 [SessionManager] Adding participant:', { sessionId, userId })
+      console.log('👤 [SessionManager] Adding participant:', { sessionId, userId, language })
       
       // Use upsert to handle conflicts properly
       const { error } = await supabase
@@ -196,7 +203,8 @@ export class SessionManager {
           user_id: userId,
           is_online: true,
           last_seen: new Date().toISOString(),
-          joined_at: new Date().toISOString()
+          joined_at: new Date().toISOString(),
+          ...(language ? { language } : {})
         }, {
           onConflict: 'session_id,user_id',
           ignoreDuplicates: false
@@ -218,6 +226,48 @@ export class SessionManager {
     }
   }
 
+  /**
+   * Change the language a participant declared
+   */
+  async setParticipantLanguage(sessionId: string, userId: string, language: LanguageCode): Promise<void> {
+    const { error } = await supabase
+      .from('session_participants')
+      .update({ language })
+      .eq('session_id', sessionId)
+      .eq('user_id', userId)
+
+    if (error) {
+      console.error('❌ [SessionManager] Failed to update participant language:', error)
+      throw ErrorManager.createError(
+        ErrorCode.DATABASE_ERROR,
+        `Failed to update participant language: ${error.message}`
+      )
+    }
+
+    console.log(`🌐 [SessionManager] Participant ${userId} now reads ${language}`)
+  }
+
+  /**
+   * Get everyone who has joined a session, in join order
+   */
+  async getParticipants(sessionId: string): Promise<SessionParticipant[]> {
+    const { data: participants, error } = await supabase
+      .from('session_participants')
+      .select('id, session_id, user_id, joined_at, is_online, last_seen, language')
+      .eq('session_id', sessionId)
+      .order('joined_at', { ascending: true })
+
+    if (error) {
+      console.error('❌ [SessionManager] Failed to load participants:', error)
+      throw ErrorManager.createError(
+        ErrorCode.DATABASE_ERROR,
+        'Failed to load session participants'
+      )
+    }
+
+    return (participants ?? []).map(toSessionParticipant)
+  }
+
   /**
    * Validate that a session exists and is active
    */
@@ -297,5 +347,20 @@ export class SessionManager {
   }
 }
 
+/**
+ * Map a session_participants row to a SessionParticipant
+ */
+export function toSessionParticipant(row: SessionParticipantRow): SessionParticipant {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    sessionId: row.session_id,
+    joinedAt: row.joined_at,
+    isOnline: row.is_online,
+    lastSeen: row.last_seen,
+    ...(LanguageRegistry.isLanguageCode(row.language) ? { language: row.language } : {})
+  }
+}
+
 // Export singleton instance
 export const sessionManager = SessionManager.getInstance()
\ No newline at end of file
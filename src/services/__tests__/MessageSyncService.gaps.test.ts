@@ -0,0 +1,133 @@
+import { describe, it, expect, vi, beforeEach, afterEach, type Mock } from 'vitest'
+import { MessageSyncService } from '../MessageSyncService'
+import { supabase } from '@/lib/supabase'
+import type { RealtimeConnection } from '../realtime'
+import { mockQueryBuilder } from '@/test/supabaseMock'
+import type { MessageWithReactionsData } from '../types/sync.types'
+
+// Mock supabase
+vi.mock('@/lib/supabase', () => ({
+  supabase: {
+    from: vi.fn(),
+    channel: vi.fn()
+  }
+}))
+
+// Mock console to reduce noise
+vi.spyOn(console, 'log').mockImplementation(() => {})
+
+const row = (sequence: number, overrides: Partial<MessageWithReactionsData> = {}): MessageWithReactionsData => ({
+  id: `msg-${sequence}`,
+  session_id: 'session-1',
+  sender_id: 'partner',
+  original_text: `Message ${sequence}`,
+  translated_text: `Mensaje ${sequence}`,
+  original_language: 'en',
+  timestamp: '2025-01-01T00:00:00.000Z',
+  is_delivered: true,
+  sequence_number: sequence,
+  is_edited: false,
+  edited_at: null,
+  is_deleted: false,
+  deleted_at: null,
+  ...overrides
+})
+
+describe('MessageSyncService - Gap detection', () => {
+  let service: MessageSyncService
+  let channel: { on: Mock; subscribe: Mock }
+  let connection: Record<string, Mock>
+  let queries: Record<string, unknown[]>[]
+  let respond: (filters: Record<string, unknown[]>) => MessageWithReactionsData[]
+  const onMessageReceived = vi.fn()
+  const onMessageEdited = vi.fn()
+  const onMessageDeleted = vi.fn()
+
+  // Records each message query's filters and answers through `respond`
+  const query = () => {
+    const filters: Record<string, unknown[]> = {}
+    const builder: Record<string, unknown> = {}
+    for (const method of ['select', 'eq', 'gte', 'lte', 'lt', 'or', 'order', 'limit']) {
+      builder[method] = vi.fn((...args: unknown[]) => {
+        filters[method] = [...(filters[method] ?? []), ...args]
+        return builder
+      })
+    }
+    builder.then = (resolve: (result: unknown) => void) => {
+      queries.push(filters)
+      resolve({ data: respond(filters), error: null })
+    }
+    return builder
+  }
+
+  const insertHandler = () => channel.on.mock.calls.find(
+    call => call[1].event === 'INSERT' && call[1].table === 'messages'
+  )![2]
+
+  beforeEach(async () => {
+    vi.useFakeTimers()
+    vi.clearAllMocks()
+    queries = []
+    respond = () => [row(2, { sender_id: 'user-1' }), row(1)] // Newest first
+    vi.mocked(supabase.from).mockImplementation(() => mockQueryBuilder(query()))
+
+    channel = {
+      on: vi.fn().mockReturnThis(),
+      subscribe: vi.fn().mockReturnThis()
+    }
+    connection = {
+      createChannel: vi.fn().mockResolvedValue(channel),
+      removeChannel: vi.fn().mockResolvedValue(undefined),
+      getConnectionStatus: vi.fn().mockReturnValue('connected'),
+      subscribeToConnectionState: vi.fn().mockReturnValue(() => {}),
+      onReconnect: vi.fn().mockReturnValue(() => {})
+    }
+
+    service = new MessageSyncService()
+    service.setEventHandlers({ onMessageReceived, onMessageEdited, onMessageDeleted })
+    await service.initializeSession('session-1', 'user-1', connection as unknown as RealtimeConnection)
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('should fetch exactly the missing range and deliver it in order', async () => {
+    respond = () => [row(3), row(4, { is_deleted: true })]
+    insertHandler()({ new: row(5) })
+
+    expect(onMessageReceived).toHaveBeenLastCalledWith(expect.objectContaining({ id: 'msg-5' }))
+    await vi.advanceTimersByTimeAsync(1000)
+
+    expect(queries[queries.length - 1]).toMatchObject({ gte: ['sequence_number', 3], lte: ['sequence_number', 4] })
+    expect(onMessageReceived.mock.calls.map(([message]) => message.id)).toEqual(['msg-5', 'msg-3'])
+    expect(service['sequenceTracker'].getContiguous()).toBe(5)
+  })
+
+  it('should not fetch when the missing message arrives within the grace period', async () => {
+    insertHandler()({ new: row(4) })
+    insertHandler()({ new: row(3) })
+    await vi.advanceTimersByTimeAsync(1000)
+
+    expect(queries).toHaveLength(1) // The history load
+  })
+
+  it('should resubscribe and catch up on messages, edits and deletes after a reconnect', async () => {
+    const [[onStateChange]] = connection.subscribeToConnectionState.mock.calls
+    const [[onReconnect]] = connection.onReconnect.mock.calls
+    onStateChange('disconnected')
+
+    respond = filters => filters.or
+      ? [row(1, { is_edited: true, edited_at: '2025-01-01T00:05:00.000Z', original_text: 'Message one, edited' }), row(6, { is_deleted: true })]
+      : [row(3), row(6)]
+    onReconnect()
+    await vi.advanceTimersByTimeAsync(0)
+
+    expect(connection.createChannel).toHaveBeenCalledTimes(4)
+    expect(queries[1]).toMatchObject({ gte: ['sequence_number', 3] })
+    expect(queries[2].or?.[0]).toMatch(/^edited_at\.gt\..+,deleted_at\.gt\./)
+    expect(onMessageReceived.mock.calls.map(([message]) => message.id)).toEqual(['msg-3', 'msg-6'])
+    expect(onMessageEdited).toHaveBeenCalledWith('msg-1', 'Message one, edited', '2025-01-01T00:05:00.000Z')
+    expect(onMessageDeleted).toHaveBeenCalledWith('msg-6')
+  })
+})
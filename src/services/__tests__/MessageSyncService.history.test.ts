@@ -0,0 +1,125 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { MessageSyncService } from '../MessageSyncService'
+import { supabase } from '@/lib/supabase'
+import type { RealtimeConnection } from '../realtime'
+import { mockQueryBuilder } from '@/test/supabaseMock'
+import type { MessageWithReactionsData } from '../types/sync.types'
+
+// Mock supabase
+vi.mock('@/lib/supabase', () => ({
+  supabase: {
+    from: vi.fn(),
+    channel: vi.fn()
+  }
+}))
+
+// Mock console to reduce noise
+vi.spyOn(console, 'log').mockImplementation(() => {})
+
+const PAGE_SIZE = 50
+
+const row = (sequence: number): MessageWithReactionsData => ({
+  id: `msg-${sequence}`,
+  session_id: 'session-1',
+  sender_id: sequence % 2 === 0 ? 'user-1' : 'partner',
+  original_text: `Message ${sequence}`,
+  translated_text: `Mensaje ${sequence}`,
+  original_language: 'en',
+  timestamp: '2025-01-01T00:00:00.000Z',
+  is_delivered: true,
+  sequence_number: sequence,
+  is_edited: false,
+  edited_at: null,
+  is_deleted: false,
+  deleted_at: null
+})
+
+describe('MessageSyncService - History pagination', () => {
+  let service: MessageSyncService
+  let stored: MessageWithReactionsData[]
+  let queries: Record<string, unknown[]>[]
+  const onMessagesLoaded = vi.fn()
+  const onMessageReceived = vi.fn()
+
+  // Answers message queries from `stored` by their sequence_number filters
+  const query = () => {
+    const filters: Record<string, unknown[]> = {}
+    const builder: Record<string, unknown> = {}
+    for (const method of ['select', 'eq', 'lt', 'order', 'limit']) {
+      builder[method] = vi.fn((...args: unknown[]) => {
+        filters[method] = [...(filters[method] ?? []), ...args]
+        return builder
+      })
+    }
+    builder.then = (resolve: (result: unknown) => void) => {
+      queries.push(filters)
+      const before = filters.lt?.[1] as number | undefined
+      const data = stored
+        .filter(message => before === undefined || message.sequence_number < before)
+        .sort((a, b) => b.sequence_number - a.sequence_number)
+        .slice(0, filters.limit?.[0] as number)
+      resolve({ data, error: null })
+    }
+    return builder
+  }
+
+  const loadedIds = (call: number) => onMessagesLoaded.mock.calls[call][0].messages.map((message: { id: string }) => message.id)
+
+  beforeEach(async () => {
+    vi.clearAllMocks()
+    queries = []
+    stored = Array.from({ length: 120 }, (_, index) => row(index + 1))
+    vi.mocked(supabase.from).mockImplementation(() => mockQueryBuilder(query()))
+
+    const channel = {
+      on: vi.fn().mockReturnThis(),
+      subscribe: vi.fn().mockReturnThis()
+    }
+    const connection = {
+      createChannel: vi.fn().mockResolvedValue(channel),
+      removeChannel: vi.fn().mockResolvedValue(undefined),
+      getConnectionStatus: vi.fn().mockReturnValue('connected'),
+      subscribeToConnectionState: vi.fn().mockReturnValue(() => {}),
+      onReconnect: vi.fn().mockReturnValue(() => {})
+    } as unknown as RealtimeConnection
+
+    service = new MessageSyncService()
+    service.setEventHandlers({ onMessagesLoaded, onMessageReceived })
+    await service.initializeSession('session-1', 'user-1', connection)
+  })
+
+  it('should load the latest page first, own messages included, without notifying', () => {
+    expect(queries[0]).toMatchObject({ order: ['sequence_number', { ascending: false }], limit: [PAGE_SIZE] })
+    expect(onMessagesLoaded).toHaveBeenCalledTimes(1)
+    expect(onMessagesLoaded.mock.calls[0][0].hasMore).toBe(true)
+
+    const ids = loadedIds(0)
+    expect(ids[0]).toBe('msg-71')
+    expect(ids[ids.length - 1]).toBe('msg-120')
+    expect(onMessagesLoaded.mock.calls[0][0].messages.some((message: { sender_id: string }) => message.sender_id === 'user-1')).toBe(true)
+    expect(onMessageReceived).not.toHaveBeenCalled()
+    expect(service['sequenceTracker'].getContiguous()).toBe(120)
+  })
+
+  it('should page backwards from the oldest loaded message until none remain', async () => {
+    expect(await service.loadOlderMessages()).toBe(true)
+    expect(queries[1]).toMatchObject({ lt: ['sequence_number', 71] })
+    expect(loadedIds(1)[0]).toBe('msg-21')
+
+    expect(await service.loadOlderMessages()).toBe(false)
+    expect(loadedIds(2)).toEqual(Array.from({ length: 20 }, (_, index) => `msg-${index + 1}`))
+    expect(onMessagesLoaded.mock.calls[2][0].hasMore).toBe(false)
+
+    expect(await service.loadOlderMessages()).toBe(false)
+    expect(queries).toHaveLength(3)
+  })
+
+  it('should share one request between overlapping calls', async () => {
+    const [first, second] = await Promise.all([service.loadOlderMessages(), service.loadOlderMessages()])
+
+    expect(first).toBe(true)
+    expect(second).toBe(true)
+    expect(queries).toHaveLength(2)
+    expect(onMessagesLoaded).toHaveBeenCalledTimes(2)
+  })
+})
@@ -0,0 +1,190 @@
+import { describe, it, expect, vi, beforeEach, type Mock } from 'vitest'
+import { MessageSyncService } from '../MessageSyncService'
+import { supabase } from '@/lib/supabase'
+import type { RealtimeConnection } from '../realtime'
+import { mockQueryBuilder } from '@/test/supabaseMock'
+import { SyncQueueStore, type PendingChange } from '@/lib/offline/SyncQueueStore'
+
+// Mock supabase
+vi.mock('@/lib/supabase', () => ({
+  supabase: {
+    from: vi.fn(),
+    channel: vi.fn()
+  }
+}))
+
+// IndexedDB isn't available in jsdom; keep the persisted queue in a Map
+const persisted = vi.hoisted(() => new Map<string, PendingChange>())
+vi.mock('@/lib/offline/SyncQueueStore', () => ({
+  SyncQueueStore: {
+    save: vi.fn(async (change: PendingChange) => {
+      persisted.set(change.id, structuredClone(change))
+    }),
+    remove: vi.fn(async (id: string) => {
+      persisted.delete(id)
+    }),
+    list: vi.fn(async (sessionId: string) => Array.from(persisted.values())
+      .filter(change => change.sessionId === sessionId)
+      .sort((a, b) => a.sequence - b.sequence))
+  }
+}))
+
+// Mock console to reduce noise
+vi.spyOn(console, 'log').mockImplementation(() => {})
+vi.spyOn(console, 'error').mockImplementation(() => {})
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0))
+
+const duplicateKey = { code: '23505', message: 'duplicate key value violates unique constraint' }
+
+describe('MessageSyncService - Persisted queues', () => {
+  let status: 'connected' | 'disconnected'
+  let insert: ReturnType<typeof vi.fn>
+  let upsert: ReturnType<typeof vi.fn>
+
+  const realtimeConnection = () => {
+    const channel: { on: Mock; subscribe: Mock } = {
+      on: vi.fn().mockReturnThis(),
+      subscribe: vi.fn().mockImplementation((callback?: (status: string) => void) => {
+        callback?.('SUBSCRIBED')
+        return channel
+      })
+    }
+    return {
+      createChannel: vi.fn().mockResolvedValue(channel),
+      removeChannel: vi.fn().mockResolvedValue(undefined),
+      getConnectionStatus: vi.fn(() => status),
+      subscribeToConnectionState: vi.fn(() => () => {}),
+      onReconnect: vi.fn(() => () => {})
+    } as unknown as RealtimeConnection
+  }
+
+  const queueMessage = (service: MessageSyncService, text: string) => service.queueMessage({
+    tempId: text,
+    session_id: 'session-1',
+    sender_id: 'user-1',
+    original_text: text,
+    translated_text: `[es] ${text}`,
+    original_language: 'en',
+    timestamp: new Date().toISOString(),
+    is_delivered: false,
+    sequence_number: 0,
+    lastAttempt: new Date(),
+    sequence: 0
+  })
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    persisted.clear()
+    status = 'disconnected'
+    insert = vi.fn().mockResolvedValue({ error: null })
+    upsert = vi.fn().mockResolvedValue({ error: null })
+
+    // History is empty; every insert goes through `insert`
+    const query: Record<string, Mock> = {
+      select: vi.fn(() => query),
+      eq: vi.fn(() => query),
+      order: vi.fn(() => query),
+      limit: vi.fn().mockResolvedValue({ data: [], error: null }),
+      insert,
+      upsert
+    }
+    vi.mocked(supabase.from).mockReturnValue(mockQueryBuilder(query))
+  })
+
+  it('should replay changes queued before a reload in their original order', async () => {
+    const before = new MessageSyncService()
+    await before.initializeSession('session-1', 'user-1', realtimeConnection())
+    const firstId = queueMessage(before, 'Hello')
+    await before.addReaction('partner-message', '👍', 'user-1')
+    const secondId = queueMessage(before, 'Still there?')
+    await flush()
+
+    expect(persisted.size).toBe(3)
+
+    // The tab is reloaded and comes back online
+    status = 'connected'
+    const after = new MessageSyncService()
+    await after.initializeSession('session-1', 'user-1', realtimeConnection())
+    await flush()
+
+    const inserted = insert.mock.calls.map(([row]) => row)
+    expect(inserted.map(row => row.message_id ?? row.id)).toEqual([firstId, secondId, 'partner-message'])
+    expect(inserted[2]).toMatchObject({ id: expect.any(String), emoji: '👍' })
+    expect(persisted.size).toBe(0)
+    expect(after['sequenceNumber']).toBe(3)
+  })
+
+  it('should send translations added while a message waits along with it', async () => {
+    const before = new MessageSyncService()
+    await before.initializeSession('session-1', 'user-1', realtimeConnection())
+    const messageId = queueMessage(before, 'Hello')
+    await before.storeTranslations(messageId, { fr: '[fr] Hello' })
+    await flush()
+
+    expect(upsert).not.toHaveBeenCalled()
+
+    // The tab is reloaded and comes back online
+    status = 'connected'
+    const after = new MessageSyncService()
+    await after.initializeSession('session-1', 'user-1', realtimeConnection())
+    await flush()
+
+    expect(insert).toHaveBeenCalledWith(expect.objectContaining({ id: messageId }))
+    expect(upsert).toHaveBeenCalledWith(
+      [{ message_id: messageId, session_id: 'session-1', language: 'fr', translated_text: '[fr] Hello' }],
+      { onConflict: 'message_id,language' }
+    )
+  })
+
+  it('should store translations of a message already sent right away', async () => {
+    status = 'connected'
+    const service = new MessageSyncService()
+    await service.initializeSession('session-1', 'user-1', realtimeConnection())
+    const messageId = queueMessage(service, 'Hello')
+    await flush()
+
+    await service.storeTranslations(messageId, { fr: '[fr] Hello' })
+
+    expect(upsert).toHaveBeenCalledWith(
+      [{ message_id: messageId, session_id: 'session-1', language: 'fr', translated_text: '[fr] Hello' }],
+      { onConflict: 'message_id,language' }
+    )
+  })
+
+  it('should treat a message that already reached the server as sent', async () => {
+    status = 'connected'
+    const service = new MessageSyncService()
+    const onMessageDelivered = vi.fn()
+    const onMessageFailed = vi.fn()
+    service.setEventHandlers({ onMessageDelivered, onMessageFailed })
+    await service.initializeSession('session-1', 'user-1', realtimeConnection())
+
+    insert.mockResolvedValueOnce({ error: duplicateKey })
+    const messageId = queueMessage(service, 'Hello again')
+    await flush()
+
+    expect(onMessageDelivered).toHaveBeenCalledWith(messageId)
+    expect(onMessageFailed).not.toHaveBeenCalled()
+    expect(SyncQueueStore.remove).toHaveBeenCalledWith(messageId)
+  })
+
+  it('should not queue a reaction again when its replay finds it stored', async () => {
+    const service = new MessageSyncService()
+    await service.initializeSession('session-1', 'user-1', realtimeConnection())
+    await service.addReaction('msg-1', '❤️', 'user-1')
+    await flush()
+
+    const [change] = Array.from(persisted.values())
+    expect(change.kind).toBe('operation')
+
+    status = 'connected'
+    insert.mockResolvedValueOnce({ error: duplicateKey })
+    await service['processSyncQueue']()
+    await flush()
+
+    expect(insert).toHaveBeenCalledWith(expect.objectContaining({ id: change.id }))
+    expect(service['syncQueue'].size).toBe(0)
+    expect(persisted.size).toBe(0)
+  })
+})
@@ -3,6 +3,7 @@ import { MessageSyncService } from '../MessageSyncService'
 import { RealtimeConnection } from '../realtime'
 import { supabase } from '@/lib/supabase'
 import type { DatabaseReaction } from '@/types/database'
+import { mockQueryBuilder } from '@/test/supabaseMock'
 
 // Mock supabase
 vi.mock('@/lib/supabase', () => ({
@@ -35,7 +36,9 @@ describe('MessageSyncService - Reactions', () => {
     mockRealtimeConnection = {
       createChannel: vi.fn().mockResolvedValue(mockChannel),
       removeChannel: vi.fn().mockResolvedValue(undefined),
-      getConnectionStatus: vi.fn().mockReturnValue('connected')
+      getConnectionStatus: vi.fn().mockReturnValue('connected'),
+      subscribeToConnectionState: vi.fn().mockReturnValue(() => {}),
+      onReconnect: vi.fn().mockReturnValue(() => {})
     }
     
     // Create instance
@@ -58,6 +61,7 @@ describe('MessageSyncService - Reactions', () => {
       
       expect(supabase.from).toHaveBeenCalledWith('message_reactions')
       expect(mockInsert).toHaveBeenCalledWith({
+        id: expect.any(String),
         message_id: 'msg-123',
         user_id: 'user-123',
         emoji: '👍'
@@ -122,20 +126,31 @@ describe('MessageSyncService - Reactions', () => {
   })
   
   describe('editMessage', () => {
-    it('should edit message and trigger re-translation', async () => {
+    it('should edit message, keep the old version and trigger re-translation', async () => {
       const mockSelect = vi.fn().mockReturnValue({
         eq: vi.fn().mockReturnValue({
           single: vi.fn().mockResolvedValue({
-            data: { original_text: 'Old text' },
+            data: {
+              session_id: 'session-1',
+              original_text: 'Old text',
+              translated_text: 'Texto viejo',
+              message_translations: [{ language: 'fr', translated_text: 'Ancien texte' }]
+            },
             error: null
           })
         })
       })
       
+      const mockRevisionInsert = vi.fn().mockResolvedValue({ error: null })
+      
       const mockUpdate = vi.fn().mockReturnValue({
         eq: vi.fn().mockResolvedValue({ error: null })
       })
       
+      const mockTranslationsDelete = vi.fn().mockReturnValue({
+        eq: vi.fn().mockResolvedValue({ error: null })
+      })
+      
       vi.mocked(supabase.from).mockImplementation((table) => {
         if (table === 'messages') {
           return {
@@ -143,6 +158,12 @@ describe('MessageSyncService - Reactions', () => {
             update: mockUpdate
           } as any
         }
+        if (table === 'message_translations') {
+          return mockQueryBuilder({ delete: mockTranslationsDelete })
+        }
+        if (table === 'message_revisions') {
+          return mockQueryBuilder({ insert: mockRevisionInsert })
+        }
         return {} as any
       })
       
@@ -153,6 +174,7 @@ describe('MessageSyncService - Reactions', () => {
         onMessageEdited,
         onReTranslationNeeded
       })
+      messageSyncService['currentUserId'] = 'user-1'
       
       await messageSyncService.editMessage('msg-123', 'New text')
       
@@ -162,10 +184,44 @@ describe('MessageSyncService - Reactions', () => {
         edited_at: expect.any(String),
         translated_text: null
       })
+      expect(mockTranslationsDelete).toHaveBeenCalled()
+      expect(mockRevisionInsert).toHaveBeenCalledWith({
+        id: expect.any(String),
+        message_id: 'msg-123',
+        session_id: 'session-1',
+        original_text: 'Old text',
+        translated_text: 'Texto viejo',
+        translations: { fr: 'Ancien texte' },
+        edited_by: 'user-1',
+        edited_at: expect.any(String)
+      })
       
-      expect(onMessageEdited).toHaveBeenCalledWith('msg-123', 'New text')
+      expect(onMessageEdited).toHaveBeenCalledWith('msg-123', 'New text', expect.any(String))
       expect(onReTranslationNeeded).toHaveBeenCalledWith('msg-123', 'New text')
     })
+
+    it('should store the translations of the edited text', async () => {
+      const mockUpdateEq = vi.fn().mockResolvedValue({ error: null })
+      const mockUpdate = vi.fn().mockReturnValue({ eq: mockUpdateEq })
+      const mockUpsert = vi.fn().mockResolvedValue({ error: null })
+
+      vi.mocked(supabase.from).mockImplementation((table: string) => {
+        if (table === 'messages') {
+          return mockQueryBuilder({ update: mockUpdate })
+        }
+        return mockQueryBuilder({ upsert: mockUpsert })
+      })
+      messageSyncService['currentSessionId'] = 'session-1'
+
+      await messageSyncService.storeReTranslation('msg-123', 'Texto nuevo', { es: 'Texto nuevo', fr: 'Nouveau texte' })
+
+      expect(mockUpdate).toHaveBeenCalledWith({ translated_text: 'Texto nuevo' })
+      expect(mockUpdateEq).toHaveBeenCalledWith('id', 'msg-123')
+      expect(mockUpsert).toHaveBeenCalledWith([
+        { message_id: 'msg-123', session_id: 'session-1', language: 'es', translated_text: 'Texto nuevo' },
+        { message_id: 'msg-123', session_id: 'session-1', language: 'fr', translated_text: 'Nouveau texte' }
+      ], { onConflict: 'message_id,language' })
+    })
   })
   
   describe('deleteMessage', () => {
@@ -182,7 +238,7 @@ describe('MessageSyncService - Reactions', () => {
         if (table === 'messages') {
           return { update: mockUpdate } as any
         }
-        if (table === 'message_reactions') {
+        if (table === 'message_reactions' || table === 'message_translations') {
           return { delete: mockDelete } as any
         }
         return {} as any
@@ -212,7 +268,9 @@ describe('MessageSyncService - Reactions', () => {
         select: vi.fn().mockReturnValue({
           eq: vi.fn().mockReturnValue({
             eq: vi.fn().mockReturnValue({
-              order: vi.fn().mockResolvedValue({ data: [], error: null })
+              order: vi.fn().mockReturnValue({
+                limit: vi.fn().mockResolvedValue({ data: [], error: null })
+              })
             })
           })
         })
@@ -254,7 +312,9 @@ describe('MessageSyncService - Reactions', () => {
         select: vi.fn().mockReturnValue({
           eq: vi.fn().mockReturnValue({
             eq: vi.fn().mockReturnValue({
-              order: vi.fn().mockResolvedValue({ data: [], error: null })
+              order: vi.fn().mockReturnValue({
+                limit: vi.fn().mockResolvedValue({ data: [], error: null })
+              })
             })
           })
         })
@@ -0,0 +1,111 @@
+import { describe, it, expect, vi, beforeEach, type Mock } from 'vitest'
+import { MessageSyncService } from '../MessageSyncService'
+import { supabase } from '@/lib/supabase'
+import type { RealtimeConnection } from '../realtime'
+import { mockQueryBuilder } from '@/test/supabaseMock'
+import type { DatabaseMessageRevision } from '@/types/database'
+
+// Mock supabase
+vi.mock('@/lib/supabase', () => ({
+  supabase: {
+    from: vi.fn(),
+    channel: vi.fn()
+  }
+}))
+
+// Mock console to reduce noise
+vi.spyOn(console, 'log').mockImplementation(() => {})
+
+describe('MessageSyncService - Revisions', () => {
+  let service: MessageSyncService
+  let channel: { on: Mock; subscribe: Mock }
+  let revisionInsert: ReturnType<typeof vi.fn>
+  let messageUpdate: ReturnType<typeof vi.fn>
+  let revisionRows: DatabaseMessageRevision[]
+  const onMessageRevised = vi.fn()
+  const onMessageEdited = vi.fn()
+
+  const revision = (overrides: Partial<DatabaseMessageRevision> = {}): DatabaseMessageRevision => ({
+    id: 'edit-1',
+    message_id: 'msg-1',
+    session_id: 'session-1',
+    original_text: 'See you at five',
+    translated_text: 'Nos vemos a las cinco',
+    translations: {},
+    edited_by: 'partner',
+    edited_at: '2025-01-01T10:00:00.000Z',
+    ...overrides
+  })
+
+  beforeEach(async () => {
+    vi.clearAllMocks()
+    revisionRows = []
+    revisionInsert = vi.fn().mockResolvedValue({ error: null })
+    messageUpdate = vi.fn(() => ({ eq: vi.fn().mockResolvedValue({ error: null }) }))
+
+    vi.mocked(supabase.from).mockImplementation((table: string) => {
+      const query: Record<string, Mock> = {
+        select: vi.fn(() => query),
+        eq: vi.fn(() => query),
+        lt: vi.fn(() => query),
+        order: vi.fn(() => query),
+        limit: vi.fn().mockResolvedValue({ data: [], error: null }),
+        single: vi.fn().mockResolvedValue({
+          data: { session_id: 'session-1', original_text: 'See you at five', translated_text: 'Nos vemos a las cinco', message_translations: [] },
+          error: null
+        }),
+        insert: revisionInsert,
+        update: messageUpdate,
+        delete: vi.fn(() => query)
+      }
+      if (table === 'message_revisions') {
+        query.order = vi.fn().mockResolvedValue({ data: revisionRows, error: null })
+      }
+      return mockQueryBuilder(query)
+    })
+
+    channel = {
+      on: vi.fn().mockReturnThis(),
+      subscribe: vi.fn().mockReturnThis()
+    }
+    const connection = {
+      createChannel: vi.fn().mockResolvedValue(channel),
+      removeChannel: vi.fn().mockResolvedValue(undefined),
+      getConnectionStatus: vi.fn().mockReturnValue('connected'),
+      subscribeToConnectionState: vi.fn().mockReturnValue(() => {}),
+      onReconnect: vi.fn().mockReturnValue(() => {})
+    } as unknown as RealtimeConnection
+
+    service = new MessageSyncService()
+    service.setEventHandlers({ onMessageRevised, onMessageEdited })
+    await service.initializeSession('session-1', 'user-1', connection)
+  })
+
+  it('should pass revisions from the realtime channel to the UI', () => {
+    const [, , handler] = channel.on.mock.calls.find(
+      call => call[1].event === 'INSERT' && call[1].table === 'message_revisions'
+    )!
+
+    handler({ new: revision() })
+    handler({ new: revision({ id: 'edit-2', session_id: 'other-session' }) })
+
+    expect(onMessageRevised).toHaveBeenCalledTimes(1)
+    expect(onMessageRevised).toHaveBeenCalledWith(revision())
+  })
+
+  it('should finish a replayed edit whose revision was already stored', async () => {
+    revisionInsert.mockResolvedValue({ error: { code: '23505', message: 'duplicate key value' } })
+
+    await service.editMessage('msg-1', 'See you at six')
+
+    expect(revisionInsert).toHaveBeenCalledWith(expect.objectContaining({ edited_by: 'user-1', original_text: 'See you at five' }))
+    expect(messageUpdate).toHaveBeenCalledWith(expect.objectContaining({ original_text: 'See you at six' }))
+    expect(onMessageEdited).toHaveBeenCalledWith('msg-1', 'See you at six', expect.any(String))
+  })
+
+  it('should load a message\'s revisions oldest first', async () => {
+    revisionRows = [revision(), revision({ id: 'edit-2', edited_at: '2025-01-01T11:00:00.000Z' })]
+
+    expect(await service.getMessageRevisions('msg-1')).toEqual(revisionRows)
+  })
+})
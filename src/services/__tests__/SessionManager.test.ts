@@ -1,7 +1,8 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
-import { SessionManager } from '../SessionManager'
+import { SessionManager, MAX_SESSION_PARTICIPANTS } from '../SessionManager'
 import { supabase } from '@/lib/supabase'
 import { ErrorCode } from '@/lib/errors/ErrorCodes'
+import { mockQueryBuilder } from '@/test/supabaseMock'
 
 // Mock Supabase
 vi.mock('@/lib/supabase', () => ({
@@ -312,6 +313,44 @@ describe('SessionManager', () => {
         })
       })
 
+      vi.mocked(supabase.from).mockImplementation((table: string) => {
+        if (table === 'sessions') {
+          return mockQueryBuilder({
+            select: mockSelect
+          })
+        }
+        if (table === 'session_participants') {
+          return mockQueryBuilder({
+            select: vi.fn().mockReturnValue({
+              eq: vi.fn().mockResolvedValue({
+                data: Array.from({ length: MAX_SESSION_PARTICIPANTS }, (_, i) => ({ user_id: `user${i + 1}` })),
+                error: null
+              })
+            })
+          })
+        }
+        return mockQueryBuilder({})
+      })
+
+      await expect(sessionManager.joinSession('1234')).rejects.toThrow()
+    })
+
+    it('should let a third participant join a group session', async () => {
+      const mockSelect = vi.fn().mockReturnValue({
+        eq: vi.fn().mockReturnValue({
+          eq: vi.fn().mockReturnValue({
+            single: vi.fn().mockResolvedValue({
+              data: {
+                id: 'test-session',
+                is_active: true,
+                expires_at: new Date(Date.now() + 1000 * 60 * 60).toISOString()
+              },
+              error: null
+            })
+          })
+        })
+      })
+
       vi.mocked(supabase.from).mockImplementation((table: string) => {
         if (table === 'sessions') {
           return {
@@ -334,7 +373,9 @@ describe('SessionManager', () => {
         return {} as any
       })
 
-      await expect(sessionManager.joinSession('1234')).rejects.toThrow()
+      const result = await sessionManager.joinSession('1234')
+      expect(result.sessionId).toBe('test-session')
+      expect(result.partnerId).toBe('user1')
     })
   })
 
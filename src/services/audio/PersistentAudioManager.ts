@@ -6,16 +6,43 @@
  * - Keep stream alive between recordings
  * - Create/destroy MediaRecorder instances but reuse stream
  * - Maintain AudioContext for iOS compatibility
+ * - Optional hands-free mode: a VoiceActivityDetector on the same level
+ *   monitoring starts and stops recordings on its own
+ * - Long recordings are cut into chunks at silence boundaries
+ * - Recordings are compressed in the audio worker when it's available
+ * - The recorder and level meter get the microphone through a speech
+ *   pre-processing chain (high-pass, noise suppression, gate, gain)
  */
 
 import { performanceLogger, PERF_OPS } from '@/lib/performance'
 import { QualityDegradationService } from '@/lib/quality-degradation'
+import { getIOSOptimizedMediaConstraints } from '@/lib/ios-audio-context'
+import { audioWorkerManager } from '@/lib/workers/AudioWorkerManager'
+import { ErrorCode } from '@/lib/errors/ErrorCodes'
+import { VoiceActivityDetector, type VADConfig, type SpeechSegment } from './VoiceActivityDetector'
+import { findChunkBoundaries, DEFAULT_CHUNKING_OPTIONS } from './chunking'
+import { encodeWav } from './encoding'
+import {
+  AudioPreprocessingChain,
+  applyPreprocessingToConstraints,
+  getPreprocessingSettings,
+  resolvePreprocessingConfig,
+  setPreprocessingSettings,
+  type PreprocessingSettings
+} from './preprocessing'
 
 export interface AudioRecordingResult {
   audioFile: File
   duration: number
   format: string
   size: number
+  chunks?: AudioChunk[] // Only for recordings longer than one chunk
+}
+
+export interface AudioChunk {
+  audioFile: File
+  startTime: number // Seconds into the recording
+  endTime: number
 }
 
 export interface SupportedAudioFormat {
@@ -25,6 +52,8 @@ export interface SupportedAudioFormat {
 
 export type RecorderState = 'idle' | 'recording' | 'processing' | 'error'
 
+export type ListeningState = 'off' | 'listening' | 'speech' | 'paused'
+
 export class PersistentAudioManager {
   private static instance: PersistentAudioManager | null = null
   
@@ -33,6 +62,7 @@ export class PersistentAudioManager {
   private audioContext: AudioContext | null = null
   private supportedFormat: SupportedAudioFormat | null = null
   private analyser: AnalyserNode | null = null
+  private preprocessing: AudioPreprocessingChain | null = null
   private dataArray: Uint8Array | null = null
   private animationFrameId: number | null = null
   
@@ -55,11 +85,24 @@ export class PersistentAudioManager {
     minSamples: 10      // Minimum number of samples required for analysis
   }
   
+  // Long recordings
+  private readonly maxRecordingSeconds = 15 * 60      // Recording stops on its own after this
+  private readonly maxUploadBytes = 25 * 1024 * 1024 // Whisper's upload limit, for unchunked files
+  private maxDurationTimer: ReturnType<typeof setTimeout> | null = null
+  
+  // Hands-free mode (voice activity detection)
+  private vad: VoiceActivityDetector | null = null
+  private listeningPauses = new Set<string>() // e.g. one per playing TTS clip
+  private segmentActive: boolean = false      // Current recording was started by the VAD
+  private discardRecording: boolean = false   // Drop the recording once MediaRecorder stops
+  private listeningState: ListeningState = 'off'
+  
   // Event callbacks
   public onStateChange?: (state: RecorderState) => void
   public onAudioData?: (audioLevel: number) => void
   public onComplete?: (result: AudioRecordingResult) => void
   public onError?: (error: Error) => void
+  public onListeningStateChange?: (state: ListeningState) => void
   
   private constructor() {
     this.detectDevice()
@@ -102,6 +145,12 @@ export class PersistentAudioManager {
       { mimeType: 'audio/ogg', extension: 'ogg' }                // Firefox
     ]
     
+    if (typeof MediaRecorder === 'undefined') {
+      this.supportedFormat = { mimeType: '', extension: 'webm' }
+      console.log('🎵 MediaRecorder not available')
+      return
+    }
+    
     for (const format of AUDIO_FORMATS) {
       if (MediaRecorder.isTypeSupported(format.mimeType)) {
         this.supportedFormat = format
@@ -128,8 +177,15 @@ export class PersistentAudioManager {
     }
     
     try {
-      // Get optimized media constraints
-      const mediaConstraints = QualityDegradationService.getMediaConstraints()
+      // Get optimized media constraints, minus the browser processing our
+      // own pre-processing chain replaces
+      const baseConstraints = this.isIOS
+        ? getIOSOptimizedMediaConstraints()
+        : QualityDegradationService.getMediaConstraints()
+      const mediaConstraints = applyPreprocessingToConstraints(
+        baseConstraints,
+        resolvePreprocessingConfig(getPreprocessingSettings())
+      )
       console.log('🎚️ Media constraints:', JSON.stringify(mediaConstraints, null, 2))
       
       // Request stream - this is the CRITICAL persistent stream
@@ -150,6 +206,9 @@ export class PersistentAudioManager {
       // Initialize audio context for iOS compatibility
       await this.initializeAudioContext()
       
+      // Clean up speech before it reaches the recorder
+      await this.setupPreprocessing()
+      
       // Set up audio analysis for visualization
       this.setupAudioAnalysis()
       
@@ -187,6 +246,53 @@ export class PersistentAudioManager {
     }
   }
   
+  /**
+   * Build the pre-processing graph on the persistent stream. Without it the
+   * raw stream is recorded as before
+   */
+  private async setupPreprocessing(): Promise<void> {
+    if (!this.audioContext || !this.audioStream) return
+    
+    try {
+      const config = resolvePreprocessingConfig(getPreprocessingSettings())
+      this.preprocessing = await AudioPreprocessingChain.create(this.audioContext, this.audioStream, config)
+    } catch (error) {
+      console.warn('⚠️ Audio pre-processing unavailable, recording the raw stream:', error)
+      this.preprocessing = null
+    }
+  }
+  
+  /**
+   * Stream the recorder uses: processed if the chain is running
+   */
+  private getRecordingStream(): MediaStream {
+    return this.preprocessing?.stream ?? this.audioStream!
+  }
+  
+  /**
+   * Change the pre-processing levels. Applied to the running graph and to
+   * the browser's own processing on the microphone track
+   */
+  async setPreprocessingSettings(settings: PreprocessingSettings): Promise<void> {
+    setPreprocessingSettings(settings)
+    const config = resolvePreprocessingConfig(settings)
+    this.preprocessing?.update(config)
+    
+    const track = this.audioStream?.getAudioTracks()[0]
+    if (track) {
+      try {
+        await track.applyConstraints({
+          noiseSuppression: !config.noiseSuppression,
+          autoGainControl: !config.gainNormalization
+        })
+      } catch (error) {
+        console.warn('⚠️ Could not update microphone processing constraints:', error)
+      }
+    }
+    
+    console.log('🎛️ Pre-processing updated:', settings)
+  }
+  
   /**
    * Resume audio context for iOS (called on user interaction)
    */
@@ -210,9 +316,14 @@ export class PersistentAudioManager {
       this.analyser.fftSize = 1024
       this.analyser.smoothingTimeConstant = 0.2
       
-      // Connect stream to analyser
-      const source = this.audioContext.createMediaStreamSource(this.audioStream)
-      source.connect(this.analyser)
+      // Connect stream to analyser (after pre-processing, so silence
+      // detection sees what gets recorded)
+      if (this.preprocessing) {
+        this.preprocessing.output.connect(this.analyser)
+      } else {
+        const source = this.audioContext.createMediaStreamSource(this.audioStream)
+        source.connect(this.analyser)
+      }
       
       // Create data array for frequency analysis
       const bufferLength = this.analyser.frequencyBinCount
@@ -234,8 +345,12 @@ export class PersistentAudioManager {
   
   /**
    * Start audio level monitoring (like working project)
+   * Runs while recording, and for as long as hands-free mode is on
+   * (requestAnimationFrame, so it pauses in background tabs)
    */
   private startAudioLevelMonitoring(): void {
+    if (this.animationFrameId !== null) return // Already running for hands-free mode
+    
     if (!this.analyser || !this.dataArray) {
       console.warn('⚠️ Audio level monitoring not available:', {
         analyser: !!this.analyser,
@@ -247,8 +362,9 @@ export class PersistentAudioManager {
     console.log('📊 Starting audio level monitoring for visualization')
     
     const monitorLevel = () => {
-      if (this.state !== 'recording') {
+      if (this.state !== 'recording' && !this.vad) {
         console.log('📊 Audio level monitoring stopped - not recording')
+        this.animationFrameId = null
         return
       }
       
@@ -267,13 +383,20 @@ export class PersistentAudioManager {
       const normalizedLevel = Math.min(rms / normalizationFactor, 1)
       
       // Store audio level for silence detection
-      this.audioLevels.push(normalizedLevel)
+      if (this.state === 'recording') {
+        this.audioLevels.push(normalizedLevel)
+      }
       
       // Send to callback for visualization
       if (this.onAudioData) {
         this.onAudioData(normalizedLevel)
       }
       
+      // Feed voice activity detection unless listening is paused
+      if (this.vad && this.listeningPauses.size === 0) {
+        this.vad.process(normalizedLevel, performance.now())
+      }
+      
       // Continue monitoring
       this.animationFrameId = requestAnimationFrame(monitorLevel)
     }
@@ -317,7 +440,7 @@ export class PersistentAudioManager {
           const mediaRecorderOptions = this.supportedFormat!.mimeType ? 
             { mimeType: this.supportedFormat!.mimeType } : {}
           
-          this.mediaRecorder = new MediaRecorder(this.audioStream!, mediaRecorderOptions)
+          this.mediaRecorder = new MediaRecorder(this.getRecordingStream(), mediaRecorderOptions)
           console.log('🎙️ MediaRecorder created with persistent stream')
           
           // Reset recording chunks and audio levels
@@ -335,6 +458,13 @@ export class PersistentAudioManager {
           
           // Set up stop handler (like working project)
           this.mediaRecorder.onstop = async () => {
+            if (this.discardRecording) {
+              console.log('🗑️ MediaRecorder stopped, discarding hands-free segment')
+              this.discardRecording = false
+              this.recordingChunks = []
+              this.setState('idle')
+              return
+            }
             console.log('🛑 MediaRecorder stopped, processing audio...')
             await this.processRecordedAudio()
           }
@@ -349,6 +479,14 @@ export class PersistentAudioManager {
           this.mediaRecorder.start()
           this.setState('recording')
           
+          // Stop (and process) instead of growing without bound
+          this.clearMaxDurationTimer()
+          this.maxDurationTimer = setTimeout(() => {
+            if (this.state !== 'recording') return
+            console.warn(`⏱️ Recording reached ${this.maxRecordingSeconds}s, stopping`)
+            this.stopRecording().catch(error => console.error('❌ Failed to stop long recording:', error))
+          }, this.maxRecordingSeconds * 1000)
+          
           // Start audio level monitoring
           this.startAudioLevelMonitoring()
           
@@ -376,9 +514,12 @@ export class PersistentAudioManager {
       PERF_OPS.AUDIO_RECORDING_STOP,
       async () => {
         this.setState('processing')
+        this.clearMaxDurationTimer()
         
-        // Stop audio level monitoring
-        this.stopAudioLevelMonitoring()
+        // Stop audio level monitoring (hands-free mode keeps listening)
+        if (!this.vad) {
+          this.stopAudioLevelMonitoring()
+        }
         
         // Stop MediaRecorder (triggers onstop handler)
         this.mediaRecorder!.stop()
@@ -425,16 +566,26 @@ export class PersistentAudioManager {
       }
       
       // Compress audio for reduced bandwidth usage
-      const compressedBlob = await this.compressAudio(audioBlob)
+      const { blob: compressedBlob, pcm } = await this.compressAudio(audioBlob)
       
       // Create File object for API
       const audioFile = this.createAudioFile(compressedBlob)
       
+      // Cut long recordings into chunks (needs the decoded audio)
+      const chunks = pcm ? this.splitIntoChunks(pcm.samples, pcm.sampleRate) : undefined
+      if (!chunks && audioFile.size > this.maxUploadBytes) {
+        throw Object.assign(
+          new Error('Recording too long to upload. Please record in shorter parts.'),
+          { code: ErrorCode.AUDIO_TOO_LONG }
+        )
+      }
+      
       const result: AudioRecordingResult = {
         audioFile,
         duration,
         format: audioFile.type,
-        size: audioFile.size
+        size: audioFile.size,
+        ...(chunks ? { chunks } : {})
       }
       
       this.setState('idle')
@@ -524,14 +675,54 @@ export class PersistentAudioManager {
     return new File([audioBlob], fileName, { type: mimeType })
   }
   
+  /**
+   * Split mono PCM into WAV chunks at silence boundaries.
+   * Returns undefined when the recording fits in one chunk
+   */
+  private splitIntoChunks(samples: Float32Array, sampleRate: number): AudioChunk[] | undefined {
+    const boundaries = findChunkBoundaries(samples, sampleRate, DEFAULT_CHUNKING_OPTIONS)
+    if (boundaries.length < 2) return undefined
+    
+    const chunks: AudioChunk[] = boundaries.map(({ start, end }, index) => ({
+      audioFile: new File([encodeWav(samples.subarray(start, end), sampleRate)], `audio-${index + 1}.wav`, { type: 'audio/wav' }),
+      startTime: start / sampleRate,
+      endTime: end / sampleRate
+    }))
+    
+    console.log('✂️ Recording split into chunks:', chunks.map(chunk =>
+      `${chunk.startTime.toFixed(1)}-${chunk.endTime.toFixed(1)}s`
+    ))
+    return chunks
+  }
+  
   /**
    * Compress audio by downsampling to 16kHz mono
-   * This reduces file size by ~66% for typical 48kHz stereo audio
+   * This reduces file size by ~66% for typical 48kHz stereo audio.
+   * Also returns the mono PCM (null if compression failed) for chunking
    */
-  private async compressAudio(audioBlob: Blob): Promise<Blob> {
+  private async compressAudio(audioBlob: Blob): Promise<{
+    blob: Blob
+    pcm: { samples: Float32Array; sampleRate: number } | null
+  }> {
     console.log('🗜️ Starting audio compression...')
     console.log('   • Original size:', (audioBlob.size / 1024).toFixed(2) + 'KB')
     
+    // Off the main thread, with loudness normalization and network-aware targets
+    if (audioWorkerManager.isReady()) {
+      try {
+        const compressed = await audioWorkerManager.compressAudio(await audioBlob.arrayBuffer())
+        console.log('   • Compressed size:', (compressed.compressedBytes / 1024).toFixed(2) + 'KB')
+        console.log('✅ Audio compression complete (worker)')
+        
+        return {
+          blob: new Blob([compressed.buffer], { type: compressed.mimeType }),
+          pcm: { samples: compressed.samples, sampleRate: compressed.sampleRate }
+        }
+      } catch (error) {
+        console.warn('⚠️ Worker compression failed, compressing on the main thread:', error)
+      }
+    }
+    
     try {
       // Convert blob to array buffer
       const arrayBuffer = await audioBlob.arrayBuffer()
@@ -571,12 +762,15 @@ export class PersistentAudioManager {
       console.log('   • Compression ratio:', ((1 - wavBlob.size / audioBlob.size) * 100).toFixed(1) + '%')
       console.log('✅ Audio compression complete')
       
-      return wavBlob
+      return {
+        blob: wavBlob,
+        pcm: { samples: compressedBuffer.getChannelData(0), sampleRate: compressedBuffer.sampleRate }
+      }
       
     } catch (error) {
       console.error('❌ Audio compression failed:', error)
       console.log('⚠️ Falling back to original audio')
-      return audioBlob // Return original if compression fails
+      return { blob: audioBlob, pcm: null } // Return original if compression fails
     }
   }
   
@@ -703,18 +897,32 @@ export class PersistentAudioManager {
     }
     
     this.recordingChunks = []
-    this.stopAudioLevelMonitoring()
+    this.clearMaxDurationTimer()
+    if (!this.vad) {
+      this.stopAudioLevelMonitoring()
+    }
     
     // NOTE: We do NOT close the persistent stream or audio context
     // That's the key difference from the old approach
   }
   
+  private clearMaxDurationTimer(): void {
+    if (this.maxDurationTimer) {
+      clearTimeout(this.maxDurationTimer)
+      this.maxDurationTimer = null
+    }
+  }
+  
   /**
    * Full cleanup (call on app unmount)
    */
   destroy(): void {
+    this.stopHandsFree()
     this.cleanup()
     
+    this.preprocessing?.disconnect()
+    this.preprocessing = null
+    
     if (this.audioStream) {
       this.audioStream.getTracks().forEach(track => track.stop())
       this.audioStream = null
@@ -729,6 +937,164 @@ export class PersistentAudioManager {
     PersistentAudioManager.instance = null
   }
   
+  /**
+   * Start hands-free mode: speech onset starts a recording, trailing silence
+   * stops it and each segment is delivered through onComplete while
+   * listening continues. Calling it again updates the VAD config
+   */
+  async startHandsFree(config: Partial<VADConfig> = {}): Promise<void> {
+    if (!this.streamReady || !this.audioStream) {
+      throw new Error('Audio stream not ready. Please refresh the page.')
+    }
+    
+    if (!this.analyser || !this.dataArray) {
+      throw new Error('Voice detection is not available on this device')
+    }
+    
+    if (this.vad) {
+      this.vad.updateConfig(config)
+      return
+    }
+    
+    await this.resumeAudioContextForIOS()
+    
+    this.vad = new VoiceActivityDetector(config)
+    this.vad.onSpeechStart = () => this.handleSpeechStart()
+    this.vad.onSpeechEnd = (segment) => this.handleSpeechEnd(segment)
+    this.vad.onSpeechCancel = (segment) => this.handleSpeechCancel(segment)
+    
+    console.log('👂 Hands-free mode started:', this.vad.getConfig())
+    this.startAudioLevelMonitoring()
+    this.updateListeningState()
+  }
+  
+  /**
+   * Stop hands-free mode, discarding any segment still being recorded
+   */
+  stopHandsFree(): void {
+    if (!this.vad) return
+    
+    this.vad = null
+    this.discardSegment()
+    if (this.state !== 'recording') {
+      this.stopAudioLevelMonitoring()
+    }
+    
+    console.log('👂 Hands-free mode stopped')
+    this.updateListeningState()
+  }
+  
+  /**
+   * Stop listening until every pause reason is resumed (e.g. while TTS is
+   * playing, so the app doesn't translate its own output)
+   */
+  pauseListening(reason: string = 'manual'): void {
+    const wasListening = this.listeningPauses.size === 0
+    this.listeningPauses.add(reason)
+    
+    if (wasListening && this.vad) {
+      this.vad.reset()
+      this.discardSegment()
+      console.log('⏸️ Hands-free listening paused:', reason)
+    }
+    this.updateListeningState()
+  }
+  
+  resumeListening(reason: string = 'manual'): void {
+    if (!this.listeningPauses.delete(reason)) return
+    
+    if (this.listeningPauses.size === 0 && this.vad) {
+      this.vad.reset()
+      console.log('▶️ Hands-free listening resumed')
+    }
+    this.updateListeningState()
+  }
+  
+  isHandsFreeActive(): boolean {
+    return this.vad !== null
+  }
+  
+  getListeningState(): ListeningState {
+    return this.listeningState
+  }
+  
+  private handleSpeechStart(): void {
+    // A previous segment may still be compressing; this onset is skipped
+    if (this.state !== 'idle') {
+      console.log('👂 Speech onset while', this.state, '- skipping segment')
+      return
+    }
+    
+    this.segmentActive = true
+    this.updateListeningState()
+    this.startRecording()
+      .then(() => {
+        // Segment was cancelled while the recorder was starting
+        if (!this.segmentActive) this.dropRecording()
+      })
+      .catch(error => {
+        console.error('❌ Failed to start hands-free segment:', error)
+        this.segmentActive = false
+        this.updateListeningState()
+      })
+  }
+  
+  private handleSpeechEnd(segment: SpeechSegment): void {
+    if (!this.segmentActive) return
+    
+    console.log('👂 Speech segment ended:', {
+      duration: (segment.durationMs / 1000).toFixed(2) + 's',
+      voiced: (segment.voicedMs / 1000).toFixed(2) + 's',
+      reason: segment.reason
+    })
+    
+    this.segmentActive = false
+    this.updateListeningState()
+    if (this.state === 'recording') {
+      this.stopRecording().catch(error => {
+        console.error('❌ Failed to stop hands-free segment:', error)
+      })
+    }
+  }
+  
+  private handleSpeechCancel(segment: SpeechSegment): void {
+    console.log('👂 Noise burst ignored:', (segment.voicedMs / 1000).toFixed(2) + 's voiced')
+    this.discardSegment()
+  }
+  
+  /**
+   * Stop a VAD-started recording without delivering it
+   */
+  private discardSegment(): void {
+    if (!this.segmentActive) return
+    
+    this.segmentActive = false
+    this.dropRecording()
+    this.updateListeningState()
+  }
+  
+  private dropRecording(): void {
+    if (!this.mediaRecorder || this.state !== 'recording') return
+    
+    this.discardRecording = true
+    this.setState('processing')
+    this.clearMaxDurationTimer()
+    this.mediaRecorder.stop()
+    this.mediaRecorder = null
+  }
+  
+  private updateListeningState(): void {
+    const next: ListeningState = !this.vad ? 'off'
+      : this.listeningPauses.size > 0 ? 'paused'
+      : this.segmentActive ? 'speech'
+      : 'listening'
+    
+    if (next !== this.listeningState) {
+      this.listeningState = next
+      this.onListeningStateChange?.(next)
+    }
+  }
+  
   /**
    * Retry permission request (like working project)
    */
@@ -738,6 +1104,8 @@ export class PersistentAudioManager {
     this.streamReady = false
     
     // Close existing stream if any
+    this.preprocessing?.disconnect()
+    this.preprocessing = null
     if (this.audioStream) {
       this.audioStream.getTracks().forEach(track => track.stop())
       this.audioStream = null
@@ -0,0 +1,282 @@
+/**
+ * TTSPlaybackQueue - App-wide spoken playback of translations
+ *
+ * - Translations are queued and spoken one at a time, in arrival order
+ * - Replaying a message interrupts the current one and plays it right away
+ * - Starting a recording stops playback and drops everything queued
+ * - Voices come from the speaker's voice profile, or are picked per language
+ *   and per speaker, so partners sound different
+ * - Audio comes from CachedOpenAIService.synthesize, so replays are free
+ * - Hands-free listening is paused while speaking so playback isn't transcribed
+ */
+
+import { CachedOpenAIService } from '@/lib/cache/CachedOpenAIService'
+import { UserManager } from '@/lib/user/UserManager'
+import { VoiceProfileManager, type VoiceSettings } from '@/lib/voices/VoiceProfileManager'
+import type { TTSSpeed, TTSVoice } from '@/services/openai/tts-secure'
+import { persistentAudioManager } from './PersistentAudioManager'
+
+export interface TTSPlaybackItem {
+  messageId: string
+  text: string
+  language: string   // Language code of `text`
+  speakerId?: string // Sender, for a per-speaker voice
+}
+
+export type TTSPlaybackStatus = 'queued' | 'loading' | 'playing'
+
+export interface TTSPlaybackState {
+  current: {
+    messageId: string
+    status: Exclude<TTSPlaybackStatus, 'queued'>
+    speakerName?: string // From the speaker's voice profile
+  } | null
+  queued: string[]
+  failedMessageId: string | null // Last message that couldn't be spoken
+}
+
+// Speeds offered in settings
+export const TTS_SPEEDS: TTSSpeed[] = [0.75, 1.0, 1.25, 1.5]
+
+// Voices per language, best first; speakers are spread across the list
+const LANGUAGE_VOICES: Record<string, TTSVoice[]> = {
+  en: ['alloy', 'echo', 'shimmer', 'onyx'],
+  es: ['nova', 'onyx', 'shimmer', 'echo'],
+  pt: ['nova', 'onyx', 'shimmer', 'echo']
+}
+const DEFAULT_VOICES: TTSVoice[] = ['nova', 'onyx', 'shimmer', 'echo', 'alloy', 'fable']
+
+const LISTENING_PAUSE_REASON = 'tts-playback'
+
+interface CurrentPlayback {
+  item: TTSPlaybackItem
+  status: 'loading' | 'playing'
+  audio?: HTMLAudioElement
+  finish?: () => void
+}
+
+export class TTSPlaybackQueue {
+  private static instance: TTSPlaybackQueue | null = null
+
+  private queue: TTSPlaybackItem[] = []
+  private current: CurrentPlayback | null = null
+  private failedMessageId: string | null = null
+  private listeners = new Set<(state: TTSPlaybackState) => void>()
+  // Bumped on every interruption so stale synthesis results are dropped
+  private generation = 0
+
+  static getInstance(): TTSPlaybackQueue {
+    if (!TTSPlaybackQueue.instance) {
+      TTSPlaybackQueue.instance = new TTSPlaybackQueue()
+    }
+    return TTSPlaybackQueue.instance
+  }
+
+  /**
+   * Voice for a language; each speaker gets a stable voice of their own
+   */
+  static pickVoice(language: string, speakerId?: string): TTSVoice {
+    const voices = LANGUAGE_VOICES[language] ?? DEFAULT_VOICES
+    if (!speakerId) return voices[0]
+
+    let hash = 0
+    for (let i = 0; i < speakerId.length; i++) {
+      hash = (hash * 31 + speakerId.charCodeAt(i)) | 0
+    }
+    return voices[Math.abs(hash) % voices.length]
+  }
+
+  /**
+   * Voice and speed for an item: the speaker's voice profile, else the
+   * automatic voice at the playback speed
+   */
+  getVoiceSettings(item: Pick<TTSPlaybackItem, 'language' | 'speakerId'>): VoiceSettings {
+    return VoiceProfileManager.resolve(item.language, item.speakerId) ?? {
+      voice: TTSPlaybackQueue.pickVoice(item.language, item.speakerId),
+      speed: this.getSpeed()
+    }
+  }
+
+  isAutoPlayEnabled(): boolean {
+    return UserManager.getPreference('ttsAutoPlay', false)
+  }
+
+  setAutoPlay(enabled: boolean): void {
+    UserManager.setPreference('ttsAutoPlay', enabled)
+    if (!enabled) this.stop()
+  }
+
+  getSpeed(): TTSSpeed {
+    return UserManager.getPreference<TTSSpeed>('ttsSpeed', 1.0)
+  }
+
+  setSpeed(speed: TTSSpeed): void {
+    UserManager.setPreference('ttsSpeed', speed)
+  }
+
+  /**
+   * Queue an incoming translation if auto-play is on
+   */
+  autoPlay(item: TTSPlaybackItem): void {
+    if (this.isAutoPlayEnabled()) {
+      this.enqueue(item)
+    }
+  }
+
+  /**
+   * Speak after everything already queued
+   */
+  enqueue(item: TTSPlaybackItem): void {
+    if (!item.text.trim()) return
+    if (this.current?.item.messageId === item.messageId) return
+    if (this.queue.some(queued => queued.messageId === item.messageId)) return
+
+    this.queue.push(item)
+    console.log(`🔈 [TTS Queue] Queued ${item.messageId} (${this.queue.length} waiting)`)
+    this.notify()
+    this.playNext()
+  }
+
+  /**
+   * Speak a message now, interrupting the current one. The rest of the
+   * queue plays afterwards
+   */
+  replay(item: TTSPlaybackItem): void {
+    this.queue = [item, ...this.queue.filter(queued => queued.messageId !== item.messageId)]
+    this.interrupt()
+    this.playNext()
+  }
+
+  /**
+   * Stop the current message and move on to the next
+   */
+  skip(): void {
+    this.interrupt()
+    this.playNext()
+  }
+
+  /**
+   * Stop playback and drop everything queued (e.g. the user starts recording)
+   */
+  stop(): void {
+    if (!this.current && this.queue.length === 0) return
+
+    console.log('⏹️ [TTS Queue] Stopped')
+    this.queue = []
+    this.interrupt()
+    this.notify()
+  }
+
+  getState(): TTSPlaybackState {
+    const speakerName = this.current && VoiceProfileManager.getProfile(this.current.item.speakerId)?.name
+    return {
+      current: this.current
+        ? { messageId: this.current.item.messageId, status: this.current.status, ...(speakerName ? { speakerName } : {}) }
+        : null,
+      queued: this.queue.map(item => item.messageId),
+      failedMessageId: this.failedMessageId
+    }
+  }
+
+  /**
+   * Status of one message, or null when it's neither queued nor playing
+   */
+  getStatus(messageId: string): TTSPlaybackStatus | null {
+    if (this.current?.item.messageId === messageId) return this.current.status
+    return this.queue.some(item => item.messageId === messageId) ? 'queued' : null
+  }
+
+  subscribe(listener: (state: TTSPlaybackState) => void): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  private async playNext(): Promise<void> {
+    if (this.current) return
+
+    const item = this.queue.shift()
+    if (!item) return
+
+    const generation = ++this.generation
+    this.current = { item, status: 'loading' }
+    if (this.failedMessageId === item.messageId) this.failedMessageId = null
+    this.notify()
+
+    try {
+      const { voice, speed } = this.getVoiceSettings(item)
+      const { audioBuffer } = await CachedOpenAIService.synthesize(item.text, voice, speed)
+      // Interrupted while synthesizing
+      if (generation !== this.generation) return
+
+      await this.play(audioBuffer)
+    } catch (error) {
+      console.error(`❌ [TTS Queue] Could not speak ${item.messageId}:`, error)
+      if (generation === this.generation) this.failedMessageId = item.messageId
+    }
+
+    if (generation === this.generation) {
+      this.current = null
+      this.notify()
+      this.playNext()
+    }
+  }
+
+  /**
+   * Play synthesized audio; resolves when it ends, fails or is interrupted
+   */
+  private play(audioBuffer: ArrayBuffer): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const current = this.current!
+      const url = URL.createObjectURL(new Blob([audioBuffer], { type: 'audio/mpeg' }))
+      const audio = new Audio(url)
+
+      const finish = (error?: Error) => {
+        audio.onended = null
+        audio.onerror = null
+        URL.revokeObjectURL(url)
+        persistentAudioManager.resumeListening(LISTENING_PAUSE_REASON)
+        if (error) {
+          reject(error)
+        } else {
+          resolve()
+        }
+      }
+
+      current.audio = audio
+      current.finish = () => finish()
+      audio.onended = () => finish()
+      audio.onerror = () => finish(new Error('Audio playback failed'))
+
+      persistentAudioManager.pauseListening(LISTENING_PAUSE_REASON)
+      current.status = 'playing'
+      this.notify()
+
+      audio.play().catch(error => finish(error instanceof Error ? error : new Error(String(error))))
+    })
+  }
+
+  private interrupt(): void {
+    this.generation++
+    if (this.current) {
+      this.current.audio?.pause()
+      this.current.finish?.()
+      this.current = null
+      this.notify()
+    }
+  }
+
+  private notify(): void {
+    const state = this.getState()
+    this.listeners.forEach(listener => {
+      try {
+        listener(state)
+      } catch (error) {
+        console.error('❌ [TTS Queue] Listener failed:', error)
+      }
+    })
+  }
+}
+
+export const ttsPlaybackQueue = TTSPlaybackQueue.getInstance()
@@ -0,0 +1,143 @@
+/**
+ * VoiceActivityDetector - Energy-based speech segmentation
+ *
+ * Fed with the normalized audio levels PersistentAudioManager already
+ * computes (0..1, one per animation frame) and turns them into speech
+ * segments:
+ * - Onset when the level rises above `startThreshold`
+ * - Speech continues while the level stays above the lower `stopThreshold`
+ *   (hysteresis, so a speaker dipping between words doesn't end the segment)
+ * - The segment ends after `trailingSilenceMs` below `stopThreshold`
+ * - Segments with less than `minSpeechMs` of voiced audio are cancelled
+ *   (coughs, door slams, UI sounds)
+ * - Segments are force-ended after `maxSegmentMs` so one long monologue
+ *   still gets translated in pieces
+ */
+
+export interface VADConfig {
+  startThreshold: number    // Level that starts a segment
+  stopThreshold: number     // Level speech must stay above (< startThreshold)
+  trailingSilenceMs: number // Silence that ends a segment
+  minSpeechMs: number       // Voiced time a segment needs to count as speech
+  maxSegmentMs: number      // Force a segment boundary after this long
+}
+
+export type VADState = 'silence' | 'speech'
+
+export interface SpeechSegment {
+  startedAt: number
+  endedAt: number
+  durationMs: number
+  voicedMs: number
+  reason: 'silence' | 'max-length'
+}
+
+export const DEFAULT_VAD_CONFIG: VADConfig = {
+  startThreshold: 0.9,  // Same ballpark as the silence check's maxLevel
+  stopThreshold: 0.7,
+  trailingSilenceMs: 900,
+  minSpeechMs: 300,
+  maxSegmentMs: 30000
+}
+
+export class VoiceActivityDetector {
+  private config: VADConfig
+  private state: VADState = 'silence'
+  private segmentStart = 0
+  private lastVoiceAt = 0
+  private lastFrameAt = 0
+  private voicedMs = 0
+
+  // Event callbacks
+  public onSpeechStart?: (timestamp: number) => void
+  public onSpeechEnd?: (segment: SpeechSegment) => void
+  public onSpeechCancel?: (segment: SpeechSegment) => void
+
+  constructor(config: Partial<VADConfig> = {}) {
+    this.config = VoiceActivityDetector.resolveConfig(config)
+  }
+
+  /**
+   * Merge overrides with the defaults, keeping the hysteresis band valid
+   */
+  static resolveConfig(config: Partial<VADConfig> = {}): VADConfig {
+    const resolved = { ...DEFAULT_VAD_CONFIG, ...config }
+    if (resolved.stopThreshold > resolved.startThreshold) {
+      console.warn('⚠️ [VAD] stopThreshold above startThreshold, using startThreshold for both')
+      resolved.stopThreshold = resolved.startThreshold
+    }
+    return resolved
+  }
+
+  /**
+   * Feed one audio level sample taken at `timestamp` (ms)
+   */
+  process(level: number, timestamp: number): void {
+    const frameMs = this.lastFrameAt ? Math.max(0, timestamp - this.lastFrameAt) : 0
+    this.lastFrameAt = timestamp
+
+    if (this.state === 'silence') {
+      if (level >= this.config.startThreshold) {
+        this.state = 'speech'
+        this.segmentStart = timestamp
+        this.lastVoiceAt = timestamp
+        this.voicedMs = 0
+        this.onSpeechStart?.(timestamp)
+      }
+      return
+    }
+
+    if (level >= this.config.stopThreshold) {
+      this.voicedMs += frameMs
+      this.lastVoiceAt = timestamp
+    }
+
+    if (timestamp - this.lastVoiceAt >= this.config.trailingSilenceMs) {
+      this.endSegment(timestamp, 'silence')
+    } else if (timestamp - this.segmentStart >= this.config.maxSegmentMs) {
+      this.endSegment(timestamp, 'max-length')
+    }
+  }
+
+  /**
+   * Drop any segment in progress without firing callbacks
+   */
+  reset(): void {
+    this.state = 'silence'
+    this.segmentStart = 0
+    this.lastVoiceAt = 0
+    this.lastFrameAt = 0
+    this.voicedMs = 0
+  }
+
+  updateConfig(config: Partial<VADConfig>): void {
+    this.config = VoiceActivityDetector.resolveConfig({ ...this.config, ...config })
+  }
+
+  getConfig(): VADConfig {
+    return { ...this.config }
+  }
+
+  getState(): VADState {
+    return this.state
+  }
+
+  private endSegment(timestamp: number, reason: SpeechSegment['reason']): void {
+    const segment: SpeechSegment = {
+      startedAt: this.segmentStart,
+      endedAt: timestamp,
+      durationMs: timestamp - this.segmentStart,
+      voicedMs: this.voicedMs,
+      reason
+    }
+    this.reset()
+    // Keep frame timing so the next segment's voiced time stays accurate
+    this.lastFrameAt = timestamp
+
+    if (segment.voicedMs >= this.config.minSpeechMs) {
+      this.onSpeechEnd?.(segment)
+    } else {
+      this.onSpeechCancel?.(segment)
+    }
+  }
+}
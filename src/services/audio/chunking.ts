@@ -0,0 +1,76 @@
+/**
+ * Silence-aware chunking for long recordings
+ *
+ * Whisper uploads have a size limit and long files are slow to transcribe in
+ * one request, so long recordings are cut into chunks. Each cut is placed at
+ * the quietest point of the allowed range, which is a pause between words
+ * whenever the speaker took one.
+ */
+
+export interface ChunkingOptions {
+  maxChunkSeconds: number // No chunk is longer than this
+  minChunkSeconds: number // Cuts are searched between min and max into the chunk
+  windowMs: number        // Energy window used to find the quietest point
+}
+
+export interface ChunkBoundary {
+  start: number // Sample index (inclusive)
+  end: number   // Sample index (exclusive)
+}
+
+export const DEFAULT_CHUNKING_OPTIONS: ChunkingOptions = {
+  maxChunkSeconds: 45,
+  minChunkSeconds: 20,
+  windowMs: 50
+}
+
+/**
+ * Split mono PCM into consecutive chunks covering every sample.
+ * Recordings up to maxChunkSeconds come back as a single chunk
+ */
+export function findChunkBoundaries(
+  samples: Float32Array,
+  sampleRate: number,
+  options: Partial<ChunkingOptions> = {}
+): ChunkBoundary[] {
+  const { maxChunkSeconds, minChunkSeconds, windowMs } = { ...DEFAULT_CHUNKING_OPTIONS, ...options }
+  const maxLength = Math.max(1, Math.floor(maxChunkSeconds * sampleRate))
+  const minLength = Math.min(maxLength, Math.max(0, Math.floor(minChunkSeconds * sampleRate)))
+  const windowLength = Math.max(1, Math.floor((windowMs / 1000) * sampleRate))
+
+  const boundaries: ChunkBoundary[] = []
+  let start = 0
+
+  while (samples.length - start > maxLength) {
+    const end = findQuietestPoint(samples, start + minLength, start + maxLength, windowLength)
+    boundaries.push({ start, end })
+    start = end
+  }
+
+  boundaries.push({ start, end: samples.length })
+  return boundaries
+}
+
+/**
+ * Middle of the lowest-energy window in [from, to). Later windows win ties,
+ * so chunks stay as long as possible through stretches of silence
+ */
+function findQuietestPoint(samples: Float32Array, from: number, to: number, windowLength: number): number {
+  let quietest = to
+  let lowestEnergy = Infinity
+
+  for (let windowStart = from; windowStart + windowLength <= to; windowStart += windowLength) {
+    let energy = 0
+    for (let i = windowStart; i < windowStart + windowLength; i++) {
+      energy += samples[i] * samples[i]
+    }
+
+    if (energy <= lowestEnergy) {
+      lowestEnergy = energy
+      quietest = windowStart + Math.floor(windowLength / 2)
+    }
+  }
+
+  // A cut must make progress even with degenerate options
+  return Math.min(to, Math.max(quietest, from + 1))
+}
@@ -0,0 +1,309 @@
+/**
+ * Streaming speech clean-up stages
+ *
+ * Run inside the speech pre-processing AudioWorklet, one render quantum at a
+ * time, and kept free of Web Audio types so they can be unit tested:
+ * - NoiseGate: attenuates the signal between words
+ * - AutoGain: brings speech to a steady level (slow, so it doesn't pump)
+ * - SpectralNoiseSuppressor: subtracts a running estimate of the background
+ *   noise spectrum (café chatter, traffic, fans)
+ */
+
+export interface NoiseGateOptions {
+  thresholdDb: number // Opens above this envelope level (dBFS)
+  rangeDb: number     // Attenuation while closed (negative)
+  attackMs: number
+  holdMs: number      // Stays open this long after the level drops
+  releaseMs: number
+}
+
+export interface AutoGainOptions {
+  targetDb: number    // Speech level to aim for (RMS dBFS)
+  maxGainDb: number   // Never boost more than this
+  windowMs: number    // Level is measured over roughly this long
+}
+
+export interface NoiseSuppressorOptions {
+  overSubtraction: number // How much of the noise estimate to remove (1 = exactly)
+  spectralFloor: number   // Minimum gain per bin, limits "musical noise"
+}
+
+// Level below which AutoGain stops measuring (pauses, gated noise)
+const AUTO_GAIN_MEASURE_FLOOR_DB = -50
+// AutoGain turns down within this time, and up within the slower one
+const AUTO_GAIN_ATTACK_MS = 50
+const AUTO_GAIN_RELEASE_MS = 800
+// Envelope follower used by the gate to track peaks
+const GATE_ENVELOPE_RELEASE_MS = 10
+
+const dbToGain = (db: number) => Math.pow(10, db / 20)
+
+// One-pole smoothing coefficient reaching ~63% of a step in `ms`
+const smoothing = (ms: number, sampleRate: number) => 1 - Math.exp(-1 / Math.max(1, (ms / 1000) * sampleRate))
+
+export class NoiseGate {
+  private envelope = 0
+  private gain = 1
+  private holdRemaining = 0
+  private threshold = 0
+  private floor = 0
+  private attack = 0
+  private release = 0
+  private hold = 0
+  private envelopeRelease: number
+
+  constructor(private sampleRate: number, options: NoiseGateOptions) {
+    this.envelopeRelease = 1 - smoothing(GATE_ENVELOPE_RELEASE_MS, sampleRate)
+    this.setOptions(options)
+  }
+
+  setOptions(options: NoiseGateOptions): void {
+    this.threshold = dbToGain(options.thresholdDb)
+    this.floor = dbToGain(options.rangeDb)
+    this.attack = smoothing(options.attackMs, this.sampleRate)
+    this.release = smoothing(options.releaseMs, this.sampleRate)
+    this.hold = Math.round((options.holdMs / 1000) * this.sampleRate)
+  }
+
+  /**
+   * Gate `samples` in place
+   */
+  process(samples: Float32Array): void {
+    for (let i = 0; i < samples.length; i++) {
+      const level = Math.abs(samples[i])
+      this.envelope = level > this.envelope ? level : this.envelope * this.envelopeRelease
+
+      if (this.envelope >= this.threshold) {
+        this.holdRemaining = this.hold
+      } else if (this.holdRemaining > 0) {
+        this.holdRemaining--
+      }
+
+      const target = this.envelope >= this.threshold || this.holdRemaining > 0 ? 1 : this.floor
+      this.gain += (target - this.gain) * (target > this.gain ? this.attack : this.release)
+      samples[i] *= this.gain
+    }
+  }
+}
+
+export class AutoGain {
+  private meanSquare = 0
+  private gain = 1
+  private target = 0
+  private maxGain = 1
+  private windowMs = 0
+  private measureFloor = dbToGain(AUTO_GAIN_MEASURE_FLOOR_DB)
+
+  constructor(private sampleRate: number, options: AutoGainOptions) {
+    this.setOptions(options)
+  }
+
+  setOptions(options: AutoGainOptions): void {
+    this.target = dbToGain(options.targetDb)
+    this.maxGain = dbToGain(options.maxGainDb)
+    this.windowMs = options.windowMs
+  }
+
+  getGain(): number {
+    return this.gain
+  }
+
+  /**
+   * Level `samples` in place. Gain is updated once per block and ramped
+   * across it, so blocks are best kept short (a render quantum)
+   */
+  process(samples: Float32Array): void {
+    if (samples.length === 0) return
+
+    let sum = 0
+    for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i]
+    const blockMeanSquare = sum / samples.length
+
+    // Only speech moves the measurement; pauses keep the last level
+    if (Math.sqrt(blockMeanSquare) >= this.measureFloor) {
+      const blockMs = (samples.length / this.sampleRate) * 1000
+      const weight = Math.min(1, blockMs / this.windowMs)
+      this.meanSquare = this.meanSquare === 0 ? blockMeanSquare : this.meanSquare + (blockMeanSquare - this.meanSquare) * weight
+    }
+
+    const level = Math.sqrt(this.meanSquare)
+    const desired = level > 0 ? Math.min(this.target / level, this.maxGain) : this.gain
+    const rate = smoothing(desired < this.gain ? AUTO_GAIN_ATTACK_MS : AUTO_GAIN_RELEASE_MS, this.sampleRate)
+    const blockRate = 1 - Math.pow(1 - rate, samples.length)
+    const nextGain = this.gain + (desired - this.gain) * blockRate
+
+    for (let i = 0; i < samples.length; i++) {
+      const gain = this.gain + ((nextGain - this.gain) * (i + 1)) / samples.length
+      samples[i] = Math.max(-1, Math.min(1, samples[i] * gain))
+    }
+    this.gain = nextGain
+  }
+}
+
+/**
+ * In-place radix-2 FFT (inverse without the 1/N scaling)
+ */
+export function fft(re: Float32Array, im: Float32Array, inverse = false): void {
+  const n = re.length
+
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1
+    for (; j & bit; bit >>= 1) j ^= bit
+    j ^= bit
+    if (i < j) {
+      const swapRe = re[i]
+      re[i] = re[j]
+      re[j] = swapRe
+      const swapIm = im[i]
+      im[i] = im[j]
+      im[j] = swapIm
+    }
+  }
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = ((inverse ? 2 : -2) * Math.PI) / size
+    const stepRe = Math.cos(angle)
+    const stepIm = Math.sin(angle)
+    for (let start = 0; start < n; start += size) {
+      let wRe = 1
+      let wIm = 0
+      for (let k = 0; k < size / 2; k++) {
+        const a = start + k
+        const b = a + size / 2
+        const tRe = re[b] * wRe - im[b] * wIm
+        const tIm = re[b] * wIm + im[b] * wRe
+        re[b] = re[a] - tRe
+        im[b] = im[a] - tIm
+        re[a] += tRe
+        im[a] += tIm
+        const nextWRe = wRe * stepRe - wIm * stepIm
+        wIm = wRe * stepIm + wIm * stepRe
+        wRe = nextWRe
+      }
+    }
+  }
+}
+
+/**
+ * Spectral subtraction over 50%-overlapping frames (square-root Hann on
+ * both sides, so with nothing to remove the output is the input delayed by
+ * `latency` samples). The noise spectrum follows quiet frames quickly and
+ * louder ones very slowly, so it settles on the background between words
+ */
+export class SpectralNoiseSuppressor {
+  readonly latency: number
+  private readonly hop: number
+  private readonly window: Float32Array
+  private readonly analysis: Float32Array
+  private readonly overlap: Float32Array
+  private readonly re: Float32Array
+  private readonly im: Float32Array
+  private readonly noise: Float32Array
+  private readonly smoothedPower: Float32Array
+  private readonly previousGain: Float32Array
+  private readonly queue: Float32Array
+  private queueRead = 0
+  private queueLength = 0
+  private filled = 0
+  private frames = 0
+  private overSubtraction = 1
+  private spectralFloor = 0.1
+
+  constructor(options: NoiseSuppressorOptions, private readonly frameSize = 512) {
+    this.hop = frameSize / 2
+    this.latency = frameSize - 1
+    this.window = Float32Array.from({ length: frameSize }, (_, i) =>
+      Math.sqrt(0.5 - 0.5 * Math.cos((2 * Math.PI * i) / frameSize))
+    )
+    this.analysis = new Float32Array(frameSize)
+    this.overlap = new Float32Array(frameSize)
+    this.re = new Float32Array(frameSize)
+    this.im = new Float32Array(frameSize)
+    this.noise = new Float32Array(frameSize / 2 + 1)
+    this.smoothedPower = new Float32Array(frameSize / 2 + 1)
+    this.previousGain = new Float32Array(frameSize / 2 + 1).fill(1)
+    this.queue = new Float32Array(frameSize * 2)
+    this.setOptions(options)
+  }
+
+  setOptions(options: NoiseSuppressorOptions): void {
+    this.overSubtraction = options.overSubtraction
+    this.spectralFloor = options.spectralFloor
+  }
+
+  /**
+   * Denoise `input` into `output` (same length)
+   */
+  process(input: Float32Array, output: Float32Array): void {
+    for (let i = 0; i < input.length; i++) {
+      this.analysis[this.frameSize - this.hop + this.filled] = input[i]
+      if (++this.filled === this.hop) {
+        this.processFrame()
+        this.analysis.copyWithin(0, this.hop)
+        this.filled = 0
+      }
+
+      if (this.queueLength > 0) {
+        output[i] = this.queue[this.queueRead]
+        this.queueRead = (this.queueRead + 1) % this.queue.length
+        this.queueLength--
+      } else {
+        output[i] = 0 // Still filling the first frame
+      }
+    }
+  }
+
+  private processFrame(): void {
+    const { frameSize, hop, re, im, noise, smoothedPower, previousGain } = this
+
+    for (let i = 0; i < frameSize; i++) {
+      re[i] = this.analysis[i] * this.window[i]
+      im[i] = 0
+    }
+    fft(re, im)
+
+    this.frames++
+    for (let k = 0; k <= frameSize / 2; k++) {
+      const power = re[k] * re[k] + im[k] * im[k]
+      // Tracked on smoothed power, or the estimate follows the dips of the
+      // noise rather than its level
+      smoothedPower[k] = this.frames === 1 ? power : 0.8 * smoothedPower[k] + 0.2 * power
+
+      // Initial frames seed the estimate; then quiet bins pull it down fast
+      // and loud ones (speech) nudge it up slowly
+      if (this.frames <= 4) {
+        noise[k] += (power - noise[k]) / this.frames
+      } else if (smoothedPower[k] < noise[k]) {
+        noise[k] += (smoothedPower[k] - noise[k]) * 0.1
+      } else {
+        noise[k] += (smoothedPower[k] - noise[k]) * 0.005
+      }
+
+      const floor = this.spectralFloor * this.spectralFloor
+      const powerGain = power > 0 ? Math.max(floor, 1 - (this.overSubtraction * noise[k]) / power) : floor
+      // Smooth across frames against flickering bins
+      const gain = 0.5 * (Math.sqrt(powerGain) + previousGain[k])
+      previousGain[k] = gain
+
+      re[k] *= gain
+      im[k] *= gain
+      if (k > 0 && k < frameSize / 2) {
+        re[frameSize - k] = re[k]
+        im[frameSize - k] = -im[k]
+      }
+    }
+
+    fft(re, im, true)
+    for (let i = 0; i < frameSize; i++) {
+      this.overlap[i] += (re[i] / frameSize) * this.window[i]
+    }
+
+    for (let i = 0; i < hop; i++) {
+      const write = (this.queueRead + this.queueLength) % this.queue.length
+      this.queue[write] = this.overlap[i]
+      this.queueLength++
+    }
+    this.overlap.copyWithin(0, hop)
+    this.overlap.fill(0, frameSize - hop)
+  }
+}
@@ -0,0 +1,171 @@
+/**
+ * PCM processing and WAV encoding for uploads
+ *
+ * Pure functions so they run the same in the audio worker and on the main
+ * thread: downmix to mono, band-limited resampling, speech loudness
+ * normalization and 8/16-bit PCM WAV encoding (which Whisper accepts as-is).
+ */
+
+export type WavBitDepth = 8 | 16
+
+export interface LoudnessOptions {
+  targetRmsDb: number // Loudness of the speech parts (dBFS)
+  peakCeiling: number // Gain never pushes a peak above this (0..1)
+  maxGainDb: number   // Quiet recordings are boosted at most this much
+}
+
+export const DEFAULT_LOUDNESS_OPTIONS: LoudnessOptions = {
+  targetRmsDb: -20,
+  peakCeiling: 0.95,
+  maxGainDb: 20
+}
+
+// Sinc lobes on each side of the resampling kernel
+const RESAMPLE_ZERO_CROSSINGS = 8
+// Loudness is measured over blocks of this length...
+const LOUDNESS_BLOCK_SECONDS = 0.05
+// ...ignoring blocks below this level (pauses between words)
+const LOUDNESS_GATE_DB = -50
+
+const dbToGain = (db: number) => Math.pow(10, db / 20)
+
+/**
+ * Average all channels into one
+ */
+export function downmixToMono(channels: Float32Array[]): Float32Array {
+  if (channels.length === 0) return new Float32Array(0)
+  if (channels.length === 1) return channels[0].slice()
+
+  const length = Math.min(...channels.map(channel => channel.length))
+  const mono = new Float32Array(length)
+  for (const channel of channels) {
+    for (let i = 0; i < length; i++) {
+      mono[i] += channel[i] / channels.length
+    }
+  }
+  return mono
+}
+
+/**
+ * Windowed-sinc resampling. When downsampling the kernel low-passes at the
+ * new Nyquist frequency, so content above it is removed instead of aliased
+ */
+export function resample(samples: Float32Array, fromRate: number, toRate: number): Float32Array {
+  if (fromRate === toRate) return samples.slice()
+
+  const ratio = fromRate / toRate
+  const output = new Float32Array(Math.floor(samples.length / ratio))
+  const cutoff = Math.min(1, toRate / fromRate)
+  const halfWidth = Math.ceil(RESAMPLE_ZERO_CROSSINGS / cutoff)
+
+  for (let i = 0; i < output.length; i++) {
+    const center = i * ratio
+    const first = Math.max(0, Math.ceil(center - halfWidth))
+    const last = Math.min(samples.length - 1, Math.floor(center + halfWidth))
+
+    let sum = 0
+    let weightSum = 0
+    for (let j = first; j <= last; j++) {
+      const distance = j - center
+      const x = Math.PI * distance * cutoff
+      const sinc = x === 0 ? 1 : Math.sin(x) / x
+      const window = 0.5 + 0.5 * Math.cos((Math.PI * distance) / halfWidth) // Hann
+      const weight = sinc * window
+      sum += samples[j] * weight
+      weightSum += weight
+    }
+
+    // Normalizing by the kernel sum keeps the gain at 1 near the edges too
+    output[i] = weightSum !== 0 ? sum / weightSum : 0
+  }
+
+  return output
+}
+
+/**
+ * Bring speech to a consistent loudness. Level is measured only over blocks
+ * above the gate so pauses don't make a recording look quieter than it is
+ */
+export function normalizeLoudness(
+  samples: Float32Array,
+  sampleRate: number,
+  options: Partial<LoudnessOptions> = {}
+): { samples: Float32Array; gain: number } {
+  const { targetRmsDb, peakCeiling, maxGainDb } = { ...DEFAULT_LOUDNESS_OPTIONS, ...options }
+  const blockLength = Math.max(1, Math.floor(sampleRate * LOUDNESS_BLOCK_SECONDS))
+  const gate = dbToGain(LOUDNESS_GATE_DB)
+
+  let peak = 0
+  let gatedSum = 0
+  let gatedCount = 0
+
+  for (let start = 0; start < samples.length; start += blockLength) {
+    const end = Math.min(samples.length, start + blockLength)
+    let blockSum = 0
+    for (let i = start; i < end; i++) {
+      blockSum += samples[i] * samples[i]
+      peak = Math.max(peak, Math.abs(samples[i]))
+    }
+    if (Math.sqrt(blockSum / (end - start)) >= gate) {
+      gatedSum += blockSum
+      gatedCount += end - start
+    }
+  }
+
+  // Nothing above the gate: silence, leave it alone
+  if (gatedCount === 0 || peak === 0) {
+    return { samples: samples.slice(), gain: 1 }
+  }
+
+  const rms = Math.sqrt(gatedSum / gatedCount)
+  const gain = Math.min(dbToGain(targetRmsDb) / rms, peakCeiling / peak, dbToGain(maxGainDb))
+
+  const normalized = new Float32Array(samples.length)
+  for (let i = 0; i < samples.length; i++) {
+    normalized[i] = samples[i] * gain
+  }
+  return { samples: normalized, gain }
+}
+
+/**
+ * Encode mono PCM as a WAV file (16-bit signed or 8-bit unsigned)
+ */
+export function encodeWav(samples: Float32Array, sampleRate: number, bitsPerSample: WavBitDepth = 16): ArrayBuffer {
+  const bytesPerSample = bitsPerSample / 8
+  const dataLength = samples.length * bytesPerSample
+  const buffer = new ArrayBuffer(44 + dataLength)
+  const view = new DataView(buffer)
+
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) {
+      view.setUint8(offset + i, value.charCodeAt(i))
+    }
+  }
+
+  writeString(0, 'RIFF')
+  view.setUint32(4, 36 + dataLength, true)
+  writeString(8, 'WAVE')
+  writeString(12, 'fmt ')
+  view.setUint32(16, 16, true)
+  view.setUint16(20, 1, true) // PCM
+  view.setUint16(22, 1, true) // Mono
+  view.setUint32(24, sampleRate, true)
+  view.setUint32(28, sampleRate * bytesPerSample, true) // Byte rate
+  view.setUint16(32, bytesPerSample, true) // Block align
+  view.setUint16(34, bitsPerSample, true)
+  writeString(36, 'data')
+  view.setUint32(40, dataLength, true)
+
+  let offset = 44
+  for (let i = 0; i < samples.length; i++) {
+    const sample = Math.max(-1, Math.min(1, samples[i]))
+    if (bitsPerSample === 16) {
+      view.setInt16(offset, sample < 0 ? sample * 0x8000 : sample * 0x7FFF, true)
+    } else {
+      view.setUint8(offset, Math.round((sample + 1) * 127.5))
+    }
+    offset += bytesPerSample
+  }
+
+  return buffer
+}
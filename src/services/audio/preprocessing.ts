@@ -0,0 +1,227 @@
+/**
+ * Speech pre-processing between the microphone and the recorder
+ *
+ *   mic stream → high-pass → [AudioWorklet: noise suppressor → noise gate
+ *   → gain normalization] → recorder / level meter
+ *
+ * Each stage has its own level (off / gentle / strong), and environment
+ * presets set all four at once. The network quality config feeds in too:
+ * at low upload bitrates pauses are gated, so the encoder spends its bits on
+ * speech. Stages we run ourselves are switched off in the browser's own
+ * processing (getUserMedia constraints) so audio isn't processed twice.
+ */
+
+import { UserManager } from '@/lib/user/UserManager'
+import { QualityDegradationService, type QualityConfig } from '@/lib/quality-degradation'
+import type { AutoGainOptions, NoiseGateOptions, NoiseSuppressorOptions } from './dsp'
+import speechPreprocessorUrl from '@/workers/speechPreprocessor.worklet.ts?worker&url'
+
+export type PreprocessingStage = 'highPass' | 'noiseGate' | 'gainNormalization' | 'noiseSuppression'
+export type PreprocessingLevel = 'off' | 'gentle' | 'strong'
+export type PreprocessingSettings = Record<PreprocessingStage, PreprocessingLevel>
+export type PreprocessingEnvironment = 'off' | 'quiet' | 'cafe' | 'street'
+
+/**
+ * Concrete parameters for the graph; null stages are bypassed
+ */
+export interface PreprocessingConfig {
+  highPassHz: number | null
+  noiseGate: NoiseGateOptions | null
+  gainNormalization: AutoGainOptions | null
+  noiseSuppression: NoiseSuppressorOptions | null
+}
+
+export const PREPROCESSING_STAGES: PreprocessingStage[] = ['highPass', 'noiseGate', 'gainNormalization', 'noiseSuppression']
+
+export const ENVIRONMENT_PRESETS: Record<PreprocessingEnvironment, PreprocessingSettings> = {
+  off: { highPass: 'off', noiseGate: 'off', gainNormalization: 'off', noiseSuppression: 'off' },
+  quiet: { highPass: 'gentle', noiseGate: 'off', gainNormalization: 'gentle', noiseSuppression: 'off' },
+  cafe: { highPass: 'gentle', noiseGate: 'gentle', gainNormalization: 'gentle', noiseSuppression: 'gentle' },
+  street: { highPass: 'strong', noiseGate: 'strong', gainNormalization: 'strong', noiseSuppression: 'strong' }
+}
+
+export const DEFAULT_PREPROCESSING_SETTINGS = ENVIRONMENT_PRESETS.quiet
+
+const HIGH_PASS_HZ: Record<Exclude<PreprocessingLevel, 'off'>, number> = {
+  gentle: 80,  // Rumble, handling noise
+  strong: 150  // Traffic, wind; still below most voices' fundamentals
+}
+
+const NOISE_GATE: Record<Exclude<PreprocessingLevel, 'off'>, NoiseGateOptions> = {
+  gentle: { thresholdDb: -55, rangeDb: -20, attackMs: 5, holdMs: 200, releaseMs: 150 },
+  strong: { thresholdDb: -45, rangeDb: -40, attackMs: 5, holdMs: 150, releaseMs: 100 }
+}
+
+const GAIN_NORMALIZATION: Record<Exclude<PreprocessingLevel, 'off'>, AutoGainOptions> = {
+  gentle: { targetDb: -24, maxGainDb: 12, windowMs: 400 },
+  strong: { targetDb: -20, maxGainDb: 20, windowMs: 300 }
+}
+
+const NOISE_SUPPRESSION: Record<Exclude<PreprocessingLevel, 'off'>, NoiseSuppressorOptions> = {
+  gentle: { overSubtraction: 1.5, spectralFloor: 0.15 },
+  strong: { overSubtraction: 2.5, spectralFloor: 0.06 }
+}
+
+// At or below this upload bitrate pauses are gated even if the gate is off
+const LOW_BITRATE_GATE_BPS = 32000
+
+const PROCESSOR_NAME = 'speech-preprocessor'
+
+export function getPreprocessingSettings(): PreprocessingSettings {
+  return { ...DEFAULT_PREPROCESSING_SETTINGS, ...UserManager.getPreference<Partial<PreprocessingSettings>>('audioPreprocessing', {}) }
+}
+
+export function setPreprocessingSettings(settings: PreprocessingSettings): void {
+  UserManager.setPreference('audioPreprocessing', settings)
+}
+
+/**
+ * Environment preset matching the settings, or null for a custom mix
+ */
+export function matchEnvironmentPreset(settings: PreprocessingSettings): PreprocessingEnvironment | null {
+  const match = (Object.keys(ENVIRONMENT_PRESETS) as PreprocessingEnvironment[]).find(environment =>
+    PREPROCESSING_STAGES.every(stage => ENVIRONMENT_PRESETS[environment][stage] === settings[stage])
+  )
+  return match ?? null
+}
+
+/**
+ * Turn levels into graph parameters for the current network quality
+ */
+export function resolvePreprocessingConfig(
+  settings: PreprocessingSettings,
+  quality: QualityConfig = QualityDegradationService.getCurrentConfig()
+): PreprocessingConfig {
+  const level = (stage: PreprocessingStage) => settings[stage] === 'off' ? null : settings[stage] as Exclude<PreprocessingLevel, 'off'>
+  const anyStage = PREPROCESSING_STAGES.some(stage => settings[stage] !== 'off')
+
+  const gateLevel = level('noiseGate') ?? (anyStage && quality.audioBitsPerSecond <= LOW_BITRATE_GATE_BPS ? 'gentle' : null)
+  const highPassLevel = level('highPass')
+  const gainLevel = level('gainNormalization')
+  const suppressionLevel = level('noiseSuppression')
+
+  return {
+    // Keep the cutoff well under the upload's Nyquist frequency
+    highPassHz: highPassLevel ? Math.min(HIGH_PASS_HZ[highPassLevel], quality.audioSampleRate / 4) : null,
+    noiseGate: gateLevel ? NOISE_GATE[gateLevel] : null,
+    gainNormalization: gainLevel ? GAIN_NORMALIZATION[gainLevel] : null,
+    noiseSuppression: suppressionLevel ? NOISE_SUPPRESSION[suppressionLevel] : null
+  }
+}
+
+/**
+ * Turn off the browser's own noise suppression / gain control where the
+ * chain does that job, so the two don't fight
+ */
+export function applyPreprocessingToConstraints(
+  constraints: MediaStreamConstraints,
+  config: PreprocessingConfig
+): MediaStreamConstraints {
+  if (typeof constraints.audio !== 'object') return constraints
+
+  return {
+    ...constraints,
+    audio: {
+      ...constraints.audio,
+      ...(config.noiseSuppression ? { noiseSuppression: false } : {}),
+      ...(config.gainNormalization ? { autoGainControl: false } : {})
+    }
+  }
+}
+
+// Worklet modules only need loading once per context
+const workletContexts = new WeakSet<BaseAudioContext>()
+
+/**
+ * The Web Audio graph for one microphone stream. `stream` is what the
+ * recorder should use; `output` can feed analysers
+ */
+export class AudioPreprocessingChain {
+  private constructor(
+    private source: MediaStreamAudioSourceNode,
+    private highPass: BiquadFilterNode,
+    private processor: AudioWorkletNode | null,
+    private destination: MediaStreamAudioDestinationNode,
+    private config: PreprocessingConfig
+  ) {}
+
+  get stream(): MediaStream {
+    return this.destination.stream
+  }
+
+  get output(): AudioNode {
+    return this.processor ?? this.highPass
+  }
+
+  static async create(
+    context: AudioContext,
+    stream: MediaStream,
+    config: PreprocessingConfig
+  ): Promise<AudioPreprocessingChain> {
+    const source = context.createMediaStreamSource(stream)
+    const highPass = context.createBiquadFilter()
+    highPass.type = 'highpass'
+    highPass.Q.value = Math.SQRT1_2
+    const destination = context.createMediaStreamDestination()
+
+    let processor: AudioWorkletNode | null = null
+    if (context.audioWorklet && typeof AudioWorkletNode !== 'undefined') {
+      try {
+        if (!workletContexts.has(context)) {
+          await context.audioWorklet.addModule(speechPreprocessorUrl)
+          workletContexts.add(context)
+        }
+        processor = new AudioWorkletNode(context, PROCESSOR_NAME, {
+          numberOfInputs: 1,
+          numberOfOutputs: 1,
+          outputChannelCount: [1],
+          processorOptions: { config }
+        })
+      } catch (error) {
+        console.warn('⚠️ [Preprocessing] AudioWorklet unavailable, using the high-pass filter only:', error)
+      }
+    } else {
+      console.warn('⚠️ [Preprocessing] AudioWorklet not supported, using the high-pass filter only')
+    }
+
+    source.connect(highPass)
+    if (processor) {
+      highPass.connect(processor)
+      processor.connect(destination)
+    } else {
+      highPass.connect(destination)
+    }
+
+    const chain = new AudioPreprocessingChain(source, highPass, processor, destination, config)
+    chain.update(config)
+    console.log('🎛️ [Preprocessing] Chain ready:', chain.describe())
+    return chain
+  }
+
+  /**
+   * Apply new parameters without rebuilding the graph
+   */
+  update(config: PreprocessingConfig): void {
+    this.config = config
+    // A bypassed high-pass sits at the bottom of the audible range
+    this.highPass.frequency.value = config.highPassHz ?? 10
+    this.processor?.port.postMessage({ type: 'config', config })
+  }
+
+  describe(): string {
+    const stages = [
+      this.config.highPassHz ? `high-pass ${this.config.highPassHz}Hz` : null,
+      this.processor && this.config.noiseSuppression ? 'noise suppression' : null,
+      this.processor && this.config.noiseGate ? 'noise gate' : null,
+      this.processor && this.config.gainNormalization ? 'gain normalization' : null
+    ].filter(Boolean)
+    return stages.length > 0 ? stages.join(' → ') : 'bypassed'
+  }
+
+  disconnect(): void {
+    this.source.disconnect()
+    this.highPass.disconnect()
+    this.processor?.disconnect()
+    this.processor?.port.postMessage({ type: 'dispose' })
+  }
+}
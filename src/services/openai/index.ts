@@ -1,4 +1,6 @@
 // Removed duplicate OpenAI client - use getOpenAIClient from @/lib/openai instead
+import type { LanguageName } from '@/lib/languages/LanguageRegistry';
+import type { TranslationMode } from '@/lib/modes/ModeRegistry';
 
 export interface TranscriptionResult {
   text: string;
@@ -18,15 +20,10 @@ export interface TTSResult {
   duration: number;
 }
 
-export type Language = 'English' | 'Spanish' | 'Portuguese' | 'French' | 'German' | 'auto-detect';
-export type TranslationMode = 'casual' | 'fun';
-
-// Language mapping for Whisper API (for future use)
-// const LANGUAGE_CODES = {
-//   'English': 'en',
-//   'Spanish': 'es', 
-//   'Portuguese': 'pt'
-// } as const;
+// Full language names come from the shared language registry
+export type Language = LanguageName | 'auto-detect';
+// Built-in and user-defined modes come from the mode registry
+export type { TranslationMode };
 
 // Export all services (secure proxy versions)
 export * from './transcription-secure';
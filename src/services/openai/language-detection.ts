@@ -1,4 +1,6 @@
 import type { Language } from './index'
+import { LanguageRegistry } from '@/lib/languages/LanguageRegistry'
+import { LanguageIdentifier } from '@/lib/languages/LanguageIdentifier'
 
 /**
  * Smart Language Detection and Translation Direction Service
@@ -9,53 +11,10 @@ import type { Language } from './index'
  * 3. Ensuring one language is always English (as per requirements)
  */
 
-// Whisper language code mappings to our supported languages
-const WHISPER_TO_LANGUAGE_MAP: Record<string, Language> = {
-  'en': 'English',
-  'english': 'English',
-  'es': 'Spanish', 
-  'spanish': 'Spanish',
-  'pt': 'Portuguese',
-  'portuguese': 'Portuguese',
-  'pt-br': 'Portuguese', // Brazilian Portuguese
-  'pt-pt': 'Portuguese', // European Portuguese
-  'fr': 'French',
-  'french': 'French',
-  'de': 'German',
-  'german': 'German',
-}
-
 // Supported target languages (always non-English)
-const TARGET_LANGUAGES: Language[] = ['Spanish', 'Portuguese', 'French', 'German']
-
-// Pattern-based language detection patterns from translatorinfo.md
-const LANGUAGE_PATTERNS = {
-  spanish: {
-    commonWords: ['sí', 'no', 'gracias', 'hola', 'adiós', 'bien', 'bueno', 'cómo', 'qué', 'está', 'están', 'estoy', 'estás', 'es', 'son', 'tiene', 'tengo'],
-    uniqueChars: /[ñáéíóúü]/,
-    strongIndicators: ['cómo estás', 'qué tal', 'buenos días', 'buenas tardes', 'por favor']
-  },
-  portuguese: {
-    commonWords: ['sim', 'não', 'obrigado', 'obrigada', 'olá', 'tchau', 'como', 'que', 'está', 'estão', 'estou', 'é', 'são', 'tem', 'têm', 'tenho'],
-    uniqueChars: /[çãõâêô]/,
-    strongIndicators: ['como está', 'tudo bem', 'bom dia', 'boa tarde', 'por favor']
-  },
-  french: {
-    commonWords: ['oui', 'non', 'merci', 'bonjour', 'bonsoir', 'salut', 'au revoir', 'comment', 'bien', 'très', 'je', 'tu', 'il', 'elle', 'nous', 'vous', 'ils', 'avec', 'pour'],
-    uniqueChars: /[àâæçèéêëîïôœùûü]/,
-    strongIndicators: ['comment allez-vous', 'ça va', 'bonjour', 'bonsoir', 's\'il vous plaît', 'merci beaucoup']
-  },
-  german: {
-    commonWords: ['ja', 'nein', 'danke', 'hallo', 'guten', 'tag', 'auf', 'wiedersehen', 'wie', 'gut', 'sehr', 'ich', 'du', 'er', 'sie', 'wir', 'ihr', 'mit', 'für'],
-    uniqueChars: /[äöüß]/,
-    strongIndicators: ['wie geht es', 'guten tag', 'guten morgen', 'auf wiedersehen', 'bitte schön', 'danke schön']
-  },
-  english: {
-    commonWords: ['the', 'and', 'or', 'but', 'this', 'that', 'have', 'has', 'will', 'would', 'yes', 'no', 'hello', 'hi', 'thanks', 'please'],
-    suffixes: ['ing', 'tion', 'ness', 'ment', 'ly'],
-    strongIndicators: ['how are you', 'what is', 'thank you', 'please']
-  }
-}
+const TARGET_LANGUAGES: Language[] = LanguageRegistry.getAll()
+  .filter(language => language.code !== 'en')
+  .map(language => language.name as Language)
 
 export class LanguageDetectionService {
   /**
@@ -63,11 +22,11 @@ export class LanguageDetectionService {
    * Returns null if language is not supported
    */
   static mapWhisperLanguage(whisperLanguage: string): Language | null {
-    const normalizedLang = whisperLanguage.toLowerCase().trim()
-    const mapped = WHISPER_TO_LANGUAGE_MAP[normalizedLang]
+    const mapped = LanguageRegistry.toName(whisperLanguage)
     
     if (!mapped) {
-      console.warn(`❌ Unsupported language detected: "${whisperLanguage}". Only English, Spanish, Portuguese, French, and German are supported.`)
+      const supported = LanguageRegistry.getAll().map(language => language.name).join(', ')
+      console.warn(`❌ Unsupported language detected: "${whisperLanguage}". Supported languages: ${supported}.`)
       return null
     }
     
@@ -165,7 +124,7 @@ export class LanguageDetectionService {
    * Get all supported languages for the UI
    */
   static getSupportedLanguages(): Language[] {
-    return ['English', 'Spanish', 'Portuguese', 'French', 'German']
+    return LanguageRegistry.getAll().map(language => language.name as Language)
   }
 
   /**
@@ -186,30 +145,16 @@ export class LanguageDetectionService {
    * Get language display name for UI
    */
   static getLanguageDisplayName(language: Language): string {
-    switch (language) {
-      case 'English': return 'English'
-      case 'Spanish': return 'Español'
-      case 'Portuguese': return 'Português'
-      case 'French': return 'Français'
-      case 'German': return 'Deutsch'
-      case 'auto-detect': return 'Auto-detect'
-      default: return language
-    }
+    if (language === 'auto-detect') return 'Auto-detect'
+    return LanguageRegistry.getLanguage(language)?.nativeName ?? language
   }
 
   /**
    * Get appropriate flag emoji for language
    */
   static getLanguageFlag(language: Language): string {
-    switch (language) {
-      case 'English': return '🇺🇸'
-      case 'Spanish': return '🇪🇸'
-      case 'Portuguese': return '🇧🇷'
-      case 'French': return '🇫🇷'
-      case 'German': return '🇩🇪'
-      case 'auto-detect': return '🤖'
-      default: return '🌐'
-    }
+    if (language === 'auto-detect') return '🤖'
+    return LanguageRegistry.getLanguage(language)?.flag ?? '🌐'
   }
 
   /**
@@ -232,89 +177,27 @@ export class LanguageDetectionService {
   }
 
   /**
-   * Pattern-based language detection fallback
-   * Analyzes text patterns to determine language when Whisper detection is unreliable
+   * Text-based language detection fallback
+   * Uses the offline n-gram identifier when Whisper detection is unreliable.
+   * Returns null when the identifier is uncertain
    */
   static detectLanguageFromText(text: string): Language | null {
     if (!text || text.trim().length === 0) {
       return null
     }
 
-    const lowerText = text.toLowerCase()
-    const scores = {
-      spanish: 0,
-      portuguese: 0,
-      french: 0,
-      german: 0,
-      english: 0
-    }
-
-    // Check for strong indicators first
-    for (const indicator of LANGUAGE_PATTERNS.spanish.strongIndicators) {
-      if (lowerText.includes(indicator)) scores.spanish += 5
-    }
-    for (const indicator of LANGUAGE_PATTERNS.portuguese.strongIndicators) {
-      if (lowerText.includes(indicator)) scores.portuguese += 5
-    }
-    for (const indicator of LANGUAGE_PATTERNS.french.strongIndicators) {
-      if (lowerText.includes(indicator)) scores.french += 5
-    }
-    for (const indicator of LANGUAGE_PATTERNS.german.strongIndicators) {
-      if (lowerText.includes(indicator)) scores.german += 5
-    }
-    for (const indicator of LANGUAGE_PATTERNS.english.strongIndicators) {
-      if (lowerText.includes(indicator)) scores.english += 5
-    }
+    const identification = LanguageIdentifier.identify(text)
 
-    // Check for unique characters
-    if (LANGUAGE_PATTERNS.spanish.uniqueChars.test(text)) {
-      scores.spanish += 3
-    }
-    if (LANGUAGE_PATTERNS.portuguese.uniqueChars.test(text)) {
-      scores.portuguese += 3
-    }
-    if (LANGUAGE_PATTERNS.french.uniqueChars.test(text)) {
-      scores.french += 3
-    }
-    if (LANGUAGE_PATTERNS.german.uniqueChars.test(text)) {
-      scores.german += 3
-    }
-
-    // Check for common words
-    const words = lowerText.split(/\s+/)
-    for (const word of words) {
-      if (LANGUAGE_PATTERNS.spanish.commonWords.includes(word)) scores.spanish += 1
-      if (LANGUAGE_PATTERNS.portuguese.commonWords.includes(word)) scores.portuguese += 1
-      if (LANGUAGE_PATTERNS.french.commonWords.includes(word)) scores.french += 1
-      if (LANGUAGE_PATTERNS.german.commonWords.includes(word)) scores.german += 1
-      if (LANGUAGE_PATTERNS.english.commonWords.includes(word)) scores.english += 1
-      
-      // Check English suffixes
-      if (LANGUAGE_PATTERNS.english.suffixes.some(suffix => word.endsWith(suffix))) {
-        scores.english += 0.5
-      }
-    }
-
-    // Determine the language with highest score
-    const maxScore = Math.max(scores.spanish, scores.portuguese, scores.french, scores.german, scores.english)
-    
-    // Require a minimum score to be confident
-    if (maxScore < 2) {
-      console.warn('Pattern-based detection: No clear language pattern found')
+    if (identification.language === 'uncertain') {
+      console.warn(`Text-based detection: uncertain (best guess ${identification.bestGuess ?? 'none'}, confidence ${identification.confidence.toFixed(2)})`)
       return null
     }
 
-    if (scores.spanish === maxScore) return 'Spanish'
-    if (scores.portuguese === maxScore) return 'Portuguese'
-    if (scores.french === maxScore) return 'French'
-    if (scores.german === maxScore) return 'German'
-    if (scores.english === maxScore) return 'English'
-
-    return null
+    return LanguageRegistry.toName(identification.language) ?? null
   }
 
   /**
-   * Combined language detection with Whisper primary and pattern-based fallback
+   * Combined language detection with Whisper primary and text-based fallback
    */
   static detectLanguageWithFallback(whisperLanguage: string, transcribedText: string): Language | null {
     // First try Whisper's detection
@@ -325,16 +208,16 @@ export class LanguageDetectionService {
       return whisperDetected
     }
 
-    // If Whisper detected unsupported language, try pattern-based detection
-    console.log(`⚠️ Whisper detected unsupported language "${whisperLanguage}", trying pattern-based detection...`)
-    const patternDetected = this.detectLanguageFromText(transcribedText)
+    // If Whisper detected unsupported language, try text-based detection
+    console.log(`⚠️ Whisper detected unsupported language "${whisperLanguage}", trying text-based detection...`)
+    const textDetected = this.detectLanguageFromText(transcribedText)
     
-    if (patternDetected) {
-      console.log(`✅ Pattern-based detection found: ${patternDetected}`)
-      return patternDetected
+    if (textDetected) {
+      console.log(`✅ Text-based detection found: ${textDetected}`)
+      return textDetected
     }
 
-    console.error(`❌ Could not detect supported language. Whisper: "${whisperLanguage}", Pattern detection: failed`)
+    console.error(`❌ Could not detect supported language. Whisper: "${whisperLanguage}", text detection: failed`)
     return null
   }
 }
\ No newline at end of file
@@ -1,5 +1,5 @@
 import { getOpenAIProxyClient } from '@/lib/openai-proxy'
-import { calculateGPTCost, logApiCost } from '@/lib/openai'
+import { calculateGPTCost, recordApiCost } from '@/lib/openai'
 import { WorkflowRetry } from '@/lib/retry-logic'
 import { PromptService } from './prompts'
 import type { Language, TranslationMode, TranslationResult } from './index'
@@ -107,7 +107,13 @@ export class SecureTranslationService {
 
         // Calculate and log cost
         const cost = calculateGPTCost(usage.prompt_tokens, usage.completion_tokens)
-        logApiCost('GPT-4o-mini (secure)', cost)
+        recordApiCost('GPT-4o-mini (secure)', {
+          service: 'translation',
+          model: 'gpt-4o-mini',
+          cost,
+          inputTokens: usage.prompt_tokens,
+          outputTokens: usage.completion_tokens
+        })
         
         // Log performance
         console.log(`⚡ Secure Translation API: ${Date.now() - startTime}ms`)
@@ -146,6 +152,71 @@ export class SecureTranslationService {
     })
   }
 
+  /**
+   * Stream a translation using GPT-4o-mini via secure proxy
+   * Yields content deltas as they arrive and a final chunk with token usage.
+   * Not retried: a stream that already produced text can't be replayed, so
+   * callers fall back to translate() when the stream fails.
+   */
+  static async *translateStream(
+    text: string,
+    fromLang: Language,
+    toLang: Language,
+    mode: TranslationMode = 'casual',
+    context?: PromptContext
+  ): AsyncGenerator<{ delta?: string; inputTokens?: number; outputTokens?: number }> {
+    const startTime = Date.now()
+
+    console.log('🔒 [TRANSLATION-SECURE] Streaming translation:', fromLang, '→', toLang)
+
+    const prompt = PromptService.generateTranslationPrompt(
+      fromLang,
+      toLang,
+      mode,
+      context
+    );
+
+    const stream = getOpenAIProxyClient().createChatCompletionStream({
+      model: 'gpt-4o-mini',
+      messages: [
+        { role: 'system', content: prompt },
+        { role: 'user', content: text }
+      ],
+      temperature: 0.3,
+      max_tokens: 1000,
+    });
+
+    let firstTokenTime: number | null = null
+
+    for await (const chunk of stream) {
+      if (chunk.delta) {
+        if (firstTokenTime === null) {
+          firstTokenTime = Date.now() - startTime
+          console.log(`⚡ Secure Translation first token: ${firstTokenTime}ms`)
+        }
+        yield { delta: chunk.delta }
+      }
+
+      if (chunk.usage) {
+        const cost = calculateGPTCost(chunk.usage.prompt_tokens, chunk.usage.completion_tokens)
+        recordApiCost('GPT-4o-mini (secure, streamed)', {
+          service: 'translation',
+          model: 'gpt-4o-mini',
+          cost,
+          inputTokens: chunk.usage.prompt_tokens,
+          outputTokens: chunk.usage.completion_tokens
+        })
+
+        yield {
+          inputTokens: chunk.usage.prompt_tokens,
+          outputTokens: chunk.usage.completion_tokens,
+        }
+      }
+    }
+
+    console.log(`⚡ Secure Translation stream: ${Date.now() - startTime}ms`)
+  }
+
   /**
    * Get context for translation from recent conversation
    */
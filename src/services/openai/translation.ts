@@ -1,4 +1,4 @@
-import { getOpenAIClientWithAdaptiveTimeout, calculateGPTCost, logApiCost } from '@/lib/openai'
+import { getOpenAIClientWithAdaptiveTimeout, calculateGPTCost, recordApiCost } from '@/lib/openai'
 import { WorkflowRetry } from '@/lib/retry-logic'
 import { PromptService } from './prompts'
 import type { Language, TranslationMode, TranslationResult } from './index'
@@ -49,7 +49,13 @@ export class TranslationService {
 
         // Calculate and log cost
         const cost = calculateGPTCost(usage.prompt_tokens, usage.completion_tokens)
-        logApiCost('GPT-4o-mini', cost)
+        recordApiCost('GPT-4o-mini', {
+          service: 'translation',
+          model: 'gpt-4o-mini',
+          cost,
+          inputTokens: usage.prompt_tokens,
+          outputTokens: usage.completion_tokens
+        })
         
         // Log performance
         console.log(`⚡ Translation API: ${Date.now() - startTime}ms`)
@@ -121,7 +127,13 @@ export class TranslationService {
       const estimatedOutputTokens = Math.ceil(fullTranslation.length / 4)
       
       const cost = calculateGPTCost(estimatedInputTokens, estimatedOutputTokens)
-      logApiCost('GPT-4o-mini (stream)', cost)
+      recordApiCost('GPT-4o-mini (stream)', {
+        service: 'translation',
+        model: 'gpt-4o-mini',
+        cost,
+        inputTokens: estimatedInputTokens,
+        outputTokens: estimatedOutputTokens
+      })
       
       console.log(`⚡ Translation API (stream): ${Date.now() - startTime}ms`)
       
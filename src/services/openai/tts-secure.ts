@@ -1,7 +1,8 @@
 import { getOpenAIProxyClient } from '@/lib/openai-proxy'
-import { calculateTTSCost, logApiCost } from '@/lib/openai'
+import { calculateTTSCost, recordApiCost } from '@/lib/openai'
 import { WorkflowRetry } from '@/lib/retry-logic'
-import type { TTSResult } from './index'
+import { LanguageRegistry } from '@/lib/languages/LanguageRegistry'
+import type { TTSResult, TranslationMode } from './index'
 
 export type TTSVoice = 'alloy' | 'echo' | 'fable' | 'onyx' | 'nova' | 'shimmer';
 export type TTSSpeed = 0.25 | 0.5 | 0.75 | 1.0 | 1.25 | 1.5 | 1.75 | 2.0 | 2.25 | 2.5 | 2.75 | 3.0 | 3.25 | 3.5 | 3.75 | 4.0;
@@ -32,7 +33,7 @@ export class SecureTTSService {
         
         // Calculate and log cost
         const cost = calculateTTSCost(text.length)
-        logApiCost('TTS (secure)', cost)
+        recordApiCost('TTS (secure)', { service: 'tts', model: 'tts-1', cost, characters: text.length })
         
         // Estimate duration based on text length and speed
         // Rough calculation: ~150 words per minute at normal speed
@@ -69,10 +70,12 @@ export class SecureTTSService {
   ): TTSVoice {
     // OpenAI TTS voices work well for multiple languages
     // These are general recommendations based on voice characteristics
+    const languageCode = LanguageRegistry.toCode(language);
+    const isNonEnglish = !!languageCode && languageCode !== 'en';
     if (gender === 'female') {
-      return language === 'Spanish' || language === 'Portuguese' || language === 'French' || language === 'German' ? 'nova' : 'shimmer';
+      return isNonEnglish ? 'nova' : 'shimmer';
     } else if (gender === 'male') {
-      return language === 'Spanish' || language === 'Portuguese' || language === 'French' || language === 'German' ? 'onyx' : 'echo';
+      return isNonEnglish ? 'onyx' : 'echo';
     } else {
       return 'alloy'; // Neutral, works well for all languages
     }
@@ -81,7 +84,7 @@ export class SecureTTSService {
   /**
    * Get recommended speech speed based on translation mode
    */
-  static getRecommendedSpeed(mode: 'casual' | 'fun' = 'casual'): TTSSpeed {
+  static getRecommendedSpeed(mode: TranslationMode = 'casual'): TTSSpeed {
     // Slightly slower for casual conversations to ensure clarity
     // Normal speed for fun mode to maintain energy
     return mode === 'casual' ? 1.0 : 1.0;
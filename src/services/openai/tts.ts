@@ -1,6 +1,6 @@
-import { getOpenAIClientWithAdaptiveTimeout, calculateTTSCost, logApiCost } from '@/lib/openai'
+import { getOpenAIClientWithAdaptiveTimeout, calculateTTSCost, recordApiCost } from '@/lib/openai'
 import { WorkflowRetry } from '@/lib/retry-logic'
-import type { TTSResult } from './index'
+import type { TTSResult, TranslationMode } from './index'
 
 export type TTSVoice = 'alloy' | 'echo' | 'fable' | 'onyx' | 'nova' | 'shimmer';
 export type TTSSpeed = 0.25 | 0.5 | 0.75 | 1.0 | 1.25 | 1.5 | 1.75 | 2.0 | 2.25 | 2.5 | 2.75 | 3.0 | 3.25 | 3.5 | 3.75 | 4.0;
@@ -33,7 +33,7 @@ export class TTSService {
         
         // Calculate and log cost
         const cost = calculateTTSCost(text.length)
-        logApiCost('TTS', cost)
+        recordApiCost('TTS', { service: 'tts', model: 'tts-1', cost, characters: text.length })
         
         // Estimate duration based on text length and speed
         // Rough calculation: ~150 words per minute at normal speed
@@ -82,7 +82,7 @@ export class TTSService {
   /**
    * Get recommended speech speed based on translation mode
    */
-  static getRecommendedSpeed(mode: 'casual' | 'fun' = 'casual'): TTSSpeed {
+  static getRecommendedSpeed(mode: TranslationMode = 'casual'): TTSSpeed {
     // Slightly slower for casual conversations to ensure clarity
     // Normal speed for fun mode to maintain energy
     return mode === 'casual' ? 1.0 : 1.0;
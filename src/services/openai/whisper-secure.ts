@@ -1,6 +1,7 @@
 import { getOpenAIProxyClient } from '@/lib/openai-proxy'
-import { calculateWhisperCost, logApiCost } from '@/lib/openai'
+import { calculateWhisperCost, recordApiCost } from '@/lib/openai'
 import { WorkflowRetry } from '@/lib/retry-logic'
+import { LanguageRegistry, DEFAULT_LANGUAGE_CODE } from '@/lib/languages/LanguageRegistry'
 
 export interface SecureWhisperResponse {
   text: string
@@ -39,7 +40,7 @@ export class SecureWhisperService {
         
         // Calculate and log cost
         const cost = calculateWhisperCost(duration)
-        logApiCost('Whisper (secure)', cost)
+        recordApiCost('Whisper (secure)', { service: 'whisper', model: 'whisper-1', cost, seconds: duration })
         
         // Log performance
         console.log(`⚡ Secure Whisper API: ${Date.now() - startTime}ms`)
@@ -81,17 +82,8 @@ export class SecureWhisperService {
    * Detect language from Whisper response
    */
   static detectLanguage(whisperLanguage: string): string {
-    // Map Whisper language codes to our supported languages
-    const languageMap: Record<string, string> = {
-      'english': 'en',
-      'spanish': 'es',
-      'portuguese': 'pt',
-      'en': 'en',
-      'es': 'es',
-      'pt': 'pt',
-    }
-    
-    return languageMap[whisperLanguage.toLowerCase()] || 'en'
+    // Map Whisper language codes/names to our supported languages
+    return LanguageRegistry.fromWhisper(whisperLanguage) || DEFAULT_LANGUAGE_CODE
   }
 
   /**
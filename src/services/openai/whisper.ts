@@ -1,4 +1,4 @@
-import { getOpenAIClientWithAdaptiveTimeout, calculateWhisperCost, logApiCost } from '@/lib/openai'
+import { getOpenAIClientWithAdaptiveTimeout, calculateWhisperCost, recordApiCost } from '@/lib/openai'
 import { WorkflowRetry } from '@/lib/retry-logic'
 
 export interface WhisperResponse {
@@ -41,7 +41,7 @@ export class WhisperService {
         
         // Calculate and log cost
         const cost = calculateWhisperCost(duration)
-        logApiCost('Whisper', cost)
+        recordApiCost('Whisper', { service: 'whisper', model: 'whisper-1', cost, seconds: duration })
         
         // Log performance
         console.log(`⚡ Whisper API: ${Date.now() - startTime}ms`)
@@ -1,10 +1,12 @@
-import { describe, it, expect, beforeEach, vi, type Mock } from 'vitest'
+import { describe, it, expect, beforeEach, afterEach, vi, type Mock } from 'vitest'
 import { TranslationPipeline } from './TranslationPipeline'
+import { ProgressPreservationService } from '@/lib/progress-preservation'
 import type { 
   IWhisperService, 
   ITranslationService, 
   TranslationRequest, 
-  TranslationResult 
+  TranslationResult,
+  TranslationStreamEvent
 } from './types'
 
 // Mock dependencies
@@ -39,6 +41,17 @@ vi.mock('@/lib/user/UserManager', () => ({
   }
 }))
 
+// Mock progress tracking for chunked audio
+vi.mock('@/lib/progress-preservation', () => ({
+  ProgressPreservationService: {
+    createWorkflow: vi.fn(() => 'workflow-1'),
+    startStep: vi.fn(),
+    completeStep: vi.fn(),
+    failStep: vi.fn(),
+    getWorkflow: vi.fn(() => null)
+  }
+}))
+
 describe('TranslationPipeline', () => {
   let pipeline: TranslationPipeline
   
@@ -114,7 +127,12 @@ describe('TranslationPipeline', () => {
           totalTime: expect.any(Number)
         },
         inputTokens: 10,
-        outputTokens: 8
+        outputTokens: 8,
+        languageDetection: {
+          confidence: expect.any(Number),
+          uncertain: false,
+          candidates: expect.arrayContaining(['en'])
+        }
       })
 
       expect(mockTranslationService.translate).toHaveBeenCalledWith(
@@ -158,8 +176,86 @@ describe('TranslationPipeline', () => {
       )
     })
 
-    // Note: Portuguese detection test skipped due to overlap with other language patterns
-    // The pipeline supports Portuguese detection, but the regex patterns may overlap in edge cases
+    it('should tell Spanish and Portuguese apart', async () => {
+      const spanish = await pipeline.translate({
+        input: '¿Por qué no vienes con nosotros para la fiesta?',
+        inputType: 'text',
+        targetLanguage: 'en',
+        mode: 'casual'
+      })
+      const portuguese = await pipeline.translate({
+        input: 'Por que você não vem com a gente para a festa?',
+        inputType: 'text',
+        targetLanguage: 'en',
+        mode: 'casual'
+      })
+
+      expect(spanish.originalLanguageCode).toBe('es')
+      expect(portuguese.originalLanguageCode).toBe('pt')
+    })
+
+    it('should flag ambiguous text as uncertain and translate from the best guess', async () => {
+      const result = await pipeline.translate({
+        input: 'por favor',
+        inputType: 'text',
+        targetLanguage: 'en',
+        mode: 'casual'
+      })
+
+      expect(result.languageDetection?.uncertain).toBe(true)
+      expect(result.languageDetection?.candidates).toEqual(expect.arrayContaining(['es', 'pt']))
+      expect(result.originalLanguageCode).toBe(result.languageDetection?.candidates[0])
+    })
+
+    it('should use the source language when the caller provides one', async () => {
+      const result = await pipeline.translate({
+        input: 'por favor',
+        inputType: 'text',
+        sourceLanguage: 'es',
+        targetLanguage: 'en',
+        mode: 'casual'
+      })
+
+      expect(result.originalLanguageCode).toBe('es')
+      expect(result.languageDetection).toEqual({ confidence: 1, uncertain: false, candidates: ['es'] })
+      expect(mockTranslationService.translate).toHaveBeenCalledWith(
+        'por favor',
+        'Spanish',
+        'English',
+        'casual',
+        expect.any(Object)
+      )
+    })
+
+    it('should pass the glossary to translation and flag terms it ignored', async () => {
+      ;(mockTranslationService.translate as Mock).mockResolvedValue({
+        ...mockTranslationResult,
+        translatedText: 'Hola Gran Manzana'
+      })
+
+      const result = await pipeline.translate({
+        input: 'Hello Big Apple and Mooncake',
+        inputType: 'text',
+        sourceLanguage: 'en',
+        targetLanguage: 'es',
+        glossary: [
+          { id: '1', term: 'Big Apple', translation: 'Gran Manzana', from: 'en', to: 'es', createdAt: '' },
+          { id: '2', term: 'Mooncake', createdAt: '' }
+        ],
+        mode: 'casual'
+      })
+
+      expect(mockTranslationService.translate).toHaveBeenCalledWith(
+        'Hello Big Apple and Mooncake',
+        'English',
+        'Spanish',
+        'casual',
+        expect.objectContaining({
+          glossary: { mappings: [{ term: 'Big Apple', translation: 'Gran Manzana' }], keep: ['Mooncake'] }
+        })
+      )
+      expect(result.glossaryViolations).toEqual([{ term: 'Mooncake', expected: 'Mooncake' }])
+    })
 
     it('should detect French text correctly', async () => {
       const request: TranslationRequest = {
@@ -429,6 +525,126 @@ describe('TranslationPipeline', () => {
     })
   })
 
+  describe('Language Pair Mode', () => {
+    const languagePair = { own: 'pt', partner: 'fr' } as const
+
+    beforeEach(() => {
+      ;(mockWhisperService.transcribeAudio as Mock).mockResolvedValue({ text: 'Bonjour', language: 'french', duration: 1 })
+      ;(mockTranslationService.translate as Mock).mockResolvedValue({
+        originalText: 'Test',
+        translatedText: 'Teste',
+        originalLanguage: 'French',
+        targetLanguage: 'Portuguese',
+        inputTokens: 5,
+        outputTokens: 5
+      })
+    })
+
+    it('should translate the partner language into the own language', async () => {
+      ;(mockWhisperService.detectLanguage as Mock).mockReturnValue('fr')
+
+      const result = await pipeline.translate({
+        input: new Blob(['mock audio data'], { type: 'audio/webm' }),
+        inputType: 'audio',
+        targetLanguage: 'en',
+        languagePair,
+        mode: 'casual'
+      })
+
+      expect(result.targetLanguageCode).toBe('pt')
+      expect(result.outsideLanguagePair).toBe(false)
+    })
+
+    it('should translate the own language into the partner language', async () => {
+      ;(mockWhisperService.detectLanguage as Mock).mockReturnValue('pt')
+
+      const result = await pipeline.translate({
+        input: new Blob(['mock audio data'], { type: 'audio/webm' }),
+        inputType: 'audio',
+        targetLanguage: 'en',
+        languagePair,
+        mode: 'casual'
+      })
+
+      expect(result.targetLanguageCode).toBe('fr')
+    })
+
+    it('should flag a third language and translate it for the partner', async () => {
+      ;(mockWhisperService.detectLanguage as Mock).mockReturnValue('de')
+
+      const result = await pipeline.translate({
+        input: new Blob(['mock audio data'], { type: 'audio/webm' }),
+        inputType: 'audio',
+        targetLanguage: 'en',
+        languagePair,
+        mode: 'casual'
+      })
+
+      expect(result.outsideLanguagePair).toBe(true)
+      expect(result.targetLanguageCode).toBe('fr')
+    })
+
+    it('should resolve ambiguous text towards the pair languages', async () => {
+      const result = await pipeline.translate({
+        input: 'por favor',
+        inputType: 'text',
+        targetLanguage: 'en',
+        languagePair: { own: 'en', partner: 'pt' },
+        mode: 'casual'
+      })
+
+      expect(result.originalLanguageCode).toBe('pt')
+      expect(result.targetLanguageCode).toBe('en')
+      expect(result.outsideLanguagePair).toBe(false)
+    })
+  })
+
+  describe('Verification Stage', () => {
+    const verifier = { verify: vi.fn() }
+    const request: TranslationRequest = {
+      input: 'Hello world',
+      inputType: 'text',
+      sourceLanguage: 'en',
+      targetLanguage: 'es',
+      mode: 'casual'
+    }
+
+    beforeEach(() => {
+      pipeline.setVerifier(verifier)
+      ;(mockTranslationService.translate as Mock).mockResolvedValue({
+        originalText: 'Hello world',
+        translatedText: 'Hola mundo',
+        originalLanguage: 'English',
+        targetLanguage: 'Spanish'
+      })
+    })
+
+    it('should only verify when the request asks for it', async () => {
+      const result = await pipeline.translate(request)
+
+      expect(verifier.verify).not.toHaveBeenCalled()
+      expect(result.verification).toBeUndefined()
+    })
+
+    it('should attach the verification to the result', async () => {
+      verifier.verify.mockResolvedValue({ confidence: 0.9, possibleReply: false, backTranslation: 'Hello world' })
+
+      const result = await pipeline.translate({ ...request, verify: true })
+
+      expect(verifier.verify).toHaveBeenCalledWith('Hello world', 'Hola mundo', 'English', 'Spanish')
+      expect(result.verification).toEqual({ confidence: 0.9, possibleReply: false, backTranslation: 'Hello world' })
+    })
+
+    it('should still return the translation when verification fails', async () => {
+      verifier.verify.mockRejectedValue(new Error('verifier down'))
+
+      const result = await pipeline.translate({ ...request, verify: true })
+
+      expect(result.translation).toBe('Hola mundo')
+      expect(result.verification).toBeUndefined()
+    })
+  })
+
   describe('Context Handling', () => {
     beforeEach(() => {
       ;(mockTranslationService.translate as Mock).mockResolvedValue({
@@ -557,4 +773,239 @@ describe('TranslationPipeline', () => {
       expect(result.metrics.totalTime).toBeGreaterThanOrEqual(0)
     })
   })
-})
\ No newline at end of file
+
+  describe('Streaming Translation', () => {
+    afterEach(() => {
+      delete mockTranslationService.translateStream
+    })
+
+    const collect = async (request: TranslationRequest) => {
+      const events: TranslationStreamEvent[] = []
+      for await (const event of pipeline.translateStream(request)) {
+        events.push(event)
+      }
+      return events
+    }
+
+    async function* streamChunks(...chunks: Array<{ delta?: string; inputTokens?: number; outputTokens?: number }>) {
+      for (const chunk of chunks) {
+        yield chunk
+      }
+    }
+
+    it('should emit transcript before translation deltas for audio', async () => {
+      ;(mockWhisperService.transcribeAudio as Mock).mockResolvedValue({
+        text: 'Hello world',
+        language: 'english',
+        duration: 2.5
+      })
+      ;(mockWhisperService.detectLanguage as Mock).mockReturnValue('en')
+      mockTranslationService.translateStream = vi.fn(() => streamChunks(
+        { delta: 'Hola' },
+        { delta: ' mundo' },
+        { inputTokens: 12, outputTokens: 4 }
+      ))
+
+      const events = await collect({
+        input: new Blob(['mock audio data'], { type: 'audio/webm' }),
+        inputType: 'audio',
+        targetLanguage: 'es',
+        mode: 'casual'
+      })
+
+      expect(events.map(e => e.type)).toEqual([
+        'transcript',
+        'translation-delta',
+        'translation-delta',
+        'complete'
+      ])
+      expect(events[0]).toMatchObject({
+        type: 'transcript',
+        original: 'Hello world',
+        originalLanguageCode: 'en',
+        targetLanguageCode: 'es'
+      })
+      expect(events[2]).toMatchObject({ delta: ' mundo', translation: 'Hola mundo' })
+      expect(events[3]).toMatchObject({
+        type: 'complete',
+        result: {
+          original: 'Hello world',
+          translation: 'Hola mundo',
+          inputTokens: 12,
+          outputTokens: 4,
+          metrics: {
+            whisperTime: expect.any(Number),
+            translationTime: expect.any(Number),
+            totalTime: expect.any(Number)
+          }
+        }
+      })
+      expect(mockTranslationService.translateStream).toHaveBeenCalledWith(
+        'Hello world',
+        'English',
+        'Spanish',
+        'casual',
+        expect.any(Object)
+      )
+      expect(mockTranslationService.translate).not.toHaveBeenCalled()
+    })
+
+    it('should fall back to translate() when the service cannot stream', async () => {
+      delete mockTranslationService.translateStream
+      ;(mockTranslationService.translate as Mock).mockResolvedValue({
+        originalText: 'Hello',
+        translatedText: 'Hola',
+        originalLanguage: 'English',
+        targetLanguage: 'Spanish',
+        inputTokens: 5,
+        outputTokens: 2
+      })
+
+      const events = await collect({
+        input: 'Hello',
+        inputType: 'text',
+        targetLanguage: 'es',
+        mode: 'casual'
+      })
+
+      expect(events.map(e => e.type)).toEqual(['transcript', 'translation-delta', 'complete'])
+      expect(events[2]).toMatchObject({
+        result: { translation: 'Hola', inputTokens: 5, outputTokens: 2 }
+      })
+    })
+
+    it('should rethrow stream errors after tokens were emitted', async () => {
+      mockTranslationService.translateStream = vi.fn(async function* () {
+        yield { delta: 'Hola' }
+        throw new Error('Stream dropped')
+      })
+
+      const events: TranslationStreamEvent[] = []
+      await expect(async () => {
+        for await (const event of pipeline.translateStream({
+          input: 'Hello',
+          inputType: 'text',
+          targetLanguage: 'es',
+          mode: 'casual'
+        })) {
+          events.push(event)
+        }
+      }).rejects.toThrow('Stream dropped')
+
+      expect(events.map(e => e.type)).toEqual(['transcript', 'translation-delta'])
+      expect(mockTranslationService.translate).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('Chunked Audio', () => {
+    const chunkRequest = (texts: string[]): TranslationRequest => ({
+      input: new Blob(['mock audio data'], { type: 'audio/wav' }),
+      inputType: 'audio',
+      audioChunks: texts.map((_, index) => ({
+        audio: new Blob([`chunk ${index}`], { type: 'audio/wav' }),
+        startTime: index * 45,
+        endTime: (index + 1) * 45
+      })),
+      targetLanguage: 'es',
+      mode: 'casual',
+      messageId: 'message-1'
+    })
+
+    const mockChunkTranscripts = (texts: string[], delaysMs: number[] = []) => {
+      ;(mockWhisperService.transcribeAudio as Mock).mockImplementation(async (file: File) => {
+        const index = Number(file.name.match(/chunk-(\d+)/)![1]) - 1
+        await new Promise(resolve => setTimeout(resolve, delaysMs[index] ?? 0))
+        return { text: texts[index], language: 'english', duration: 45 }
+      })
+    }
+
+    beforeEach(() => {
+      ;(mockWhisperService.detectLanguage as Mock).mockReturnValue('en')
+      ;(mockTranslationService.translate as Mock).mockImplementation(async (text: string) => ({
+        originalText: text,
+        translatedText: `[es] ${text}`,
+        originalLanguage: 'English',
+        targetLanguage: 'Spanish',
+        inputTokens: 10,
+        outputTokens: 10
+      }))
+    })
+
+    it('should stitch chunk transcripts in order and translate them together', async () => {
+      const texts = ['First part.', 'Second part.', 'Third part.']
+      mockChunkTranscripts(texts)
+
+      const result = await pipeline.translate(chunkRequest(texts))
+
+      expect(mockWhisperService.transcribeAudio).toHaveBeenCalledTimes(3)
+      expect(result.original).toBe('First part.\n\nSecond part.\n\nThird part.')
+      expect(mockTranslationService.translate).toHaveBeenCalledTimes(1)
+      expect(result.metrics.chunkCount).toBe(3)
+    })
+
+    it('should prompt a chunk with the previous transcript once it is known', async () => {
+      const texts = ['One.', 'Two.', 'Three.', 'Four.']
+      // The third chunk finishes first, so the fourth takes its slot
+      mockChunkTranscripts(texts, [20, 10, 0])
+
+      await pipeline.translate(chunkRequest(texts))
+
+      const prompts = (mockWhisperService.transcribeAudio as Mock).mock.calls.map(([file, prompt]) => [file.name, prompt])
+      expect(prompts[0]).toEqual(['chunk-1.wav', 'This is a casual conversation.'])
+      expect(prompts[3][0]).toBe('chunk-4.wav')
+      expect(prompts[3][1]).toContain('Three.')
+    })
+
+    it('should report progress per chunk and for the translation', async () => {
+      const texts = ['First part.', 'Second part.']
+      mockChunkTranscripts(texts)
+
+      await pipeline.translate(chunkRequest(texts))
+
+      const [steps, messageId] = (ProgressPreservationService.createWorkflow as Mock).mock.calls[0]
+      expect(steps.map((step: { id: string }) => step.id)).toEqual(['chunk-1', 'chunk-2', 'translation'])
+      expect(messageId).toBe('message-1')
+      expect(ProgressPreservationService.completeStep).toHaveBeenCalledWith('workflow-1', 0)
+      expect(ProgressPreservationService.completeStep).toHaveBeenCalledWith('workflow-1', 1)
+      expect(ProgressPreservationService.completeStep).toHaveBeenCalledWith('workflow-1', 2)
+    })
+
+    it('should fail the chunk step when a chunk cannot be transcribed', async () => {
+      ;(mockWhisperService.transcribeAudio as Mock).mockRejectedValue(new Error('Upload failed'))
+
+      await expect(pipeline.translate(chunkRequest(['a', 'b']))).rejects.toThrow('Upload failed')
+
+      expect(ProgressPreservationService.failStep).toHaveBeenCalledWith('workflow-1', 0, expect.any(Error))
+      expect(mockTranslationService.translate).not.toHaveBeenCalled()
+    })
+
+    it('should translate long stitched transcripts paragraph by paragraph', async () => {
+      const texts = ['a'.repeat(1500), 'b'.repeat(1500)]
+      mockChunkTranscripts(texts)
+
+      const result = await pipeline.translate(chunkRequest(texts))
+
+      expect(mockTranslationService.translate).toHaveBeenCalledTimes(2)
+      expect(result.translation).toBe(`[es] ${texts[0]}\n\n[es] ${texts[1]}`)
+      expect(result.inputTokens).toBe(20)
+    })
+
+    it('should translate long stitched transcripts paragraph by paragraph when streaming', async () => {
+      const texts = ['a'.repeat(1500), 'b'.repeat(1500)]
+      mockChunkTranscripts(texts)
+      mockTranslationService.translateStream = vi.fn()
+
+      let result: TranslationResult | undefined
+      try {
+        for await (const event of pipeline.translateStream(chunkRequest(texts))) {
+          if (event.type === 'complete') result = event.result
+        }
+      } finally {
+        delete mockTranslationService.translateStream
+      }
+
+      expect((mockTranslationService.translate as Mock).mock.calls.map(([text]) => text)).toEqual(texts)
+      expect(result?.translation).toBe(`[es] ${texts[0]}\n\n[es] ${texts[1]}`)
+    })
+  })
+})
@@ -1,24 +1,51 @@
 import { performanceLogger } from '@/lib/performance'
 import { ConversationContextManager } from '@/lib/conversation/ConversationContext'
 import { UserManager } from '@/lib/user/UserManager'
+import { LanguageRegistry, DEFAULT_LANGUAGE_CODE } from '@/lib/languages/LanguageRegistry'
+import { LanguageIdentifier } from '@/lib/languages/LanguageIdentifier'
+import { GlossaryManager, type GlossaryViolation, type ResolvedGlossary } from '@/lib/glossary/GlossaryManager'
+import { ProgressPreservationService } from '@/lib/progress-preservation'
 import type { 
+  AudioChunkInput,
   TranslationRequest, 
   TranslationResult, 
   ITranslationPipeline, 
   IWhisperService, 
-  ITranslationService 
+  ITranslationService,
+  ITranslationVerifier,
+  TranslationStreamEvent,
+  TextLanguageDetection,
+  TranslationVerification
 } from './types'
 
+// Chunked audio: chunks transcribed at once. Each chunk is prompted with the
+// previous chunk's transcript when that is already known (always, with 1)
+const CHUNK_CONCURRENCY = 3
+const CHUNK_PROMPT_CHARS = 200
+// Stitched transcripts longer than this are translated paragraph by paragraph
+const MAX_WHOLE_TRANSLATION_CHARS = 2500
+
+type Transcription = { text: string; language: string; duration: number; provider?: string }
+
+// Workflow tracking a chunked recording: one step per chunk, then translation
+interface ChunkProgress {
+  workflowId?: string
+  translationStep?: number
+}
+
 export class TranslationPipeline implements ITranslationPipeline {
   private whisperService: IWhisperService | null = null
   private translationService: ITranslationService | null = null
+  private verifier: ITranslationVerifier | null = null
 
   constructor(
     whisperService?: IWhisperService,
-    translationService?: ITranslationService
+    translationService?: ITranslationService,
+    verifier?: ITranslationVerifier
   ) {
     this.whisperService = whisperService || null
     this.translationService = translationService || null
+    this.verifier = verifier || null
   }
 
   setWhisperService(service: IWhisperService): void {
@@ -29,6 +56,10 @@ export class TranslationPipeline implements ITranslationPipeline {
     this.translationService = service
   }
 
+  setVerifier(verifier: ITranslationVerifier | null): void {
+    this.verifier = verifier
+  }
+
   async translate(request: TranslationRequest): Promise<TranslationResult> {
     const totalStartTime = Date.now()
     
@@ -39,80 +70,410 @@ export class TranslationPipeline implements ITranslationPipeline {
       hasContext: !!request.context
     })
 
+    const progress: ChunkProgress = {}
+
     try {
       if (request.inputType === 'audio') {
-        return await this._handleAudioTranslation(request, totalStartTime)
+        return await this._handleAudioTranslation(request, totalStartTime, progress)
       } else {
         return await this._handleTextTranslation(request, totalStartTime)
       }
     } catch (error) {
       console.error('❌ [TranslationPipeline] Translation failed:', error)
+      this._updateTranslationProgress(progress, 'fail', error as Error)
       throw error
     }
   }
 
-  private async _handleAudioTranslation(
-    request: TranslationRequest,
-    totalStartTime: number
-  ): Promise<TranslationResult> {
-    if (!this.whisperService) {
-      throw new Error('WhisperService not configured')
+  /**
+   * Streaming variant of translate(): yields the transcript as soon as it is
+   * known, then translation deltas as the chat completion streams in, and
+   * finally the same TranslationResult that translate() would resolve with
+   */
+  async *translateStream(request: TranslationRequest): AsyncGenerator<TranslationStreamEvent, void, undefined> {
+    const progress: ChunkProgress = {}
+
+    try {
+      yield* this._streamTranslation(request, progress)
+    } catch (error) {
+      this._updateTranslationProgress(progress, 'fail', error as Error)
+      throw error
     }
+  }
+
+  private async *_streamTranslation(
+    request: TranslationRequest,
+    progress: ChunkProgress
+  ): AsyncGenerator<TranslationStreamEvent, void, undefined> {
+    const totalStartTime = Date.now()
+
+    console.log('🚀 [TranslationPipeline] Starting streaming translation request:', {
+      inputType: request.inputType,
+      targetLanguage: request.targetLanguage,
+      mode: request.mode
+    })
+
     if (!this.translationService) {
       throw new Error('TranslationService not configured')
     }
 
+    // Step 1: Transcript (Whisper for audio, input text as-is for text)
+    let original: string
+    let detectedLangCode: string
+    let whisperTime: number | undefined
+    let transcriptionProvider: string | undefined
+    let chunkCount: number | undefined
+    let languageDetection: TextLanguageDetection | undefined
+
+    if (request.inputType === 'audio') {
+      const transcription = await this._transcribeAudio(request, progress)
+      original = transcription.transcriptionResult.text
+      detectedLangCode = transcription.detectedLangCode
+      whisperTime = transcription.whisperTime
+      transcriptionProvider = transcription.transcriptionResult.provider
+      chunkCount = transcription.chunkCount
+    } else {
+      original = request.input as string
+      const detection = this._detectTextLanguage(original, request)
+      detectedLangCode = detection.code
+      languageDetection = detection.languageDetection
+    }
+
+    const { detectedLang, actualTargetLanguage, targetLangFull, outsideLanguagePair } = 
+      this._processLanguageDetection(detectedLangCode, request)
+
+    yield {
+      type: 'transcript',
+      original,
+      detectedLanguage: detectedLang,
+      originalLanguageCode: detectedLangCode,
+      targetLanguageCode: actualTargetLanguage,
+      whisperTime,
+      ...(languageDetection ? { languageDetection } : {})
+    }
+
+    // Step 2: Streamed translation
+    performanceLogger.start('translation')
+    this._updateTranslationProgress(progress, 'start')
+    const translationStart = Date.now()
+    const translationContext = this._buildTranslationContext(request, detectedLangCode, actualTargetLanguage)
+    const paragraphs = this._splitForTranslation(original, chunkCount)
+
+    let translation = ''
+    let inputTokens: number | undefined
+    let outputTokens: number | undefined
+    let translationProvider: string | undefined
+
+    try {
+      // Too long for one request: translated a paragraph (chunk) at a time below
+      if (paragraphs) {
+        throw new Error('Transcript too long to translate in one stream')
+      }
+      if (!this.translationService.translateStream) {
+        throw new Error('TranslationService does not support streaming')
+      }
+
+      const chunks = this.translationService.translateStream(
+        original,
+        detectedLang,
+        targetLangFull,
+        request.mode,
+        translationContext
+      )
+
+      for await (const chunk of chunks) {
+        if (chunk.inputTokens !== undefined) inputTokens = chunk.inputTokens
+        if (chunk.outputTokens !== undefined) outputTokens = chunk.outputTokens
+        if (chunk.provider) translationProvider = chunk.provider
+        if (!chunk.delta) continue
+
+        translation += chunk.delta
+        yield { type: 'translation-delta', delta: chunk.delta, translation }
+      }
+    } catch (error) {
+      // Once tokens have been shown we can't take them back, so only fall
+      // back to the (retried) non-streaming call if nothing arrived yet
+      if (translation) {
+        performanceLogger.end('translation')
+        throw error
+      }
+
+      console.warn('⚠️ [TranslationPipeline] Streaming unavailable, falling back to translate():', error)
+      const translationResult = paragraphs
+        ? await this._translateParagraphs(paragraphs, detectedLang, targetLangFull, request.mode, translationContext)
+        : await this.translationService.translate(
+            original,
+            detectedLang,
+            targetLangFull,
+            request.mode,
+            translationContext
+          )
+      translation = translationResult.translatedText
+      inputTokens = translationResult.inputTokens
+      outputTokens = translationResult.outputTokens
+      translationProvider = translationResult.provider
+      yield { type: 'translation-delta', delta: translation, translation }
+    }
+
+    translation = translation.trim()
+    if (!translation) {
+      performanceLogger.end('translation')
+      throw new Error('No translation received from API')
+    }
+
+    const translationTime = Date.now() - translationStart
+    performanceLogger.end('translation')
+    this._updateTranslationProgress(progress, 'complete')
+
+    const glossaryViolations = this._verifyGlossary(translationContext.glossary, original, translation)
+    const verification = await this._verifyTranslation(request, original, translation, detectedLang, targetLangFull)
+    const totalTime = Date.now() - totalStartTime
+
+    yield {
+      type: 'complete',
+      result: {
+        original,
+        translation,
+        detectedLanguage: detectedLang,
+        originalLanguageCode: detectedLangCode,
+        targetLanguageCode: actualTargetLanguage,
+        metrics: {
+          ...(whisperTime !== undefined ? { whisperTime } : {}),
+          translationTime,
+          totalTime,
+          ...this._providerMetrics(transcriptionProvider, translationProvider),
+          ...(chunkCount ? { chunkCount } : {})
+        },
+        inputTokens,
+        outputTokens,
+        ...(languageDetection ? { languageDetection } : {}),
+        ...(outsideLanguagePair !== undefined ? { outsideLanguagePair } : {}),
+        ...(glossaryViolations ? { glossaryViolations } : {}),
+        ...(verification ? { verification } : {})
+      }
+    }
+  }
+
+  private async _transcribeAudio(request: TranslationRequest, progress: ChunkProgress): Promise<{
+    transcriptionResult: Transcription
+    detectedLangCode: string
+    whisperTime: number
+    chunkCount?: number
+  }> {
+    if (!this.whisperService) {
+      throw new Error('WhisperService not configured')
+    }
+
     const audioBlob = request.input as Blob
-    let whisperTime = 0
-    let translationTime = 0
 
-    // Step 1: Whisper transcription with conversation context
     performanceLogger.start('whisper-transcription')
     const whisperStart = Date.now()
     
-    // Build Whisper context from conversation history
-    const whisperContext = request.context?.conversationContext 
-      ? ConversationContextManager.buildWhisperContext(request.context.conversationContext)
+    // Build Whisper context from conversation history and glossary spellings
+    const glossaryTerms = GlossaryManager.getWhisperTerms(request.glossary ?? [])
+    const whisperContext = request.context?.conversationContext || glossaryTerms.length > 0
+      ? ConversationContextManager.buildWhisperContext(request.context?.conversationContext ?? [], glossaryTerms)
       : null
     
-    // Convert Blob to File for WhisperService
-    const audioFile = new File([audioBlob], 'recording.webm', { type: audioBlob.type })
+    const basePrompt = whisperContext || 'This is a casual conversation.'
+    const chunks = request.audioChunks && request.audioChunks.length > 1 ? request.audioChunks : null
     
-    const transcriptionResult = await this.whisperService.transcribeAudio(
-      audioFile,
-      whisperContext || 'This is a casual conversation.'
-    )
+    let transcriptionResult: Transcription
+    if (chunks) {
+      const glossaryHint = glossaryTerms.length > 0 ? ConversationContextManager.buildWhisperContext([], glossaryTerms) : ''
+      transcriptionResult = await this._transcribeChunks(chunks, request, basePrompt, glossaryHint, progress)
+    } else {
+      // Convert Blob to File for WhisperService
+      const audioFile = new File([audioBlob], 'recording.webm', { type: audioBlob.type })
+      transcriptionResult = await this.whisperService.transcribeAudio(audioFile, basePrompt)
+    }
     
-    whisperTime = Date.now() - whisperStart
+    const whisperTime = Date.now() - whisperStart
     performanceLogger.end('whisper-transcription')
 
     if (!transcriptionResult.text) {
       throw new Error('No transcription received from Whisper')
     }
 
+    return {
+      transcriptionResult,
+      detectedLangCode: this.whisperService.detectLanguage(transcriptionResult.language),
+      whisperTime,
+      ...(chunks ? { chunkCount: chunks.length } : {})
+    }
+  }
+
+  /**
+   * Transcribe a long recording chunk by chunk and stitch the transcripts
+   * into one text, a paragraph per chunk. Progress is reported per chunk
+   * through ProgressPreservationService
+   */
+  private async _transcribeChunks(
+    chunks: AudioChunkInput[],
+    request: TranslationRequest,
+    basePrompt: string,
+    glossaryHint: string,
+    progress: ChunkProgress
+  ): Promise<Transcription> {
+    const whisperService = this.whisperService!
+    const workflowId = ProgressPreservationService.createWorkflow([
+      ...chunks.map((chunk, index) => ({
+        id: `chunk-${index + 1}`,
+        type: 'transcription' as const,
+        data: { startTime: chunk.startTime, endTime: chunk.endTime }
+      })),
+      { id: 'translation', type: 'translation' as const }
+    ], request.messageId)
+    progress.workflowId = workflowId
+    progress.translationStep = chunks.length
+
+    console.log(`✂️ [TranslationPipeline] Transcribing ${chunks.length} chunks`)
+
+    const results: Array<Transcription | undefined> = new Array(chunks.length)
+    let nextIndex = 0
+    let failed = false
+
+    const transcribeNext = async (): Promise<void> => {
+      while (!failed && nextIndex < chunks.length) {
+        const index = nextIndex++
+        const chunk = chunks[index]
+        const previousText = results[index - 1]?.text.trim()
+        const prompt = previousText
+          ? [glossaryHint, previousText.slice(-CHUNK_PROMPT_CHARS)].filter(Boolean).join(' ')
+          : basePrompt
+
+        ProgressPreservationService.startStep(workflowId, index)
+        try {
+          const audioFile = new File([chunk.audio], `chunk-${index + 1}.wav`, { type: chunk.audio.type })
+          results[index] = await whisperService.transcribeAudio(audioFile, prompt)
+          ProgressPreservationService.completeStep(workflowId, index)
+        } catch (error) {
+          failed = true
+          ProgressPreservationService.failStep(workflowId, index, error as Error)
+          throw error
+        }
+      }
+    }
+
+    await Promise.all(
+      Array.from({ length: Math.min(CHUNK_CONCURRENCY, chunks.length) }, () => transcribeNext())
+    )
+
+    const transcribed = results.filter((result): result is Transcription => !!result?.text.trim())
+    // The chunk with the most speech decides the language
+    const main = transcribed.reduce<Transcription | undefined>(
+      (longest, result) => (!longest || result.text.length > longest.text.length ? result : longest),
+      undefined
+    )
+
+    return {
+      text: transcribed.map(result => result.text.trim()).join('\n\n'),
+      language: main?.language ?? 'unknown',
+      duration: results.reduce((total, result) => total + (result?.duration ?? 0), 0),
+      ...(main?.provider ? { provider: main.provider } : {})
+    }
+  }
+
+  /**
+   * Stitched transcripts too long for one request are translated a paragraph
+   * at a time. Returns null when the text goes out in one piece
+   */
+  private _splitForTranslation(text: string, chunkCount?: number): string[] | null {
+    if (!chunkCount || text.length <= MAX_WHOLE_TRANSLATION_CHARS) return null
+
+    const paragraphs = text.split('\n\n').filter(paragraph => paragraph.trim())
+    return paragraphs.length > 1 ? paragraphs : null
+  }
+
+  private async _translateParagraphs(
+    paragraphs: string[],
+    fromLang: string,
+    toLang: string,
+    mode: string,
+    context: ReturnType<TranslationPipeline['_buildTranslationContext']>
+  ): Promise<{ translatedText: string; inputTokens: number; outputTokens: number; provider?: string }> {
+    const translated: string[] = []
+    let inputTokens = 0
+    let outputTokens = 0
+    let provider: string | undefined
+
+    for (const paragraph of paragraphs) {
+      const result = await this.translationService!.translate(paragraph, fromLang, toLang, mode, context)
+      translated.push(result.translatedText.trim())
+      inputTokens += result.inputTokens ?? 0
+      outputTokens += result.outputTokens ?? 0
+      provider = result.provider ?? provider
+    }
+
+    return { translatedText: translated.join('\n\n'), inputTokens, outputTokens, ...(provider ? { provider } : {}) }
+  }
+
+  /**
+   * Report the translation stage as the last step of a chunked recording's workflow
+   */
+  private _updateTranslationProgress(progress: ChunkProgress, update: 'start' | 'complete' | 'fail', error?: Error): void {
+    const { workflowId, translationStep } = progress
+    if (!workflowId || translationStep === undefined) return
+
+    if (update === 'start') {
+      ProgressPreservationService.startStep(workflowId, translationStep)
+    } else if (update === 'complete') {
+      ProgressPreservationService.completeStep(workflowId, translationStep)
+    } else if (ProgressPreservationService.getWorkflow(workflowId)?.steps[translationStep]?.status === 'in-progress') {
+      ProgressPreservationService.failStep(workflowId, translationStep, error ?? new Error('Translation failed'))
+    }
+  }
+
+  private async _handleAudioTranslation(
+    request: TranslationRequest,
+    totalStartTime: number,
+    progress: ChunkProgress
+  ): Promise<TranslationResult> {
+    if (!this.whisperService) {
+      throw new Error('WhisperService not configured')
+    }
+    if (!this.translationService) {
+      throw new Error('TranslationService not configured')
+    }
+
+    let translationTime = 0
+
+    // Step 1: Whisper transcription with conversation context
+    const { transcriptionResult, detectedLangCode, whisperTime, chunkCount } = await this._transcribeAudio(request, progress)
+
     // Step 2: Translation
     performanceLogger.start('translation')
+    this._updateTranslationProgress(progress, 'start')
     const translationStart = Date.now()
     
     // Language detection and mapping
-    const detectedLangCode = this.whisperService.detectLanguage(transcriptionResult.language)
-    const { detectedLang, actualTargetLanguage, targetLangFull } = 
-      this._processLanguageDetection(detectedLangCode, request.targetLanguage)
+    const { detectedLang, actualTargetLanguage, targetLangFull, outsideLanguagePair } = 
+      this._processLanguageDetection(detectedLangCode, request)
 
     // Build translation context
-    const translationContext = this._buildTranslationContext(request)
+    const translationContext = this._buildTranslationContext(request, detectedLangCode, actualTargetLanguage)
+    const paragraphs = this._splitForTranslation(transcriptionResult.text, chunkCount)
     
-    const translationResult = await this.translationService.translate(
-      transcriptionResult.text,
-      detectedLang,
-      targetLangFull,
-      request.mode,
-      translationContext
-    )
+    const translationResult = paragraphs
+      ? await this._translateParagraphs(paragraphs, detectedLang, targetLangFull, request.mode, translationContext)
+      : await this.translationService.translate(
+          transcriptionResult.text,
+          detectedLang,
+          targetLangFull,
+          request.mode,
+          translationContext
+        )
     
     translationTime = Date.now() - translationStart
     performanceLogger.end('translation')
+    this._updateTranslationProgress(progress, 'complete')
 
+    const glossaryViolations = this._verifyGlossary(
+      translationContext.glossary, transcriptionResult.text, translationResult.translatedText
+    )
+    const verification = await this._verifyTranslation(
+      request, transcriptionResult.text, translationResult.translatedText, detectedLang, targetLangFull
+    )
     const totalTime = Date.now() - totalStartTime
 
     return {
@@ -124,10 +485,15 @@ export class TranslationPipeline implements ITranslationPipeline {
       metrics: {
         whisperTime,
         translationTime,
-        totalTime
+        totalTime,
+        ...this._providerMetrics(transcriptionResult.provider, translationResult.provider),
+        ...(chunkCount ? { chunkCount } : {})
       },
       inputTokens: translationResult.inputTokens,
-      outputTokens: translationResult.outputTokens
+      outputTokens: translationResult.outputTokens,
+      ...(outsideLanguagePair !== undefined ? { outsideLanguagePair } : {}),
+      ...(glossaryViolations ? { glossaryViolations } : {}),
+      ...(verification ? { verification } : {})
     }
   }
 
@@ -146,12 +512,13 @@ export class TranslationPipeline implements ITranslationPipeline {
     performanceLogger.start('translation')
     const translationStart = Date.now()
     
-    const detectedLangCode = this._detectTextLanguage(messageText)
-    const { detectedLang, actualTargetLanguage, targetLangFull } = 
-      this._processLanguageDetection(detectedLangCode, request.targetLanguage)
+    const { code: detectedLangCode, languageDetection } = 
+      this._detectTextLanguage(messageText, request)
+    const { detectedLang, actualTargetLanguage, targetLangFull, outsideLanguagePair } = 
+      this._processLanguageDetection(detectedLangCode, request)
 
     // Build translation context
-    const translationContext = this._buildTranslationContext(request)
+    const translationContext = this._buildTranslationContext(request, detectedLangCode, actualTargetLanguage)
     
     const translationResult = await this.translationService.translate(
       messageText,
@@ -164,6 +531,12 @@ export class TranslationPipeline implements ITranslationPipeline {
     translationTime = Date.now() - translationStart
     performanceLogger.end('translation')
 
+    const glossaryViolations = this._verifyGlossary(
+      translationContext.glossary, messageText, translationResult.translatedText
+    )
+    const verification = await this._verifyTranslation(
+      request, messageText, translationResult.translatedText, detectedLang, targetLangFull
+    )
     const totalTime = Date.now() - totalStartTime
 
     return {
@@ -174,80 +547,156 @@ export class TranslationPipeline implements ITranslationPipeline {
       targetLanguageCode: actualTargetLanguage,
       metrics: {
         translationTime,
-        totalTime
+        totalTime,
+        ...this._providerMetrics(undefined, translationResult.provider)
       },
       inputTokens: translationResult.inputTokens,
-      outputTokens: translationResult.outputTokens
+      outputTokens: translationResult.outputTokens,
+      languageDetection,
+      ...(outsideLanguagePair !== undefined ? { outsideLanguagePair } : {}),
+      ...(glossaryViolations ? { glossaryViolations } : {}),
+      ...(verification ? { verification } : {})
     }
   }
 
-  private _detectTextLanguage(text: string): string {
-    // Enhanced language detection for text with patterns
-    const hasSpanishWords = /\b(hola|cómo|qué|por|para|con|una|uno|este|esta|está|estás|buenos|días|gracias|adiós|señor|señora)\b/i.test(text)
-    const hasPortugueseWords = /\b(olá|como|que|por|para|com|uma|um|este|esta|está|você|obrigado|obrigada|tchau|bom|dia)\b/i.test(text)
-    const hasFrenchWords = /\b(bonjour|comment|salut|merci|s'il|vous|plaît|avec|pour|bien|très|c'est|je|tu|il|elle|nous)\b/i.test(text)
-    const hasGermanWords = /\b(hallo|guten|tag|danke|bitte|wie|geht|sehr|gut|ich|du|er|sie|wir|mit|für)\b/i.test(text)
-    const hasSpanishChars = /[ñáéíóúü¿¡]/i.test(text)
-    const hasPortugueseChars = /[çãõâêôà]/i.test(text)
-    const hasFrenchChars = /[àâæçèéêëîïôœùûü]/i.test(text)
-    const hasGermanChars = /[äöüß]/i.test(text)
-    
-    let detectedLangCode = 'en' // Default to English
-    if ((hasSpanishWords || hasSpanishChars) && !hasPortugueseWords && !hasPortugueseChars) {
-      detectedLangCode = 'es'
-    } else if ((hasPortugueseWords || hasPortugueseChars) && !hasSpanishWords && !hasSpanishChars) {
-      detectedLangCode = 'pt'
-    } else if ((hasFrenchWords || hasFrenchChars) && !hasSpanishWords && !hasPortugueseWords) {
-      detectedLangCode = 'fr'
-    } else if ((hasGermanWords || hasGermanChars) && !hasSpanishWords && !hasPortugueseWords && !hasFrenchWords) {
-      detectedLangCode = 'de'
+  private _detectTextLanguage(
+    text: string,
+    request: TranslationRequest
+  ): { code: string; languageDetection: TextLanguageDetection } {
+    // Caller already knows the language (e.g. user picked it after an uncertain detection)
+    const knownCode = request.sourceLanguage ? LanguageRegistry.toCode(request.sourceLanguage) : undefined
+    if (knownCode) {
+      return {
+        code: knownCode,
+        languageDetection: { confidence: 1, uncertain: false, candidates: [knownCode] }
+      }
+    }
+
+    // In pair mode, short ambiguous text is most likely one of the pair languages
+    const identification = LanguageIdentifier.identify(text, {
+      preferred: request.languagePair ? [request.languagePair.own, request.languagePair.partner] : undefined
+    })
+    const uncertain = identification.language === 'uncertain'
+
+    if (uncertain) {
+      console.log(`🤔 [TranslationPipeline] Text language uncertain (best guess: ${identification.bestGuess ?? 'none'}, ${identification.confidence.toFixed(2)})`)
+    }
+
+    return {
+      code: identification.bestGuess ?? DEFAULT_LANGUAGE_CODE,
+      languageDetection: {
+        confidence: identification.confidence,
+        uncertain,
+        candidates: identification.candidates.slice(0, 3).map(candidate => candidate.language)
+      }
     }
-    
-    return detectedLangCode
   }
 
   private _processLanguageDetection(
     detectedLangCode: string,
-    targetLanguage: string
+    request: Pick<TranslationRequest, 'targetLanguage' | 'languagePair'>
   ): {
     detectedLang: string
     actualTargetLanguage: string
     targetLangFull: string
+    outsideLanguagePair?: boolean
   } {
-    // Map language codes to full names for TranslationService
-    const langMap: Record<string, 'English' | 'Spanish' | 'Portuguese' | 'French' | 'German'> = {
-      'en': 'English',
-      'es': 'Spanish', 
-      'pt': 'Portuguese',
-      'fr': 'French',
-      'de': 'German'
-    }
-    
-    const detectedLang = langMap[detectedLangCode] || 'English'
+    // TranslationService expects full language names
+    const detectedLang = LanguageRegistry.toName(detectedLangCode) || 'English'
     
-    // Translation logic: Respect user's target language selection
-    let actualTargetLanguage = targetLanguage
-    
-    // Don't translate if input is already in target language
-    if (detectedLangCode === targetLanguage) {
+    let actualTargetLanguage: string = request.targetLanguage
+    let outsideLanguagePair: boolean | undefined
+
+    if (request.languagePair) {
+      // Pair mode: whichever side spoke, translate into the other side's language
+      const { own, partner } = request.languagePair
+      outsideLanguagePair = detectedLangCode !== own && detectedLangCode !== partner
+      actualTargetLanguage = detectedLangCode === partner ? own : partner
+
+      if (outsideLanguagePair) {
+        console.warn(`⚠️ [TranslationPipeline] ${detectedLang} is outside the ${own}↔${partner} pair, translating to ${partner}`)
+      }
+    } else if (detectedLangCode === request.targetLanguage) {
+      // Don't translate if input is already in target language
       actualTargetLanguage = 'en'
     }
     
-    const targetLangFull = langMap[actualTargetLanguage] || 'English'
+    const targetLangFull = LanguageRegistry.toName(actualTargetLanguage) || 'English'
     
     return {
       detectedLang,
       actualTargetLanguage,
-      targetLangFull
+      targetLangFull,
+      ...(outsideLanguagePair !== undefined ? { outsideLanguagePair } : {})
+    }
+  }
+
+  /**
+   * Provider ids for TranslationResult.metrics, omitting any the services didn't report
+   */
+  private _providerMetrics(
+    transcriptionProvider?: string,
+    translationProvider?: string
+  ): Pick<TranslationResult['metrics'], 'transcriptionProvider' | 'translationProvider'> {
+    return {
+      ...(transcriptionProvider ? { transcriptionProvider } : {}),
+      ...(translationProvider ? { translationProvider } : {})
     }
   }
 
-  private _buildTranslationContext(request: TranslationRequest) {
+  /**
+   * Post-check: report glossary terms the translation didn't honor.
+   * Returns undefined when there was nothing to check or nothing wrong
+   */
+  private _verifyGlossary(
+    glossary: ResolvedGlossary | undefined,
+    original: string,
+    translation: string
+  ): GlossaryViolation[] | undefined {
+    if (!glossary) return undefined
+
+    const violations = GlossaryManager.verify(glossary, original, translation)
+    if (violations.length === 0) return undefined
+
+    console.warn('⚠️ [TranslationPipeline] Translation ignored glossary terms:', violations.map(v => v.term))
+    return violations
+  }
+
+  /**
+   * Optional verification stage. A failed check never fails the translation
+   */
+  private async _verifyTranslation(
+    request: TranslationRequest,
+    original: string,
+    translation: string,
+    fromLang: string,
+    toLang: string
+  ): Promise<TranslationVerification | undefined> {
+    if (!request.verify || !this.verifier) return undefined
+
+    performanceLogger.start('verification')
+    try {
+      return await this.verifier.verify(original, translation, fromLang, toLang)
+    } catch (error) {
+      console.warn('⚠️ [TranslationPipeline] Translation verification failed:', error)
+      return undefined
+    } finally {
+      performanceLogger.end('verification')
+    }
+  }
+
+  private _buildTranslationContext(request: TranslationRequest, fromCode: string, toCode: string) {
+    const resolvedGlossary = request.glossary
+      ? GlossaryManager.resolve(request.glossary, fromCode, toCode)
+      : undefined
+    const glossary = resolvedGlossary && !GlossaryManager.isEmpty(resolvedGlossary) ? resolvedGlossary : undefined
+
     if (!request.context) {
       return {
         recentMessages: [],
         isRomanticContext: false,
-        conversationContext: []
+        conversationContext: [],
+        ...(glossary ? { glossary } : {})
       }
     }
 
@@ -256,7 +705,8 @@ export class TranslationPipeline implements ITranslationPipeline {
     return {
       recentMessages: request.context.recentMessages,
       isRomanticContext,
-      conversationContext: request.context.conversationContext
+      conversationContext: request.context.conversationContext,
+      ...(glossary ? { glossary } : {})
     }
   }
 }
\ No newline at end of file
@@ -0,0 +1,51 @@
+import { describe, it, expect, vi, type Mock } from 'vitest'
+import { BackTranslationVerifier, isDoubtfulTranslation, textSimilarity } from './TranslationVerifier'
+import type { ITranslationService } from './types'
+
+// Mock console to reduce noise
+vi.spyOn(console, 'log').mockImplementation(() => {})
+
+function createTranslationService(backTranslation: string): ITranslationService {
+  return {
+    translate: vi.fn().mockResolvedValue({
+      originalText: '',
+      translatedText: backTranslation,
+      originalLanguage: 'Spanish',
+      targetLanguage: 'English'
+    })
+  }
+}
+
+describe('TranslationVerifier', () => {
+  describe('textSimilarity', () => {
+    it('should score reworded text higher than unrelated text', () => {
+      const reworded = textSimilarity('How are you doing today?', 'How are you today?')
+      const unrelated = textSimilarity('How are you doing today?', "I'm fine, thanks for asking")
+
+      expect(reworded).toBeGreaterThan(0.6)
+      expect(unrelated).toBeLessThan(0.2)
+      expect(textSimilarity('', '')).toBe(0)
+    })
+  })
+
+  describe('BackTranslationVerifier', () => {
+    it('should back-translate into the source language', async () => {
+      const service = createTranslationService('How are you doing today?')
+      const verification = await new BackTranslationVerifier(service)
+        .verify('How are you doing today?', '¿Cómo estás hoy?', 'English', 'Spanish')
+
+      expect(service.translate as Mock).toHaveBeenCalledWith('¿Cómo estás hoy?', 'Spanish', 'English', 'casual')
+      expect(verification).toEqual({ confidence: 1, possibleReply: false, backTranslation: 'How are you doing today?' })
+      expect(isDoubtfulTranslation(verification)).toBe(false)
+    })
+
+    it('should flag an answered question as a possible reply', async () => {
+      const service = createTranslationService("I'm fine, thanks for asking")
+      const verification = await new BackTranslationVerifier(service)
+        .verify('How are you doing today?', 'Estoy bien, gracias por preguntar', 'English', 'Spanish')
+
+      expect(verification.possibleReply).toBe(true)
+      expect(isDoubtfulTranslation(verification)).toBe(true)
+    })
+  })
+})
@@ -0,0 +1,74 @@
+import { extractNgrams } from '@/lib/languages/LanguageIdentifier'
+import type { ITranslationService, ITranslationVerifier, TranslationVerification } from './types'
+
+// Below this the translation is flagged for the user to double-check
+export const LOW_CONFIDENCE_THRESHOLD = 0.35
+
+const QUESTION_MARK = /[?？¿؟]/
+
+/**
+ * Whether a verified translation deserves a warning badge
+ */
+export function isDoubtfulTranslation(verification: TranslationVerification | undefined): boolean {
+  return !!verification && (verification.possibleReply || verification.confidence < LOW_CONFIDENCE_THRESHOLD)
+}
+
+/**
+ * Character trigram overlap (Dice coefficient) between two texts, 0-1.
+ * Tolerant of the rewording any round trip through another language causes
+ */
+export function textSimilarity(a: string, b: string): number {
+  const trigrams = (text: string) => {
+    const counts = new Map<string, number>()
+    for (const gram of extractNgrams(text, 3)) {
+      if (gram.length === 3) counts.set(gram, (counts.get(gram) ?? 0) + 1)
+    }
+    return counts
+  }
+
+  const left = trigrams(a)
+  const right = trigrams(b)
+  const size = (counts: Map<string, number>) => [...counts.values()].reduce((sum, count) => sum + count, 0)
+  const total = size(left) + size(right)
+  if (total === 0) return 0
+
+  let shared = 0
+  for (const [gram, count] of left) {
+    shared += Math.min(count, right.get(gram) ?? 0)
+  }
+  return (2 * shared) / total
+}
+
+/**
+ * Verifies a translation by translating it back into the source language
+ * with the same translation service and comparing it to the original.
+ *
+ * A model that answered instead of translating produces a back-translation
+ * unrelated to the input; an answered question typically also loses its
+ * question mark.
+ */
+export class BackTranslationVerifier implements ITranslationVerifier {
+  constructor(private translationService: ITranslationService) {}
+
+  async verify(
+    original: string,
+    translation: string,
+    fromLang: string,
+    toLang: string
+  ): Promise<TranslationVerification> {
+    const { translatedText: backTranslation } = await this.translationService.translate(
+      translation,
+      toLang,
+      fromLang,
+      'casual'
+    )
+
+    const confidence = Math.round(textSimilarity(original, backTranslation) * 100) / 100
+    const questionDropped = QUESTION_MARK.test(original) && !QUESTION_MARK.test(translation)
+    const possibleReply = questionDropped && confidence < LOW_CONFIDENCE_THRESHOLD
+
+    console.log(`🔁 [TranslationVerifier] Back-translation confidence ${confidence}${possibleReply ? ' (possible reply)' : ''}:`, backTranslation)
+
+    return { confidence, possibleReply, backTranslation }
+  }
+}
@@ -1,47 +1,22 @@
 export * from './types'
 export * from './TranslationPipeline'
+export * from './TranslationVerifier'
 
 import { TranslationPipeline } from './TranslationPipeline'
-import { SecureWhisperService } from '@/services/openai/whisper-secure'
-import { SecureTranslationService } from '@/services/openai/translation-secure'
-import type { ITranslationPipeline, IWhisperService, ITranslationService } from './types'
-
-// Adapter classes to make existing services compatible with pipeline interfaces
-class WhisperServiceAdapter implements IWhisperService {
-  async transcribeAudio(audioFile: File, contextPrompt?: string) {
-    return await SecureWhisperService.transcribeAudio(audioFile, contextPrompt)
-  }
-
-  detectLanguage(whisperLanguage: string): string {
-    return SecureWhisperService.detectLanguage(whisperLanguage)
-  }
-}
-
-class TranslationServiceAdapter implements ITranslationService {
-  async translate(
-    text: string,
-    fromLang: string,
-    toLang: string,
-    mode: string,
-    context?: any
-  ) {
-    return await SecureTranslationService.translate(
-      text,
-      fromLang as any,
-      toLang as any,
-      mode as any,
-      context
-    )
-  }
-}
+import { BackTranslationVerifier } from './TranslationVerifier'
+import { createProviderRegistry, type ProviderRegistry } from '@/services/providers'
+import type { ITranslationPipeline } from './types'
 
 // Factory function to create a configured TranslationPipeline
-export function createTranslationPipeline(): ITranslationPipeline {
-  const whisperService = new WhisperServiceAdapter()
-  const translationService = new TranslationServiceAdapter()
+// Providers (OpenAI, LibreTranslate, local Whisper, mock) come from the registry,
+// which is built from VITE_* provider settings unless one is passed in.
+// Verification only runs for requests that ask for it (TranslationRequest.verify)
+export function createTranslationPipeline(registry: ProviderRegistry = createProviderRegistry()): ITranslationPipeline {
+  const whisperService = registry.createWhisperService()
+  const translationService = registry.createTranslationService()
   
-  return new TranslationPipeline(whisperService, translationService)
+  return new TranslationPipeline(whisperService, translationService, new BackTranslationVerifier(translationService))
 }
 
 // Singleton instance for backward compatibility
-export const translationPipeline = createTranslationPipeline()
\ No newline at end of file
+export const translationPipeline = createTranslationPipeline()
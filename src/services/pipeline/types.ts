@@ -1,11 +1,19 @@
 import type { ConversationContextEntry } from '@/lib/conversation/ConversationContext'
+import type { LanguageCode, LanguagePair } from '@/lib/languages/LanguageRegistry'
+import type { GlossaryEntry, GlossaryViolation } from '@/lib/glossary/GlossaryManager'
+import type { TranslationMode } from '@/lib/modes/ModeRegistry'
+import type { PromptContext } from '@/services/openai/prompts'
 
 export interface TranslationRequest {
   input: string | Blob
   inputType: 'text' | 'audio'
-  sourceLanguage?: string
-  targetLanguage: 'es' | 'en' | 'pt' | 'fr' | 'de'
-  mode: 'casual' | 'fun'
+  audioChunks?: AudioChunkInput[] // Long recordings: transcribed per chunk, then stitched
+  sourceLanguage?: LanguageCode // Skip text language detection (e.g. user answered an 'uncertain' prompt)
+  targetLanguage: LanguageCode
+  languagePair?: LanguagePair // Translate between the pair instead of to targetLanguage
+  glossary?: GlossaryEntry[] // Active user + session entries (GlossaryManager.getEntries)
+  verify?: boolean // Run the verification stage (needs a verifier on the pipeline)
+  mode: TranslationMode
   context?: {
     conversationContext: ConversationContextEntry[]
     recentMessages: string[]
@@ -16,6 +24,15 @@ export interface TranslationRequest {
   sessionId?: string
 }
 
+/**
+ * One piece of a long recording, cut at a pause by PersistentAudioManager
+ */
+export interface AudioChunkInput {
+  audio: Blob
+  startTime: number // Seconds into the recording
+  endTime: number
+}
+
 export interface TranslationResult {
   original: string
   translation: string
@@ -26,9 +43,66 @@ export interface TranslationResult {
     whisperTime?: number
     translationTime: number
     totalTime: number
+    transcriptionProvider?: string // Provider id that produced the transcript (audio only)
+    chunkCount?: number // Chunked audio only
+    translationProvider?: string // Provider id that produced the translation
   }
   inputTokens?: number
   outputTokens?: number
+  languageDetection?: TextLanguageDetection // Text input only
+  outsideLanguagePair?: boolean // Pair mode only: input was in neither pair language
+  glossaryViolations?: GlossaryViolation[] // Glossary terms the translation didn't honor
+  verification?: TranslationVerification // Only when requested and a verifier is configured
+}
+
+/**
+ * Outcome of the optional verification stage
+ */
+export interface TranslationVerification {
+  confidence: number     // 0-1 agreement between original and back-translation
+  possibleReply: boolean // Looks like an answer to the input rather than a translation of it
+  backTranslation?: string
+}
+
+/**
+ * Offline language identification of typed text. When uncertain, the pipeline
+ * translates from the best guess and the UI can ask the user to confirm
+ */
+export interface TextLanguageDetection {
+  confidence: number
+  uncertain: boolean
+  candidates: LanguageCode[] // Most likely first
+}
+
+/**
+ * Events emitted by ITranslationPipeline.translateStream, in order:
+ * one 'transcript', zero or more 'translation-delta', then one 'complete'
+ */
+export type TranslationStreamEvent =
+  | {
+      type: 'transcript'
+      original: string
+      detectedLanguage: string
+      originalLanguageCode: string
+      targetLanguageCode: string
+      whisperTime?: number
+      languageDetection?: TextLanguageDetection
+    }
+  | {
+      type: 'translation-delta'
+      delta: string
+      translation: string // Accumulated translation so far
+    }
+  | {
+      type: 'complete'
+      result: TranslationResult
+    }
+
+export interface TranslationStreamChunk {
+  delta?: string
+  inputTokens?: number
+  outputTokens?: number
+  provider?: string
 }
 
 export interface IWhisperService {
@@ -36,6 +110,7 @@ export interface IWhisperService {
     text: string
     language: string
     duration: number
+    provider?: string
   }>
   detectLanguage(whisperLanguage: string): string
 }
@@ -46,7 +121,7 @@ export interface ITranslationService {
     fromLang: string,
     toLang: string,
     mode: string,
-    context?: any
+    context?: PromptContext
   ): Promise<{
     originalText: string
     translatedText: string
@@ -54,13 +129,32 @@ export interface ITranslationService {
     targetLanguage: string
     inputTokens?: number
     outputTokens?: number
+    provider?: string
   }>
+  translateStream?(
+    text: string,
+    fromLang: string,
+    toLang: string,
+    mode: string,
+    context?: PromptContext
+  ): AsyncIterable<TranslationStreamChunk>
+}
+
+export interface ITranslationVerifier {
+  verify(
+    original: string,
+    translation: string,
+    fromLang: string,
+    toLang: string
+  ): Promise<TranslationVerification>
 }
 
 export interface ITranslationPipeline {
   translate(request: TranslationRequest): Promise<TranslationResult>
+  translateStream(request: TranslationRequest): AsyncGenerator<TranslationStreamEvent, void, undefined>
   setWhisperService(service: IWhisperService): void
   setTranslationService(service: ITranslationService): void
+  setVerifier(verifier: ITranslationVerifier | null): void
 }
 
 export interface PipelineMetrics {
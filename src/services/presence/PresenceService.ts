@@ -1,6 +1,11 @@
 import { supabase } from '@/lib/supabase'
 import type { RealtimeChannel } from '@supabase/supabase-js'
 import type { ActivityState, PresenceData, IPresenceService } from './types'
+import type { SessionGlossary } from '@/lib/glossary/GlossaryManager'
+import type { VoiceProfile } from '@/lib/voices/VoiceProfileManager'
+import { toSessionParticipant } from '@/services/SessionManager'
+import type { SessionParticipant } from '@/services/session/types'
+import type { SessionParticipantRow } from '@/types/database'
 import { RealtimeConnection } from '../realtime'
 
 /**
@@ -9,6 +14,9 @@ import { RealtimeConnection } from '../realtime'
  * Core Features:
  * - Activity broadcasting ('recording', 'processing', 'typing', 'idle')
  * - Partner online/offline detection
+ * - Participant roster with each participant's language (group sessions)
+ * - Session glossary sharing
+ * - Voice profile sharing
  * - Database-first approach with presence fallback
  * 
  * Note: Channel management moved to RealtimeConnection (Phase 1d refactor)
@@ -27,9 +35,14 @@ export class PresenceService implements IPresenceService {
   // Callbacks
   private onPresenceChanged?: (isOnline: boolean) => void
   private onActivityChanged?: (activity: ActivityState) => void
+  private onGlossaryReceived?: (glossary: SessionGlossary) => void
+  private onVoiceProfileReceived?: (userId: string, profile: VoiceProfile | null) => void
+  private onParticipantsChanged?: (participants: SessionParticipant[]) => void
   
   // Track participant state for immediate presence updates
   private sessionParticipants = new Set<string>()
+  // Everyone who joined, online or not, by user id
+  private roster = new Map<string, SessionParticipant>()
   private lastPartnerPresenceState = false
 
   /**
@@ -132,6 +145,22 @@ export class PresenceService implements IPresenceService {
           })
         }
       })
+      .on('broadcast', { event: 'glossary' }, ({ payload }) => {
+        if (payload.userId === this.currentUserId || payload.sessionId !== this.currentSessionId) {
+          return
+        }
+
+        console.log(`📖 [PresenceService] Received session glossary from partner (${payload.glossary?.entries?.length ?? 0} entries)`)
+        this.onGlossaryReceived?.(payload.glossary)
+      })
+      .on('broadcast', { event: 'voice-profile' }, ({ payload }) => {
+        if (payload.userId === this.currentUserId || payload.sessionId !== this.currentSessionId) {
+          return
+        }
+
+        console.log(`🗣️ [PresenceService] Received voice profile from partner ${payload.userId}`)
+        this.onVoiceProfileReceived?.(payload.userId, payload.profile ?? null)
+      })
       .subscribe(async (status) => {
         if (status === 'SUBSCRIBED') {
           // Track this user's presence
@@ -179,6 +208,7 @@ export class PresenceService implements IPresenceService {
         if (payload.new.is_online) {
           this.sessionParticipants.add(payload.new.user_id)
         }
+        this.updateRoster(payload.new as SessionParticipantRow)
         
         // Immediately update partner presence
         this.updatePartnerPresenceImmediate()
@@ -201,6 +231,7 @@ export class PresenceService implements IPresenceService {
         } else {
           this.sessionParticipants.delete(payload.new.user_id)
         }
+        this.updateRoster(payload.new as SessionParticipantRow)
         
         // Immediately update partner presence
         this.updatePartnerPresenceImmediate()
@@ -218,11 +249,11 @@ export class PresenceService implements IPresenceService {
     }
 
     try {
+      // Offline participants too: they're on the roster and still get translations
       const { data: participants, error } = await supabase
         .from('session_participants')
-        .select('user_id, is_online')
+        .select('id, session_id, user_id, joined_at, is_online, last_seen, language')
         .eq('session_id', this.currentSessionId)
-        .eq('is_online', true)
 
       if (error) {
         console.error('❌ [PresenceService] Failed to load participants:', error)
@@ -233,11 +264,14 @@ export class PresenceService implements IPresenceService {
       
       // Initialize participant tracking
       this.sessionParticipants.clear()
+      this.roster.clear()
       participants?.forEach(p => {
         if (p.is_online) {
           this.sessionParticipants.add(p.user_id)
         }
+        this.roster.set(p.user_id, toSessionParticipant(p))
       })
+      this.onParticipantsChanged?.(this.getParticipants())
       
       // Update partner presence based on loaded data
       this.updatePartnerPresenceImmediate()
@@ -247,6 +281,14 @@ export class PresenceService implements IPresenceService {
     }
   }
 
+  /**
+   * Add or update a participant from a session_participants row
+   */
+  private updateRoster(row: SessionParticipantRow): void {
+    this.roster.set(row.user_id, toSessionParticipant(row))
+    this.onParticipantsChanged?.(this.getParticipants())
+  }
+
   /**
    * Update partner presence immediately based on realtime participant events
    */
@@ -391,6 +433,56 @@ export class PresenceService implements IPresenceService {
     }
   }
 
+  /**
+   * Share the session glossary with the partner
+   */
+  async broadcastGlossary(glossary: SessionGlossary): Promise<void> {
+    if (!this.presenceChannel || !this.currentUserId) {
+      console.warn('⚠️ [PresenceService] Cannot broadcast glossary - no active channel')
+      return
+    }
+
+    try {
+      console.log(`📡 [PresenceService] Sharing session glossary (${glossary.entries.length} entries)`)
+      await this.presenceChannel.send({
+        type: 'broadcast',
+        event: 'glossary',
+        payload: {
+          userId: this.currentUserId,
+          sessionId: this.currentSessionId,
+          glossary
+        }
+      })
+    } catch (error) {
+      console.error('❌ [PresenceService] Glossary broadcast failed:', error)
+    }
+  }
+
+  /**
+   * Share this user's voice profile with the partner (null: automatic voice)
+   */
+  async broadcastVoiceProfile(profile: VoiceProfile | null): Promise<void> {
+    if (!this.presenceChannel || !this.currentUserId) {
+      console.warn('⚠️ [PresenceService] Cannot broadcast voice profile - no active channel')
+      return
+    }
+
+    try {
+      console.log('📡 [PresenceService] Sharing voice profile')
+      await this.presenceChannel.send({
+        type: 'broadcast',
+        event: 'voice-profile',
+        payload: {
+          userId: this.currentUserId,
+          sessionId: this.currentSessionId,
+          profile
+        }
+      })
+    } catch (error) {
+      console.error('❌ [PresenceService] Voice profile broadcast failed:', error)
+    }
+  }
+
   /**
    * Subscribe to partner presence changes
    */
@@ -415,6 +507,50 @@ export class PresenceService implements IPresenceService {
     }
   }
 
+  /**
+   * Subscribe to session glossaries shared by the partner
+   */
+  subscribeToGlossary(callback: (glossary: SessionGlossary) => void): () => void {
+    this.onGlossaryReceived = callback
+    
+    // Return unsubscribe function
+    return () => {
+      this.onGlossaryReceived = undefined
+    }
+  }
+
+  /**
+   * Subscribe to voice profiles shared by the partner
+   */
+  subscribeToVoiceProfile(callback: (userId: string, profile: VoiceProfile | null) => void): () => void {
+    this.onVoiceProfileReceived = callback
+    
+    // Return unsubscribe function
+    return () => {
+      this.onVoiceProfileReceived = undefined
+    }
+  }
+
+  /**
+   * Subscribe to roster changes: joins, leaves and language changes
+   */
+  subscribeToParticipants(callback: (participants: SessionParticipant[]) => void): () => void {
+    this.onParticipantsChanged = callback
+    
+    // Return unsubscribe function
+    return () => {
+      this.onParticipantsChanged = undefined
+    }
+  }
+
+  /**
+   * Everyone who joined the session, this user included, in join order
+   */
+  getParticipants(): SessionParticipant[] {
+    return Array.from(this.roster.values())
+      .sort((a, b) => Date.parse(a.joinedAt) - Date.parse(b.joinedAt))
+  }
+
   /**
    * Get currently online users (placeholder implementation)
    */
@@ -453,6 +589,7 @@ export class PresenceService implements IPresenceService {
 
     // Reset participant tracking but preserve session IDs
     this.sessionParticipants.clear()
+    this.roster.clear()
     this.lastPartnerPresenceState = false
     
     console.log('✅ [PresenceService] Subscriptions cleanup completed')
@@ -473,6 +610,9 @@ export class PresenceService implements IPresenceService {
     this.realtimeConnection = undefined
     this.onPresenceChanged = undefined
     this.onActivityChanged = undefined
+    this.onGlossaryReceived = undefined
+    this.onVoiceProfileReceived = undefined
+    this.onParticipantsChanged = undefined
     
     console.log('✅ [PresenceService] Full cleanup completed')
   }
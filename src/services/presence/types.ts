@@ -1,3 +1,7 @@
+import type { SessionGlossary } from '@/lib/glossary/GlossaryManager'
+import type { VoiceProfile } from '@/lib/voices/VoiceProfileManager'
+import type { SessionParticipant } from '@/services/session/types'
+
 export type ActivityState = 'idle' | 'recording' | 'processing' | 'typing'
 
 export interface PresenceData {
@@ -12,6 +16,12 @@ export interface IPresenceService {
   updateActivity(activity: ActivityState): Promise<void>
   subscribeToPresence(callback: (isOnline: boolean) => void): () => void
   subscribeToActivity(callback: (activity: ActivityState) => void): () => void
+  broadcastGlossary(glossary: SessionGlossary): Promise<void>
+  subscribeToGlossary(callback: (glossary: SessionGlossary) => void): () => void
+  broadcastVoiceProfile(profile: VoiceProfile | null): Promise<void>
+  subscribeToVoiceProfile(callback: (userId: string, profile: VoiceProfile | null) => void): () => void
+  subscribeToParticipants(callback: (participants: SessionParticipant[]) => void): () => void
+  getParticipants(): SessionParticipant[]
   getOnlineUsers(): PresenceData[]
   cleanup(): void
 }
\ No newline at end of file
@@ -0,0 +1,62 @@
+import { toLanguageCode } from './ProviderRegistry'
+import type { TranslationProvider } from './types'
+
+export interface LibreTranslateOptions {
+  baseUrl: string // e.g. http://localhost:5000
+  apiKey?: string
+  languages?: string[] // ISO codes the server has models for; omit to allow any pair
+}
+
+/**
+ * Self-hosted LibreTranslate-style HTTP endpoint (POST /translate)
+ * Has no notion of modes or conversation context, so it suits plain,
+ * cost-sensitive language pairs rather than the "fun" mode
+ */
+export class LibreTranslateProvider implements TranslationProvider {
+  readonly id = 'libretranslate'
+  readonly name = 'LibreTranslate'
+
+  constructor(private options: LibreTranslateOptions) {}
+
+  supportsLanguagePair(fromCode: string, toCode: string): boolean {
+    if (!this.options.languages) return true
+    return this.options.languages.includes(fromCode) && this.options.languages.includes(toCode)
+  }
+
+  async translate(text: string, fromLang: string, toLang: string) {
+    const response = await fetch(`${this.options.baseUrl.replace(/\/$/, '')}/translate`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        q: text,
+        source: toLanguageCode(fromLang),
+        target: toLanguageCode(toLang),
+        format: 'text',
+        ...(this.options.apiKey && { api_key: this.options.apiKey })
+      })
+    })
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}))
+      throw new Error(`LibreTranslate error: ${error.error || response.statusText || 'Unknown error'}`)
+    }
+
+    const data = await response.json()
+    const translatedText = data.translatedText?.trim()
+
+    if (!translatedText) {
+      throw new Error('No translation received from LibreTranslate')
+    }
+
+    return {
+      originalText: text,
+      translatedText,
+      originalLanguage: fromLang,
+      targetLanguage: toLang,
+      inputTokens: 0,
+      outputTokens: 0
+    }
+  }
+}
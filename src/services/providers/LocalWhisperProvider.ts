@@ -0,0 +1,52 @@
+import { SecureWhisperService } from '@/services/openai/whisper-secure'
+import type { TranscriptionProvider } from './types'
+
+export interface LocalWhisperOptions {
+  baseUrl: string // e.g. http://localhost:8000
+  model?: string
+}
+
+/**
+ * Self-hosted Whisper server exposing the OpenAI-compatible
+ * POST /v1/audio/transcriptions endpoint (faster-whisper-server, whisper.cpp server, ...)
+ */
+export class LocalWhisperProvider implements TranscriptionProvider {
+  readonly id = 'local-whisper'
+  readonly name = 'Local Whisper'
+
+  constructor(private options: LocalWhisperOptions) {}
+
+  async transcribeAudio(audioFile: File, contextPrompt?: string) {
+    const formData = new FormData()
+    formData.append('file', audioFile)
+    formData.append('model', this.options.model || 'whisper-1')
+    formData.append('response_format', 'verbose_json')
+    formData.append('temperature', '0')
+
+    if (contextPrompt) {
+      formData.append('prompt', contextPrompt)
+    }
+
+    const response = await fetch(`${this.options.baseUrl.replace(/\/$/, '')}/v1/audio/transcriptions`, {
+      method: 'POST',
+      body: formData
+    })
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}))
+      throw new Error(`Local Whisper error: ${error.error?.message || error.error || response.statusText || 'Unknown error'}`)
+    }
+
+    const data = await response.json()
+
+    return {
+      text: data.text || '',
+      language: data.language || 'unknown',
+      duration: data.duration || 0
+    }
+  }
+
+  detectLanguage(whisperLanguage: string): string {
+    return SecureWhisperService.detectLanguage(whisperLanguage)
+  }
+}
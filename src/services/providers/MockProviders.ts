@@ -0,0 +1,62 @@
+import { toLanguageCode } from './ProviderRegistry'
+import type { TranslationProvider, TranscriptionProvider } from './types'
+
+export interface MockTranslationOptions {
+  translate?: (text: string, fromCode: string, toCode: string) => string
+}
+
+export interface MockTranscriptionOptions {
+  text?: string
+  language?: string
+  duration?: number
+}
+
+/**
+ * Deterministic, network-free translation for tests and offline CI.
+ * Default output is the input prefixed with the target code: "[es] Hello"
+ */
+export class MockTranslationProvider implements TranslationProvider {
+  readonly id = 'mock'
+  readonly name = 'Mock translation'
+
+  constructor(private options: MockTranslationOptions = {}) {}
+
+  async translate(text: string, fromLang: string, toLang: string) {
+    const fromCode = toLanguageCode(fromLang)
+    const toCode = toLanguageCode(toLang)
+    const translatedText = this.options.translate
+      ? this.options.translate(text, fromCode, toCode)
+      : `[${toCode}] ${text}`
+
+    return {
+      originalText: text,
+      translatedText,
+      originalLanguage: fromLang,
+      targetLanguage: toLang,
+      inputTokens: 0,
+      outputTokens: 0
+    }
+  }
+}
+
+/**
+ * Deterministic, network-free transcription for tests and offline CI
+ */
+export class MockTranscriptionProvider implements TranscriptionProvider {
+  readonly id = 'mock'
+  readonly name = 'Mock transcription'
+
+  constructor(private options: MockTranscriptionOptions = {}) {}
+
+  async transcribeAudio() {
+    return {
+      text: this.options.text ?? 'This is a mock transcription.',
+      language: this.options.language ?? 'english',
+      duration: this.options.duration ?? 1
+    }
+  }
+
+  detectLanguage(whisperLanguage: string): string {
+    return toLanguageCode(whisperLanguage)
+  }
+}
@@ -0,0 +1,61 @@
+import { SecureWhisperService } from '@/services/openai/whisper-secure'
+import { SecureTranslationService } from '@/services/openai/translation-secure'
+import type { Language, TranslationMode } from '@/services/openai'
+import type { PromptContext } from '@/services/openai/prompts'
+import type { TranslationProvider, TranscriptionProvider } from './types'
+
+/**
+ * OpenAI Whisper through the secure proxy
+ */
+export class OpenAITranscriptionProvider implements TranscriptionProvider {
+  readonly id = 'openai'
+  readonly name = 'OpenAI Whisper'
+
+  async transcribeAudio(audioFile: File, contextPrompt?: string) {
+    return await SecureWhisperService.transcribeAudio(audioFile, contextPrompt)
+  }
+
+  detectLanguage(whisperLanguage: string): string {
+    return SecureWhisperService.detectLanguage(whisperLanguage)
+  }
+}
+
+/**
+ * GPT-4o-mini through the secure proxy
+ */
+export class OpenAITranslationProvider implements TranslationProvider {
+  readonly id = 'openai'
+  readonly name = 'OpenAI GPT-4o-mini'
+
+  async translate(
+    text: string,
+    fromLang: Language,
+    toLang: Language,
+    mode: TranslationMode,
+    context?: PromptContext
+  ) {
+    return await SecureTranslationService.translate(
+      text,
+      fromLang,
+      toLang,
+      mode,
+      context
+    )
+  }
+
+  translateStream(
+    text: string,
+    fromLang: Language,
+    toLang: Language,
+    mode: TranslationMode,
+    context?: PromptContext
+  ) {
+    return SecureTranslationService.translateStream(
+      text,
+      fromLang,
+      toLang,
+      mode,
+      context
+    )
+  }
+}
@@ -0,0 +1,219 @@
+import type { ITranslationService, IWhisperService, TranslationStreamChunk } from '@/services/pipeline/types'
+import type { PromptContext } from '@/services/openai/prompts'
+import type {
+  TranslationProvider,
+  TranscriptionProvider,
+  LanguagePairRoute,
+  ProviderRegistryConfig,
+  IProviderRegistry
+} from './types'
+import { LanguageRegistry } from '@/lib/languages/LanguageRegistry'
+
+// Pipeline passes full language names; routes and providers speak ISO codes
+export function toLanguageCode(language: string): string {
+  return LanguageRegistry.toCode(language) ?? language.toLowerCase()
+}
+
+export class ProviderRegistry implements IProviderRegistry {
+  private translationProviders = new Map<string, TranslationProvider>()
+  private transcriptionProviders = new Map<string, TranscriptionProvider>()
+  private translationOrder: string[] = []
+  private transcriptionOrder: string[] = []
+  private routes: LanguagePairRoute[] = []
+
+  // ========================================
+  // Registration & Configuration
+  // ========================================
+
+  registerTranslationProvider(provider: TranslationProvider): void {
+    this.translationProviders.set(provider.id, provider)
+    if (!this.translationOrder.includes(provider.id)) {
+      this.translationOrder.push(provider.id)
+    }
+  }
+
+  registerTranscriptionProvider(provider: TranscriptionProvider): void {
+    this.transcriptionProviders.set(provider.id, provider)
+    if (!this.transcriptionOrder.includes(provider.id)) {
+      this.transcriptionOrder.push(provider.id)
+    }
+  }
+
+  configure(config: ProviderRegistryConfig): void {
+    if (config.translationProviders) {
+      this.translationOrder = [...config.translationProviders]
+    }
+    if (config.transcriptionProviders) {
+      this.transcriptionOrder = [...config.transcriptionProviders]
+    }
+    if (config.routes) {
+      this.routes = config.routes.map(route => ({
+        from: toLanguageCode(route.from),
+        to: toLanguageCode(route.to),
+        providers: [...route.providers]
+      }))
+    }
+  }
+
+  // ========================================
+  // Resolution
+  // ========================================
+
+  /**
+   * Providers to try for a language pair, in fallback order.
+   * Most specific route wins: exact pair, then from→*, then *→to, then default order
+   */
+  getTranslationProviders(fromLang: string, toLang: string): TranslationProvider[] {
+    const from = toLanguageCode(fromLang)
+    const to = toLanguageCode(toLang)
+
+    const route =
+      this.routes.find(r => r.from === from && r.to === to) ||
+      this.routes.find(r => r.from === from && r.to === '*') ||
+      this.routes.find(r => r.from === '*' && r.to === to)
+
+    const order = route ? route.providers : this.translationOrder
+
+    return order
+      .map(id => this.translationProviders.get(id))
+      .filter((provider): provider is TranslationProvider =>
+        !!provider && (provider.supportsLanguagePair?.(from, to) ?? true)
+      )
+  }
+
+  getTranscriptionProviders(): TranscriptionProvider[] {
+    return this.transcriptionOrder
+      .map(id => this.transcriptionProviders.get(id))
+      .filter((provider): provider is TranscriptionProvider => !!provider)
+  }
+
+  // ========================================
+  // Pipeline Services
+  // ========================================
+
+  /**
+   * ITranslationService that routes each call through the registry,
+   * falling back to the next provider when one fails
+   */
+  createTranslationService(): ITranslationService {
+    return new RoutedTranslationService(this)
+  }
+
+  /**
+   * IWhisperService that tries transcription providers in order
+   */
+  createWhisperService(): IWhisperService {
+    return new RoutedWhisperService(this)
+  }
+}
+
+class RoutedTranslationService implements ITranslationService {
+  constructor(private registry: ProviderRegistry) {}
+
+  async translate(
+    text: string,
+    fromLang: string,
+    toLang: string,
+    mode: string,
+    context?: PromptContext
+  ) {
+    const providers = this.getProviders(fromLang, toLang)
+    let lastError: unknown
+
+    for (const provider of providers) {
+      try {
+        const result = await provider.translate(text, fromLang, toLang, mode, context)
+        return { ...result, provider: provider.id }
+      } catch (error) {
+        console.warn(`⚠️ [ProviderRegistry] Translation provider "${provider.id}" failed, trying next:`, error)
+        lastError = error
+      }
+    }
+
+    throw lastError
+  }
+
+  async *translateStream(
+    text: string,
+    fromLang: string,
+    toLang: string,
+    mode: string,
+    context?: PromptContext
+  ): AsyncGenerator<TranslationStreamChunk> {
+    const providers = this.getProviders(fromLang, toLang)
+    let lastError: unknown
+
+    for (const provider of providers) {
+      let emitted = false
+
+      try {
+        if (provider.translateStream) {
+          for await (const chunk of provider.translateStream(text, fromLang, toLang, mode, context)) {
+            emitted = emitted || !!chunk.delta
+            yield { ...chunk, provider: provider.id }
+          }
+        } else {
+          const result = await provider.translate(text, fromLang, toLang, mode, context)
+          emitted = true
+          yield {
+            delta: result.translatedText,
+            inputTokens: result.inputTokens,
+            outputTokens: result.outputTokens,
+            provider: provider.id
+          }
+        }
+        return
+      } catch (error) {
+        // Partial output has already reached the caller; switching providers would garble it
+        if (emitted) throw error
+
+        console.warn(`⚠️ [ProviderRegistry] Translation provider "${provider.id}" failed, trying next:`, error)
+        lastError = error
+      }
+    }
+
+    throw lastError
+  }
+
+  private getProviders(fromLang: string, toLang: string): TranslationProvider[] {
+    const providers = this.registry.getTranslationProviders(fromLang, toLang)
+    if (providers.length === 0) {
+      throw new Error(`No translation provider available for ${fromLang} → ${toLang}`)
+    }
+    return providers
+  }
+}
+
+class RoutedWhisperService implements IWhisperService {
+  constructor(private registry: ProviderRegistry) {}
+
+  async transcribeAudio(audioFile: File, contextPrompt?: string) {
+    const providers = this.getProviders()
+    let lastError: unknown
+
+    for (const provider of providers) {
+      try {
+        const result = await provider.transcribeAudio(audioFile, contextPrompt)
+        return { ...result, provider: provider.id }
+      } catch (error) {
+        console.warn(`⚠️ [ProviderRegistry] Transcription provider "${provider.id}" failed, trying next:`, error)
+        lastError = error
+      }
+    }
+
+    throw lastError
+  }
+
+  detectLanguage(whisperLanguage: string): string {
+    // All providers report Whisper-style language names/codes; the primary one normalizes them
+    return this.getProviders()[0].detectLanguage(whisperLanguage)
+  }
+
+  private getProviders(): TranscriptionProvider[] {
+    const providers = this.registry.getTranscriptionProviders()
+    if (providers.length === 0) {
+      throw new Error('No transcription provider available')
+    }
+    return providers
+  }
+}
@@ -0,0 +1,157 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { ProviderRegistry, toLanguageCode } from '../ProviderRegistry'
+import { parseTranslationRoutes } from '../config'
+import { MockTranslationProvider, MockTranscriptionProvider } from '../MockProviders'
+import { TranslationPipeline } from '@/services/pipeline/TranslationPipeline'
+import type { TranslationProvider } from '../types'
+
+// Keep the pipeline free of real dependencies
+vi.mock('@/lib/performance', () => ({
+  performanceLogger: {
+    start: vi.fn(),
+    end: vi.fn()
+  }
+}))
+
+vi.mock('@/lib/user/UserManager', () => ({
+  UserManager: {
+    detectRomanticContext: vi.fn(() => false)
+  }
+}))
+
+// Mock console to reduce noise
+vi.spyOn(console, 'log').mockImplementation(() => {})
+vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+function createFailingProvider(id: string): TranslationProvider {
+  return {
+    id,
+    name: `Failing ${id}`,
+    translate: vi.fn().mockRejectedValue(new Error(`${id} is down`))
+  }
+}
+
+describe('ProviderRegistry', () => {
+  let registry: ProviderRegistry
+
+  beforeEach(() => {
+    registry = new ProviderRegistry()
+  })
+
+  describe('Language codes', () => {
+    it('should map full language names to ISO codes', () => {
+      expect(toLanguageCode('Spanish')).toBe('es')
+      expect(toLanguageCode('en')).toBe('en')
+      expect(toLanguageCode('*')).toBe('*')
+    })
+  })
+
+  describe('Provider resolution', () => {
+    beforeEach(() => {
+      registry.registerTranslationProvider(new MockTranslationProvider())
+      registry.registerTranslationProvider(createFailingProvider('libretranslate'))
+      registry.registerTranslationProvider(createFailingProvider('openai'))
+    })
+
+    it('should use registration order by default', () => {
+      const ids = registry.getTranslationProviders('English', 'Spanish').map(p => p.id)
+      expect(ids).toEqual(['mock', 'libretranslate', 'openai'])
+    })
+
+    it('should prefer the most specific language pair route', () => {
+      registry.configure({
+        translationProviders: ['openai'],
+        routes: [
+          { from: '*', to: 'es', providers: ['mock'] },
+          { from: 'en', to: 'es', providers: ['libretranslate', 'openai'] }
+        ]
+      })
+
+      expect(registry.getTranslationProviders('English', 'Spanish').map(p => p.id))
+        .toEqual(['libretranslate', 'openai'])
+      expect(registry.getTranslationProviders('Portuguese', 'Spanish').map(p => p.id))
+        .toEqual(['mock'])
+      expect(registry.getTranslationProviders('English', 'German').map(p => p.id))
+        .toEqual(['openai'])
+    })
+
+    it('should skip providers that do not support the pair', () => {
+      registry.registerTranslationProvider({
+        ...createFailingProvider('limited'),
+        supportsLanguagePair: (from, to) => from === 'en' && to === 'es'
+      })
+      registry.configure({ translationProviders: ['limited', 'mock'] })
+
+      expect(registry.getTranslationProviders('English', 'Spanish').map(p => p.id))
+        .toEqual(['limited', 'mock'])
+      expect(registry.getTranslationProviders('English', 'French').map(p => p.id))
+        .toEqual(['mock'])
+    })
+  })
+
+  describe('Routed translation service', () => {
+    it('should fall back to the next provider and report which one answered', async () => {
+      registry.registerTranslationProvider(createFailingProvider('openai'))
+      registry.registerTranslationProvider(new MockTranslationProvider())
+
+      const result = await registry.createTranslationService()
+        .translate('Hello', 'English', 'Spanish', 'casual')
+
+      expect(result.translatedText).toBe('[es] Hello')
+      expect(result.provider).toBe('mock')
+    })
+
+    it('should throw the last error when every provider fails', async () => {
+      registry.registerTranslationProvider(createFailingProvider('openai'))
+      registry.registerTranslationProvider(createFailingProvider('libretranslate'))
+
+      await expect(
+        registry.createTranslationService().translate('Hello', 'English', 'Spanish', 'casual')
+      ).rejects.toThrow('libretranslate is down')
+    })
+
+    it('should throw when no provider is configured for the pair', async () => {
+      await expect(
+        registry.createTranslationService().translate('Hello', 'English', 'Spanish', 'casual')
+      ).rejects.toThrow('No translation provider available for English → Spanish')
+    })
+  })
+
+  describe('Pipeline integration', () => {
+    it('should run the pipeline offline and record providers in metrics', async () => {
+      registry.registerTranslationProvider(createFailingProvider('openai'))
+      registry.registerTranslationProvider(new MockTranslationProvider())
+      registry.registerTranscriptionProvider(new MockTranscriptionProvider({ text: 'Hello there' }))
+
+      const pipeline = new TranslationPipeline(
+        registry.createWhisperService(),
+        registry.createTranslationService()
+      )
+
+      const result = await pipeline.translate({
+        input: new Blob(['mock audio data'], { type: 'audio/webm' }),
+        inputType: 'audio',
+        targetLanguage: 'es',
+        mode: 'casual'
+      })
+
+      expect(result.original).toBe('Hello there')
+      expect(result.translation).toBe('[es] Hello there')
+      expect(result.metrics.transcriptionProvider).toBe('mock')
+      expect(result.metrics.translationProvider).toBe('mock')
+    })
+  })
+
+  describe('Route parsing', () => {
+    it('should parse route strings from the environment', () => {
+      expect(parseTranslationRoutes('en>es=libretranslate,openai; *>de = openai')).toEqual([
+        { from: 'en', to: 'es', providers: ['libretranslate', 'openai'] },
+        { from: '*', to: 'de', providers: ['openai'] }
+      ])
+    })
+
+    it('should ignore malformed routes', () => {
+      expect(parseTranslationRoutes('nonsense')).toEqual([])
+    })
+  })
+})
@@ -0,0 +1,75 @@
+import { ProviderRegistry } from './ProviderRegistry'
+import { OpenAITranscriptionProvider, OpenAITranslationProvider } from './OpenAIProviders'
+import { LibreTranslateProvider } from './LibreTranslateProvider'
+import { LocalWhisperProvider } from './LocalWhisperProvider'
+import { MockTranscriptionProvider, MockTranslationProvider } from './MockProviders'
+import type { LanguagePairRoute } from './types'
+
+export interface ProviderEnv {
+  VITE_TRANSLATION_PROVIDERS?: string // "libretranslate,openai" (default "openai")
+  VITE_TRANSCRIPTION_PROVIDERS?: string // "local-whisper,openai" (default "openai")
+  VITE_TRANSLATION_ROUTES?: string // "en>es=libretranslate,openai;*>de=openai"
+  VITE_LIBRETRANSLATE_URL?: string
+  VITE_LIBRETRANSLATE_API_KEY?: string
+  VITE_LIBRETRANSLATE_LANGUAGES?: string // "en,es,pt"
+  VITE_LOCAL_WHISPER_URL?: string
+  VITE_LOCAL_WHISPER_MODEL?: string
+}
+
+const splitList = (value?: string): string[] | undefined => {
+  const items = value?.split(',').map(item => item.trim()).filter(Boolean)
+  return items && items.length > 0 ? items : undefined
+}
+
+/**
+ * Parse "from>to=provider,provider;from>to=provider" into routes
+ */
+export function parseTranslationRoutes(value?: string): LanguagePairRoute[] {
+  if (!value) return []
+
+  return value.split(';').flatMap(entry => {
+    const match = entry.trim().match(/^([\w*-]+)\s*>\s*([\w*-]+)\s*=\s*(.+)$/)
+    if (!match) {
+      console.warn('⚠️ [ProviderRegistry] Ignoring malformed translation route:', entry)
+      return []
+    }
+    const [, from, to, providers] = match
+    return [{ from, to, providers: splitList(providers) || [] }]
+  })
+}
+
+/**
+ * Build a registry with every provider the environment makes available.
+ * OpenAI and mock providers are always registered; self-hosted ones need a URL
+ */
+export function createProviderRegistry(env: ProviderEnv = import.meta.env as ProviderEnv): ProviderRegistry {
+  const registry = new ProviderRegistry()
+
+  registry.registerTranslationProvider(new OpenAITranslationProvider())
+  registry.registerTranslationProvider(new MockTranslationProvider())
+  registry.registerTranscriptionProvider(new OpenAITranscriptionProvider())
+  registry.registerTranscriptionProvider(new MockTranscriptionProvider())
+
+  if (env.VITE_LIBRETRANSLATE_URL) {
+    registry.registerTranslationProvider(new LibreTranslateProvider({
+      baseUrl: env.VITE_LIBRETRANSLATE_URL,
+      apiKey: env.VITE_LIBRETRANSLATE_API_KEY,
+      languages: splitList(env.VITE_LIBRETRANSLATE_LANGUAGES)
+    }))
+  }
+
+  if (env.VITE_LOCAL_WHISPER_URL) {
+    registry.registerTranscriptionProvider(new LocalWhisperProvider({
+      baseUrl: env.VITE_LOCAL_WHISPER_URL,
+      model: env.VITE_LOCAL_WHISPER_MODEL
+    }))
+  }
+
+  registry.configure({
+    translationProviders: splitList(env.VITE_TRANSLATION_PROVIDERS) || ['openai'],
+    transcriptionProviders: splitList(env.VITE_TRANSCRIPTION_PROVIDERS) || ['openai'],
+    routes: parseTranslationRoutes(env.VITE_TRANSLATION_ROUTES)
+  })
+
+  return registry
+}
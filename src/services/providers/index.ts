@@ -0,0 +1,17 @@
+export { ProviderRegistry, toLanguageCode } from './ProviderRegistry'
+export { createProviderRegistry, parseTranslationRoutes } from './config'
+export { OpenAITranscriptionProvider, OpenAITranslationProvider } from './OpenAIProviders'
+export { LibreTranslateProvider } from './LibreTranslateProvider'
+export { LocalWhisperProvider } from './LocalWhisperProvider'
+export { MockTranscriptionProvider, MockTranslationProvider } from './MockProviders'
+export type {
+  TranslationProvider,
+  TranscriptionProvider,
+  LanguagePairRoute,
+  ProviderRegistryConfig,
+  IProviderRegistry
+} from './types'
+export type { ProviderEnv } from './config'
+export type { LibreTranslateOptions } from './LibreTranslateProvider'
+export type { LocalWhisperOptions } from './LocalWhisperProvider'
+export type { MockTranslationOptions, MockTranscriptionOptions } from './MockProviders'
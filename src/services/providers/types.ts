@@ -0,0 +1,45 @@
+import type { ITranslationService, IWhisperService } from '@/services/pipeline/types'
+
+/**
+ * A backend that can translate text (OpenAI, LibreTranslate, mock, ...)
+ * Language arguments arrive as full names ('Spanish') from the pipeline;
+ * supportsLanguagePair receives ISO codes ('es')
+ */
+export interface TranslationProvider extends ITranslationService {
+  readonly id: string
+  readonly name: string
+  supportsLanguagePair?(fromCode: string, toCode: string): boolean
+}
+
+/**
+ * A backend that can transcribe audio (OpenAI Whisper, local Whisper server, mock, ...)
+ */
+export interface TranscriptionProvider extends IWhisperService {
+  readonly id: string
+  readonly name: string
+}
+
+/**
+ * Ordered provider ids to try for a language pair. Either side may be '*'
+ */
+export interface LanguagePairRoute {
+  from: string
+  to: string
+  providers: string[]
+}
+
+export interface ProviderRegistryConfig {
+  translationProviders?: string[] // Default order when no route matches
+  transcriptionProviders?: string[]
+  routes?: LanguagePairRoute[]
+}
+
+export interface IProviderRegistry {
+  registerTranslationProvider(provider: TranslationProvider): void
+  registerTranscriptionProvider(provider: TranscriptionProvider): void
+  configure(config: ProviderRegistryConfig): void
+  getTranslationProviders(fromLang: string, toLang: string): TranslationProvider[]
+  getTranscriptionProviders(): TranscriptionProvider[]
+  createTranslationService(): ITranslationService
+  createWhisperService(): IWhisperService
+}
@@ -0,0 +1,65 @@
+/**
+ * Per-session message sequence tracking for gap detection
+ *
+ * Messages are numbered 1, 2, 3... within their session (see the
+ * assign_message_sequence trigger in SESSIONS-ARCHITECTURE.md). The tracker
+ * remembers the highest number up to which nothing is missing; anything
+ * seen beyond it means realtime events were dropped in between.
+ */
+
+export interface SequenceRange {
+  from: number
+  to?: number // Open-ended: everything after `from` (e.g. after a reconnect)
+}
+
+export class SequenceTracker {
+  private contiguous = 0
+  private ahead = new Set<number>() // Seen past a gap
+
+  /**
+   * Everything up to `sequence` is known, e.g. from the history load
+   */
+  reset(sequence: number): void {
+    this.contiguous = sequence
+    this.ahead.clear()
+  }
+
+  /**
+   * Note a message's sequence number. Returns true when it opens a gap
+   */
+  record(sequence: number): boolean {
+    if (!Number.isInteger(sequence) || sequence <= this.contiguous || this.ahead.has(sequence)) {
+      return false
+    }
+
+    if (sequence === this.contiguous + 1) {
+      this.contiguous = sequence
+      while (this.ahead.delete(this.contiguous + 1)) {
+        this.contiguous++
+      }
+      return false
+    }
+
+    this.ahead.add(sequence)
+    return true
+  }
+
+  /**
+   * Highest sequence number with nothing missing before it
+   */
+  getContiguous(): number {
+    return this.contiguous
+  }
+
+  hasGap(): boolean {
+    return this.ahead.size > 0
+  }
+
+  /**
+   * Range that holds every missing message, or null when nothing is missing
+   */
+  getMissingRange(): SequenceRange | null {
+    if (!this.hasGap()) return null
+    return { from: this.contiguous + 1, to: Math.max(...this.ahead) - 1 }
+  }
+}
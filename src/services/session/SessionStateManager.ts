@@ -1,6 +1,7 @@
 import { sessionManager } from '@/services/SessionManager'
 import { ErrorManager } from '@/lib/errors/ErrorManager'
 import { ErrorCode } from '@/lib/errors/ErrorCodes'
+import type { LanguageCode, LanguagePair } from '@/lib/languages/LanguageRegistry'
 import type { SessionState, SessionParticipant, SessionEventHandlers, ISessionStateManager } from './types'
 
 const SESSION_STORAGE_KEY = 'activeSession'
@@ -154,13 +155,32 @@ export class SessionStateManager implements ISessionStateManager {
     this.clearPersistedSession()
   }
 
+  /**
+   * Set or clear (null) the session's language pair and persist it
+   */
+  setLanguagePair(languagePair: LanguagePair | null): SessionState | null {
+    if (!this.currentSession) {
+      console.warn('⚠️ [SessionStateManager] No active session to set language pair on')
+      return null
+    }
+
+    // undefined is dropped when persisted, so clearing leaves no stale pair behind
+    const updated: SessionState = { ...this.currentSession, languagePair: languagePair ?? undefined }
+
+    this.setCurrentSession(updated)
+    this.persistSession(updated)
+    console.log('🌐 [SessionStateManager] Language pair updated:', languagePair)
+
+    return updated
+  }
+
   // ========================================
   // Participant Management
   // ========================================
 
-  async addParticipant(sessionId: string, userId: string): Promise<void> {
+  async addParticipant(sessionId: string, userId: string, language?: LanguageCode): Promise<void> {
     try {
-      await sessionManager.addParticipant(sessionId, userId)
+      await sessionManager.addParticipant(sessionId, userId, language)
     } catch (error) {
       console.error('❌ [SessionStateManager] Failed to add participant:', error)
       throw error
@@ -168,9 +188,12 @@ export class SessionStateManager implements ISessionStateManager {
   }
 
   async getParticipants(sessionId: string): Promise<SessionParticipant[]> {
-    // This would require extending SessionManager with participant fetching
-    // For now, return empty array as this isn't currently used
-    return []
+    try {
+      return await sessionManager.getParticipants(sessionId)
+    } catch (error) {
+      console.error('❌ [SessionStateManager] Failed to get participants:', error)
+      return []
+    }
   }
 
   // ========================================
@@ -0,0 +1,96 @@
+/**
+ * Per-recipient language fan-out for group sessions
+ *
+ * Every participant declares the language they read. A message is translated
+ * once per distinct language among the other participants, and each client
+ * renders the version in its own language (see resolveTranslation).
+ */
+
+import { LanguageRegistry, type LanguageCode } from '@/lib/languages/LanguageRegistry'
+import type { GlossaryEntry } from '@/lib/glossary/GlossaryManager'
+import type { TranslationMode } from '@/lib/modes/ModeRegistry'
+import type { ITranslationPipeline } from '@/services/pipeline'
+import type { MessageTranslations } from '@/types/database'
+import type { SessionParticipant } from './types'
+
+export interface FanOutRequest {
+  text: string
+  sourceLanguage?: LanguageCode // Detected again when unknown
+  languages: LanguageCode[]          // Recipient languages (getRecipientLanguages)
+  translations?: MessageTranslations // Already translated, e.g. the sender's own target language
+  mode: TranslationMode
+  glossary?: GlossaryEntry[]
+}
+
+/**
+ * Distinct languages the other participants read, without the message's own
+ */
+export function getRecipientLanguages(
+  participants: SessionParticipant[],
+  senderId: string,
+  sourceLanguage: string
+): LanguageCode[] {
+  const source = LanguageRegistry.toCode(sourceLanguage)
+  const languages = new Set<LanguageCode>()
+
+  participants.forEach(participant => {
+    if (participant.userId !== senderId && participant.language && participant.language !== source) {
+      languages.add(participant.language)
+    }
+  })
+
+  return Array.from(languages)
+}
+
+/**
+ * Translate a message into every recipient language it isn't translated into
+ * yet. A language that fails is left out; its readers fall back to the
+ * message's main translation
+ */
+export async function fanOutTranslations(
+  pipeline: ITranslationPipeline,
+  request: FanOutRequest
+): Promise<MessageTranslations> {
+  const translations: MessageTranslations = { ...request.translations }
+  const missing = request.languages.filter(language => !translations[language])
+
+  if (missing.length > 0) {
+    console.log(`🌍 [TranslationFanOut] Translating into ${missing.join(', ')}`)
+  }
+
+  const results = await Promise.allSettled(missing.map(targetLanguage =>
+    pipeline.translate({
+      input: request.text,
+      inputType: 'text',
+      sourceLanguage: request.sourceLanguage,
+      targetLanguage,
+      mode: request.mode,
+      glossary: request.glossary
+    })
+  ))
+
+  results.forEach((result, index) => {
+    if (result.status === 'fulfilled' && result.value.translation) {
+      translations[missing[index]] = result.value.translation
+    } else {
+      console.warn(`⚠️ [TranslationFanOut] No ${missing[index]} translation:`, result.status === 'rejected' ? result.reason : 'empty')
+    }
+  })
+
+  return translations
+}
+
+/**
+ * The version of a message to show a reader of `language`: their own
+ * translation, nothing when it was said in their language, otherwise the
+ * message's main translation
+ */
+export function resolveTranslation(
+  message: { original_language: string; translated_text: string | null; translations?: MessageTranslations },
+  language: LanguageCode
+): string | null {
+  const translation = message.translations?.[language]
+  if (translation) return translation
+  if (LanguageRegistry.toCode(message.original_language) === language) return null
+  return message.translated_text
+}
@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest'
+import { SequenceTracker } from '../SequenceTracker'
+
+describe('SequenceTracker', () => {
+  it('should advance while messages arrive in order', () => {
+    const tracker = new SequenceTracker()
+
+    expect(tracker.record(1)).toBe(false)
+    expect(tracker.record(2)).toBe(false)
+    expect(tracker.getContiguous()).toBe(2)
+    expect(tracker.getMissingRange()).toBeNull()
+  })
+
+  it('should report the range a gap leaves open until it is filled', () => {
+    const tracker = new SequenceTracker()
+    tracker.reset(10)
+
+    expect(tracker.record(13)).toBe(true)
+    expect(tracker.record(14)).toBe(true)
+    expect(tracker.getMissingRange()).toEqual({ from: 11, to: 13 })
+
+    tracker.record(12)
+    tracker.record(11)
+    expect(tracker.hasGap()).toBe(false)
+    expect(tracker.getContiguous()).toBe(14)
+  })
+
+  it('should ignore numbers it has already seen', () => {
+    const tracker = new SequenceTracker()
+    tracker.reset(5)
+
+    expect(tracker.record(3)).toBe(false)
+    expect(tracker.record(7)).toBe(true)
+    expect(tracker.record(7)).toBe(false)
+    expect(tracker.getContiguous()).toBe(5)
+  })
+})
@@ -181,6 +181,30 @@ describe('SessionStateManager', () => {
       expect(manager.getCurrentSession()).toBeNull()
       expect(localStorageMock.removeItem).toHaveBeenCalledWith('activeSession')
     })
+
+    it('should store and clear the language pair on the current session', () => {
+      // Setup
+      const sessionState: SessionState = {
+        sessionId: 'test-id',
+        sessionCode: '1234',
+        userId: 'user-id',
+        role: 'host',
+        createdAt: new Date().toISOString()
+      }
+
+      // Test without a session
+      expect(manager.setLanguagePair({ own: 'en', partner: 'es' })).toBeNull()
+
+      // Test setting the pair
+      manager.setCurrentSession(sessionState)
+      const updated = manager.setLanguagePair({ own: 'en', partner: 'es' })
+      expect(updated?.languagePair).toEqual({ own: 'en', partner: 'es' })
+      expect(manager.getCurrentSession()?.languagePair).toEqual({ own: 'en', partner: 'es' })
+      expect(localStorageMock.setItem).toHaveBeenCalledWith('activeSession', JSON.stringify(updated))
+
+      // Test clearing the pair
+      expect(manager.setLanguagePair(null)?.languagePair).toBeUndefined()
+    })
   })
 
   describe('Session Persistence', () => {
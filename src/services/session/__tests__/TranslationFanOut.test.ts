@@ -0,0 +1,89 @@
+import { describe, it, expect, vi } from 'vitest'
+import { fanOutTranslations, getRecipientLanguages, resolveTranslation } from '../TranslationFanOut'
+import type { ITranslationPipeline, TranslationRequest } from '@/services/pipeline'
+import type { LanguageCode } from '@/lib/languages/LanguageRegistry'
+import type { SessionParticipant } from '../types'
+
+// Mock console to reduce noise
+vi.spyOn(console, 'log').mockImplementation(() => {})
+vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+const participant = (userId: string, language?: LanguageCode): SessionParticipant => ({
+  id: `row-${userId}`,
+  userId,
+  sessionId: 'session-1',
+  joinedAt: '2025-01-01T00:00:00.000Z',
+  isOnline: true,
+  lastSeen: '2025-01-01T00:00:00.000Z',
+  language
+})
+
+const pipeline = (translate: (request: TranslationRequest) => Promise<string>) => ({
+  translate: vi.fn(async (request: TranslationRequest) => ({
+    original: request.input as string,
+    translation: await translate(request),
+    detectedLanguage: 'English',
+    originalLanguageCode: 'en',
+    targetLanguageCode: request.targetLanguage,
+    metrics: { translationTime: 1, totalTime: 1 }
+  }))
+}) as unknown as ITranslationPipeline & { translate: ReturnType<typeof vi.fn> }
+
+describe('TranslationFanOut', () => {
+  it('should collect each other language once', () => {
+    const participants = [
+      participant('me', 'en'),
+      participant('abuela', 'es'),
+      participant('tio', 'es'),
+      participant('oma', 'de'),
+      participant('cousin', 'en'),
+      participant('legacy')
+    ]
+
+    expect(getRecipientLanguages(participants, 'me', 'en')).toEqual(['es', 'de'])
+    expect(getRecipientLanguages(participants, 'oma', 'German')).toEqual(['en', 'es'])
+  })
+
+  it('should only translate the languages not translated yet', async () => {
+    const translator = pipeline(async ({ targetLanguage }) => `[${targetLanguage}] Good morning`)
+
+    const translations = await fanOutTranslations(translator, {
+      text: 'Good morning',
+      sourceLanguage: 'en',
+      languages: ['es', 'de', 'fr'],
+      translations: { es: 'Buenos días' },
+      mode: 'casual'
+    })
+
+    expect(translations).toEqual({ es: 'Buenos días', de: '[de] Good morning', fr: '[fr] Good morning' })
+    expect(translator.translate).toHaveBeenCalledTimes(2)
+    expect(translator.translate).toHaveBeenCalledWith(expect.objectContaining({ inputType: 'text', sourceLanguage: 'en', targetLanguage: 'de' }))
+  })
+
+  it('should leave out a language whose translation fails', async () => {
+    const translator = pipeline(async ({ targetLanguage }) => {
+      if (targetLanguage === 'de') throw new Error('Provider down')
+      return 'Bonjour'
+    })
+
+    const translations = await fanOutTranslations(translator, {
+      text: 'Hello',
+      languages: ['de', 'fr'],
+      mode: 'casual'
+    })
+
+    expect(translations).toEqual({ fr: 'Bonjour' })
+  })
+
+  it("should show each reader the version in their language", () => {
+    const message = {
+      original_language: 'en',
+      translated_text: 'Hola',
+      translations: { es: 'Hola', de: 'Hallo' }
+    }
+
+    expect(resolveTranslation(message, 'de')).toBe('Hallo')
+    expect(resolveTranslation(message, 'en')).toBeNull()
+    expect(resolveTranslation(message, 'fr')).toBe('Hola')
+  })
+})
@@ -1,4 +1,8 @@
 export { SessionStateManager, sessionStateManager } from './SessionStateManager'
+export { getRecipientLanguages, fanOutTranslations, resolveTranslation } from './TranslationFanOut'
+export type { FanOutRequest } from './TranslationFanOut'
+export { SequenceTracker } from './SequenceTracker'
+export type { SequenceRange } from './SequenceTracker'
 export type {
   SessionState,
   SessionParticipant,
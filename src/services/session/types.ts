@@ -1,3 +1,5 @@
+import type { LanguageCode, LanguagePair } from '@/lib/languages/LanguageRegistry'
+
 export interface SessionState {
   sessionId: string
   sessionCode: string
@@ -6,6 +8,7 @@ export interface SessionState {
   partnerId?: string
   createdAt: string
   expiresAt?: string
+  languagePair?: LanguagePair // This device's language and the partner's, when pair mode is on
 }
 
 export interface SessionParticipant {
@@ -15,6 +18,7 @@ export interface SessionParticipant {
   joinedAt: string
   isOnline: boolean
   lastSeen: string
+  language?: LanguageCode // The language they read; unset for clients that never declared one
 }
 
 export interface SessionInfo {
@@ -43,9 +47,10 @@ export interface ISessionStateManager {
   getCurrentSession(): SessionState | null
   setCurrentSession(session: SessionState): void
   clearSession(): void
+  setLanguagePair(languagePair: LanguagePair | null): SessionState | null
   
   // Participant management
-  addParticipant(sessionId: string, userId: string): Promise<void>
+  addParticipant(sessionId: string, userId: string, language?: LanguageCode): Promise<void>
   getParticipants(sessionId: string): Promise<SessionParticipant[]>
   
   // Persistence
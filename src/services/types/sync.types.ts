@@ -3,10 +3,11 @@
  * Handles reactions, edits, and deletions with offline support
  */
 
-import type { DatabaseReaction } from '../../types/database'
+import type { DatabaseReaction, DatabaseMessageTranslation, DatabaseMessageRevision, SessionMessage } from '../../types/database'
 
 // Reaction operations
 export interface ReactionOperation {
+  id: string // Client-generated; an added reaction is stored under it
   type: 'add_reaction' | 'remove_reaction'
   messageId: string
   userId: string
@@ -16,6 +17,7 @@ export interface ReactionOperation {
 
 // Edit operation
 export interface EditOperation {
+  id: string
   type: 'edit_message'
   messageId: string
   originalText: string
@@ -25,6 +27,7 @@ export interface EditOperation {
 
 // Delete operation
 export interface DeleteOperation {
+  id: string
   type: 'delete_message'
   messageId: string
   timestamp: string
@@ -51,7 +54,7 @@ export type SyncOperation =
 
 // Queued operation with retry metadata
 export interface QueuedSyncOperation {
-  id: string
+  id: string // The operation's own id for reactions, edits and deletes
   operation: SyncOperation
   retryCount: number
   queuedAt: string
@@ -76,6 +79,13 @@ export interface MessageWithReactionsData {
   is_deleted: boolean
   deleted_at: string | null
   message_reactions?: DatabaseReaction[]
+  message_translations?: Pick<DatabaseMessageTranslation, 'language' | 'translated_text'>[]
+}
+
+// A page of message history, newest page first as the user scrolls up
+export interface MessageHistoryPage {
+  messages: SessionMessage[] // Oldest first, the user's own messages included
+  hasMore: boolean // Older messages remain on the server
 }
 
 // Callbacks for UI updates
@@ -91,12 +101,16 @@ export interface MessageSyncCallbacks {
   onReactionRemoved?: (reaction: DatabaseReaction) => void
   
   // New callbacks for edits/deletes
-  onMessageEdited?: (messageId: string, newText: string) => void
+  onMessageEdited?: (messageId: string, newText: string, editedAt?: string | null) => void
   onMessageDeleted?: (messageId: string) => void
   onReTranslationNeeded?: (messageId: string, originalText: string) => void
+  onMessageRevised?: (revision: DatabaseMessageRevision) => void // Someone edited a message; the replaced version
+  
+  // Group sessions: a per-language translation stored after its message
+  onTranslationReceived?: (translation: DatabaseMessageTranslation) => void
   
-  // Batch loading callback
-  onMessagesLoaded?: (messages: any[]) => void
+  // Batch loading callback: history pages, delivered without notifications
+  onMessagesLoaded?: (page: MessageHistoryPage) => void
 }
 
 // Reaction grouping for UI
@@ -0,0 +1,88 @@
+/**
+ * Minimal AIFF / AIFF-C reader for the `say`-generated fixtures
+ * (uncompressed big-endian PCM: 'NONE' or 'twos'), downmixed to mono
+ */
+
+export interface DecodedAudio {
+  samples: Float32Array
+  sampleRate: number
+  duration: number
+}
+
+// 80-bit IEEE 754 extended precision, as used for the COMM sample rate
+function readExtended(view: DataView, offset: number): number {
+  const exponent = view.getUint16(offset) & 0x7fff
+  const sign = view.getUint16(offset) & 0x8000 ? -1 : 1
+  const hi = view.getUint32(offset + 2)
+  const lo = view.getUint32(offset + 6)
+  if (exponent === 0 && hi === 0 && lo === 0) return 0
+  return sign * (hi * Math.pow(2, exponent - 16383 - 31) + lo * Math.pow(2, exponent - 16383 - 63))
+}
+
+export function decodeAiff(buffer: ArrayBuffer): DecodedAudio {
+  const view = new DataView(buffer)
+  const tag = (offset: number) => String.fromCharCode(
+    view.getUint8(offset), view.getUint8(offset + 1), view.getUint8(offset + 2), view.getUint8(offset + 3)
+  )
+
+  const form = tag(8)
+  if (tag(0) !== 'FORM' || (form !== 'AIFF' && form !== 'AIFC')) {
+    throw new Error('Not an AIFF file')
+  }
+
+  let channels = 0
+  let frames = 0
+  let bitsPerSample = 0
+  let sampleRate = 0
+  let dataOffset = -1
+
+  for (let offset = 12; offset + 8 <= buffer.byteLength;) {
+    const id = tag(offset)
+    const size = view.getUint32(offset + 4)
+    const body = offset + 8
+
+    if (id === 'COMM') {
+      channels = view.getUint16(body)
+      frames = view.getUint32(body + 2)
+      bitsPerSample = view.getUint16(body + 6)
+      sampleRate = readExtended(view, body + 8)
+      if (form === 'AIFC') {
+        const compression = tag(body + 18)
+        if (compression !== 'NONE' && compression !== 'twos') {
+          throw new Error(`Unsupported AIFF-C compression: ${compression}`)
+        }
+      }
+    } else if (id === 'SSND') {
+      dataOffset = body + 8 + view.getUint32(body) // Skip offset + blockSize
+    }
+
+    offset = body + size + (size % 2) // Chunks are padded to even sizes
+  }
+
+  if (!channels || !sampleRate || dataOffset < 0) {
+    throw new Error('AIFF file is missing COMM or SSND')
+  }
+  if (bitsPerSample !== 8 && bitsPerSample !== 16 && bitsPerSample !== 24 && bitsPerSample !== 32) {
+    throw new Error(`Unsupported AIFF bit depth: ${bitsPerSample}`)
+  }
+
+  const bytesPerSample = bitsPerSample / 8
+  const scale = Math.pow(2, bitsPerSample - 1)
+  const samples = new Float32Array(frames)
+
+  for (let frame = 0; frame < frames; frame++) {
+    let sum = 0
+    for (let channel = 0; channel < channels; channel++) {
+      const at = dataOffset + (frame * channels + channel) * bytesPerSample
+      let value: number
+      if (bytesPerSample === 1) value = view.getInt8(at)
+      else if (bytesPerSample === 2) value = view.getInt16(at)
+      else if (bytesPerSample === 3) value = (view.getInt8(at) << 16) | (view.getUint8(at + 1) << 8) | view.getUint8(at + 2)
+      else value = view.getInt32(at)
+      sum += value / scale
+    }
+    samples[frame] = sum / channels
+  }
+
+  return { samples, sampleRate, duration: frames / sampleRate }
+}
@@ -0,0 +1,67 @@
+/**
+ * Fixture microphone for real browsers (Playwright)
+ *
+ * Passed to `page.addInitScript`, so it must stay self-contained: no imports
+ * and nothing from the enclosing module. getUserMedia resolves a Web Audio
+ * stream that is silent until a clip is spoken through
+ * `window.__fixtureMicrophone.speak(id)`; the real MediaRecorder, analysers
+ * and pre-processing chain then run on it unchanged.
+ */
+
+export interface FixtureMicrophoneControl {
+  /** Play a clip into the microphone; resolves when it has finished */
+  speak(id: string): Promise<void>
+}
+
+/**
+ * @param clips Base64-encoded WAV per fixture id
+ */
+export function installFixtureMicrophone(clips: Record<string, string>): void {
+  const AudioContextClass = window.AudioContext || window.webkitAudioContext!
+  let context: AudioContext | null = null
+  let destination: MediaStreamAudioDestinationNode | null = null
+
+  const ensureGraph = () => {
+    if (!context || !destination) {
+      context = new AudioContextClass()
+      destination = context.createMediaStreamDestination()
+    }
+    return { context, destination }
+  }
+
+  const decodeBase64 = (base64: string): ArrayBuffer => {
+    const binary = atob(base64)
+    const bytes = new Uint8Array(binary.length)
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i)
+    return bytes.buffer
+  }
+
+  const mediaDevices = navigator.mediaDevices
+  mediaDevices.getUserMedia = async (constraints?: MediaStreamConstraints) => {
+    if (!constraints?.audio) {
+      throw new DOMException('Only audio is available', 'NotFoundError')
+    }
+    const { destination: node } = ensureGraph()
+    // A fresh stream per call, like a real device; all carry the same audio
+    return new MediaStream(node.stream.getAudioTracks().map(track => track.clone()))
+  }
+
+  window.__fixtureMicrophone = {
+    async speak(id: string) {
+      const clip = clips[id]
+      if (!clip) throw new Error(`Unknown fixture clip: ${id}`)
+
+      const { context: ctx, destination: node } = ensureGraph()
+      if (ctx.state === 'suspended') await ctx.resume()
+
+      const buffer = await ctx.decodeAudioData(decodeBase64(clip))
+      const source = ctx.createBufferSource()
+      source.buffer = buffer
+      source.connect(node)
+      await new Promise<void>(resolve => {
+        source.onended = () => resolve()
+        source.start()
+      })
+    }
+  }
+}
@@ -0,0 +1,444 @@
+/**
+ * Fixture-driven audio environment for Vitest (jsdom)
+ *
+ * jsdom has no microphone, MediaRecorder or Web Audio. This installs fakes
+ * that behave like a browser whose microphone is "hearing" fixture clips:
+ * - getUserMedia resolves a fake stream
+ * - MediaRecorder delivers the spoken clip (as WAV) when stopped, or
+ *   silence if nothing was spoken during the recording
+ * - AudioContext analysers report the clip's levels over time, so silence
+ *   detection and hands-free mode react as they would to the real clip
+ * - Audio elements load metadata from blob URLs and "play" for the clip's
+ *   duration (SecureWhisperService reads durations this way)
+ * - Blob.arrayBuffer, which jsdom lacks and the recording code relies on
+ *
+ * Time is the fake-timer clock: speak a clip, advance timers past its
+ * duration, then stop the recording.
+ */
+
+import { encodeWav } from '@/services/audio/encoding'
+import type { FixtureApi } from './fixtureApi'
+import type { AudioFixtureId } from './manifest'
+import { loadAudioFixture, type LoadedAudioFixture } from './node'
+
+export interface FakeAudioEnvironmentOptions {
+  api?: FixtureApi           // Told about every spoken clip
+  permission?: 'granted' | 'denied'
+}
+
+export interface FakeAudioEnvironment {
+  /** The microphone hears this clip from now on */
+  speak(id: AudioFixtureId): LoadedAudioFixture
+  /** Streams handed out by getUserMedia */
+  readonly streams: MediaStream[]
+  restore(): void
+}
+
+const ANALYSER_MIN_DB = -100
+const ANALYSER_MAX_DB = -30
+const SILENCE_SAMPLE_RATE = 16000
+
+interface SpokenClip {
+  loaded: LoadedAudioFixture
+  startedAt: number
+}
+
+function wavDuration(buffer: ArrayBuffer): number {
+  const view = new DataView(buffer)
+  const byteRate = view.getUint32(28, true)
+  const dataSize = view.getUint32(40, true)
+  return byteRate > 0 ? dataSize / byteRate : 0
+}
+
+function readBlob(blob: Blob): Promise<ArrayBuffer> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as ArrayBuffer)
+    reader.onerror = () => reject(reader.error)
+    reader.readAsArrayBuffer(blob)
+  })
+}
+
+function decodeWav(buffer: ArrayBuffer): { samples: Float32Array; sampleRate: number } {
+  const view = new DataView(buffer)
+  const sampleRate = view.getUint32(24, true)
+  const samples = new Float32Array(view.getUint32(40, true) / 2)
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = view.getInt16(44 + i * 2, true) / 32768
+  }
+  return { samples, sampleRate }
+}
+
+export function installFakeAudioEnvironment(options: FakeAudioEnvironmentOptions = {}): FakeAudioEnvironment {
+  let clip: SpokenClip | null = null
+  const streams: MediaStream[] = []
+  const blobUrls = new Map<string, Blob>()
+  let nextBlobUrl = 0
+
+  // Samples the microphone hears `length` samples back from now
+  const heardSamples = (length: number): Float32Array => {
+    const heard = new Float32Array(length)
+    if (!clip) return heard
+
+    const { samples, sampleRate } = clip.loaded.audio
+    const end = Math.floor(((Date.now() - clip.startedAt) / 1000) * sampleRate)
+    for (let i = 0; i < length; i++) {
+      const index = end - length + i
+      if (index >= 0 && index < samples.length) heard[i] = samples[index]
+    }
+    return heard
+  }
+
+  class FakeMediaStreamTrack extends EventTarget {
+    readonly kind = 'audio'
+    readonly id = `fixture-track-${streams.length + 1}`
+    readonly label = 'Fixture microphone'
+    enabled = true
+    readyState: MediaStreamTrackState = 'live'
+    private constraints: MediaTrackConstraints = {}
+
+    stop(): void {
+      this.readyState = 'ended'
+    }
+
+    async applyConstraints(constraints: MediaTrackConstraints = {}): Promise<void> {
+      this.constraints = { ...this.constraints, ...constraints }
+    }
+
+    getConstraints(): MediaTrackConstraints {
+      return this.constraints
+    }
+
+    getSettings(): MediaTrackSettings {
+      return { channelCount: 1, sampleRate: SILENCE_SAMPLE_RATE, ...(this.constraints as MediaTrackSettings) }
+    }
+  }
+
+  class FakeMediaStream extends EventTarget {
+    readonly id = `fixture-stream-${streams.length + 1}`
+    private tracks = [new FakeMediaStreamTrack()]
+
+    get active(): boolean {
+      return this.tracks.some(track => track.readyState === 'live')
+    }
+
+    getTracks() {
+      return this.tracks
+    }
+
+    getAudioTracks() {
+      return this.tracks
+    }
+
+    getVideoTracks() {
+      return []
+    }
+  }
+
+  class FakeMediaRecorder extends EventTarget {
+    static isTypeSupported(mimeType: string): boolean {
+      return mimeType === 'audio/wav'
+    }
+
+    state: RecordingState = 'inactive'
+    readonly mimeType = 'audio/wav'
+    ondataavailable: ((event: BlobEvent) => void) | null = null
+    onstop: ((event: Event) => void) | null = null
+    onstart: ((event: Event) => void) | null = null
+    onerror: ((event: Event) => void) | null = null
+    private startedAt = 0
+
+    constructor(readonly stream: MediaStream, _options?: MediaRecorderOptions) {
+      super()
+    }
+
+    start(_timeslice?: number): void {
+      if (this.state !== 'inactive') throw new Error('InvalidStateError: recorder already started')
+      this.state = 'recording'
+      this.startedAt = Date.now()
+      this.emit('start', new Event('start'))
+    }
+
+    stop(): void {
+      if (this.state === 'inactive') return
+      this.state = 'inactive'
+      const data = this.recorded()
+
+      // Browsers deliver both events asynchronously, data first
+      setTimeout(() => {
+        this.emit('dataavailable', Object.assign(new Event('dataavailable'), { data }) as BlobEvent)
+        this.emit('stop', new Event('stop'))
+      }, 0)
+    }
+
+    pause(): void {
+      this.state = 'paused'
+    }
+
+    resume(): void {
+      this.state = 'recording'
+    }
+
+    requestData(): void {}
+
+    private recorded(): Blob {
+      // The whole clip if it was heard during the recording, else silence
+      const heard = clip && clip.startedAt < Date.now() && clip.startedAt + clip.loaded.audio.duration * 1000 > this.startedAt
+      const wav = heard
+        ? clip!.loaded.wav
+        : encodeWav(new Float32Array(Math.floor(((Date.now() - this.startedAt) / 1000) * SILENCE_SAMPLE_RATE)), SILENCE_SAMPLE_RATE)
+      return new Blob([wav], { type: this.mimeType })
+    }
+
+    private emit(type: string, event: Event): void {
+      const handler = (this as unknown as Record<string, unknown>)[`on${type}`]
+      if (typeof handler === 'function') handler.call(this, event)
+      this.dispatchEvent(event)
+    }
+  }
+
+  class FakeAudioNode {
+    connect<T>(destination: T): T {
+      return destination
+    }
+
+    disconnect(): void {}
+  }
+
+  class FakeAnalyserNode extends FakeAudioNode {
+    fftSize = 2048
+    smoothingTimeConstant = 0.8
+    minDecibels = ANALYSER_MIN_DB
+    maxDecibels = ANALYSER_MAX_DB
+
+    get frequencyBinCount(): number {
+      return this.fftSize / 2
+    }
+
+    // Every bin at the overall level: enough for meters and silence checks
+    getByteFrequencyData(array: Uint8Array): void {
+      const samples = heardSamples(this.fftSize)
+      let sum = 0
+      for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i]
+      const rms = Math.sqrt(sum / samples.length)
+      const db = rms > 0 ? 20 * Math.log10(rms) : -Infinity
+      const value = Math.max(0, Math.min(255, Math.round((255 * (db - this.minDecibels)) / (this.maxDecibels - this.minDecibels))))
+      array.fill(value)
+    }
+
+    getFloatTimeDomainData(array: Float32Array): void {
+      array.set(heardSamples(array.length))
+    }
+
+    getByteTimeDomainData(array: Uint8Array): void {
+      const samples = heardSamples(array.length)
+      for (let i = 0; i < array.length; i++) {
+        array[i] = Math.max(0, Math.min(255, Math.round(128 + samples[i] * 128)))
+      }
+    }
+  }
+
+  class FakeAudioContext extends EventTarget {
+    state: AudioContextState = 'running'
+    readonly sampleRate = 48000
+    readonly destination = new FakeAudioNode()
+    readonly currentTime = 0
+
+    createAnalyser() {
+      return new FakeAnalyserNode()
+    }
+
+    createMediaStreamSource(_stream: MediaStream) {
+      return new FakeAudioNode()
+    }
+
+    createMediaStreamDestination() {
+      return Object.assign(new FakeAudioNode(), { stream: new FakeMediaStream() })
+    }
+
+    createBiquadFilter() {
+      return Object.assign(new FakeAudioNode(), { type: 'lowpass', frequency: { value: 350 }, Q: { value: 1 }, gain: { value: 0 } })
+    }
+
+    createGain() {
+      return Object.assign(new FakeAudioNode(), { gain: { value: 1, setValueAtTime() {}, linearRampToValueAtTime() {}, exponentialRampToValueAtTime() {} } })
+    }
+
+    createBufferSource() {
+      return Object.assign(new FakeAudioNode(), { buffer: null, onended: null, start() {}, stop() {} })
+    }
+
+    createBuffer(numberOfChannels: number, length: number, sampleRate: number) {
+      const channels = Array.from({ length: numberOfChannels }, () => new Float32Array(length))
+      return { numberOfChannels, length, sampleRate, duration: length / sampleRate, getChannelData: (channel: number) => channels[channel] }
+    }
+
+    // Only the WAV this environment produces
+    async decodeAudioData(buffer: ArrayBuffer) {
+      const { samples, sampleRate } = decodeWav(buffer)
+      const audioBuffer = this.createBuffer(1, samples.length, sampleRate)
+      audioBuffer.getChannelData(0).set(samples)
+      return audioBuffer
+    }
+
+    async resume(): Promise<void> {
+      this.state = 'running'
+    }
+
+    async suspend(): Promise<void> {
+      this.state = 'suspended'
+    }
+
+    async close(): Promise<void> {
+      this.state = 'closed'
+    }
+  }
+
+  class FakeAudio extends EventTarget {
+    duration = NaN
+    currentTime = 0
+    paused = true
+    ended = false
+    volume = 1
+    playbackRate = 1
+    preload = 'auto'
+    onloadedmetadata: ((event: Event) => void) | null = null
+    onended: ((event: Event) => void) | null = null
+    onerror: ((event: Event) => void) | null = null
+    onplay: ((event: Event) => void) | null = null
+    onpause: ((event: Event) => void) | null = null
+    private source = ''
+    private endTimer: ReturnType<typeof setTimeout> | null = null
+
+    constructor(src?: string) {
+      super()
+      if (src) this.src = src
+    }
+
+    get src(): string {
+      return this.source
+    }
+
+    set src(value: string) {
+      this.source = value
+      const blob = blobUrls.get(value)
+      setTimeout(async () => {
+        if (!blob) {
+          this.emit('error')
+          return
+        }
+        this.duration = wavDuration(await blob.arrayBuffer())
+        this.emit('loadedmetadata')
+      }, 0)
+    }
+
+    load(): void {}
+
+    async play(): Promise<void> {
+      this.paused = false
+      this.ended = false
+      this.emit('play')
+      const remaining = Number.isFinite(this.duration) ? (this.duration - this.currentTime) / this.playbackRate : 0
+      this.endTimer = setTimeout(() => {
+        this.paused = true
+        this.ended = true
+        this.currentTime = Number.isFinite(this.duration) ? this.duration : 0
+        this.emit('ended')
+      }, remaining * 1000)
+    }
+
+    pause(): void {
+      if (this.endTimer) clearTimeout(this.endTimer)
+      this.endTimer = null
+      this.paused = true
+      this.emit('pause')
+    }
+
+    removeAttribute(name: string): void {
+      if (name === 'src') this.source = ''
+    }
+
+    private emit(type: string): void {
+      const event = new Event(type)
+      const handler = (this as unknown as Record<string, unknown>)[`on${type}`]
+      if (typeof handler === 'function') handler.call(this, event)
+      this.dispatchEvent(event)
+    }
+  }
+
+  const mediaDevices = {
+    async getUserMedia(constraints: MediaStreamConstraints = {}): Promise<MediaStream> {
+      if (options.permission === 'denied') {
+        throw Object.assign(new Error('Permission denied'), { name: 'NotAllowedError' })
+      }
+      if (!constraints.audio) {
+        throw Object.assign(new Error('Only audio is available'), { name: 'NotFoundError' })
+      }
+      const stream = new FakeMediaStream() as unknown as MediaStream
+      streams.push(stream)
+      return stream
+    },
+    async enumerateDevices(): Promise<MediaDeviceInfo[]> {
+      return [{ deviceId: 'fixture', groupId: 'fixture', kind: 'audioinput', label: 'Fixture microphone', toJSON: () => ({}) }]
+    },
+    addEventListener() {},
+    removeEventListener() {}
+  }
+
+  // Install, remembering what was there
+  const targets = [...new Set([globalThis, typeof window !== 'undefined' ? window : globalThis])] as unknown as Array<Record<string, unknown>>
+  const globals: Record<string, unknown> = {
+    MediaRecorder: FakeMediaRecorder,
+    MediaStream: FakeMediaStream,
+    AudioContext: FakeAudioContext,
+    webkitAudioContext: FakeAudioContext,
+    Audio: FakeAudio
+  }
+  const saved = targets.map(target => Object.fromEntries(Object.keys(globals).map(key => [key, target[key]])))
+  targets.forEach(target => Object.assign(target, globals))
+
+  const savedMediaDevices = Object.getOwnPropertyDescriptor(navigator, 'mediaDevices')
+  Object.defineProperty(navigator, 'mediaDevices', { value: mediaDevices, configurable: true })
+
+  const polyfillArrayBuffer = typeof Blob.prototype.arrayBuffer !== 'function'
+  if (polyfillArrayBuffer) {
+    Blob.prototype.arrayBuffer = function (this: Blob) {
+      return readBlob(this)
+    }
+  }
+
+  const savedCreateObjectURL = URL.createObjectURL
+  const savedRevokeObjectURL = URL.revokeObjectURL
+  URL.createObjectURL = (blob: Blob | MediaSource) => {
+    const url = `blob:fixture/${++nextBlobUrl}`
+    blobUrls.set(url, blob as Blob)
+    return url
+  }
+  URL.revokeObjectURL = (url: string) => {
+    blobUrls.delete(url)
+  }
+
+  return {
+    speak(id) {
+      const loaded = loadAudioFixture(id)
+      clip = { loaded, startedAt: Date.now() }
+      options.api?.expectSpeech(id)
+      return loaded
+    },
+    streams,
+    restore() {
+      targets.forEach((target, index) => Object.assign(target, saved[index]))
+      if (savedMediaDevices) {
+        Object.defineProperty(navigator, 'mediaDevices', savedMediaDevices)
+      } else {
+        delete (navigator as { mediaDevices?: MediaDevices }).mediaDevices
+      }
+      URL.createObjectURL = savedCreateObjectURL
+      URL.revokeObjectURL = savedRevokeObjectURL
+      if (polyfillArrayBuffer) {
+        delete (Blob.prototype as { arrayBuffer?: Blob['arrayBuffer'] }).arrayBuffer
+      }
+      clip = null
+    }
+  }
+}
@@ -0,0 +1,168 @@
+/**
+ * Local stand-in for the OpenAI proxy (/api/openai/whisper, /translate, /tts)
+ *
+ * Answers with the fixtures' recorded responses, so the app's real clients
+ * (OpenAIProxyClient and everything above it) run unchanged and offline:
+ * - whisper: the transcript of the next clip handed to `expectSpeech`
+ * - translate: the fixture translation for the prompt's target language,
+ *   or "[Language] text" for anything that isn't a fixture transcript;
+ *   streamed as server-sent events when the request asks for a stream
+ * - tts: a short silent WAV
+ *
+ * `handle` is transport-free; `installFetch` wires it into Vitest and the
+ * Playwright helper routes page requests through it.
+ */
+
+import { encodeWav } from '@/services/audio/encoding'
+import { findFixtureByTranscript, getAudioFixture, type AudioFixtureId } from './manifest'
+
+export interface FixtureApiRequest {
+  url: string
+  method: string
+  body?: string | null // JSON bodies; multipart (whisper) bodies are not read
+}
+
+export interface FixtureApiResponse {
+  status: number
+  headers: Record<string, string>
+  body: string | ArrayBuffer
+}
+
+interface ChatCompletionPayload {
+  messages?: Array<{ role: string; content: string }>
+  stream?: boolean
+}
+
+export type FixtureApiEndpoint = 'whisper' | 'translate' | 'tts'
+
+export interface FixtureApiCall {
+  endpoint: FixtureApiEndpoint
+  payload?: unknown
+}
+
+const ENDPOINT_PATTERN = /\/api\/openai\/(whisper|translate|tts)(?:[?#]|$)/
+// First line of every translation prompt (PromptService.generateTranslatorGuard)
+const LANGUAGE_PAIR_PATTERN = /only translate from (.+?) to (.+?)\./
+
+const TTS_SAMPLE_RATE = 16000
+const TTS_SECONDS = 0.5
+
+const json = (status: number, body: unknown): FixtureApiResponse => ({
+  status,
+  headers: { 'Content-Type': 'application/json' },
+  body: JSON.stringify(body)
+})
+
+// Rough stand-in for token counts, so cost tracking sees non-zero usage
+const countTokens = (text: string) => Math.max(1, Math.ceil(text.length / 4))
+
+export class FixtureApi {
+  private spoken: AudioFixtureId[] = []
+  readonly calls: FixtureApiCall[] = []
+
+  /**
+   * The next transcription request gets this clip's transcript. Fake
+   * microphones call this when a clip is spoken
+   */
+  expectSpeech(id: AudioFixtureId): void {
+    this.spoken.push(id)
+  }
+
+  reset(): void {
+    this.spoken = []
+    this.calls.length = 0
+  }
+
+  /**
+   * Answer a request, or null if it isn't for the OpenAI proxy
+   */
+  handle(request: FixtureApiRequest): FixtureApiResponse | null {
+    const match = request.url.match(ENDPOINT_PATTERN)
+    if (!match) return null
+    if (request.method.toUpperCase() !== 'POST') {
+      return json(405, { error: 'Method not allowed' })
+    }
+
+    const endpoint = match[1] as FixtureApiEndpoint
+    let payload: ChatCompletionPayload | undefined
+    try {
+      payload = request.body && endpoint !== 'whisper' ? JSON.parse(request.body) : undefined
+    } catch {
+      return json(400, { error: 'Invalid JSON body', code: 'API_INVALID_REQUEST' })
+    }
+    this.calls.push({ endpoint, payload })
+
+    switch (endpoint) {
+      case 'whisper':
+        return this.transcribe()
+      case 'translate':
+        return this.translate(payload)
+      case 'tts':
+        return {
+          status: 200,
+          headers: { 'Content-Type': 'audio/wav' },
+          body: encodeWav(new Float32Array(TTS_SAMPLE_RATE * TTS_SECONDS), TTS_SAMPLE_RATE)
+        }
+    }
+  }
+
+  /**
+   * Route the global fetch through the stand-in; returns the restore function
+   */
+  installFetch(): () => void {
+    const originalFetch = globalThis.fetch
+    globalThis.fetch = async (input: RequestInfo | URL, init?: RequestInit) => {
+      const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url
+      const response = this.handle({
+        url,
+        method: init?.method ?? 'GET',
+        body: typeof init?.body === 'string' ? init.body : null
+      })
+      if (!response) return originalFetch(input, init)
+      return new Response(response.body, { status: response.status, headers: response.headers })
+    }
+    return () => {
+      globalThis.fetch = originalFetch
+    }
+  }
+
+  private transcribe(): FixtureApiResponse {
+    const id = this.spoken.shift()
+    if (!id) {
+      return json(400, { error: 'No fixture clip was spoken before this transcription' })
+    }
+
+    const fixture = getAudioFixture(id)
+    return json(200, { text: fixture.transcript, language: fixture.whisperLanguage })
+  }
+
+  private translate(payload: ChatCompletionPayload | undefined): FixtureApiResponse {
+    const messages = payload?.messages ?? []
+    const system = messages.find(message => message.role === 'system')?.content ?? ''
+    const text = [...messages].reverse().find(message => message.role === 'user')?.content ?? ''
+    const targetLanguage = system.match(LANGUAGE_PAIR_PATTERN)?.[2] ?? 'English'
+
+    const translation = findFixtureByTranscript(text)?.translations[targetLanguage] ?? `[${targetLanguage}] ${text}`
+    const usage = { prompt_tokens: countTokens(system + text), completion_tokens: countTokens(translation) }
+
+    if (!payload?.stream) {
+      return json(200, {
+        choices: [{ index: 0, message: { role: 'assistant', content: translation }, finish_reason: 'stop' }],
+        usage
+      })
+    }
+
+    // Word by word, like the real stream; usage comes in the final chunk
+    const deltas = translation.match(/\S+\s*/g) ?? [translation]
+    const events = [
+      ...deltas.map(content => ({ choices: [{ index: 0, delta: { content } }] })),
+      { choices: [], usage }
+    ].map(event => `data: ${JSON.stringify(event)}\n\n`)
+
+    return {
+      status: 200,
+      headers: { 'Content-Type': 'text/event-stream' },
+      body: events.join('') + 'data: [DONE]\n\n'
+    }
+  }
+}
@@ -0,0 +1,6 @@
+export * from './manifest'
+export * from './aiff'
+export * from './node'
+export * from './fixtureApi'
+export * from './fakeAudioEnvironment'
+export * from './browserMicrophone'
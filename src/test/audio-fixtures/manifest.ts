@@ -0,0 +1,89 @@
+/**
+ * Audio fixtures in test-audio/ and what they say
+ *
+ * Transcripts are the `say` scripts from scripts/create-test-audio.sh, and
+ * translations are the stand-in API's "recorded" GPT answers, keyed by the
+ * full language name the translation prompt uses.
+ */
+
+export interface AudioFixture {
+  id: string
+  file: string             // Relative to the repository root
+  whisperLanguage: string  // As Whisper reports it
+  transcript: string
+  translations: Record<string, string>
+}
+
+const fixture = (id: string, file: string, whisperLanguage: string, transcript: string, translations: Record<string, string>): AudioFixture => ({
+  id,
+  file,
+  whisperLanguage,
+  transcript,
+  translations
+})
+
+export const AUDIO_FIXTURES = {
+  'en-hello': fixture('en-hello', 'test-audio/english/hello.aiff', 'english', 'Hello, how are you today?', {
+    Spanish: 'Hola, ¿cómo estás hoy?',
+    Portuguese: 'Olá, como você está hoje?'
+  }),
+  'en-morning': fixture('en-morning', 'test-audio/english/morning.aiff', 'english', 'Good morning, nice to meet you.', {
+    Spanish: 'Buenos días, mucho gusto.',
+    Portuguese: 'Bom dia, muito prazer.'
+  }),
+  'en-directions': fixture('en-directions', 'test-audio/english/directions.aiff', 'english', 'Can you help me with directions?', {
+    Spanish: '¿Puedes ayudarme con direcciones?',
+    Portuguese: 'Você pode me ajudar com direções?'
+  }),
+  'en-thanks': fixture('en-thanks', 'test-audio/english/thanks.aiff', 'english', 'Thank you very much for your help.', {
+    Spanish: 'Muchas gracias por tu ayuda.',
+    Portuguese: 'Muito obrigado pela sua ajuda.'
+  }),
+  'en-time': fixture('en-time', 'test-audio/english/time.aiff', 'english', 'What time is it now?', {
+    Spanish: '¿Qué hora es ahora?',
+    Portuguese: 'Que horas são agora?'
+  }),
+  'es-hola': fixture('es-hola', 'test-audio/spanish/hola.aiff', 'spanish', 'Hola, cómo estás hoy', {
+    English: 'Hi, how are you today',
+    Portuguese: 'Olá, como você está hoje'
+  }),
+  'es-morning': fixture('es-morning', 'test-audio/spanish/morning.aiff', 'spanish', 'Buenos días, mucho gusto', {
+    English: 'Good morning, nice to meet you',
+    Portuguese: 'Bom dia, muito prazer'
+  }),
+  'pt-ola': fixture('pt-ola', 'test-audio/portuguese/ola.aiff', 'portuguese', 'Olá, como você está hoje?', {
+    English: 'Hi, how are you today?',
+    Spanish: 'Hola, ¿cómo estás hoy?'
+  }),
+  'pt-morning': fixture('pt-morning', 'test-audio/portuguese/morning.aiff', 'portuguese', 'Bom dia, muito prazer.', {
+    English: 'Good morning, nice to meet you.',
+    Spanish: 'Buenos días, mucho gusto.'
+  }),
+  'pt-direcoes': fixture('pt-direcoes', 'test-audio/portuguese/direcoes.aiff', 'portuguese', 'Você pode me ajudar com direções?', {
+    English: 'Can you help me with directions?',
+    Spanish: '¿Puedes ayudarme con direcciones?'
+  }),
+  'pt-obrigado': fixture('pt-obrigado', 'test-audio/portuguese/obrigado.aiff', 'portuguese', 'Muito obrigado pela sua ajuda.', {
+    English: 'Thank you very much for your help.',
+    Spanish: 'Muchas gracias por tu ayuda.'
+  }),
+  'pt-horas': fixture('pt-horas', 'test-audio/portuguese/horas.aiff', 'portuguese', 'Que horas são agora?', {
+    English: 'What time is it now?',
+    Spanish: '¿Qué hora es ahora?'
+  })
+} satisfies Record<string, AudioFixture>
+
+export type AudioFixtureId = keyof typeof AUDIO_FIXTURES
+
+export function getAudioFixture(id: AudioFixtureId): AudioFixture {
+  return AUDIO_FIXTURES[id]
+}
+
+/**
+ * Fixture whose transcript is `text`, ignoring case and punctuation
+ */
+export function findFixtureByTranscript(text: string): AudioFixture | undefined {
+  const normalize = (value: string) => value.toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, '').replace(/\s+/g, ' ').trim()
+  const target = normalize(text)
+  return Object.values(AUDIO_FIXTURES).find(item => normalize(item.transcript) === target)
+}
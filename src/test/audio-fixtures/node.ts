@@ -0,0 +1,34 @@
+/**
+ * Fixture audio loading (Node side: Vitest, Playwright test runner)
+ */
+
+import { readFileSync } from 'fs'
+import { resolve } from 'path'
+import { encodeWav } from '@/services/audio/encoding'
+import { decodeAiff, type DecodedAudio } from './aiff'
+import { getAudioFixture, type AudioFixture, type AudioFixtureId } from './manifest'
+
+export interface LoadedAudioFixture {
+  fixture: AudioFixture
+  audio: DecodedAudio
+  wav: ArrayBuffer // 16-bit WAV of the clip, which browsers can decode (AIFF they mostly can't)
+}
+
+const cache = new Map<AudioFixtureId, LoadedAudioFixture>()
+
+/**
+ * Read and decode a fixture. Paths resolve from the working directory, which
+ * is the repository root for both test runners
+ */
+export function loadAudioFixture(id: AudioFixtureId): LoadedAudioFixture {
+  const cached = cache.get(id)
+  if (cached) return cached
+
+  const fixture = getAudioFixture(id)
+  const file = readFileSync(resolve(process.cwd(), fixture.file))
+  const audio = decodeAiff(file.buffer.slice(file.byteOffset, file.byteOffset + file.byteLength))
+  const loaded = { fixture, audio, wav: encodeWav(audio.samples, audio.sampleRate) }
+
+  cache.set(id, loaded)
+  return loaded
+}
@@ -0,0 +1,8 @@
+import type { FixtureMicrophoneControl } from './browserMicrophone'
+
+declare global {
+  interface Window {
+    /** Installed by installFixtureMicrophone */
+    __fixtureMicrophone?: FixtureMicrophoneControl
+  }
+}
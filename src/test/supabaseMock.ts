@@ -0,0 +1,14 @@
+import type { supabase } from '@/lib/supabase'
+
+/**
+ * What `supabase.from` returns
+ */
+export type SupabaseQueryBuilder = ReturnType<typeof supabase.from>
+
+/**
+ * Hand a partial query builder to a mocked `supabase.from`. Tests only stub
+ * the calls the code under test makes
+ */
+export function mockQueryBuilder(builder: object): SupabaseQueryBuilder {
+  return builder as unknown as SupabaseQueryBuilder
+}
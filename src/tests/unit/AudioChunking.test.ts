@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest'
+import { findChunkBoundaries } from '@/services/audio/chunking'
+
+const SAMPLE_RATE = 1000
+
+/**
+ * Build mono PCM from [seconds, amplitude] runs
+ */
+function pcm(...runs: Array<[number, number]>): Float32Array {
+  const samples: number[] = []
+  for (const [seconds, amplitude] of runs) {
+    for (let i = 0; i < seconds * SAMPLE_RATE; i++) {
+      samples.push(i % 2 ? amplitude : -amplitude)
+    }
+  }
+  return Float32Array.from(samples)
+}
+
+describe('findChunkBoundaries', () => {
+  it('should keep short recordings in one chunk', () => {
+    const samples = pcm([30, 0.5])
+
+    expect(findChunkBoundaries(samples, SAMPLE_RATE)).toEqual([{ start: 0, end: samples.length }])
+  })
+
+  it('should cut at the pause between min and max chunk length', () => {
+    const samples = pcm([30, 0.5], [1, 0], [30, 0.5])
+
+    const chunks = findChunkBoundaries(samples, SAMPLE_RATE)
+
+    expect(chunks).toHaveLength(2)
+    expect(chunks[0].end).toBeGreaterThanOrEqual(30 * SAMPLE_RATE)
+    expect(chunks[0].end).toBeLessThanOrEqual(31 * SAMPLE_RATE)
+  })
+
+  it('should cover every sample without exceeding the maximum chunk length', () => {
+    const samples = pcm([200, 0.5])
+
+    const chunks = findChunkBoundaries(samples, SAMPLE_RATE, { maxChunkSeconds: 45, minChunkSeconds: 20 })
+
+    expect(chunks[0].start).toBe(0)
+    expect(chunks[chunks.length - 1].end).toBe(samples.length)
+    chunks.forEach((chunk, index) => {
+      expect(chunk.end - chunk.start).toBeLessThanOrEqual(45 * SAMPLE_RATE)
+      if (index > 0) expect(chunk.start).toBe(chunks[index - 1].end)
+    })
+  })
+})
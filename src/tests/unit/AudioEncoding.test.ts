@@ -0,0 +1,81 @@
+import { describe, it, expect, vi } from 'vitest'
+import { downmixToMono, encodeWav, normalizeLoudness, resample } from '@/services/audio/encoding'
+import { AudioWorkerManager } from '@/lib/workers/AudioWorkerManager'
+import { QUALITY_CONFIGS } from '@/lib/quality-degradation'
+
+// Mock console to reduce noise
+vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+function sine(frequency: number, sampleRate: number, seconds: number, amplitude = 0.5): Float32Array {
+  return Float32Array.from({ length: sampleRate * seconds }, (_, i) =>
+    amplitude * Math.sin((2 * Math.PI * frequency * i) / sampleRate)
+  )
+}
+
+function rms(samples: Float32Array, from = 0, to = samples.length): number {
+  let sum = 0
+  for (let i = from; i < to; i++) sum += samples[i] * samples[i]
+  return Math.sqrt(sum / (to - from))
+}
+
+describe('audio encoding', () => {
+  it('should average channels when downmixing', () => {
+    const mono = downmixToMono([Float32Array.from([1, 0.5]), Float32Array.from([0, -0.5])])
+
+    expect(Array.from(mono)).toEqual([0.5, 0])
+  })
+
+  it('should resample speech-band audio without changing its level', () => {
+    const input = sine(440, 48000, 0.5)
+
+    const output = resample(input, 48000, 16000)
+
+    expect(output.length).toBe(8000)
+    // Ignore the edges where the kernel runs out of input
+    expect(rms(output, 100, 7900)).toBeCloseTo(rms(input), 2)
+  })
+
+  it('should filter out content above the new Nyquist frequency instead of aliasing it', () => {
+    const output = resample(sine(12000, 48000, 0.5), 48000, 16000)
+
+    expect(rms(output, 100, output.length - 100)).toBeLessThan(0.01)
+  })
+
+  it('should normalize speech loudness without clipping or boosting silence', () => {
+    const quiet = sine(440, 16000, 1, 0.01)
+    const { samples, gain } = normalizeLoudness(quiet, 16000, { targetRmsDb: -20, maxGainDb: 40 })
+
+    expect(gain).toBeGreaterThan(1)
+    expect(rms(samples)).toBeCloseTo(0.1, 2)
+    expect(normalizeLoudness(new Float32Array(16000), 16000).gain).toBe(1)
+
+    const loud = normalizeLoudness(sine(440, 16000, 1, 0.9), 16000, { targetRmsDb: 0 })
+    expect(Math.max(...loud.samples)).toBeLessThanOrEqual(0.95 + 1e-6)
+  })
+
+  it('should write a mono PCM WAV header and data of the requested depth', () => {
+    const samples = Float32Array.from([0, 1, -1])
+
+    const wav16 = new DataView(encodeWav(samples, 16000, 16))
+    const wav8 = new DataView(encodeWav(samples, 16000, 8))
+
+    expect(wav16.byteLength).toBe(44 + 6)
+    expect(wav16.getUint32(24, true)).toBe(16000)
+    expect(wav16.getUint16(34, true)).toBe(16)
+    expect(wav16.getInt16(46, true)).toBe(0x7FFF)
+    expect(wav8.byteLength).toBe(44 + 3)
+    expect(wav8.getUint16(34, true)).toBe(8)
+    expect([wav8.getUint8(44), wav8.getUint8(45), wav8.getUint8(46)]).toEqual([128, 255, 0])
+  })
+
+  it('should derive compression targets from the network quality config', () => {
+    expect(AudioWorkerManager.getCompressionTarget(QUALITY_CONFIGS.fast)).toMatchObject({
+      targetSampleRate: 16000,
+      bitsPerSample: 16
+    })
+    expect(AudioWorkerManager.getCompressionTarget(QUALITY_CONFIGS['very-slow'])).toMatchObject({
+      targetSampleRate: 16000,
+      bitsPerSample: 8
+    })
+  })
+})
@@ -0,0 +1,134 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { act, fireEvent, render, screen } from '@testing-library/react'
+import { MemoryRouter } from 'react-router-dom'
+import { ThemeProvider } from '@/contexts/ThemeContext'
+import { TranslationProvider } from '@/lib/i18n/useTranslation'
+import { SoloTranslator } from '@/features/translator/solo/SoloTranslator'
+import { persistentAudioManager, type AudioRecordingResult } from '@/services/audio/PersistentAudioManager'
+import { createTranslationPipeline } from '@/services/pipeline'
+import { createProviderRegistry } from '@/services/providers'
+import { FixtureApi, decodeAiff, installFakeAudioEnvironment, loadAudioFixture, type AudioFixtureId, type FakeAudioEnvironment } from '@/test/audio-fixtures'
+
+// Default (OpenAI proxy) providers, whatever VITE_* provider settings say
+const pipeline = createTranslationPipeline(createProviderRegistry({}))
+
+describe('Audio fixture harness', () => {
+  let api: FixtureApi
+  let environment: FakeAudioEnvironment
+  let restoreFetch: () => void
+
+  // Speak a clip into the fake microphone while recording
+  const record = async (id: AudioFixtureId): Promise<AudioRecordingResult> => {
+    vi.useFakeTimers({ toFake: ['Date', 'setTimeout', 'clearTimeout', 'requestAnimationFrame', 'cancelAnimationFrame'] })
+    try {
+      const completed = new Promise<AudioRecordingResult>((resolve, reject) => {
+        persistentAudioManager.onComplete = resolve
+        persistentAudioManager.onError = reject
+      })
+
+      await persistentAudioManager.startRecording()
+      const { audio } = environment.speak(id)
+      await vi.advanceTimersByTimeAsync(audio.duration * 1000 + 300)
+      await persistentAudioManager.stopRecording()
+      await vi.advanceTimersByTimeAsync(10)
+      return await completed
+    } finally {
+      vi.useRealTimers()
+    }
+  }
+
+  beforeEach(async () => {
+    api = new FixtureApi()
+    restoreFetch = api.installFetch()
+    environment = installFakeAudioEnvironment({ api })
+    await persistentAudioManager.initializePersistentStream()
+  })
+
+  afterEach(() => {
+    persistentAudioManager.destroy()
+    persistentAudioManager.onComplete = undefined
+    persistentAudioManager.onError = undefined
+    environment.restore()
+    restoreFetch()
+  })
+
+  it('should decode the say-generated fixtures', () => {
+    const { audio, wav } = loadAudioFixture('en-hello')
+    expect(audio.sampleRate).toBe(22050)
+    expect(audio.duration).toBeGreaterThan(0.5)
+    expect(Math.max(...audio.samples.subarray(0, 22050).map(Math.abs))).toBeGreaterThan(0.05)
+    expect(() => decodeAiff(wav)).toThrow('Not an AIFF file')
+  })
+
+  it('should record a fixture through the persistent stream', async () => {
+    const recording = await record('en-hello')
+
+    expect(environment.streams).toHaveLength(1)
+    expect(recording.duration).toBeGreaterThan(0.5)
+    expect(recording.size).toBe(loadAudioFixture('en-hello').wav.byteLength)
+  })
+
+  it('should run record → transcribe → translate offline', async () => {
+    const recording = await record('en-morning')
+
+    const result = await pipeline.translate({
+      input: recording.audioFile,
+      inputType: 'audio',
+      targetLanguage: 'es',
+      mode: 'casual'
+    })
+
+    expect(result.original).toBe('Good morning, nice to meet you.')
+    expect(result.translation).toBe('Buenos días, mucho gusto.')
+    expect(result.originalLanguageCode).toBe('en')
+    expect(api.calls.map(call => call.endpoint)).toEqual(['whisper', 'translate'])
+  })
+
+  it('should show the translation of a spoken clip in the translator', async () => {
+    // jsdom has no element scrolling; the message list scrolls to new messages
+    Element.prototype.scrollTo = vi.fn()
+
+    render(
+      <MemoryRouter>
+        <ThemeProvider>
+          <TranslationProvider>
+            <SoloTranslator translationPipeline={pipeline} />
+          </TranslationProvider>
+        </ThemeProvider>
+      </MemoryRouter>
+    )
+
+    // Real timers here: the screen waits on them. The shortest clip keeps it quick
+    const button = screen.getByTestId('recording-button')
+    await act(async () => {
+      fireEvent.click(button)
+    })
+    const { audio } = environment.speak('en-time')
+    await act(() => new Promise(resolve => setTimeout(resolve, audio.duration * 1000 + 200)))
+    await act(async () => {
+      fireEvent.click(button)
+    })
+
+    expect(await screen.findByText('¿Qué hora es ahora?', {}, { timeout: 3000 })).toBeInTheDocument()
+    expect(screen.getByText('What time is it now?')).toBeInTheDocument()
+  }, 10000)
+
+  it('should treat a recording with nothing spoken as silence', async () => {
+    vi.useFakeTimers({ toFake: ['Date', 'setTimeout', 'clearTimeout', 'requestAnimationFrame', 'cancelAnimationFrame'] })
+    try {
+      const failed = new Promise<Error>(resolve => {
+        persistentAudioManager.onError = resolve
+      })
+
+      await persistentAudioManager.startRecording()
+      await vi.advanceTimersByTimeAsync(1500)
+      await persistentAudioManager.stopRecording()
+      await vi.advanceTimersByTimeAsync(10)
+
+      expect((await failed).message).toBe('No speech detected')
+      expect(api.calls).toEqual([])
+    } finally {
+      vi.useRealTimers()
+    }
+  })
+})
@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest'
+import { AutoGain, NoiseGate, SpectralNoiseSuppressor } from '@/services/audio/dsp'
+import {
+  ENVIRONMENT_PRESETS,
+  applyPreprocessingToConstraints,
+  matchEnvironmentPreset,
+  resolvePreprocessingConfig
+} from '@/services/audio/preprocessing'
+import { QUALITY_CONFIGS } from '@/lib/quality-degradation'
+
+const SAMPLE_RATE = 16000
+const QUANTUM = 128
+
+const rms = (samples: Float32Array, from = 0, to = samples.length) => {
+  let sum = 0
+  for (let i = from; i < to; i++) sum += samples[i] * samples[i]
+  return Math.sqrt(sum / (to - from))
+}
+
+const sine = (length: number, amplitude: number, frequency = 300) =>
+  Float32Array.from({ length }, (_, i) => amplitude * Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE))
+
+// Deterministic white noise
+const noise = (length: number, amplitude: number) => {
+  let seed = 1
+  return Float32Array.from({ length }, () => {
+    seed = (seed * 16807) % 2147483647
+    return amplitude * ((seed / 2147483647) * 2 - 1)
+  })
+}
+
+// Run a stage the way the worklet does: one render quantum at a time
+const inQuanta = (signal: Float32Array, process: (block: Float32Array) => void) => {
+  const output = new Float32Array(signal.length)
+  for (let start = 0; start < signal.length; start += QUANTUM) {
+    const block = signal.slice(start, start + QUANTUM)
+    process(block)
+    output.set(block, start)
+  }
+  return output
+}
+
+describe('Audio pre-processing', () => {
+  describe('DSP stages', () => {
+    it('should pass audio through the suppressor unchanged, delayed, when nothing is subtracted', () => {
+      const suppressor = new SpectralNoiseSuppressor({ overSubtraction: 0, spectralFloor: 1 })
+      const input = noise(SAMPLE_RATE / 2, 0.5)
+      const output = new Float32Array(input.length)
+      suppressor.process(input, output)
+
+      for (let i = 2048; i < input.length; i += 97) {
+        expect(output[i]).toBeCloseTo(input[i - suppressor.latency], 4)
+      }
+    })
+
+    it('should remove steady background noise but keep speech-like bursts', () => {
+      const suppressor = new SpectralNoiseSuppressor({ overSubtraction: 2, spectralFloor: 0.05 })
+      const background = noise(SAMPLE_RATE * 2, 0.05)
+      const input = background.slice()
+      const tone = sine(SAMPLE_RATE / 2, 0.4)
+      input.set(tone.map((sample, i) => sample + background[SAMPLE_RATE + i]), SAMPLE_RATE)
+
+      const output = inQuanta(input, block => suppressor.process(block.slice(), block))
+
+      const latency = suppressor.latency
+      const noiseOnly = rms(output, SAMPLE_RATE / 2, SAMPLE_RATE - 1024)
+      const withTone = rms(output, SAMPLE_RATE + latency + 1024, SAMPLE_RATE + latency + SAMPLE_RATE / 2 - 1024)
+      expect(noiseOnly).toBeLessThan(0.05 * 0.3)
+      expect(withTone).toBeGreaterThan(0.4 * Math.SQRT1_2 * 0.8)
+    })
+
+    it('should close the gate on quiet input and open it for loud input', () => {
+      const gate = new NoiseGate(SAMPLE_RATE, { thresholdDb: -45, rangeDb: -40, attackMs: 5, holdMs: 50, releaseMs: 20 })
+
+      const quiet = inQuanta(sine(SAMPLE_RATE / 2, 0.001), block => gate.process(block))
+      expect(rms(quiet, SAMPLE_RATE / 4)).toBeLessThan(0.001 * Math.SQRT1_2 * 0.05)
+
+      const loud = inQuanta(sine(SAMPLE_RATE / 2, 0.3), block => gate.process(block))
+      expect(rms(loud, SAMPLE_RATE / 4)).toBeCloseTo(0.3 * Math.SQRT1_2, 2)
+    })
+
+    it('should bring quiet speech towards the target level without exceeding the maximum gain', () => {
+      const gain = new AutoGain(SAMPLE_RATE, { targetDb: -20, maxGainDb: 20, windowMs: 300 })
+      const output = inQuanta(sine(SAMPLE_RATE * 3, 0.02), block => gain.process(block))
+
+      const level = rms(output, SAMPLE_RATE * 2)
+      expect(level).toBeGreaterThan(0.02 * Math.SQRT1_2 * 3)
+      expect(level).toBeLessThanOrEqual(0.1 * 1.05)
+      expect(gain.getGain()).toBeLessThanOrEqual(10.0001)
+    })
+  })
+
+  describe('configuration', () => {
+    it('should bypass every stage when pre-processing is off', () => {
+      expect(resolvePreprocessingConfig(ENVIRONMENT_PRESETS.off, QUALITY_CONFIGS['very-slow'])).toEqual({
+        highPassHz: null,
+        noiseGate: null,
+        gainNormalization: null,
+        noiseSuppression: null
+      })
+    })
+
+    it('should gate pauses at low upload bitrates', () => {
+      expect(resolvePreprocessingConfig(ENVIRONMENT_PRESETS.quiet, QUALITY_CONFIGS.fast).noiseGate).toBeNull()
+      expect(resolvePreprocessingConfig(ENVIRONMENT_PRESETS.quiet, QUALITY_CONFIGS['very-slow']).noiseGate).not.toBeNull()
+    })
+
+    it('should hand noise suppression and gain control over from the browser', () => {
+      const config = resolvePreprocessingConfig(ENVIRONMENT_PRESETS.street, QUALITY_CONFIGS.fast)
+      const constraints = applyPreprocessingToConstraints(
+        { audio: { echoCancellation: true, noiseSuppression: true, autoGainControl: true } },
+        config
+      )
+      expect(constraints.audio).toEqual({ echoCancellation: true, noiseSuppression: false, autoGainControl: false })
+
+      const quiet = applyPreprocessingToConstraints(
+        { audio: { noiseSuppression: true, autoGainControl: true } },
+        resolvePreprocessingConfig(ENVIRONMENT_PRESETS.quiet, QUALITY_CONFIGS.fast)
+      )
+      expect(quiet.audio).toEqual({ noiseSuppression: true, autoGainControl: false })
+    })
+
+    it('should recognise environment presets', () => {
+      expect(matchEnvironmentPreset(ENVIRONMENT_PRESETS.cafe)).toBe('cafe')
+      expect(matchEnvironmentPreset({ ...ENVIRONMENT_PRESETS.cafe, highPass: 'strong' })).toBeNull()
+    })
+  })
+})
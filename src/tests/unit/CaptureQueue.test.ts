@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest'
+import { CaptureQueue, moveCapture, type CapturedMessage } from '@/lib/offline/CaptureQueue'
+import type { TranslationRequest } from '@/services/pipeline/types'
+
+const request = (messageId: string): TranslationRequest => ({
+  input: `Text of ${messageId}`,
+  inputType: 'text',
+  targetLanguage: 'es',
+  mode: 'casual',
+  messageId
+})
+
+const capture = (id: string, position: number): CapturedMessage => ({
+  id,
+  request: request(id),
+  sessionId: 'solo-session',
+  createdAt: position,
+  position
+})
+
+describe('CaptureQueue', () => {
+  const captures = [capture('c', 3), capture('a', 1), capture('b', 2)]
+
+  it('should swap positions with the neighbour in queue order', () => {
+    expect(moveCapture(captures, 'b', 'up')).toEqual([
+      expect.objectContaining({ id: 'b', position: 1 }),
+      expect.objectContaining({ id: 'a', position: 2 })
+    ])
+    expect(moveCapture(captures, 'b', 'down')).toEqual([
+      expect.objectContaining({ id: 'b', position: 3 }),
+      expect.objectContaining({ id: 'c', position: 2 })
+    ])
+  })
+
+  it('should leave the ends and unknown ids alone', () => {
+    expect(moveCapture(captures, 'a', 'up')).toEqual([])
+    expect(moveCapture(captures, 'c', 'down')).toEqual([])
+    expect(moveCapture(captures, 'missing', 'up')).toEqual([])
+  })
+
+  it('should refuse requests without a message id', async () => {
+    await expect(CaptureQueue.add({ ...request('x'), messageId: undefined })).rejects.toThrow('messageId')
+    expect(await CaptureQueue.list('solo-session')).toEqual([])
+  })
+})
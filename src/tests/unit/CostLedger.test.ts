@@ -0,0 +1,86 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { CostLedger } from '@/lib/usage/CostLedger'
+
+// Mock console to reduce noise
+vi.spyOn(console, 'log').mockImplementation(() => {})
+
+// Back the global localStorage mock with a real store
+const store = new Map<string, string>()
+
+describe('CostLedger', () => {
+  beforeEach(() => {
+    store.clear()
+    vi.mocked(localStorage.getItem).mockImplementation(key => store.get(key) ?? null)
+    vi.mocked(localStorage.setItem).mockImplementation((key, value) => { store.set(key, value) })
+    vi.mocked(localStorage.removeItem).mockImplementation(key => { store.delete(key) })
+    CostLedger.setActiveSession(null)
+  })
+
+  it('should summarize spending by service and count cache hits as savings', () => {
+    CostLedger.record({ service: 'whisper', model: 'whisper-1', cost: 0.006, seconds: 60 })
+    CostLedger.record({ service: 'translation', model: 'gpt-4o-mini', cost: 0.0002, inputTokens: 500, outputTokens: 80 })
+    CostLedger.record({ service: 'translation', model: 'gpt-4o-mini', cost: 0.0002, cached: true })
+
+    const summary = CostLedger.summarize(CostLedger.query())
+
+    expect(summary.calls).toBe(3)
+    expect(summary.cachedCalls).toBe(1)
+    expect(summary.spent).toBeCloseTo(0.0062)
+    expect(summary.saved).toBeCloseTo(0.0002)
+    expect(summary.byService.whisper.spent).toBeCloseTo(0.006)
+    expect(summary.byService.translation.calls).toBe(2)
+  })
+
+  it('should attribute calls to the active session', () => {
+    CostLedger.setActiveSession({ sessionId: 'session-a', sessionCode: '1234' })
+    CostLedger.record({ service: 'tts', model: 'tts-1', cost: 0.003, characters: 200 })
+    CostLedger.record({ service: 'translation', model: 'gpt-4o-mini', cost: 0.001 })
+    CostLedger.setActiveSession(null)
+    CostLedger.record({ service: 'whisper', model: 'whisper-1', cost: 0.002 })
+
+    const [session] = CostLedger.getSessionTotals()
+
+    expect(CostLedger.getSessionTotals()).toHaveLength(1)
+    expect(session).toMatchObject({ sessionId: 'session-a', sessionCode: '1234', calls: 2 })
+    expect(session.spent).toBeCloseTo(0.004)
+    expect(CostLedger.query({ sessionId: null })).toHaveLength(1)
+  })
+
+  it('should group totals by day and month', () => {
+    CostLedger.record({ service: 'whisper', model: 'whisper-1', cost: 0.01 })
+    CostLedger.record({ service: 'whisper', model: 'whisper-1', cost: 0.02 })
+
+    const [today] = CostLedger.getDailyTotals(1)
+    const [month] = CostLedger.getMonthlyTotals(1)
+
+    expect(today.period).toMatch(/^\d{4}-\d{2}-\d{2}$/)
+    expect(today.spent).toBeCloseTo(0.03)
+    expect(month.period).toBe(today.period.slice(0, 7))
+  })
+
+  it('should report an exceeded budget once per period', () => {
+    CostLedger.setBudget({ daily: 0.01 })
+    CostLedger.record({ service: 'whisper', model: 'whisper-1', cost: 0.005 })
+    expect(CostLedger.checkBudget()).toEqual([])
+
+    CostLedger.record({ service: 'whisper', model: 'whisper-1', cost: 0.006 })
+    const alerts = CostLedger.checkBudget()
+    expect(alerts).toHaveLength(1)
+    expect(alerts[0]).toMatchObject({ period: 'daily', budget: 0.01 })
+
+    CostLedger.record({ service: 'whisper', model: 'whisper-1', cost: 0.006 })
+    expect(CostLedger.checkBudget()).toEqual([])
+  })
+
+  it('should notify subscribers of new records', () => {
+    const listener = vi.fn()
+    const unsubscribe = CostLedger.subscribe(listener)
+
+    CostLedger.record({ service: 'tts', model: 'tts-1', cost: 0.001 })
+    unsubscribe()
+    CostLedger.record({ service: 'tts', model: 'tts-1', cost: 0.001 })
+
+    expect(listener).toHaveBeenCalledTimes(1)
+    expect(listener.mock.calls[0][0]).toMatchObject({ service: 'tts', cached: false, sessionId: null })
+  })
+})
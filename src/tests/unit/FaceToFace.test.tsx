@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { act, fireEvent, render, screen, within } from '@testing-library/react'
+import { MemoryRouter } from 'react-router-dom'
+import { ThemeProvider } from '@/contexts/ThemeContext'
+import { TranslationProvider } from '@/lib/i18n/useTranslation'
+import { SoloTranslator } from '@/features/translator/solo/SoloTranslator'
+import { FACE_TO_FACE_SPEAKERS, orientLanguagePair, toHalfMessage } from '@/features/translator/solo/faceToFace'
+import type { QueuedMessage } from '@/features/messages/MessageQueue'
+import { persistentAudioManager } from '@/services/audio/PersistentAudioManager'
+import { createTranslationPipeline } from '@/services/pipeline'
+import { createProviderRegistry } from '@/services/providers'
+import { FixtureApi, installFakeAudioEnvironment, type FakeAudioEnvironment } from '@/test/audio-fixtures'
+
+const pipeline = createTranslationPipeline(createProviderRegistry({}))
+
+const message = (overrides: Partial<QueuedMessage>): QueuedMessage => ({
+  id: 'msg-1',
+  original: 'Hola',
+  translation: 'Hello',
+  original_lang: 'es',
+  target_lang: 'en',
+  status: 'displayed',
+  queued_at: '2025-01-01T00:00:00.000Z',
+  processed_at: null,
+  displayed_at: null,
+  performance_metrics: null,
+  timestamp: '2025-01-01T00:00:00.000Z',
+  created_at: '2025-01-01T00:00:00.000Z',
+  localId: 'msg-1',
+  retryCount: 0,
+  displayOrder: 1,
+  user_id: FACE_TO_FACE_SPEAKERS.partner,
+  ...overrides
+})
+
+describe('Face-to-face mode', () => {
+  describe('halves', () => {
+    it('should orient the language pair towards the speaker', () => {
+      const pair = { own: 'en', partner: 'es' } as const
+
+      expect(orientLanguagePair(pair, 'own')).toEqual({ own: 'en', partner: 'es' })
+      expect(orientLanguagePair(pair, 'partner')).toEqual({ own: 'es', partner: 'en' })
+    })
+
+    it("should show a speaker's own messages as they said them", () => {
+      const partnerMessage = message({})
+
+      expect(toHalfMessage(partnerMessage, 'own').translation).toBe('Hello')
+      expect(toHalfMessage(partnerMessage, 'partner').translation).toBeNull()
+      expect(toHalfMessage(partnerMessage, 'partner').original).toBe('Hola')
+    })
+  })
+
+  describe('split screen', () => {
+    let api: FixtureApi
+    let environment: FakeAudioEnvironment
+    let restoreFetch: () => void
+
+    beforeEach(async () => {
+      // jsdom has no element scrolling; each half scrolls to new messages
+      Element.prototype.scrollTo = vi.fn()
+      api = new FixtureApi()
+      restoreFetch = api.installFetch()
+      environment = installFakeAudioEnvironment({ api })
+      await persistentAudioManager.initializePersistentStream()
+    })
+
+    afterEach(() => {
+      persistentAudioManager.destroy()
+      persistentAudioManager.onComplete = undefined
+      environment.restore()
+      restoreFetch()
+    })
+
+    it("should translate the top half's speech for the bottom half", async () => {
+      render(
+        <MemoryRouter>
+          <ThemeProvider>
+            <TranslationProvider>
+              <SoloTranslator translationPipeline={pipeline} />
+            </TranslationProvider>
+          </ThemeProvider>
+        </MemoryRouter>
+      )
+
+      // Turning it on starts a pair from English and the target language
+      await act(async () => {
+        fireEvent.click(screen.getByTestId('face-to-face-toggle'))
+      })
+      const top = screen.getByTestId('face-to-face-half-partner')
+      const bottom = screen.getByTestId('face-to-face-half-own')
+      expect(top).toHaveClass('rotate-180')
+      expect(within(top).getByTestId('face-to-face-language-partner')).toHaveTextContent('Español')
+      expect(screen.queryByTestId('recording-button')).not.toBeInTheDocument()
+
+      const topButton = within(top).getByTestId('face-to-face-record-partner')
+      await act(async () => {
+        fireEvent.click(topButton)
+      })
+      expect(within(bottom).getByTestId('face-to-face-record-own')).toBeDisabled()
+
+      const { audio } = environment.speak('es-hola')
+      await act(() => new Promise(resolve => setTimeout(resolve, audio.duration * 1000 + 200)))
+      await act(async () => {
+        fireEvent.click(topButton)
+      })
+
+      expect(await within(bottom).findByText('Hi, how are you today', {}, { timeout: 3000 })).toBeInTheDocument()
+      expect(within(top).getByText('Hola, cómo estás hoy')).toBeInTheDocument()
+      expect(within(top).queryByText('Hi, how are you today')).not.toBeInTheDocument()
+
+      const translateCall = api.calls.find(call => call.endpoint === 'translate')
+      expect(JSON.stringify(translateCall?.payload)).toContain('only translate from Spanish to English.')
+    }, 10000)
+  })
+})
@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { GlossaryManager, type GlossaryEntry } from '@/lib/glossary/GlossaryManager'
+import { ConversationContextManager } from '@/lib/conversation/ConversationContext'
+import { PromptService } from '@/services/openai/prompts'
+
+// Mock console to reduce noise
+vi.spyOn(console, 'log').mockImplementation(() => {})
+vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+// Back the global localStorage mock with a real store
+const store = new Map<string, string>()
+
+describe('GlossaryManager', () => {
+  beforeEach(() => {
+    store.clear()
+    vi.mocked(localStorage.getItem).mockImplementation(key => store.get(key) ?? null)
+    vi.mocked(localStorage.setItem).mockImplementation((key, value) => { store.set(key, value) })
+    vi.mocked(localStorage.removeItem).mockImplementation(key => { store.delete(key) })
+  })
+
+  describe('entries', () => {
+    it('should store user and session entries separately', () => {
+      GlossaryManager.addEntry('user', { term: 'Bia' })
+      GlossaryManager.addEntry('session', { term: 'Big Apple', translation: 'Gran Manzana', from: 'en', to: 'es' }, 'session-1')
+
+      expect(GlossaryManager.getUserEntries().map(entry => entry.term)).toEqual(['Bia'])
+      expect(GlossaryManager.getEntries('session-1').map(entry => entry.term)).toEqual(['Big Apple', 'Bia'])
+      expect(GlossaryManager.getEntries('session-2').map(entry => entry.term)).toEqual(['Bia'])
+    })
+
+    it('should reject invalid entries', () => {
+      expect(() => GlossaryManager.addEntry('user', { term: '  ' })).toThrow('Invalid glossary entry provided')
+      expect(() => GlossaryManager.addEntry('user', { term: 'Bia', translation: 'Bia', from: 'en', to: 'en' }))
+        .toThrow('Invalid glossary entry provided')
+      expect(() => GlossaryManager.addEntry('session', { term: 'Bia' })).toThrow('require an active session')
+    })
+
+    it('should notify listeners and remove entries', () => {
+      const listener = vi.fn()
+      const unsubscribe = GlossaryManager.subscribe(listener)
+
+      const entry = GlossaryManager.addEntry('session', { term: 'Bia' }, 'session-1')
+      GlossaryManager.removeEntry('session', entry.id, 'session-1')
+      unsubscribe()
+
+      expect(listener).toHaveBeenCalledWith('session-1', 'local')
+      expect(listener).toHaveBeenCalledTimes(2)
+      expect(GlossaryManager.getSessionGlossary('session-1').entries).toEqual([])
+    })
+
+    it('should only apply a partner glossary that is newer', () => {
+      GlossaryManager.addEntry('session', { term: 'Bia' }, 'session-1')
+      const local = GlossaryManager.getSessionGlossary('session-1')
+
+      const older = { entries: [], updatedAt: new Date(0).toISOString() }
+      expect(GlossaryManager.applySessionGlossary('session-1', older)).toBe(false)
+
+      const newer = {
+        entries: [...local.entries, { id: 'partner-1', term: 'Zé', createdAt: local.updatedAt }],
+        updatedAt: new Date(Date.parse(local.updatedAt) + 1000).toISOString()
+      }
+      expect(GlossaryManager.applySessionGlossary('session-1', newer)).toBe(true)
+      expect(GlossaryManager.getSessionGlossary('session-1').entries.map(entry => entry.term)).toEqual(['Bia', 'Zé'])
+    })
+  })
+
+  describe('resolution and verification', () => {
+    const entries: GlossaryEntry[] = [
+      { id: '1', term: 'Big Apple', translation: 'Gran Manzana', from: 'en', to: 'es', createdAt: '' },
+      { id: '2', term: 'Mooncake', createdAt: '' },
+      { id: '3', term: 'Big Apple', translation: 'Grande Maçã', from: 'en', to: 'pt', createdAt: '' }
+    ]
+
+    it('should resolve mappings for the direction in both ways', () => {
+      expect(GlossaryManager.resolve(entries, 'English', 'Spanish')).toEqual({
+        mappings: [{ term: 'Big Apple', translation: 'Gran Manzana' }],
+        keep: ['Mooncake']
+      })
+      expect(GlossaryManager.resolve(entries, 'es', 'en').mappings)
+        .toEqual([{ term: 'Gran Manzana', translation: 'Big Apple' }])
+      expect(GlossaryManager.resolve(entries, 'fr', 'de').mappings).toEqual([])
+    })
+
+    it('should report terms the translation did not honor', () => {
+      const glossary = GlossaryManager.resolve(entries, 'en', 'es')
+
+      expect(GlossaryManager.verify(glossary, 'I love the Big Apple, Mooncake', 'Me encanta la Gran Manzana, Mooncake'))
+        .toEqual([])
+      expect(GlossaryManager.verify(glossary, 'I love the big apple, Mooncake', 'Me encanta la gran manzana, Pastel de luna'))
+        .toEqual([{ term: 'Mooncake', expected: 'Mooncake' }])
+      expect(GlossaryManager.verify(glossary, 'Mooncakes are sweet', 'Los pasteles de luna son dulces'))
+        .toEqual([])
+    })
+
+    it('should add glossary rules to the translation prompt', () => {
+      const glossary = GlossaryManager.resolve(entries, 'en', 'es')
+      const prompt = PromptService.generateTranslationPrompt('English', 'Spanish', 'casual', { glossary })
+
+      expect(prompt).toContain('GLOSSARY')
+      expect(prompt).toContain('"Big Apple" → always "Gran Manzana"')
+      expect(prompt).toContain('"Mooncake" → keep exactly as "Mooncake"')
+    })
+
+    it('should bias Whisper towards glossary spellings', () => {
+      const terms = GlossaryManager.getWhisperTerms(entries)
+
+      expect(terms).toEqual(['Big Apple', 'Gran Manzana', 'Mooncake', 'Grande Maçã'])
+      expect(ConversationContextManager.buildWhisperContext([], terms))
+        .toBe('Names and terms: Big Apple, Gran Manzana, Mooncake, Grande Maçã.')
+    })
+  })
+})
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest'
+import { LanguageIdentifier, extractNgrams } from '@/lib/languages/LanguageIdentifier'
+
+describe('LanguageIdentifier', () => {
+  describe('extractNgrams', () => {
+    it('should pad words and ignore punctuation and digits', () => {
+      expect(extractNgrams('Hi, 42!', 2)).toEqual(['h', 'i', ' h', 'hi', 'i '])
+    })
+
+    it('should return nothing for text without letters', () => {
+      expect(extractNgrams('123 ?!')).toEqual([])
+    })
+  })
+
+  describe('identify', () => {
+    it.each([
+      ['en', 'I think we should leave now before the traffic gets worse'],
+      ['es', 'Voy a comprar algo para la cena con mi hermana'],
+      ['pt', 'Vou comprar alguma coisa para o jantar com a minha irmã'],
+      ['fr', 'Je vais acheter quelque chose pour le dîner avec ma sœur'],
+      ['de', 'Ich gehe heute Abend mit meiner Schwester einkaufen'],
+      ['it', 'Vado a comprare qualcosa per la cena con mia sorella'],
+      ['nl', 'Ik ga vanavond met mijn zus boodschappen doen'],
+      ['ru', 'Я пойду в магазин с сестрой'],
+      ['ja', '私は明日学校に行きます'],
+      ['ar', 'سأذهب إلى السوق مع أختي']
+    ])('should identify %s', (expected, text) => {
+      const result = LanguageIdentifier.identify(text)
+
+      expect(result.language).toBe(expected)
+      expect(result.confidence).toBeGreaterThan(0.9)
+    })
+
+    it('should separate Spanish from Portuguese despite shared words', () => {
+      expect(LanguageIdentifier.identify('¿Por qué no vienes con nosotros para la fiesta?').language).toBe('es')
+      expect(LanguageIdentifier.identify('Por que você não vem com a gente para a festa?').language).toBe('pt')
+    })
+
+    it('should report uncertain for ambiguous input but keep a best guess', () => {
+      const result = LanguageIdentifier.identify('por favor')
+
+      expect(result.language).toBe('uncertain')
+      expect(['es', 'pt']).toContain(result.bestGuess)
+      expect(result.candidates.slice(0, 2).map(c => c.language).sort()).toEqual(['es', 'pt'])
+    })
+
+    it('should report uncertain with no guess for text without letters', () => {
+      expect(LanguageIdentifier.identify('12345')).toEqual({
+        language: 'uncertain',
+        bestGuess: null,
+        confidence: 0,
+        candidates: []
+      })
+    })
+
+    it('should restrict scoring to the given candidates', () => {
+      const result = LanguageIdentifier.identify('por favor', { candidates: ['en', 'es'] })
+
+      expect(result.language).toBe('es')
+      expect(result.candidates.map(c => c.language)).toEqual(['es', 'en'])
+    })
+
+    it('should produce a normalized distribution', () => {
+      const total = LanguageIdentifier.identify('hello')
+        .candidates.reduce((sum, c) => sum + c.confidence, 0)
+
+      expect(total).toBeCloseTo(1)
+    })
+  })
+})
@@ -0,0 +1,78 @@
+import { describe, it, expect, vi } from 'vitest'
+import { LanguageRegistry } from '@/lib/languages/LanguageRegistry'
+import { LanguageDetectionService } from '@/services/openai/language-detection'
+import { PromptService } from '@/services/openai/prompts'
+import { SecureWhisperService } from '@/services/openai/whisper-secure'
+
+vi.mock('@/lib/openai-proxy', () => ({
+  getOpenAIProxyClient: vi.fn()
+}))
+
+// Mock console to reduce noise
+vi.spyOn(console, 'log').mockImplementation(() => {})
+vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+describe('LanguageRegistry', () => {
+  describe('lookup', () => {
+    it('should resolve codes, names, native names and regional tags', () => {
+      expect(LanguageRegistry.getLanguage('es')?.name).toBe('Spanish')
+      expect(LanguageRegistry.getLanguage('Spanish')?.code).toBe('es')
+      expect(LanguageRegistry.getLanguage('Español')?.code).toBe('es')
+      expect(LanguageRegistry.getLanguage('pt-BR')?.code).toBe('pt')
+      expect(LanguageRegistry.getLanguage('es_MX')?.code).toBe('es')
+    })
+
+    it('should return undefined for unknown languages', () => {
+      expect(LanguageRegistry.getLanguage('klingon')).toBeUndefined()
+      expect(LanguageRegistry.getLanguage('')).toBeUndefined()
+      expect(LanguageRegistry.isSupported(null)).toBe(false)
+    })
+
+    it('should only accept exact codes as LanguageCode', () => {
+      expect(LanguageRegistry.isLanguageCode('ja')).toBe(true)
+      expect(LanguageRegistry.isLanguageCode('Japanese')).toBe(false)
+      expect(LanguageRegistry.isLanguageCode(42)).toBe(false)
+    })
+
+    it('should only accept pairs of two different supported languages', () => {
+      expect(LanguageRegistry.isLanguagePair({ own: 'en', partner: 'es' })).toBe(true)
+      expect(LanguageRegistry.isLanguagePair({ own: 'en', partner: 'en' })).toBe(false)
+      expect(LanguageRegistry.isLanguagePair({ own: 'en', partner: 'klingon' })).toBe(false)
+      expect(LanguageRegistry.isLanguagePair(null)).toBe(false)
+    })
+
+    it('should map Whisper output to codes', () => {
+      expect(LanguageRegistry.fromWhisper('italian')).toBe('it')
+      expect(LanguageRegistry.fromWhisper('ar')).toBe('ar')
+      expect(LanguageRegistry.fromWhisper('xx')).toBeUndefined()
+    })
+  })
+
+  describe('consumers', () => {
+    it('should let language detection accept any registered language', () => {
+      expect(LanguageDetectionService.mapWhisperLanguage('japanese')).toBe('Japanese')
+      expect(LanguageDetectionService.isLanguageSupported('Italian')).toBe(true)
+      expect(LanguageDetectionService.getLanguageDisplayName('Arabic')).toBe('العربية')
+      expect(LanguageDetectionService.mapWhisperLanguage('klingon')).toBeNull()
+    })
+
+    it('should let Whisper language detection map every registered language', () => {
+      expect(SecureWhisperService.detectLanguage('french')).toBe('fr')
+      expect(SecureWhisperService.detectLanguage('unknown')).toBe('en')
+    })
+
+    it('should build prompts from registry formality rules', () => {
+      const spanish = PromptService.generateTranslationPrompt('English', 'Spanish', 'casual')
+      expect(spanish).toContain('Use informal conversational language (tú, not usted)')
+
+      const portuguese = PromptService.generateTranslationPrompt('English', 'Portuguese', 'fun')
+      expect(portuguese).toContain('Use informal, fun language (você, informal tone)')
+
+      const italian = PromptService.generateTranslationPrompt('English', 'Italian', 'casual')
+      expect(italian).toContain('from English to Italian')
+      expect(italian).toContain('(tu, not Lei)')
+      expect(italian).toContain('Use natural Italian expressions')
+      expect(italian).not.toContain('Oma')
+    })
+  })
+})
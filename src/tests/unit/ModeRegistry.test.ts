@@ -0,0 +1,87 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { ModeRegistry } from '@/lib/modes/ModeRegistry'
+import { PromptService } from '@/services/openai/prompts'
+import { UserManager } from '@/lib/user/UserManager'
+
+// Mock console to reduce noise
+vi.spyOn(console, 'log').mockImplementation(() => {})
+vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+// Back the global localStorage mock with a real store
+const store = new Map<string, string>()
+
+describe('ModeRegistry', () => {
+  beforeEach(() => {
+    store.clear()
+    vi.mocked(localStorage.getItem).mockImplementation(key => store.get(key) ?? null)
+    vi.mocked(localStorage.setItem).mockImplementation((key, value) => { store.set(key, value) })
+  })
+
+  describe('built-in modes', () => {
+    it('should build a translate-only prompt for every mode', () => {
+      for (const mode of ModeRegistry.getAll()) {
+        const prompt = PromptService.generateTranslationPrompt('English', 'Spanish', mode.id as never)
+
+        expect(prompt).toContain('You are a TRANSLATOR ONLY')
+        expect(prompt).toContain('from English to Spanish')
+        expect(prompt).toContain('TRANSLATE ONLY - DO NOT REPLY OR RESPOND.')
+        expect(prompt).not.toMatch(/\{\{\w+\}\}/)
+      }
+    })
+
+    it('should apply each mode\'s formality rules for the target language', () => {
+      expect(PromptService.generateTranslationPrompt('English', 'Spanish', 'formal')).toContain('(usted, not tú)')
+      expect(PromptService.generateTranslationPrompt('English', 'German', 'medical')).toContain('(Sie, not du)')
+      expect(PromptService.generateTranslationPrompt('English', 'Portuguese', 'formal')).toContain('(o senhor / a senhora, not você)')
+      expect(PromptService.generateTranslationPrompt('English', 'French', 'child')).toContain('(tu, not vous)')
+      expect(PromptService.generateTranslationPrompt('English', 'French', 'literal')).not.toContain('vous')
+    })
+
+    it('should use the mode\'s own STT examples with a generic fallback', () => {
+      const formal = PromptService.generateTranslationPrompt('English', 'German', 'formal')
+      expect(formal).toContain('Könnten Sie mir den Bericht schicken?')
+
+      const medical = PromptService.generateTranslationPrompt('Spanish', 'English', 'medical')
+      expect(medical).toContain('soy alergico a la penicilina')
+      expect(medical).toContain('PRECISION RULES')
+
+      const child = PromptService.generateTranslationPrompt('German', 'English', 'child')
+      expect(child).toContain('Restore missing German accents')
+    })
+
+    it('should fall back to casual for an unknown mode', () => {
+      const prompt = PromptService.generateTranslationPrompt('English', 'Spanish', 'custom-missing')
+
+      expect(prompt).toContain('Use informal conversational language (tú, not usted)')
+    })
+  })
+
+  describe('custom modes', () => {
+    it('should fill the template and keep the translate-only guard', () => {
+      const mode = ModeRegistry.addCustomMode({ name: 'Pirate', template: 'Translate from {{from}} to {{to}} like a pirate.' })
+      const prompt = PromptService.generateTranslationPrompt('English', 'French', mode.id, {
+        recentMessages: ['Ahoy']
+      })
+
+      expect(mode.id).toMatch(/^custom-/)
+      expect(prompt).toContain('You are a TRANSLATOR ONLY')
+      expect(prompt).toContain('Translate from English to French like a pirate.')
+      expect(prompt).toContain('Recent conversation for context')
+    })
+
+    it('should reject modes without a name or template', () => {
+      expect(() => ModeRegistry.addCustomMode({ name: ' ', template: 'Translate' })).toThrow('Invalid custom mode provided')
+      expect(() => ModeRegistry.addCustomMode({ name: 'Empty', template: '' })).toThrow('Invalid custom mode provided')
+    })
+
+    it('should fall back to the default mode once a selected custom mode is removed', () => {
+      const mode = ModeRegistry.addCustomMode({ name: 'Pirate', template: 'Talk like a pirate' })
+      UserManager.setTranslationMode(mode.id)
+      expect(UserManager.getTranslationMode()).toBe(mode.id)
+
+      ModeRegistry.removeCustomMode(mode.id)
+      expect(UserManager.getTranslationMode()).toBe('casual')
+      expect(UserManager.getModeName('formal')).toBe('Formal')
+    })
+  })
+})
@@ -0,0 +1,81 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { act, fireEvent, render, screen } from '@testing-library/react'
+import { MemoryRouter } from 'react-router-dom'
+import { ThemeProvider } from '@/contexts/ThemeContext'
+import { TranslationProvider } from '@/lib/i18n/useTranslation'
+import { SoloTranslator } from '@/features/translator/solo/SoloTranslator'
+import { CaptureQueue, type CapturedMessage } from '@/lib/offline/CaptureQueue'
+import type { ITranslationPipeline, TranslationResult } from '@/services/pipeline/types'
+
+// IndexedDB isn't available in jsdom; keep the captures in an array
+const captures = vi.hoisted((): CapturedMessage[] => [])
+vi.mock('@/lib/offline/CaptureQueue', () => ({
+  CaptureQueue: {
+    isSupported: vi.fn(() => true),
+    list: vi.fn(async () => [...captures]),
+    remove: vi.fn(async (id: string) => {
+      captures.splice(captures.findIndex(capture => capture.id === id), 1)
+    }),
+    subscribe: vi.fn(() => () => {})
+  }
+}))
+
+vi.spyOn(console, 'log').mockImplementation(() => {})
+
+describe('Offline capture replay', () => {
+  let finishTranslation: (result: TranslationResult) => void
+  let pipeline: ITranslationPipeline
+
+  beforeEach(() => {
+    Element.prototype.scrollTo = vi.fn()
+    captures.splice(0, captures.length, {
+      id: 'capture-1',
+      request: { input: 'See you at five', inputType: 'text', targetLanguage: 'es', mode: 'casual', messageId: 'capture-1' },
+      sessionId: 'solo-session',
+      createdAt: 1,
+      position: 1
+    })
+    pipeline = {
+      translate: vi.fn(() => new Promise<TranslationResult>(resolve => {
+        finishTranslation = resolve
+      })),
+      translateStream: vi.fn(),
+      setWhisperService: vi.fn(),
+      setTranslationService: vi.fn(),
+      setVerifier: vi.fn()
+    }
+  })
+
+  it('should keep what the user is typing when a text capture is translated', async () => {
+    render(
+      <MemoryRouter>
+        <ThemeProvider>
+          <TranslationProvider>
+            <SoloTranslator translationPipeline={pipeline} />
+          </TranslationProvider>
+        </ThemeProvider>
+      </MemoryRouter>
+    )
+
+    await vi.waitFor(() => expect(pipeline.translate).toHaveBeenCalledWith(expect.objectContaining({ messageId: 'capture-1' })))
+
+    fireEvent.click(screen.getByTitle('Text input'))
+    const input = screen.getByPlaceholderText('Type message...')
+    fireEvent.change(input, { target: { value: 'Half-written reply' } })
+
+    await act(async () => {
+      finishTranslation({
+        original: 'See you at five',
+        translation: 'Nos vemos a las cinco',
+        detectedLanguage: 'English',
+        originalLanguageCode: 'en',
+        targetLanguageCode: 'es',
+        metrics: { translationTime: 10, totalTime: 10 }
+      })
+    })
+
+    expect(await screen.findByText('Nos vemos a las cinco')).toBeInTheDocument()
+    expect(input).toHaveValue('Half-written reply')
+    await vi.waitFor(() => expect(CaptureQueue.remove).toHaveBeenCalledWith('capture-1'))
+  })
+})
@@ -0,0 +1,80 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { OpenAIProxyClient, ProxyRequestError } from '@/lib/openai-proxy'
+import { ErrorManager } from '@/lib/errors/ErrorManager'
+import { ErrorCode } from '@/lib/errors/ErrorCodes'
+import { isRetryableError } from '@/lib/retry-logic'
+
+// Mock console to reduce noise
+vi.spyOn(console, 'log').mockImplementation(() => {})
+
+const chatParams = {
+  model: 'gpt-4o-mini',
+  messages: [{ role: 'user', content: 'Hello' }]
+}
+
+function mockResponse(status: number, body: unknown) {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } })
+}
+
+describe('OpenAIProxyClient', () => {
+  const fetchMock = vi.fn()
+
+  beforeEach(() => {
+    fetchMock.mockReset()
+    vi.stubGlobal('fetch', fetchMock)
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('should send the session id for per-session limits', async () => {
+    fetchMock.mockImplementation(async () => mockResponse(200, { choices: [] }))
+    const client = new OpenAIProxyClient()
+
+    client.setSessionId('session-1')
+    await client.createChatCompletion(chatParams)
+    client.setSessionId(null)
+    await client.createChatCompletion(chatParams)
+
+    expect(fetchMock.mock.calls[0][1].headers['X-Session-Id']).toBe('session-1')
+    expect(fetchMock.mock.calls[1][1].headers['X-Session-Id']).toBeUndefined()
+  })
+
+  it('should map a client rate limit onto RATE_LIMITED_USER without auto-retry', async () => {
+    fetchMock.mockResolvedValue(mockResponse(429, {
+      error: 'Too many requests from this client', code: 'RATE_LIMITED_USER', scope: 'client', retryAfter: 2
+    }))
+
+    const error = await new OpenAIProxyClient().createChatCompletion(chatParams).catch(e => e)
+
+    expect(error).toBeInstanceOf(ProxyRequestError)
+    expect(error).toMatchObject({ statusCode: 429, code: ErrorCode.RATE_LIMITED_USER, scope: 'client', retryAfterMs: 2000 })
+    expect(isRetryableError(error)).toBe(false)
+    expect(ErrorManager.createError(error).code).toBe(ErrorCode.RATE_LIMITED_USER)
+  })
+
+  it('should only retry an API rate limit that clears soon', async () => {
+    fetchMock
+      .mockResolvedValueOnce(mockResponse(429, { error: 'Rate limited', code: 'API_RATE_LIMIT', scope: 'upstream', retryAfter: 1 }))
+      .mockResolvedValueOnce(mockResponse(429, { error: 'Daily global usage limit reached', code: 'API_RATE_LIMIT', scope: 'global', retryAfter: 3600 }))
+    const client = new OpenAIProxyClient()
+
+    const upstream = await client.createSpeech({ model: 'tts-1', input: 'Hi', voice: 'alloy' }).catch(e => e)
+    const dailyCap = await client.createSpeech({ model: 'tts-1', input: 'Hi', voice: 'alloy' }).catch(e => e)
+
+    expect(isRetryableError(upstream)).toBe(true)
+    expect(isRetryableError(dailyCap)).toBe(false)
+    expect(ErrorManager.createError(dailyCap).code).toBe(ErrorCode.API_RATE_LIMIT)
+  })
+
+  it('should keep unstructured errors readable', async () => {
+    fetchMock.mockResolvedValue(new Response('Bad Gateway', { status: 502 }))
+
+    const error = await new OpenAIProxyClient().createChatCompletion(chatParams).catch(e => e)
+
+    expect(error.message).toBe('Translation API error: Unknown error')
+    expect(error.code).toBeUndefined()
+    expect(isRetryableError(error)).toBe(true)
+  })
+})
@@ -0,0 +1,42 @@
+import { describe, it, expect, afterEach, vi } from 'vitest'
+import { createGuard, getClientKey, LIMITS } from '../../../server/guard.js'
+
+// Mock console to reduce noise
+vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+const request = (remoteAddress: string, forwardedFor?: string) => ({
+  headers: forwardedFor ? { 'x-forwarded-for': forwardedFor } : {},
+  socket: { remoteAddress }
+})
+
+describe('Proxy guard client identity', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it('should ignore X-Forwarded-For unless a proxy in front is trusted', () => {
+    vi.stubEnv('PROXY_TRUST_FORWARDED', '')
+    vi.stubEnv('VERCEL', '')
+
+    expect(getClientKey(request('203.0.113.7', '198.51.100.1'))).toBe('203.0.113.7')
+  })
+
+  it('should not let spoofed X-Forwarded-For headers refill the client bucket', () => {
+    vi.stubEnv('PROXY_TRUST_FORWARDED', '')
+    vi.stubEnv('VERCEL', '')
+    const guard = createGuard({ ...LIMITS, rate: { ...LIMITS.rate, client: { capacity: 2, refillPerSecond: 0.001 } } })
+    const now = Date.now()
+
+    guard.checkRate(request('203.0.113.7', '198.51.100.1'), now)
+    guard.checkRate(request('203.0.113.7', '198.51.100.2'), now)
+
+    expect(() => guard.checkRate(request('203.0.113.7', '198.51.100.3'), now)).toThrow('Too many requests from this client')
+  })
+
+  it('should take the hop the trusted proxy appended', () => {
+    vi.stubEnv('PROXY_TRUST_FORWARDED', '1')
+
+    expect(getClientKey(request('10.0.0.2', '198.51.100.1, 203.0.113.7'))).toBe('203.0.113.7')
+    expect(getClientKey(request('10.0.0.2'))).toBe('10.0.0.2')
+  })
+})
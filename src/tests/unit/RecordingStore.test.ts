@@ -0,0 +1,36 @@
+import { describe, it, expect, vi } from 'vitest'
+import { RecordingStore, computePeaks, selectEvictions } from '@/lib/recordings/RecordingStore'
+
+vi.mock('@/lib/supabase', () => ({
+  supabase: {}
+}))
+
+const MB = 1024 * 1024
+
+describe('RecordingStore', () => {
+  it('should draw one peak per bar, scaled to the loudest bar', () => {
+    const samples = Float32Array.from([0.1, -0.2, 0.05, 0.4, 0, 0, -0.1, 0.1])
+
+    expect(computePeaks(samples, 4)).toEqual([0.5, 1, 0, 0.25])
+    expect(computePeaks(new Float32Array(8), 4)).toEqual([0, 0, 0, 0])
+    expect(computePeaks(new Float32Array(0))).toEqual([])
+  })
+
+  it('should evict the oldest recordings until the rest fits the budget', () => {
+    const recordings = [
+      { messageId: 'newest', size: 20 * MB, createdAt: 3 },
+      { messageId: 'oldest', size: 20 * MB, createdAt: 1 },
+      { messageId: 'middle', size: 20 * MB, createdAt: 2 }
+    ]
+
+    expect(selectEvictions(recordings, 50 * MB)).toEqual(['oldest'])
+    expect(selectEvictions(recordings, 20 * MB)).toEqual(['oldest', 'middle'])
+    expect(selectEvictions(recordings, 60 * MB)).toEqual([])
+  })
+
+  it('should do nothing without IndexedDB', async () => {
+    expect(RecordingStore.isSupported()).toBe(false)
+    expect(await RecordingStore.save('message-1', new Blob(['audio']))).toBeNull()
+    expect(await RecordingStore.get('message-1')).toBeNull()
+  })
+})
@@ -0,0 +1,151 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { TTSPlaybackQueue, ttsPlaybackQueue, type TTSPlaybackItem } from '@/services/audio/TTSPlaybackQueue'
+import { CachedOpenAIService } from '@/lib/cache/CachedOpenAIService'
+import { persistentAudioManager } from '@/services/audio/PersistentAudioManager'
+
+vi.mock('@/lib/cache/CachedOpenAIService', () => ({
+  CachedOpenAIService: {
+    synthesize: vi.fn(async () => ({ audioBuffer: new ArrayBuffer(8), duration: 1, cached: false }))
+  }
+}))
+
+vi.mock('@/services/audio/PersistentAudioManager', () => ({
+  persistentAudioManager: {
+    pauseListening: vi.fn(),
+    resumeListening: vi.fn()
+  }
+}))
+
+// Mock console to reduce noise
+vi.spyOn(console, 'log').mockImplementation(() => {})
+
+// Audio element that plays until the test ends it
+class FakeAudio {
+  static instances: FakeAudio[] = []
+  onended: (() => void) | null = null
+  onerror: (() => void) | null = null
+  paused = true
+
+  constructor(public src: string) {
+    FakeAudio.instances.push(this)
+  }
+
+  play() {
+    this.paused = false
+    return Promise.resolve()
+  }
+
+  pause() {
+    this.paused = true
+  }
+
+  end() {
+    this.paused = true
+    this.onended?.()
+  }
+}
+
+vi.stubGlobal('Audio', FakeAudio)
+URL.createObjectURL = vi.fn(() => 'blob:tts')
+URL.revokeObjectURL = vi.fn()
+
+const item = (messageId: string, text = `Text of ${messageId}`): TTSPlaybackItem => ({
+  messageId,
+  text,
+  language: 'es',
+  speakerId: 'partner'
+})
+
+// Let synthesis and playback promises settle
+const flush = () => new Promise(resolve => setTimeout(resolve, 0))
+
+describe('TTSPlaybackQueue', () => {
+  beforeEach(() => {
+    ttsPlaybackQueue.stop()
+    FakeAudio.instances = []
+    vi.clearAllMocks()
+  })
+
+  it('should speak queued messages one at a time in order', async () => {
+    ttsPlaybackQueue.enqueue(item('a'))
+    ttsPlaybackQueue.enqueue(item('b'))
+    await flush()
+
+    expect(ttsPlaybackQueue.getStatus('a')).toBe('playing')
+    expect(ttsPlaybackQueue.getStatus('b')).toBe('queued')
+    expect(FakeAudio.instances).toHaveLength(1)
+
+    FakeAudio.instances[0].end()
+    await flush()
+
+    expect(ttsPlaybackQueue.getStatus('a')).toBeNull()
+    expect(ttsPlaybackQueue.getStatus('b')).toBe('playing')
+    expect(vi.mocked(CachedOpenAIService.synthesize).mock.calls.map(call => call[0])).toEqual(['Text of a', 'Text of b'])
+  })
+
+  it('should pause hands-free listening while speaking', async () => {
+    ttsPlaybackQueue.enqueue(item('a'))
+    await flush()
+    expect(persistentAudioManager.pauseListening).toHaveBeenCalled()
+
+    FakeAudio.instances[0].end()
+    await flush()
+    expect(persistentAudioManager.resumeListening).toHaveBeenCalled()
+  })
+
+  it('should skip to the next message', async () => {
+    ttsPlaybackQueue.enqueue(item('a'))
+    ttsPlaybackQueue.enqueue(item('b'))
+    await flush()
+
+    ttsPlaybackQueue.skip()
+    await flush()
+
+    expect(FakeAudio.instances[0].paused).toBe(true)
+    expect(ttsPlaybackQueue.getStatus('b')).toBe('playing')
+  })
+
+  it('should replay a message ahead of the queue', async () => {
+    ttsPlaybackQueue.enqueue(item('a'))
+    ttsPlaybackQueue.enqueue(item('b'))
+    await flush()
+
+    ttsPlaybackQueue.replay(item('old'))
+    await flush()
+
+    expect(ttsPlaybackQueue.getStatus('old')).toBe('playing')
+    expect(ttsPlaybackQueue.getState().queued).toEqual(['b'])
+  })
+
+  it('should drop everything when stopped', async () => {
+    ttsPlaybackQueue.enqueue(item('a'))
+    ttsPlaybackQueue.enqueue(item('b'))
+    await flush()
+
+    ttsPlaybackQueue.stop()
+    await flush()
+
+    expect(ttsPlaybackQueue.getState()).toMatchObject({ current: null, queued: [] })
+    expect(FakeAudio.instances).toHaveLength(1)
+  })
+
+  it('should only auto-play when enabled', async () => {
+    vi.mocked(localStorage.getItem).mockReturnValue(null)
+    ttsPlaybackQueue.autoPlay(item('a'))
+    expect(ttsPlaybackQueue.getStatus('a')).toBeNull()
+
+    vi.mocked(localStorage.getItem).mockImplementation(key =>
+      key === 'translator-preference-ttsAutoPlay' ? 'true' : null
+    )
+    ttsPlaybackQueue.autoPlay(item('a'))
+    expect(ttsPlaybackQueue.getStatus('a')).not.toBeNull()
+  })
+
+  it('should give each speaker a stable voice for the language', () => {
+    const voice = TTSPlaybackQueue.pickVoice('es', 'speaker-1')
+
+    expect(TTSPlaybackQueue.pickVoice('es', 'speaker-1')).toBe(voice)
+    expect(TTSPlaybackQueue.pickVoice('es')).toBe('nova')
+    expect(TTSPlaybackQueue.pickVoice('xx')).toBe('nova')
+  })
+})
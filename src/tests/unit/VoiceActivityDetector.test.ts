@@ -0,0 +1,104 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { VoiceActivityDetector } from '@/services/audio/VoiceActivityDetector'
+
+// Mock console to reduce noise
+vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+const FRAME_MS = 20
+
+/**
+ * Feed a run of identical levels, one per frame, starting at `start` ms.
+ * Returns the timestamp after the last frame
+ */
+function feed(vad: VoiceActivityDetector, level: number, durationMs: number, start: number): number {
+  let time = start
+  for (; time < start + durationMs; time += FRAME_MS) {
+    vad.process(level, time)
+  }
+  return time
+}
+
+describe('VoiceActivityDetector', () => {
+  let vad: VoiceActivityDetector
+  const onSpeechStart = vi.fn()
+  const onSpeechEnd = vi.fn()
+  const onSpeechCancel = vi.fn()
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vad = new VoiceActivityDetector({
+      startThreshold: 0.9,
+      stopThreshold: 0.6,
+      trailingSilenceMs: 500,
+      minSpeechMs: 200,
+      maxSegmentMs: 5000
+    })
+    vad.onSpeechStart = onSpeechStart
+    vad.onSpeechEnd = onSpeechEnd
+    vad.onSpeechCancel = onSpeechCancel
+  })
+
+  it('should segment speech on onset and trailing silence', () => {
+    let time = feed(vad, 0.2, 200, 0)
+    expect(onSpeechStart).not.toHaveBeenCalled()
+
+    time = feed(vad, 1, 800, time)
+    expect(onSpeechStart).toHaveBeenCalledWith(200)
+    expect(vad.getState()).toBe('speech')
+
+    feed(vad, 0.2, 600, time)
+    expect(onSpeechEnd).toHaveBeenCalledTimes(1)
+    expect(onSpeechEnd.mock.calls[0][0]).toMatchObject({ startedAt: 200, reason: 'silence' })
+    expect(onSpeechEnd.mock.calls[0][0].voicedMs).toBeGreaterThanOrEqual(700)
+    expect(vad.getState()).toBe('silence')
+  })
+
+  it('should keep a segment open while levels stay within the hysteresis band', () => {
+    let time = feed(vad, 1, 300, 0)
+    // Below the start threshold but above the stop threshold: still speaking
+    time = feed(vad, 0.7, 1000, time)
+    expect(onSpeechEnd).not.toHaveBeenCalled()
+
+    feed(vad, 0.1, 600, time)
+    expect(onSpeechEnd).toHaveBeenCalledTimes(1)
+  })
+
+  it('should not start a segment below the start threshold', () => {
+    feed(vad, 0.8, 2000, 0)
+
+    expect(onSpeechStart).not.toHaveBeenCalled()
+  })
+
+  it('should cancel segments shorter than the minimum speech length', () => {
+    const time = feed(vad, 1, 100, 0)
+    feed(vad, 0.1, 600, time)
+
+    expect(onSpeechStart).toHaveBeenCalledTimes(1)
+    expect(onSpeechCancel).toHaveBeenCalledTimes(1)
+    expect(onSpeechEnd).not.toHaveBeenCalled()
+  })
+
+  it('should force a boundary after the maximum segment length', () => {
+    feed(vad, 1, 5200, 0)
+
+    expect(onSpeechEnd).toHaveBeenCalledTimes(1)
+    expect(onSpeechEnd.mock.calls[0][0].reason).toBe('max-length')
+    // Continuous speech immediately opens the next segment
+    expect(onSpeechStart).toHaveBeenCalledTimes(2)
+  })
+
+  it('should drop a segment in progress on reset', () => {
+    feed(vad, 1, 400, 0)
+    vad.reset()
+    feed(vad, 0.1, 1000, 400)
+
+    expect(onSpeechEnd).not.toHaveBeenCalled()
+    expect(onSpeechCancel).not.toHaveBeenCalled()
+  })
+
+  it('should keep the stop threshold at or below the start threshold', () => {
+    const config = VoiceActivityDetector.resolveConfig({ startThreshold: 0.5, stopThreshold: 0.8 })
+
+    expect(config.stopThreshold).toBe(0.5)
+  })
+})
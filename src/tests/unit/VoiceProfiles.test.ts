@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { VoiceProfileManager, type VoiceProfile } from '@/lib/voices/VoiceProfileManager'
+import { ttsPlaybackQueue } from '@/services/audio/TTSPlaybackQueue'
+import { CacheManager } from '@/lib/cache/CacheManager'
+import { CachedOpenAIService } from '@/lib/cache/CachedOpenAIService'
+
+vi.mock('@/lib/cache/CachedOpenAIService', () => ({
+  CachedOpenAIService: {
+    synthesize: vi.fn(async () => ({ audioBuffer: new ArrayBuffer(8), duration: 1, cached: false }))
+  }
+}))
+
+vi.mock('@/services/audio/PersistentAudioManager', () => ({
+  persistentAudioManager: {
+    pauseListening: vi.fn(),
+    resumeListening: vi.fn()
+  }
+}))
+
+// Mock console to reduce noise
+vi.spyOn(console, 'log').mockImplementation(() => {})
+
+class FakeAudio {
+  onended: (() => void) | null = null
+  onerror: (() => void) | null = null
+  play() {
+    return Promise.resolve()
+  }
+  pause() {}
+}
+
+vi.stubGlobal('Audio', FakeAudio)
+URL.createObjectURL = vi.fn(() => 'blob:tts')
+URL.revokeObjectURL = vi.fn()
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0))
+
+const profile = (overrides: Partial<VoiceProfile> = {}): VoiceProfile => ({
+  voice: 'onyx',
+  speed: 1.25,
+  updatedAt: '2025-01-01T00:00:00.000Z',
+  ...overrides
+})
+
+describe('Voice profiles', () => {
+  beforeEach(() => {
+    ttsPlaybackQueue.stop()
+    vi.clearAllMocks()
+
+    // Preferences live in localStorage
+    const store = new Map<string, string>()
+    vi.mocked(localStorage.getItem).mockImplementation(key => store.get(key) ?? null)
+    vi.mocked(localStorage.setItem).mockImplementation((key, value) => {
+      store.set(key, value)
+    })
+  })
+
+  it('should prefer a language override over the profile default', () => {
+    VoiceProfileManager.setOwnProfile({ voice: 'nova', speed: 1.0, languages: { es: { voice: 'shimmer', speed: 0.75 } } })
+
+    expect(VoiceProfileManager.resolve('es')).toEqual({ voice: 'shimmer', speed: 0.75 })
+    expect(VoiceProfileManager.resolve('fr')).toEqual({ voice: 'nova', speed: 1.0 })
+    expect(VoiceProfileManager.resolve('fr', 'someone-else')).toBeNull()
+  })
+
+  it("should treat a registered session user id as the user's own", () => {
+    VoiceProfileManager.setOwnProfile({ voice: 'echo', speed: 1.5, name: 'Ana' })
+    expect(VoiceProfileManager.getProfile('session-user-1')).toBeNull()
+
+    const unregister = VoiceProfileManager.registerSelf('session-user-1')
+    expect(VoiceProfileManager.getProfile('session-user-1')?.name).toBe('Ana')
+
+    unregister()
+    expect(VoiceProfileManager.isSelf('session-user-1')).toBe(false)
+  })
+
+  it('should only apply a newer partner profile', () => {
+    const listener = vi.fn()
+    const unsubscribe = VoiceProfileManager.subscribe(listener)
+
+    expect(VoiceProfileManager.applyPartnerProfile('partner', profile({ updatedAt: '2025-01-02T00:00:00.000Z' }))).toBe(true)
+    expect(VoiceProfileManager.applyPartnerProfile('partner', profile({ voice: 'alloy' }))).toBe(false)
+    expect(VoiceProfileManager.applyPartnerProfile('partner', { voice: 'robot' } as unknown as VoiceProfile)).toBe(false)
+
+    expect(VoiceProfileManager.getParticipantProfile('partner')?.voice).toBe('onyx')
+    expect(listener).toHaveBeenCalledTimes(1)
+    expect(listener).toHaveBeenCalledWith('partner', 'partner')
+    unsubscribe()
+  })
+
+  it("should speak with the speaker's profile and show their name", async () => {
+    VoiceProfileManager.applyPartnerProfile('partner', profile({ name: 'Luis' }))
+
+    ttsPlaybackQueue.enqueue({ messageId: 'a', text: 'Hola', language: 'es', speakerId: 'partner' })
+    await flush()
+
+    expect(CachedOpenAIService.synthesize).toHaveBeenCalledWith('Hola', 'onyx', 1.25)
+    expect(ttsPlaybackQueue.getState().current).toEqual({ messageId: 'a', status: 'playing', speakerName: 'Luis' })
+  })
+
+  it('should cache speech per voice and speed', () => {
+    const key = CacheManager.generateTTSKey('Hola', { voice: 'onyx', speed: 1.25 })
+
+    expect(key).toMatch(/^tts:onyx:1.25:/)
+    expect(key).not.toBe(CacheManager.generateTTSKey('Hola', { voice: 'onyx', speed: 1.0 }))
+  })
+})
@@ -16,6 +16,7 @@ export interface Database {
           created_at: string
           expires_at: string
           is_active: boolean
+          last_sequence_number: number
         }
         Insert: {
           id?: string
@@ -23,6 +24,7 @@ export interface Database {
           created_at?: string
           expires_at?: string
           is_active?: boolean
+          last_sequence_number?: number
         }
         Update: {
           id?: string
@@ -30,6 +32,7 @@ export interface Database {
           created_at?: string
           expires_at?: string
           is_active?: boolean
+          last_sequence_number?: number
         }
       }
       session_participants: {
@@ -40,6 +43,7 @@ export interface Database {
           joined_at: string
           is_online: boolean
           last_seen: string
+          language: string | null
         }
         Insert: {
           id?: string
@@ -48,6 +52,7 @@ export interface Database {
           joined_at?: string
           is_online?: boolean
           last_seen?: string
+          language?: string | null
         }
         Update: {
           id?: string
@@ -56,6 +61,7 @@ export interface Database {
           joined_at?: string
           is_online?: boolean
           last_seen?: string
+          language?: string | null
         }
       }
       messages: {
@@ -105,6 +111,64 @@ export interface Database {
           deleted_at?: string | null
         }
       }
+      message_translations: {
+        Row: {
+          id: string
+          message_id: string
+          session_id: string
+          language: string
+          translated_text: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          message_id: string
+          session_id: string
+          language: string
+          translated_text: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          message_id?: string
+          session_id?: string
+          language?: string
+          translated_text?: string
+          created_at?: string
+        }
+      }
+      message_revisions: {
+        Row: {
+          id: string
+          message_id: string
+          session_id: string
+          original_text: string
+          translated_text: string | null
+          translations: Json | null
+          edited_by: string
+          edited_at: string
+        }
+        Insert: {
+          id?: string
+          message_id: string
+          session_id: string
+          original_text: string
+          translated_text?: string | null
+          translations?: Json | null
+          edited_by: string
+          edited_at?: string
+        }
+        Update: {
+          id?: string
+          message_id?: string
+          session_id?: string
+          original_text?: string
+          translated_text?: string | null
+          translations?: Json | null
+          edited_by?: string
+          edited_at?: string
+        }
+      }
       message_reactions: {
         Row: {
           id: string
@@ -144,7 +208,7 @@ export interface Message {
   original: string
   translation: string | null
   original_lang: string
-  target_lang: string
+  target_lang?: string // Language of `translation`; unset when it isn't known (session history)
   status: MessageStatus
   queued_at: string
   processed_at: string | null
@@ -260,8 +324,15 @@ export interface SessionMessage {
   edited_at?: string | null
   is_deleted?: boolean
   deleted_at?: string | null
+  translations?: MessageTranslations // Group sessions: one per recipient language
 }
 
+/**
+ * Translations of a session message by language code. In group sessions a
+ * message is translated once per distinct recipient language
+ */
+export type MessageTranslations = Record<string, string>
+
 export interface QueuedSessionMessage {
   id: string
   tempId: string
@@ -279,6 +350,7 @@ export interface QueuedSessionMessage {
   queuedAt: string
   lastError?: string
   sequence: number
+  translations?: MessageTranslations // Extra recipient languages, stored in message_translations
 }
 
 // Database reaction type (matches database schema)
@@ -288,4 +360,30 @@ export interface DatabaseReaction {
   user_id: string
   emoji: string
   created_at: string
-}
\ No newline at end of file
+}
+
+// Database participant row (matches database schema)
+export type SessionParticipantRow = Database['public']['Tables']['session_participants']['Row']
+
+// Database translation type (matches database schema)
+export interface DatabaseMessageTranslation {
+  id: string
+  message_id: string
+  session_id: string
+  language: string
+  translated_text: string
+  created_at: string
+}
+
+// Database revision type (matches database schema): a message's text and
+// translations before an edit replaced them
+export interface DatabaseMessageRevision {
+  id: string
+  message_id: string
+  session_id: string
+  original_text: string
+  translated_text: string | null
+  translations: MessageTranslations | null
+  edited_by: string // Who made the edit
+  edited_at: string // When this version was replaced
+}
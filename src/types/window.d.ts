@@ -0,0 +1,4 @@
+// Safari before 14.1 only has the prefixed Web Audio constructor
+interface Window {
+  webkitAudioContext?: typeof AudioContext
+}
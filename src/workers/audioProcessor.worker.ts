@@ -4,6 +4,14 @@
  * Prevents UI blocking during audio compression, analysis, and format conversion
  */
 
+import {
+  downmixToMono,
+  encodeWav,
+  normalizeLoudness,
+  resample,
+  type WavBitDepth
+} from '@/services/audio/encoding'
+
 // Define message types for type safety
 export interface AudioWorkerMessage {
   id: string
@@ -28,48 +36,61 @@ export interface AudioAnalysisResult {
 }
 
 export interface AudioCompressionOptions {
-  quality: 'high' | 'medium' | 'low'
-  targetSampleRate?: number
-  targetChannels?: number
+  targetSampleRate: number
+  bitsPerSample: WavBitDepth
+  normalize?: boolean
+}
+
+// PCM decoded on the main thread (decodeAudioData isn't available in workers)
+export interface DecodedAudio {
+  channels: Float32Array[]
+  sampleRate: number
+}
+
+export interface EncodedAudio {
+  buffer: ArrayBuffer   // WAV file
+  samples: Float32Array // The mono PCM that was encoded
+  sampleRate: number
+  bitsPerSample: WavBitDepth
+  duration: number
+  gain: number          // Loudness normalization gain (1 when off)
+}
+
+export interface AudioCompressionResult extends EncodedAudio {
+  mimeType: string
+  originalBytes: number
+  compressedBytes: number
+  savedBytes: number    // Negative when the WAV is larger than the original
+  savingsPercent: number
 }
 
 // Audio processing functions
 class AudioProcessor {
   /**
-   * Compress audio for network optimization
+   * Prepare decoded audio for upload: mono, resampled to the target rate,
+   * loudness-normalized and encoded as PCM WAV
    */
-  static async compressAudio(
-    audioBuffer: ArrayBuffer, 
-    options: AudioCompressionOptions
-  ): Promise<ArrayBuffer> {
-    console.log(`🔧 [Audio Worker] Compressing audio: ${audioBuffer.byteLength} bytes`)
-    
-    // Parse the audio data (simplified implementation)
-    const inputData = new Float32Array(audioBuffer)
-    
-    // Quality-based compression parameters
-    const compressionParams = {
-      high: { reduction: 0.1, sampleRateReduction: 1.0 },
-      medium: { reduction: 0.3, sampleRateReduction: 0.8 },
-      low: { reduction: 0.5, sampleRateReduction: 0.6 }
+  static compressAudio(audio: DecodedAudio, options: AudioCompressionOptions): EncodedAudio {
+    console.log(`🔧 [Audio Worker] Compressing audio: ${audio.channels.length}ch @ ${audio.sampleRate}Hz → ${options.targetSampleRate}Hz ${options.bitsPerSample}-bit`)
+    
+    const mono = downmixToMono(audio.channels)
+    const resampled = resample(mono, audio.sampleRate, options.targetSampleRate)
+    const { samples, gain } = options.normalize === false
+      ? { samples: resampled, gain: 1 }
+      : normalizeLoudness(resampled, options.targetSampleRate)
+    
+    const buffer = encodeWav(samples, options.targetSampleRate, options.bitsPerSample)
+    
+    console.log(`✅ [Audio Worker] Compression complete: ${buffer.byteLength} bytes (gain ${gain.toFixed(2)})`)
+    
+    return {
+      buffer,
+      samples,
+      sampleRate: options.targetSampleRate,
+      bitsPerSample: options.bitsPerSample,
+      duration: samples.length / options.targetSampleRate,
+      gain
     }
-    
-    const params = compressionParams[options.quality]
-    
-    // Simple compression: reduce sample rate and apply basic compression
-    const targetLength = Math.floor(inputData.length * params.sampleRateReduction)
-    const compressedData = new Float32Array(targetLength)
-    
-    // Downsample with basic averaging
-    const step = inputData.length / targetLength
-    for (let i = 0; i < targetLength; i++) {
-      const sourceIndex = Math.floor(i * step)
-      compressedData[i] = inputData[sourceIndex] * (1 - params.reduction)
-    }
-    
-    console.log(`✅ [Audio Worker] Compression complete: ${compressedData.buffer.byteLength} bytes (${Math.round((1 - compressedData.buffer.byteLength / audioBuffer.byteLength) * 100)}% reduction)`)
-    
-    return compressedData.buffer
   }
   
   /**
@@ -125,7 +146,7 @@ class AudioProcessor {
     switch (targetFormat) {
       case 'wav':
         // Convert to WAV format (simplified)
-        return this.createWAVBuffer(inputData, 44100, 1)
+        return encodeWav(inputData, 44100)
       
       case 'mp3':
         // Would use a proper MP3 encoder in real implementation
@@ -169,50 +190,6 @@ class AudioProcessor {
     
     return normalizedData.buffer
   }
-  
-  /**
-   * Create WAV buffer from Float32Array
-   */
-  private static createWAVBuffer(
-    samples: Float32Array, 
-    sampleRate: number, 
-    channels: number
-  ): ArrayBuffer {
-    const length = samples.length
-    const arrayBuffer = new ArrayBuffer(44 + length * 2)
-    const view = new DataView(arrayBuffer)
-    
-    // WAV header
-    const writeString = (offset: number, string: string) => {
-      for (let i = 0; i < string.length; i++) {
-        view.setUint8(offset + i, string.charCodeAt(i))
-      }
-    }
-    
-    writeString(0, 'RIFF')
-    view.setUint32(4, 36 + length * 2, true)
-    writeString(8, 'WAVE')
-    writeString(12, 'fmt ')
-    view.setUint32(16, 16, true)
-    view.setUint16(20, 1, true) // PCM format
-    view.setUint16(22, channels, true)
-    view.setUint32(24, sampleRate, true)
-    view.setUint32(28, sampleRate * channels * 2, true)
-    view.setUint16(32, channels * 2, true)
-    view.setUint16(34, 16, true)
-    writeString(36, 'data')
-    view.setUint32(40, length * 2, true)
-    
-    // Convert float samples to 16-bit PCM
-    let offset = 44
-    for (let i = 0; i < length; i++) {
-      const sample = Math.max(-1, Math.min(1, samples[i]))
-      view.setInt16(offset, sample * 0x7FFF, true)
-      offset += 2
-    }
-    
-    return arrayBuffer
-  }
 }
 
 // Worker message handler
@@ -227,7 +204,7 @@ self.addEventListener('message', async (event: MessageEvent<AudioWorkerMessage>)
     
     switch (type) {
       case 'COMPRESS_AUDIO':
-        result = await AudioProcessor.compressAudio(data.buffer, data.options)
+        result = AudioProcessor.compressAudio(data.audio, data.options)
         responseType = 'AUDIO_COMPRESSED'
         break
         
@@ -257,7 +234,9 @@ self.addEventListener('message', async (event: MessageEvent<AudioWorkerMessage>)
       data: result
     }
     
-    self.postMessage(response)
+    // Hand encoded audio back without copying it
+    const transfer = type === 'COMPRESS_AUDIO' ? [result.buffer, result.samples.buffer] : []
+    self.postMessage(response, { transfer })
     console.log(`✅ [Audio Worker] Completed: ${type}`)
     
   } catch (error) {
@@ -0,0 +1,100 @@
+/**
+ * Speech Pre-processor AudioWorklet
+ * Noise suppression, noise gate and gain normalization on the microphone
+ * signal, in that order, on the audio rendering thread
+ */
+
+import { AutoGain, NoiseGate, SpectralNoiseSuppressor } from '@/services/audio/dsp'
+import type { PreprocessingConfig } from '@/services/audio/preprocessing'
+
+// AudioWorkletGlobalScope (not part of the DOM lib)
+declare const sampleRate: number
+declare function registerProcessor(name: string, processorCtor: unknown): void
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort
+  constructor(options?: { processorOptions?: unknown })
+}
+
+type ProcessorMessage =
+  | { type: 'config'; config: PreprocessingConfig }
+  | { type: 'dispose' }
+
+class SpeechPreprocessor extends AudioWorkletProcessor {
+  private suppressor: SpectralNoiseSuppressor | null = null
+  private gate: NoiseGate | null = null
+  private gain: AutoGain | null = null
+  private scratch = new Float32Array(128)
+  private alive = true
+
+  constructor(options?: { processorOptions?: { config?: PreprocessingConfig } }) {
+    super(options)
+    if (options?.processorOptions?.config) {
+      this.configure(options.processorOptions.config)
+    }
+    this.port.onmessage = (event: MessageEvent<ProcessorMessage>) => {
+      if (event.data.type === 'config') {
+        this.configure(event.data.config)
+      } else if (event.data.type === 'dispose') {
+        this.alive = false
+      }
+    }
+  }
+
+  // Stages keep their state across option changes (noise estimate, gain)
+  private configure(config: PreprocessingConfig): void {
+    if (config.noiseSuppression) {
+      if (this.suppressor) {
+        this.suppressor.setOptions(config.noiseSuppression)
+      } else {
+        this.suppressor = new SpectralNoiseSuppressor(config.noiseSuppression)
+      }
+    } else {
+      this.suppressor = null
+    }
+
+    if (config.noiseGate) {
+      if (this.gate) {
+        this.gate.setOptions(config.noiseGate)
+      } else {
+        this.gate = new NoiseGate(sampleRate, config.noiseGate)
+      }
+    } else {
+      this.gate = null
+    }
+
+    if (config.gainNormalization) {
+      if (this.gain) {
+        this.gain.setOptions(config.gainNormalization)
+      } else {
+        this.gain = new AutoGain(sampleRate, config.gainNormalization)
+      }
+    } else {
+      this.gain = null
+    }
+  }
+
+  process(inputs: Float32Array[][], outputs: Float32Array[][]): boolean {
+    const input = inputs[0]?.[0]
+    const output = outputs[0]?.[0]
+    if (!output) return this.alive
+
+    if (!input) {
+      output.fill(0)
+      return this.alive
+    }
+
+    if (this.suppressor) {
+      if (this.scratch.length !== input.length) this.scratch = new Float32Array(input.length)
+      this.scratch.set(input)
+      this.suppressor.process(this.scratch, output)
+    } else {
+      output.set(input)
+    }
+
+    this.gate?.process(output)
+    this.gain?.process(output)
+    return this.alive
+  }
+}
+
+registerProcessor('speech-preprocessor', SpeechPreprocessor)
@@ -0,0 +1,20 @@
+import { test, expect } from '@playwright/test'
+import { useAudioFixtures } from './helpers/audioFixtures'
+
+test.describe('Fixture audio pipeline (offline)', () => {
+  test('records a fixture clip and shows its translation', async ({ page }) => {
+    const audio = await useAudioFixtures(page, ['en-hello'])
+
+    await page.goto('/translator')
+    const recordButton = page.getByTestId('recording-button')
+    await expect(recordButton).toBeVisible({ timeout: 10000 })
+
+    await recordButton.click()
+    await audio.speak('en-hello')
+    await recordButton.click()
+
+    await expect(page.getByText('Hola, ¿cómo estás hoy?')).toBeVisible({ timeout: 10000 })
+    await expect(page.getByText('Hello, how are you today?')).toBeVisible()
+    expect(audio.api.calls.map(call => call.endpoint)).toEqual(['whisper', 'translate'])
+  })
+})
@@ -0,0 +1,62 @@
+/**
+ * Offline audio fixtures for Playwright
+ *
+ * Gives the page a fixture microphone (see src/test/audio-fixtures) and
+ * answers /api/openai/* from the fixture stand-in, so record → transcribe →
+ * translate → display runs without a microphone, proxy or OpenAI key.
+ *
+ *   const audio = await useAudioFixtures(page, ['en-hello'])
+ *   await page.goto('/translator')
+ *   ...start recording...
+ *   await audio.speak('en-hello')
+ *   ...stop recording, expect the translation...
+ */
+
+import type { Page } from '@playwright/test'
+import { FixtureApi } from '../../src/test/audio-fixtures/fixtureApi'
+import { installFixtureMicrophone } from '../../src/test/audio-fixtures/browserMicrophone'
+import { loadAudioFixture } from '../../src/test/audio-fixtures/node'
+import type { AudioFixtureId } from '../../src/test/audio-fixtures/manifest'
+
+export interface PageAudioFixtures {
+  api: FixtureApi
+  /** Play a clip into the page's microphone; resolves when it has finished */
+  speak(id: AudioFixtureId): Promise<void>
+}
+
+/**
+ * Call before navigating: the microphone is installed by an init script
+ */
+export async function useAudioFixtures(page: Page, clips: AudioFixtureId[], api = new FixtureApi()): Promise<PageAudioFixtures> {
+  const encoded = Object.fromEntries(
+    clips.map(id => [id, Buffer.from(loadAudioFixture(id).wav).toString('base64')])
+  )
+  await page.addInitScript(installFixtureMicrophone, encoded)
+
+  await page.route('**/api/openai/**', async route => {
+    const request = route.request()
+    const response = api.handle({
+      url: request.url(),
+      method: request.method(),
+      body: request.url().includes('/whisper') ? null : request.postData()
+    })
+    if (!response) {
+      await route.continue()
+      return
+    }
+
+    await route.fulfill({
+      status: response.status,
+      headers: response.headers,
+      body: typeof response.body === 'string' ? response.body : Buffer.from(response.body)
+    })
+  })
+
+  return {
+    api,
+    async speak(id) {
+      api.expectSpeech(id)
+      await page.evaluate(clip => window.__fixtureMicrophone!.speak(clip), id)
+    }
+  }
+}